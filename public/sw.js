@@ -6,6 +6,11 @@ const CACHE_NAME = 'career-path-lms-v1';
 const STATIC_CACHE = 'static-v1';
 const DYNAMIC_CACHE = 'dynamic-v1';
 
+// Offline test answers (see src/lib/utils/attempt-buffer.ts; keep the names in sync)
+const ATTEMPT_BUFFER_DB = 'career-path-offline';
+const ATTEMPT_BUFFER_STORE = 'attempts';
+const ATTEMPT_SYNC_TAG = 'attempt-sync';
+
 // Resources to cache immediately
 const STATIC_ASSETS = [
     '/',
@@ -34,6 +39,7 @@ const API_CACHE_PATTERNS = {
         /\/api\/payments\//,
         /\/api\/auth\/(?!session)/,
         /\/api\/admin\//,
+        /\/api\/tests\/[^/]+\/(attempt|results)/,
     ],
 };
 
@@ -44,8 +50,10 @@ self.addEventListener('install', (event) => {
     event.waitUntil(
         caches.open(STATIC_CACHE)
             .then((cache) => {
-                // Caching static assets
-                return cache.addAll(STATIC_ASSETS);
+                // Caching static assets; one missing asset must not stop the worker from installing
+                return Promise.all(
+                    STATIC_ASSETS.map((asset) => cache.add(asset).catch(() => undefined))
+                );
             })
             .then(() => {
                 return self.skipWaiting();
@@ -261,6 +269,8 @@ function isCacheValid(response, maxAge) {
 self.addEventListener('sync', (event) => {
     if (event.tag === 'background-sync') {
         event.waitUntil(doBackgroundSync());
+    } else if (event.tag === ATTEMPT_SYNC_TAG) {
+        event.waitUntil(syncBufferedAttempts());
     }
 });
 
@@ -269,6 +279,93 @@ function doBackgroundSync() {
     return Promise.resolve();
 }
 
+// Open the offline answer buffer written by the test page
+function openAttemptBuffer() {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(ATTEMPT_BUFFER_DB, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(ATTEMPT_BUFFER_STORE, { keyPath: 'attemptId' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function runAttemptBuffer(mode, run) {
+    return openAttemptBuffer().then((db) => new Promise((resolve, reject) => {
+        const request = run(db.transaction(ATTEMPT_BUFFER_STORE, mode).objectStore(ATTEMPT_BUFFER_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).finally(() => db.close()));
+}
+
+// Remove a replayed snapshot unless the page buffered a newer one meanwhile
+function clearBufferedAttempt(entry) {
+    return runAttemptBuffer('readonly', (store) => store.get(entry.attemptId))
+        .then((current) => {
+            if (current && current.bufferedAt === entry.bufferedAt) {
+                return runAttemptBuffer('readwrite', (store) => store.delete(entry.attemptId));
+            }
+        });
+}
+
+function notifyClients(message) {
+    return self.clients.matchAll({ type: 'window' })
+        .then((windows) => windows.forEach((client) => client.postMessage(message)));
+}
+
+// Whether a buffered autosave is older than the server's last save (made since on another device or tab)
+function isStaleSnapshot(entry) {
+    if (entry.kind !== 'save') {
+        return Promise.resolve(false);
+    }
+
+    return fetch(`/api/tests/${entry.testId}/attempt`, { credentials: 'same-origin' })
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+            const attempt = data && data.data && data.data.attempt;
+            if (!attempt || attempt.attemptId !== entry.attemptId || !attempt.lastSavedAt) {
+                return false;
+            }
+
+            // Snapshots are stamped with the device clock; shift them onto the server's
+            const clockOffsetMs = new Date(attempt.serverTime).getTime() - Date.now();
+            return new Date(entry.bufferedAt).getTime() + clockOffsetMs < new Date(attempt.lastSavedAt).getTime();
+        });
+}
+
+// Replay buffered autosaves (PATCH) and submits (PUT); submits are idempotent per attempt,
+// and autosaves the server has newer answers for are dropped
+function syncBufferedAttempts() {
+    return runAttemptBuffer('readonly', (store) => store.getAll())
+        .then((entries) => entries.reduce((previous, entry) => previous.then(() => isStaleSnapshot(entry)).then((stale) => stale
+            ? clearBufferedAttempt(entry)
+            : fetch(`/api/tests/${entry.testId}/attempt`, {
+                method: entry.kind === 'submit' ? 'PUT' : 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'same-origin',
+                // Replayed submits say when they were buffered
+                body: JSON.stringify(entry.kind === 'submit' ? Object.assign({}, entry.body, { submittedAt: entry.bufferedAt }) : entry.body),
+            }).then((response) => {
+                // Sign-in problems and server errors keep the answers and let the browser retry
+                if (response.status === 401 || response.status >= 500) {
+                    throw new Error(`Attempt sync failed with status ${response.status}`);
+                }
+
+                return response.json()
+                    .catch(() => null)
+                    .then((data) => clearBufferedAttempt(entry)
+                        .then(() => notifyClients({
+                            type: 'attempt-synced',
+                            attemptId: entry.attemptId,
+                            kind: entry.kind,
+                            status: response.status,
+                            data,
+                        })));
+            })
+        ), Promise.resolve()));
+}
+
 // Push notifications (for future use)
 self.addEventListener('push', (event) => {
     if (event.data) {
@@ -0,0 +1,13 @@
+import AdminQuestionBankManager from '@/components/features/AdminQuestionBankManager';
+
+export default function AdminQuestionBankPage() {
+    return (
+        <div>
+            <div className="mb-6">
+                <h1 className="text-3xl font-bold text-gray-900">Question Bank</h1>
+                <p className="text-gray-600">Tag, search and reuse questions across tests and course quizzes</p>
+            </div>
+            <AdminQuestionBankManager />
+        </div>
+    );
+}
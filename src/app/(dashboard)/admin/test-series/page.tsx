@@ -0,0 +1,13 @@
+import AdminTestSeriesManager from '@/components/features/AdminTestSeriesManager';
+
+export default function AdminTestSeriesPage() {
+    return (
+        <div>
+            <div className="mb-6">
+                <h1 className="text-3xl font-bold text-gray-900">Test Series</h1>
+                <p className="text-gray-600">Sell mock tests together with a release schedule and a series-wide rank</p>
+            </div>
+            <AdminTestSeriesManager />
+        </div>
+    );
+}
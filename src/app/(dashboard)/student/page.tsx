@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import Link from 'next/link';
+import ProfileManagement, { CATEGORY_LABELS } from '@/components/features/ProfileManagement';
 import {
     BookOpen,
     PlayCircle,
@@ -12,7 +14,11 @@ import {
     Trophy,
     User,
     Clock,
-    TrendingUp
+    TrendingUp,
+    Radio,
+    RefreshCw,
+    Layers,
+    Target
 } from 'lucide-react';
 
 interface ProfileData {
@@ -20,9 +26,26 @@ interface ProfileData {
     email: string;
     phone?: string;
     address?: string;
+    category?: 'general' | 'ews' | 'obc' | 'sc' | 'st';
     joinedAt: string;
 }
 
+// Cumulative accuracy, attempt rate and speed for one subject or topic
+interface PerformanceStats {
+    questions: number;
+    attempted: number;
+    correct: number;
+    accuracy: number;
+    attemptRate: number;
+    averageSeconds: number | null;
+    trend: Array<{ month: string; attempted: number; accuracy: number }>;
+}
+
+interface TopicPerformance extends PerformanceStats {
+    subject: string;
+    topic: string;
+}
+
 interface DashboardData {
     courses: Array<{
         _id: string;
@@ -47,13 +70,64 @@ interface DashboardData {
     }>;
     testHistory: Array<{
         _id: string;
+        testId: string;
         testTitle: string;
-        score: number;
+        mode?: 'exam' | 'practice';
+        score: number | null; // null until a scheduled test's results are released
         totalMarks: number;
-        percentage: number;
+        percentage: number | null;
         completedAt: string;
         timeSpent: number;
+        resultsPending?: boolean;
+        resultsReleaseAt?: string | null;
+    }>;
+    activeTests?: Array<{
+        _id: string;
+        testId: string;
+        testTitle: string;
+        mode?: 'exam' | 'practice';
+        answeredCount: number;
+        startedAt: string;
+        deadline: string | null; // null for practice attempts
+    }>;
+    scheduledTests?: Array<{
+        _id: string;
+        title: string;
+        duration: number;
+        attempted: boolean;
+        status: 'open' | 'upcoming' | 'live' | 'completed';
+        startsAt: string | null;
+        lateEntryUntil: string | null;
+        endsAt: string | null;
+        resultsReleaseAt: string | null;
+        resultsReleased: boolean;
+    }>;
+    testSeries?: Array<{
+        _id: string;
+        title: string;
+        exam?: string;
+        totalTests: number;
+        releasedTests: number;
+        testsCompleted: number;
+        nextReleaseAt: string | null;
+    }>;
+    scoreRevisions?: Array<{
+        attemptId: string;
+        testId: string;
+        testTitle: string;
+        previousScore: number;
+        previousTotalMarks: number;
+        score: number;
+        totalMarks: number;
+        reason: string;
+        revisedAt: string;
     }>;
+    performanceProfile?: {
+        subjects: Array<PerformanceStats & { subject: string; topics: number }>;
+        topics: TopicPerformance[];
+        weakestTopics: TopicPerformance[];
+        untaggedQuestions: number;
+    };
     paymentHistory: Array<{
         _id: string;
         totalAmount: number;
@@ -70,6 +144,7 @@ interface DashboardData {
         email: string;
         phone?: string;
         address?: string;
+        category?: ProfileData['category'];
         joinedAt: string;
     };
 }
@@ -154,7 +229,15 @@ export default function StudentDashboard() {
         return null;
     }
 
-    const { courses, books, studyMaterials, testHistory, paymentHistory, profile } = dashboardData;
+    const { courses, books, studyMaterials, testHistory, activeTests = [], scheduledTests = [], testSeries = [], scoreRevisions = [], performanceProfile, paymentHistory, profile } = dashboardData;
+    const scoredTests = testHistory.filter(test => !test.resultsPending && test.mode !== 'practice');
+    const formatScheduleTime = (value: string) =>
+        new Date(value).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+    const formatTrendMonth = (month: string) =>
+        new Date(`${month}-01T00:00:00`).toLocaleDateString([], { month: 'short' });
+    const formatTopicStats = (stats: PerformanceStats) =>
+        `${stats.correct}/${stats.attempted} correct · ${stats.attemptRate}% attempted`
+        + (stats.averageSeconds !== null ? ` · ${stats.averageSeconds}s per question` : '');
 
     return (
         <div className="min-h-screen bg-gray-50 p-4 sm:p-6">
@@ -213,8 +296,8 @@ export default function StudentDashboard() {
                                 <div>
                                     <p className="text-xs sm:text-sm font-medium text-gray-600">Avg. Score</p>
                                     <p className="text-xl sm:text-2xl font-bold text-gray-900">
-                                        {testHistory.length > 0
-                                            ? Math.round(testHistory.reduce((sum, test) => sum + test.percentage, 0) / testHistory.length)
+                                        {scoredTests.length > 0
+                                            ? Math.round(scoredTests.reduce((sum, test) => sum + (test.percentage || 0), 0) / scoredTests.length)
                                             : 0}%
                                     </p>
                                 </div>
@@ -272,6 +355,118 @@ export default function StudentDashboard() {
                         </CardContent>
                     </Card>
 
+                    {/* Live Tests */}
+                    {scheduledTests.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Radio className="h-5 w-5" />
+                                    Live Tests
+                                </CardTitle>
+                                <CardDescription>
+                                    Scheduled tests you are enrolled in
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-2">
+                                    {scheduledTests.map((test) => (
+                                        <div key={test._id} className="flex items-center justify-between p-3 border rounded-lg">
+                                            <div className="flex-1">
+                                                <h3 className="font-medium text-gray-900">{test.title}</h3>
+                                                <p className="text-sm text-gray-500">
+                                                    {test.status === 'upcoming' && test.startsAt && `Starts ${formatScheduleTime(test.startsAt)}`}
+                                                    {test.status === 'live' && test.lateEntryUntil && `Entry closes ${formatScheduleTime(test.lateEntryUntil)}`}
+                                                    {test.status === 'completed' && (test.resultsReleased || !test.resultsReleaseAt
+                                                        ? 'Results are out'
+                                                        : `Results on ${formatScheduleTime(test.resultsReleaseAt)}`)}
+                                                    {` · ${test.duration} min`}
+                                                </p>
+                                            </div>
+                                            <Badge
+                                                variant={test.status === 'live' ? 'destructive' : test.status === 'upcoming' ? 'default' : 'secondary'}
+                                            >
+                                                {test.status === 'live' ? 'Live' : test.status === 'upcoming' ? 'Upcoming' : 'Completed'}
+                                            </Badge>
+                                        </div>
+                                    ))}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {/* Test Series */}
+                    {testSeries.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Layers className="h-5 w-5" />
+                                    My Test Series
+                                </CardTitle>
+                                <CardDescription>
+                                    Your progress through the series you have bought
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-3">
+                                    {testSeries.map((series) => (
+                                        <div key={series._id} className="p-3 border rounded-lg space-y-2">
+                                            <div className="flex items-center justify-between">
+                                                <div>
+                                                    <h3 className="font-medium text-gray-900">{series.title}</h3>
+                                                    <p className="text-sm text-gray-500">
+                                                        {series.testsCompleted}/{series.totalTests} tests taken
+                                                        {series.nextReleaseAt && ` · Next test ${formatScheduleTime(series.nextReleaseAt)}`}
+                                                    </p>
+                                                </div>
+                                                <Link href={`/test-series/${series._id}`}>
+                                                    <Button size="sm" variant="outline">View</Button>
+                                                </Link>
+                                            </div>
+                                            <Progress value={series.totalTests > 0 ? (series.testsCompleted / series.totalTests) * 100 : 0} className="h-2" />
+                                        </div>
+                                    ))}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {/* Score Updates */}
+                    {scoreRevisions.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <RefreshCw className="h-5 w-5" />
+                                    Score Updates
+                                </CardTitle>
+                                <CardDescription>
+                                    Tests re-evaluated after a question was corrected
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-2">
+                                    {scoreRevisions.map((revision) => (
+                                        <div key={`${revision.attemptId}-${revision.revisedAt}`} className="flex items-center justify-between p-3 border rounded-lg">
+                                            <div className="flex-1">
+                                                <h3 className="font-medium text-gray-900">{revision.testTitle}</h3>
+                                                <p className="text-sm text-gray-500">
+                                                    {revision.reason} · {new Date(revision.revisedAt).toLocaleDateString()}
+                                                </p>
+                                            </div>
+                                            <div className="text-right">
+                                                <p className="text-sm text-gray-500 line-through">
+                                                    {revision.previousScore}/{revision.previousTotalMarks}
+                                                </p>
+                                                <p className={`font-medium ${revision.score >= revision.previousScore ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {revision.score}/{revision.totalMarks}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {/* Recent Test Results */}
                     <Card>
                         <CardHeader>
@@ -284,6 +479,22 @@ export default function StudentDashboard() {
                             </CardDescription>
                         </CardHeader>
                         <CardContent>
+                            {activeTests.length > 0 && (
+                                <div className="space-y-2 mb-4">
+                                    {activeTests.map((attempt) => (
+                                        <div key={attempt._id} className="flex items-center justify-between p-3 border border-blue-200 bg-blue-50 rounded-lg">
+                                            <div className="flex-1">
+                                                <h3 className="font-medium text-gray-900">{attempt.testTitle}</h3>
+                                                <p className="text-sm text-gray-500">
+                                                    {attempt.answeredCount} answered
+                                                    {attempt.deadline && ` · ends ${new Date(attempt.deadline).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                                                </p>
+                                            </div>
+                                            <Badge variant="secondary">{attempt.mode === 'practice' ? 'Practising' : 'In progress'}</Badge>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             {testHistory.length === 0 ? (
                                 <p className="text-gray-500 text-center py-8">
                                     No tests taken yet. Start with a mock test to assess your knowledge!
@@ -293,7 +504,10 @@ export default function StudentDashboard() {
                                     {testHistory.slice(0, 3).map((test) => (
                                         <div key={test._id} className="flex items-center justify-between p-4 border rounded-lg">
                                             <div className="flex-1">
-                                                <h3 className="font-medium text-gray-900">{test.testTitle}</h3>
+                                                <h3 className="font-medium text-gray-900">
+                                                    {test.testTitle}
+                                                    {test.mode === 'practice' && <Badge variant="outline" className="ml-2">Practice</Badge>}
+                                                </h3>
                                                 <p className="text-sm text-gray-500">
                                                     {new Date(test.completedAt).toLocaleDateString()}
                                                 </p>
@@ -302,16 +516,32 @@ export default function StudentDashboard() {
                                                     <span className="text-sm text-gray-500">{test.timeSpent} min</span>
                                                 </div>
                                             </div>
-                                            <div className="text-right">
-                                                <div className="flex items-center gap-2">
-                                                    <Badge variant={test.percentage >= 70 ? "default" : test.percentage >= 50 ? "secondary" : "destructive"}>
-                                                        {test.percentage}%
-                                                    </Badge>
+                                            {test.resultsPending || test.percentage === null ? (
+                                                <div className="text-right">
+                                                    <Badge variant="outline">Results pending</Badge>
+                                                    {test.resultsReleaseAt && (
+                                                        <p className="text-sm text-gray-500 mt-1">
+                                                            {formatScheduleTime(test.resultsReleaseAt)}
+                                                        </p>
+                                                    )}
                                                 </div>
-                                                <p className="text-sm text-gray-500 mt-1">
-                                                    {test.score}/{test.totalMarks}
-                                                </p>
-                                            </div>
+                                            ) : (
+                                                <div className="text-right">
+                                                    <div className="flex items-center gap-2">
+                                                        <Badge variant={test.percentage >= 70 ? "default" : test.percentage >= 50 ? "secondary" : "destructive"}>
+                                                            {test.percentage}%
+                                                        </Badge>
+                                                    </div>
+                                                    <p className="text-sm text-gray-500 mt-1">
+                                                        {test.score}/{test.totalMarks}
+                                                    </p>
+                                                    <Button variant="ghost" size="sm" asChild>
+                                                        <Link href={`/student/tests/${test.testId}/review/${test._id}`}>
+                                                            Solutions
+                                                        </Link>
+                                                    </Button>
+                                                </div>
+                                            )}
                                         </div>
                                     ))}
                                     {testHistory.length > 3 && (
@@ -324,6 +554,76 @@ export default function StudentDashboard() {
                         </CardContent>
                     </Card>
 
+                    {/* Topic Performance */}
+                    {performanceProfile && performanceProfile.subjects.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Target className="h-5 w-5" />
+                                    Topic Performance
+                                </CardTitle>
+                                <CardDescription>
+                                    Accuracy by subject and topic across your tests and course quizzes
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-4">
+                                    <div className="space-y-3">
+                                        {performanceProfile.subjects.map((subject) => (
+                                            <div key={subject.subject}>
+                                                <div className="flex items-center justify-between text-sm">
+                                                    <span className="font-medium text-gray-900">{subject.subject}</span>
+                                                    <span className="text-gray-500">{subject.accuracy}% accuracy</span>
+                                                </div>
+                                                <Progress value={subject.accuracy} className="h-2 mt-1" />
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    {subject.topics} topic(s) · {formatTopicStats(subject)}
+                                                </p>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div>
+                                        <h4 className="font-medium text-gray-900 mb-2">Weakest Topics</h4>
+                                        {performanceProfile.weakestTopics.length === 0 ? (
+                                            <p className="text-sm text-gray-500">
+                                                Answer a few more questions per topic to see where to focus.
+                                            </p>
+                                        ) : (
+                                            <div className="space-y-2">
+                                                {performanceProfile.weakestTopics.map((topic) => (
+                                                    <div key={`${topic.subject}-${topic.topic}`} className="p-3 border rounded-lg">
+                                                        <div className="flex items-center justify-between">
+                                                            <div>
+                                                                <h3 className="font-medium text-gray-900">{topic.topic}</h3>
+                                                                <p className="text-sm text-gray-500">{topic.subject}</p>
+                                                            </div>
+                                                            <Badge variant={topic.accuracy >= 70 ? "default" : topic.accuracy >= 50 ? "secondary" : "destructive"}>
+                                                                {topic.accuracy}%
+                                                            </Badge>
+                                                        </div>
+                                                        <p className="text-xs text-gray-500 mt-1">{formatTopicStats(topic)}</p>
+                                                        {topic.trend.length > 1 && (
+                                                            <p className="text-xs text-gray-500 mt-1">
+                                                                Trend: {topic.trend.map(point => `${formatTrendMonth(point.month)} ${point.accuracy}%`).join(' → ')}
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {performanceProfile.untaggedQuestions > 0 && (
+                                        <p className="text-xs text-gray-500">
+                                            {performanceProfile.untaggedQuestions} question(s) without a topic are not counted.
+                                        </p>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {/* Study Materials */}
                     <Card>
                         <CardHeader>
@@ -386,11 +686,12 @@ export default function StudentDashboard() {
                                     <div className="space-y-1 text-sm">
                                         <p><span className="text-gray-500">Email:</span> {profile.email}</p>
                                         {profile.phone && <p><span className="text-gray-500">Phone:</span> {profile.phone}</p>}
+                                        {profile.category && <p><span className="text-gray-500">Category:</span> {CATEGORY_LABELS[profile.category]}</p>}
                                         <p><span className="text-gray-500">Member since:</span> {new Date(profile.joinedAt).toLocaleDateString()}</p>
                                     </div>
-                                    <Button size="sm" variant="outline" className="mt-2">
-                                        Edit Profile
-                                    </Button>
+                                    <div className="mt-2">
+                                        <ProfileManagement profile={profile} onProfileUpdate={handleProfileUpdate} />
+                                    </div>
                                 </div>
 
                                 <div>
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import TestSolutionReview from '@/components/features/TestSolutionReview';
+
+interface AttemptSummary {
+    testId: { _id: string; title: string };
+    score: number;
+    totalMarks: number;
+    percentage: number;
+    revisions?: Array<{
+        previousScore: number;
+        previousTotalMarks: number;
+        score: number;
+        totalMarks: number;
+        reason: string;
+        revisedAt: string;
+    }>;
+}
+
+export default function TestSolutionReviewPage() {
+    const params = useParams();
+    const router = useRouter();
+    const [attempt, setAttempt] = useState<AttemptSummary | null>(null);
+    const [review, setReview] = useState([]);
+    const [solutionsLocked, setSolutionsLocked] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchReview = async () => {
+            try {
+                setLoading(true);
+                const response = await fetch(`/api/tests/${params.id}/results?attemptId=${params.attemptId}`);
+                const data = await response.json();
+
+                if (data.success) {
+                    setAttempt(data.data.attempt);
+                    setReview(data.data.review);
+                    setSolutionsLocked(!!data.data.solutionsLocked);
+                } else {
+                    setError(data.error || 'Failed to load solutions');
+                }
+            } catch (error) {
+                console.error('Error fetching solutions:', error);
+                setError('Failed to load solutions');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        if (params.id && params.attemptId) {
+            fetchReview();
+        }
+    }, [params.id, params.attemptId]);
+
+    if (loading) {
+        return (
+            <div className="container mx-auto px-4 py-8">
+                <div className="animate-pulse space-y-4">
+                    <div className="h-8 bg-muted rounded w-1/3"></div>
+                    <div className="h-64 bg-muted rounded"></div>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !attempt) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center">
+                <h1 className="text-2xl font-bold mb-4">Solutions Unavailable</h1>
+                <p className="text-muted-foreground mb-6">{error || 'This attempt could not be found.'}</p>
+                <Button onClick={() => router.back()}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Go Back
+                </Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 space-y-4">
+            <div className="flex items-center justify-between">
+                <Button variant="ghost" onClick={() => router.push('/student')}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to Dashboard
+                </Button>
+                <span className="text-sm text-gray-600">
+                    Score {attempt.score}/{attempt.totalMarks} ({attempt.percentage}%)
+                </span>
+            </div>
+            {!!attempt.revisions?.length && (
+                <div className="rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-900 space-y-1">
+                    {attempt.revisions.map(revision => (
+                        <p key={revision.revisedAt}>
+                            Re-evaluated on {new Date(revision.revisedAt).toLocaleDateString()} ({revision.reason}):
+                            {` ${revision.previousScore}/${revision.previousTotalMarks} → ${revision.score}/${revision.totalMarks}`}
+                        </p>
+                    ))}
+                </div>
+            )}
+            {solutionsLocked ? (
+                <div className="rounded-md border p-8 text-center">
+                    <h2 className="text-lg font-semibold mb-2">{attempt.testId.title}</h2>
+                    <p className="text-muted-foreground">
+                        Solutions for this test unlock after your final attempt.
+                    </p>
+                </div>
+            ) : (
+                <TestSolutionReview testId={attempt.testId._id} testTitle={attempt.testId.title} review={review} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import BankQuestion from '@/models/BankQuestion';
+import {
+  QUIZ_QUESTION_TYPES,
+  countBankQuestionUsage,
+  pickBankQuestionFields,
+  syncBankQuestion,
+  validateBankQuestion,
+} from '@/lib/utils/question-bank';
+import { ANSWER_KEY_FIELDS, rescoreBankQuestionTests } from '@/lib/utils/test-errata';
+import { getQuestionWording } from '@/lib/utils/test-utils';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/questions/[id] - Get a bank question with its usage
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const question = await BankQuestion.findById(params.id).lean();
+
+    if (!question) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      question,
+      usage: await countBankQuestionUsage(params.id),
+    });
+  } catch (error) {
+    console.error('Get bank question error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch question' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/questions/[id] - Update a bank question and every linked copy
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const question = await BankQuestion.findById(params.id);
+
+    if (!question) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    const fields = pickBankQuestionFields(await request.json());
+    const saved = question.toObject();
+    const errors = validateBankQuestion({ ...saved, ...fields }, new Set(getQuestionWording(saved)));
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Course quizzes can only hold single-correct questions
+    const type = (fields.type as string | undefined) ?? question.type;
+    if (!QUIZ_QUESTION_TYPES.includes(type)) {
+      const usage = await countBankQuestionUsage(params.id);
+      if (usage.courses > 0) {
+        return NextResponse.json(
+          { success: false, error: 'This question is used in course quizzes, which only support single-correct and true/false questions' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const keyOf = () => JSON.stringify([question.type, ...ANSWER_KEY_FIELDS.map(field => question.get(field) ?? null)]);
+    const keyBefore = keyOf();
+
+    question.set(fields);
+    await question.save();
+
+    const synced = await syncBankQuestion(question);
+
+    // Tests using the question re-score their submitted attempts against the new key
+    if (keyOf() !== keyBefore) {
+      await rescoreBankQuestionTests(question._id, 'Answer key corrected in the question bank');
+    }
+
+    return NextResponse.json({
+      success: true,
+      question,
+      synced,
+    });
+  } catch (error) {
+    console.error('Update bank question error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update question' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/questions/[id] - Delete an unused bank question
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const usage = await countBankQuestionUsage(params.id);
+
+    if (usage.tests > 0 || usage.courses > 0) {
+      return NextResponse.json(
+        { success: false, error: `Question is used in ${usage.tests} test(s) and ${usage.courses} course(s); deactivate it instead` },
+        { status: 409 }
+      );
+    }
+
+    const question = await BankQuestion.findByIdAndDelete(params.id);
+
+    if (!question) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Question deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete bank question error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete question' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import BankQuestion from '@/models/BankQuestion';
+import {
+  buildBankQuestionQuery,
+  pickBankQuestionFields,
+  validateBankQuestion,
+} from '@/lib/utils/question-bank';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/questions - Search the question bank
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20'), 1), 100);
+    const skip = (page - 1) * limit;
+
+    const sourceYear = parseInt(searchParams.get('sourceYear') || '');
+    const isActive = searchParams.get('isActive');
+
+    const filter = buildBankQuestionQuery({
+      q: searchParams.get('q') || undefined,
+      subject: searchParams.get('subject') || undefined,
+      topic: searchParams.get('topic') || undefined,
+      subtopic: searchParams.get('subtopic') || undefined,
+      difficulty: searchParams.get('difficulty') || undefined,
+      type: searchParams.get('type') || undefined,
+      examTag: searchParams.get('examTag') || undefined,
+      sourceYear: Number.isNaN(sourceYear) ? undefined : sourceYear,
+      language: searchParams.get('language') || undefined,
+      isActive: isActive === null ? undefined : isActive === 'true',
+    });
+
+    const [questions, total, subjects, topics, examTags] = await Promise.all([
+      BankQuestion.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      BankQuestion.countDocuments(filter),
+      BankQuestion.distinct('subject'),
+      BankQuestion.distinct('topic'),
+      BankQuestion.distinct('examTags'),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      questions,
+      facets: { subjects, topics, examTags },
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Get bank questions error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch questions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/questions - Add a question to the bank
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const fields = pickBankQuestionFields(await request.json());
+    const errors = validateBankQuestion(fields);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const question = new BankQuestion({
+      ...fields,
+      createdBy: session.user.id,
+    });
+
+    await question.save();
+
+    return NextResponse.json({
+      success: true,
+      question,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create bank question error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create question' },
+      { status: 500 }
+    );
+  }
+}
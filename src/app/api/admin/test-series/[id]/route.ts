@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import TestSeries from '@/models/TestSeries';
+import {
+  countSeriesPurchases,
+  pickTestSeriesFields,
+  validateSeriesTestsExist,
+  validateTestSeries,
+} from '@/lib/utils/test-series';
+
+export const dynamic = 'force-dynamic';
+
+// PUT /api/admin/test-series/[id] - Update a test series
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid series ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const series = await TestSeries.findById(params.id);
+
+    if (!series) {
+      return NextResponse.json(
+        { success: false, error: 'Test series not found' },
+        { status: 404 }
+      );
+    }
+
+    const fields = pickTestSeriesFields(await request.json());
+    const merged = { ...series.toObject(), ...fields };
+    const errors = validateTestSeries(merged);
+
+    if (errors.length === 0 && fields.tests) {
+      errors.push(...await validateSeriesTestsExist(fields.tests as any[]));
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    series.set(fields);
+    await series.save();
+
+    return NextResponse.json({
+      success: true,
+      data: series,
+    });
+  } catch (error) {
+    console.error('Update test series error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update test series' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/test-series/[id] - Delete a series nobody has bought
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid series ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Buyers keep access through their orders, so a sold series can only be deactivated
+    const purchases = (await countSeriesPurchases([params.id]))[params.id] || 0;
+
+    if (purchases > 0) {
+      return NextResponse.json(
+        { success: false, error: `Series has been bought ${purchases} time(s); deactivate it instead` },
+        { status: 409 }
+      );
+    }
+
+    const series = await TestSeries.findByIdAndDelete(params.id);
+
+    if (!series) {
+      return NextResponse.json(
+        { success: false, error: 'Test series not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Test series deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete test series error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete test series' },
+      { status: 500 }
+    );
+  }
+}
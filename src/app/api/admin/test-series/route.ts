@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import TestSeries from '@/models/TestSeries';
+import {
+  countSeriesPurchases,
+  pickTestSeriesFields,
+  validateSeriesTestsExist,
+  validateTestSeries,
+} from '@/lib/utils/test-series';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/test-series - List every series with its test titles and purchases
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const seriesList = await TestSeries.find({})
+      .populate('tests.testId', 'title duration isActive')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const purchases = await countSeriesPurchases(seriesList.map((series: any) => series._id));
+
+    return NextResponse.json({
+      success: true,
+      data: seriesList.map((series: any) => ({
+        ...series,
+        purchaseCount: purchases[series._id.toString()] || 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Get test series error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch test series' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/test-series - Create a test series
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const fields = pickTestSeriesFields(await request.json());
+    const errors = validateTestSeries(fields);
+
+    await connectDB();
+
+    if (errors.length === 0) {
+      errors.push(...await validateSeriesTestsExist(fields.tests as any[]));
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const series = new TestSeries({
+      ...fields,
+      createdBy: session.user.id,
+    });
+
+    await series.save();
+
+    return NextResponse.json({
+      success: true,
+      data: series,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create test series error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create test series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import { finalizeExpiredAttempts } from '@/lib/utils/test-attempts';
+import { serializeProctoringEvents } from '@/lib/utils/test-proctoring';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_ATTEMPTS_LISTED = 200;
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/admin/tests/[id]/attempts - Completed attempts with results and proctoring logs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    const flaggedOnly = new URL(request.url).searchParams.get('flagged') === 'true';
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id).select('title proctored maxViolations').lean();
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    await finalizeExpiredAttempts({ testId: params.id });
+
+    const attempts = await TestAttempt.find({
+      testId: params.id,
+      status: { $ne: 'in-progress' },
+      ...(flaggedOnly && { 'proctoringEvents.0': { $exists: true } })
+    })
+      .select('userId mode score totalMarks timeSpent completedAt autoSubmitted autoSubmitReason proctoringEvents')
+      .populate('userId', 'name email')
+      .sort({ completedAt: -1 })
+      .limit(MAX_ATTEMPTS_LISTED)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        testTitle: test.title,
+        proctored: !!test.proctored,
+        maxViolations: test.maxViolations || 0,
+        attempts: attempts.map((attempt: any) => ({
+          attemptId: attempt._id.toString(),
+          userName: attempt.userId?.name || 'Deleted user',
+          userEmail: attempt.userId?.email || '',
+          mode: attempt.mode || 'exam',
+          score: attempt.score,
+          totalMarks: attempt.totalMarks,
+          percentage: attempt.totalMarks > 0 ? Math.round((attempt.score / attempt.totalMarks) * 100) : 0,
+          timeSpent: attempt.timeSpent,
+          completedAt: attempt.completedAt,
+          autoSubmitted: attempt.autoSubmitted,
+          autoSubmitReason: attempt.autoSubmitReason,
+          events: serializeProctoringEvents(attempt)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Test attempts error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch test attempts' },
+      { status: 500 }
+    );
+  }
+}
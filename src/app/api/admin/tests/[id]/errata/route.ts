@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import BankQuestion from '@/models/BankQuestion';
+import { ERRATA_ACTIONS, ErrataAction } from '@/models/QuestionReport';
+import { syncBankQuestion } from '@/lib/utils/question-bank';
+import {
+  ERRATA_ACTION_LABELS,
+  applyErrataAction,
+  findTestQuestion,
+  getScoringSignature,
+  pickAnswerKey,
+  rescoreBankQuestionTests,
+  resolveQuestionReports,
+  startRescore,
+} from '@/lib/utils/test-errata';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/admin/tests/[id]/errata - Resolve a question's reports and re-score affected attempts
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const action = body.action as ErrataAction;
+
+    if (!body.questionId || !ERRATA_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id);
+    const found = test ? findTestQuestion(test, String(body.questionId)) : null;
+
+    if (!test || !found) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    const before = getScoringSignature(test);
+    const key = pickAnswerKey(body);
+    const errors = applyErrataAction(found.question, action, key);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const reason = `${ERRATA_ACTION_LABELS[action]}: ${found.label}`;
+    const bankQuestionId = found.question.bankQuestionId;
+    let testsRescored = 0;
+
+    if (action === 'key-changed' && bankQuestionId) {
+      // A linked question's key lives in the bank: fix it there so every test using it is corrected
+      const bankQuestion = await BankQuestion.findById(bankQuestionId);
+      if (bankQuestion) {
+        bankQuestion.set(key);
+        await bankQuestion.save();
+        await syncBankQuestion(bankQuestion);
+        testsRescored = await rescoreBankQuestionTests(bankQuestionId, reason);
+      }
+    }
+
+    if (testsRescored === 0) {
+      await test.save();
+
+      if (getScoringSignature(test) !== before) {
+        await startRescore(test._id, reason);
+        testsRescored = 1;
+      }
+    }
+
+    const reportsResolved = await resolveQuestionReports(
+      params.id,
+      String(body.questionId),
+      action,
+      session.user.id,
+      body.adminNote
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reportsResolved,
+        testsRescored,
+      }
+    });
+  } catch (error) {
+    console.error('Resolve question errata error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resolve reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import { generateSlug } from '@/lib/utils/slug-generator';
+import { exportTestQuestions } from '@/lib/utils/test-import';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/admin/tests/[id]/export - Download a test's questions in the import format
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    const format = new URL(request.url).searchParams.get('format') === 'json' ? 'json' : 'csv';
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id).lean() as any;
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    const filename = `${generateSlug(test.title) || 'test'}.${format}`;
+
+    return new NextResponse(exportTestQuestions(test.sections, format), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export test error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export test' },
+      { status: 500 }
+    );
+  }
+}
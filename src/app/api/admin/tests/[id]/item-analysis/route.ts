@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import { finalizeExpiredAttempts } from '@/lib/utils/test-attempts';
+import { getItemAnalysis } from '@/lib/utils/test-item-analysis';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/admin/tests/[id]/item-analysis - Per-question difficulty, discrimination and distractor statistics
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id).select('title sections').lean();
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    // Auto-finalise overdue attempts so they are included
+    await finalizeExpiredAttempts({ testId: params.id });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        testTitle: test.title,
+        ...(await getItemAnalysis(test))
+      }
+    });
+  } catch (error) {
+    console.error('Item analysis error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to analyse test questions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import { generateSlug } from '@/lib/utils/slug-generator';
+import { generatePrintHTML, PaperSet, PAPER_SETS, PrintDocument, PRINT_DOCUMENTS } from '@/lib/utils/test-print';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// GET /api/admin/tests/[id]/print - Print-ready question paper, answer key or solution booklet for a set
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const document = (searchParams.get('document') || 'paper') as PrintDocument;
+    const set = (searchParams.get('set') || 'A').toUpperCase() as PaperSet;
+
+    if (!PRINT_DOCUMENTS.includes(document)) {
+      return NextResponse.json(
+        { success: false, error: `Document must be one of: ${PRINT_DOCUMENTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!PAPER_SETS.includes(set)) {
+      return NextResponse.json(
+        { success: false, error: `Set must be one of: ${PAPER_SETS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id).lean() as any;
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    const html = generatePrintHTML(test, document, {
+      set,
+      bilingual: searchParams.get('bilingual') === 'true',
+    });
+    const filename = `${generateSlug(test.title) || 'test'}-${document}-set-${set.toLowerCase()}.html`;
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Print test error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate printable test' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import { isRescoreRetryable, startRescore } from '@/lib/utils/test-errata';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// POST /api/admin/tests/[id]/rescore - Retry a failed or abandoned re-score of submitted attempts
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id).select('rescore').lean();
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isRescoreRetryable(test.rescore)) {
+      return NextResponse.json(
+        { success: false, error: 'There is no failed or stalled re-score to retry' },
+        { status: 409 }
+      );
+    }
+
+    await startRescore(test._id, test.rescore!.reason);
+
+    const updated = await MockTest.findById(params.id).select('rescore').lean();
+
+    return NextResponse.json({
+      success: true,
+      data: updated?.rescore
+    });
+  } catch (error) {
+    console.error('Retry re-score error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to re-score attempts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import { getErrataQueue } from '@/lib/utils/test-errata';
+
+export const dynamic = 'force-dynamic';
+
+const REPORT_STATUSES = ['open', 'accepted', 'rejected'] as const;
+
+// GET /api/admin/tests/errata - Reported questions grouped for review (?status=open|accepted|rejected)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const status = new URL(request.url).searchParams.get('status') || 'open';
+
+    if (!REPORT_STATUSES.includes(status as typeof REPORT_STATUSES[number])) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    return NextResponse.json({
+      success: true,
+      data: await getErrataQueue(status as typeof REPORT_STATUSES[number]),
+    });
+  } catch (error) {
+    console.error('Get errata queue error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reported questions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import { generateTestFromBlueprint, validateBlueprint } from '@/lib/utils/test-blueprint';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/tests/generate - Draw a test preview from the question bank using a blueprint
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const blueprint = await request.json();
+    const errors = validateBlueprint(blueprint);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Nothing is saved here; the admin publishes the preview through POST /api/tests
+    const { sections, shortfalls } = await generateTestFromBlueprint(blueprint);
+
+    return NextResponse.json({
+      success: true,
+      sections,
+      shortfalls,
+      totalQuestions: sections.reduce((total, section) => total + section.questions.length, 0),
+    });
+  } catch (error) {
+    console.error('Generate test error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate test' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import { validateTestStructure } from '@/lib/utils/test-utils';
+import { groupRowsIntoSections, parseImportFile } from '@/lib/utils/test-import';
+import { getScoringSignature, startRescore } from '@/lib/utils/test-errata';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/tests/import - Import questions from CSV/JSON into a new or existing test
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { format, content, testId, title, description, duration, price, dryRun } = await request.json();
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'File content is required' },
+        { status: 400 }
+      );
+    }
+
+    const { rows, errors, error } = parseImportFile(content, format);
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
+
+    const sections = groupRowsIntoSections(rows);
+    const report = {
+      totalRows: rows.length + errors.length,
+      validRows: rows.length,
+      errors,
+      sections: sections.map(section => ({ title: section.title, questions: section.questions.length })),
+    };
+
+    // Validation only: report problems without touching any test
+    if (dryRun) {
+      return NextResponse.json({ success: true, report });
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `${errors.length} row(s) have errors`, report },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    if (testId) {
+      if (!mongoose.Types.ObjectId.isValid(testId)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid test ID' },
+          { status: 400 }
+        );
+      }
+
+      const test = await MockTest.findById(testId);
+      if (!test) {
+        return NextResponse.json(
+          { success: false, error: 'Test not found' },
+          { status: 404 }
+        );
+      }
+
+      const scoringBefore = getScoringSignature(test);
+
+      // Append to sections with the same title, adding new sections for the rest
+      sections.forEach(imported => {
+        const existing = test.sections.find(
+          (section: any) => section.title.toLowerCase() === imported.title.toLowerCase()
+        );
+        if (existing) {
+          existing.questions.push(...(imported.questions as any[]));
+        } else {
+          test.sections.push(imported as any);
+        }
+      });
+
+      const validation = validateTestStructure(test.toObject());
+      if (!validation.isValid) {
+        return NextResponse.json(
+          { success: false, error: `Validation failed: ${validation.errors.join(', ')}`, report },
+          { status: 400 }
+        );
+      }
+
+      await test.save();
+
+      // New questions change the totals of attempts already submitted
+      if (getScoringSignature(test) !== scoringBefore) {
+        await startRescore(test._id, 'Questions imported');
+      }
+
+      return NextResponse.json({
+        success: true,
+        test: { _id: test._id, title: test.title },
+        imported: rows.length,
+        report,
+      });
+    }
+
+    const testData = {
+      title,
+      description,
+      duration: Number(duration),
+      price: Number(price) || 0,
+      sections,
+    };
+
+    const validation = validateTestStructure(testData as any);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${validation.errors.join(', ')}`, report },
+        { status: 400 }
+      );
+    }
+
+    const test = new MockTest({ ...testData, isActive: true });
+    await test.save();
+
+    return NextResponse.json({
+      success: true,
+      test: { _id: test._id, title: test.title },
+      imported: rows.length,
+      report,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Import test error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import questions' },
+      { status: 500 }
+    );
+  }
+}
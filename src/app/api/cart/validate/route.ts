@@ -3,13 +3,14 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import connectDB from '@/lib/db/mongodb';
 import Course from '@/models/Course';
+import TestSeries from '@/models/TestSeries';
 
 export const dynamic = 'force-dynamic';
 
 export interface ValidateCartRequest {
   items: Array<{
     id: string;
-    type: 'course' | 'book' | 'material' | 'test';
+    type: 'course' | 'book' | 'material' | 'test' | 'test-series';
     price: number;
   }>;
 }
@@ -66,6 +67,16 @@ export async function POST(request: NextRequest) {
             }
             break;
 
+          case 'test-series':
+            const series = await TestSeries.findById(item.id).select('price isActive');
+            if (series && series.isActive) {
+              exists = true;
+              currentPrice = series.price;
+              isValid = Math.abs(series.price - item.price) < 0.01;
+              validationData[`${item.type}_${item.id}`] = series.price;
+            }
+            break;
+
           case 'book':
           case 'material':
           case 'test':
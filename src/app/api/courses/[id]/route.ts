@@ -3,6 +3,7 @@ import connectDB from '@/lib/db/mongodb';
 import Course from '@/models/Course';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { resolveCourseBankReferences } from '@/lib/utils/question-bank';
 
 export const dynamic = 'force-dynamic';
 import mongoose from 'mongoose';
@@ -73,7 +74,18 @@ export async function PUT(
     }
     
     const body = await request.json();
-    const { title, description, price, thumbnail, sections, isActive } = body;
+    const { title, description, price, thumbnail, isActive } = body;
+    
+    // Fill quiz questions that reference the question bank
+    const resolved = body.sections !== undefined ? await resolveCourseBankReferences(body.sections) : undefined;
+    const sections = resolved?.sections;
+    
+    if (resolved && resolved.errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${resolved.errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
     
     // Validate sections structure if provided
     if (sections && Array.isArray(sections)) {
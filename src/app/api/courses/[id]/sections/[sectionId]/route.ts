@@ -3,6 +3,7 @@ import connectDB from '@/lib/db/mongodb';
 import Course from '@/models/Course';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { resolveQuizBankReferences } from '@/lib/utils/question-bank';
 
 export const dynamic = 'force-dynamic';
 import mongoose from 'mongoose';
@@ -84,7 +85,17 @@ export async function PUT(
     }
     
     const body = await request.json();
-    const { title, order, videos, materials, quizzes } = body;
+    const { title, order, videos, materials } = body;
+    
+    // Fill quiz questions that reference the question bank
+    const { quizzes, errors: referenceErrors } = await resolveQuizBankReferences(body.quizzes);
+    
+    if (referenceErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${referenceErrors.join(', ')}` },
+        { status: 400 }
+      );
+    }
     
     // Build update object
     const updateFields: any = {};
@@ -92,7 +103,7 @@ export async function PUT(
     if (order !== undefined) updateFields['sections.$.order'] = order;
     if (videos !== undefined) updateFields['sections.$.videos'] = videos;
     if (materials !== undefined) updateFields['sections.$.materials'] = materials;
-    if (quizzes !== undefined) updateFields['sections.$.quizzes'] = quizzes;
+    if (body.quizzes !== undefined) updateFields['sections.$.quizzes'] = quizzes;
     
     const course = await Course.findOneAndUpdate(
       { _id: id, 'sections._id': sectionId },
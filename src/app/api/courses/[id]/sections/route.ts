@@ -3,6 +3,7 @@ import connectDB from '@/lib/db/mongodb';
 import Course from '@/models/Course';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import { resolveQuizBankReferences } from '@/lib/utils/question-bank';
 
 export const dynamic = 'force-dynamic';
 import mongoose from 'mongoose';
@@ -76,7 +77,17 @@ export async function POST(
     }
     
     const body = await request.json();
-    const { title, order, videos, materials, quizzes } = body;
+    const { title, order, videos, materials } = body;
+    
+    // Fill quiz questions that reference the question bank
+    const { quizzes, errors: referenceErrors } = await resolveQuizBankReferences(body.quizzes);
+    
+    if (referenceErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${referenceErrors.join(', ')}` },
+        { status: 400 }
+      );
+    }
     
     // Validate required fields
     if (!title || order === undefined) {
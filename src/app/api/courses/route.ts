@@ -16,6 +16,7 @@ import {
   ensureCompleteCourseDelivery,
   validateContentCompleteness,
 } from '@/lib/utils/content-delivery';
+import { resolveCourseBankReferences } from '@/lib/utils/question-bank';
 
 export const dynamic = 'force-dynamic';
 
@@ -73,6 +74,13 @@ export async function POST(request: NextRequest) {
       return createValidationErrorResponse(`Missing required fields: ${missingFields.join(', ')}`);
     }
     
+    // Fill quiz questions that reference the question bank
+    const { sections: resolvedSections, errors: referenceErrors } = await resolveCourseBankReferences(body.sections);
+    if (referenceErrors.length > 0) {
+      return createValidationErrorResponse(referenceErrors);
+    }
+    if (body.sections !== undefined) body.sections = resolvedSections;
+    
     // Validate content completeness
     const contentErrors = validateContentCompleteness(body, 'course');
     if (contentErrors.length > 0) {
@@ -16,6 +16,7 @@ import {
   ensureCompleteTestDelivery,
   validateContentCompleteness,
 } from '@/lib/utils/content-delivery';
+import { resolveTestBankReferences } from '@/lib/utils/question-bank';
 
 export const dynamic = 'force-dynamic';
 
@@ -33,7 +34,7 @@ export async function GET(request: NextRequest) {
     }
     
     const tests = await MockTest.find(query)
-      .select('title description price duration sections isActive createdAt')
+      .select('title description price duration sections markingScheme sectionalTiming evaluateMarkedAnswers rankingPolicy maxAttempts retakeCooldownMinutes solutionsAfterFinalAttempt startsAt lateEntryUntil endsAt resultsReleaseAt proctored maxViolations practiceMode practiceQuestionSeconds cutoffs isActive createdAt')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
@@ -42,7 +43,10 @@ export async function GET(request: NextRequest) {
     const total = await MockTest.countDocuments(query);
     
     // Ensure complete content delivery for each test
-    const completeTests = tests.map(ensureCompleteTestDelivery);
+    // Only admins receive the answer key and explanations
+    const session = await getServerSession(authOptions);
+    const includeAnswerKey = session?.user.role === 'admin';
+    const completeTests = tests.map(test => ensureCompleteTestDelivery(test, includeAnswerKey));
     
     return createSuccessResponse(
       { tests: completeTests },
@@ -73,13 +77,43 @@ export async function POST(request: NextRequest) {
       return createValidationErrorResponse(`Missing required fields: ${missingFields.join(', ')}`);
     }
     
+    // Fill questions that reference the question bank
+    const { sections: resolvedSections, errors: referenceErrors } = await resolveTestBankReferences(body.sections);
+    if (referenceErrors.length > 0) {
+      return createValidationErrorResponse(referenceErrors);
+    }
+    body.sections = resolvedSections;
+    
     // Validate content completeness
     const contentErrors = validateContentCompleteness(body, 'test');
     if (contentErrors.length > 0) {
       return createValidationErrorResponse(contentErrors);
     }
     
-    const { title, description, duration, price, sections, isActive } = body;
+    const {
+      title,
+      description,
+      duration,
+      price,
+      sections,
+      markingScheme,
+      sectionalTiming,
+      evaluateMarkedAnswers,
+      rankingPolicy,
+      maxAttempts,
+      retakeCooldownMinutes,
+      solutionsAfterFinalAttempt,
+      startsAt,
+      lateEntryUntil,
+      endsAt,
+      resultsReleaseAt,
+      proctored,
+      maxViolations,
+      practiceMode,
+      practiceQuestionSeconds,
+      cutoffs,
+      isActive
+    } = body;
     
     const test = new MockTest({
       title,
@@ -87,13 +121,29 @@ export async function POST(request: NextRequest) {
       duration,
       price: price || 0,
       sections: sections || [],
+      markingScheme,
+      sectionalTiming,
+      evaluateMarkedAnswers,
+      rankingPolicy,
+      maxAttempts,
+      retakeCooldownMinutes,
+      solutionsAfterFinalAttempt,
+      startsAt: startsAt || undefined,
+      lateEntryUntil: lateEntryUntil || undefined,
+      endsAt: endsAt || undefined,
+      resultsReleaseAt: resultsReleaseAt || undefined,
+      proctored,
+      maxViolations,
+      practiceMode,
+      practiceQuestionSeconds,
+      cutoffs,
       isActive: isActive !== undefined ? isActive : true
     });
     
     await test.save();
     
     // Ensure complete content delivery
-    const completeTest = ensureCompleteTestDelivery(test);
+    const completeTest = ensureCompleteTestDelivery(test, true);
     
     return createSuccessResponse(
       completeTest,
@@ -9,7 +9,7 @@ export const dynamic = 'force-dynamic';
 
 export interface CreateOrderRequest {
   items: Array<{
-    type: 'course' | 'book' | 'material' | 'test';
+    type: 'course' | 'book' | 'material' | 'test' | 'test-series';
     itemId: string;
     price: number;
     title: string;
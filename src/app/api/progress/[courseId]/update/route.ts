@@ -9,7 +9,7 @@ export const dynamic = 'force-dynamic';
 import { 
   updateVideoProgress,
   markMaterialAccessed,
-  markQuizCompleted,
+  recordQuizResult,
   generateProgressSummary,
   validateProgressIntegrity
 } from '@/lib/utils/progress-tracking';
@@ -48,7 +48,7 @@ export async function POST(
       watchedDuration, 
       totalDuration, 
       completed,
-      score 
+      answers
     } = body;
 
     // Validate required fields
@@ -112,7 +112,14 @@ export async function POST(
           break;
 
         case 'quiz':
-          progress = markQuizCompleted(progress, sectionId, itemId, score);
+          // Quizzes are graded here from the answers; a client score is never stored
+          if (!Array.isArray(answers)) {
+            return NextResponse.json(
+              { success: false, error: 'answers are required for quiz progress' },
+              { status: 400 }
+            );
+          }
+          progress = recordQuizResult(progress, course as any, sectionId, itemId, answers);
           break;
 
         default:
@@ -223,7 +230,7 @@ export async function PUT(
     // Process each update
     for (const update of updates) {
       try {
-        const { type, sectionId, itemId, watchedDuration, totalDuration, score } = update;
+        const { type, sectionId, itemId, watchedDuration, totalDuration, answers } = update;
 
         if (!type || !sectionId || !itemId) {
           errors.push(`Missing required fields in update: ${JSON.stringify(update)}`);
@@ -252,8 +259,12 @@ export async function PUT(
             break;
 
           case 'quiz':
-            progress = markQuizCompleted(progress, sectionId, itemId, score);
-            results.push({ type, itemId, status: 'completed', score });
+            if (!Array.isArray(answers)) {
+              errors.push(`answers are required for quiz progress: ${itemId}`);
+              continue;
+            }
+            progress = recordQuizResult(progress, course as any, sectionId, itemId, answers);
+            results.push({ type, itemId, status: 'completed' });
             break;
 
           default:
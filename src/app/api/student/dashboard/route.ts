@@ -7,6 +7,11 @@ import Order from '@/models/Order';
 import Course from '@/models/Course';
 import MockTest, { TestAttempt } from '@/models/MockTest';
 import CourseProgress from '@/models/Progress';
+import TestSeries from '@/models/TestSeries';
+import { finalizeExpiredAttempts, getStoredAnswers } from '@/lib/utils/test-attempts';
+import { areResultsReleased, serializeSchedule } from '@/lib/utils/test-schedule';
+import { isSeriesTestReleased } from '@/lib/utils/test-series';
+import { getPerformanceProfile } from '@/lib/utils/topic-performance';
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -18,6 +23,9 @@ import {
 
 export const dynamic = 'force-dynamic';
 
+// Score changes from question errata stay on the dashboard for this long
+const SCORE_REVISION_NOTICE_DAYS = 30;
+
 export async function GET(request: NextRequest) {
   return handleApiRoute(async () => {
     const session = await getServerSession(authOptions);
@@ -67,6 +75,17 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // A series granted on purchase unlocks every test in it
+    const purchasedSeriesIds = user.testSeries || [];
+    const purchasedSeries = purchasedSeriesIds.length > 0
+      ? await TestSeries.find({ _id: { $in: purchasedSeriesIds } }).select('title exam tests')
+      : [];
+    for (const series of purchasedSeries) {
+      for (const entry of series.tests) {
+        purchasedTestIds.push(entry.testId);
+      }
+    }
+
     // Get purchased courses with progress
     const courses = [];
     if (purchasedCourseIds.length > 0) {
@@ -119,21 +138,110 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Auto-finalise attempts whose deadline has passed
+    await finalizeExpiredAttempts({ userId });
+
     // Get test history
-    const testAttempts = await TestAttempt.find({ userId })
-      .populate('testId', 'title')
+    const testAttempts = await TestAttempt.find({ userId, status: { $ne: 'in-progress' } })
+      .populate('testId', 'title resultsReleaseAt')
       .sort({ completedAt: -1 });
 
-    const testHistory = testAttempts.map(attempt => ({
-      _id: attempt._id.toString(),
-      testTitle: attempt.testId.title,
-      score: attempt.score,
-      totalMarks: attempt.totalMarks,
-      percentage: Math.round((attempt.score / attempt.totalMarks) * 100),
-      completedAt: attempt.completedAt.toISOString(),
-      timeSpent: attempt.timeSpent
+    // Scores of scheduled tests stay hidden until their release time
+    const testHistory = testAttempts.map(attempt => {
+      const resultsPending = !areResultsReleased(attempt.testId);
+      return {
+        _id: attempt._id.toString(),
+        testId: attempt.testId._id.toString(),
+        testTitle: attempt.testId.title,
+        mode: attempt.mode || 'exam',
+        score: resultsPending ? null : attempt.score,
+        totalMarks: attempt.totalMarks,
+        percentage: resultsPending ? null : Math.round((attempt.score / attempt.totalMarks) * 100),
+        completedAt: attempt.completedAt.toISOString(),
+        timeSpent: attempt.timeSpent,
+        resultsPending,
+        resultsReleaseAt: resultsPending ? attempt.testId.resultsReleaseAt.toISOString() : null
+      };
+    });
+    // Practice attempts are listed but stay out of the averages and progress
+    const scoredTests = testHistory.filter(test => !test.resultsPending && test.mode !== 'practice');
+    const examHistory = testHistory.filter(test => test.mode !== 'practice');
+
+    // Recent re-evaluations of submitted attempts (answer key corrections, bonus or dropped questions)
+    const revisionsSince = Date.now() - SCORE_REVISION_NOTICE_DAYS * 24 * 60 * 60 * 1000;
+    const scoreRevisions = testAttempts
+      .filter(attempt => areResultsReleased(attempt.testId))
+      .flatMap(attempt => (attempt.revisions || [])
+        .filter((revision: any) => new Date(revision.revisedAt).getTime() >= revisionsSince)
+        .map((revision: any) => ({
+          attemptId: attempt._id.toString(),
+          testId: attempt.testId._id.toString(),
+          testTitle: attempt.testId.title,
+          previousScore: revision.previousScore,
+          previousTotalMarks: revision.previousTotalMarks,
+          score: revision.score,
+          totalMarks: revision.totalMarks,
+          reason: revision.reason,
+          revisedAt: new Date(revision.revisedAt).toISOString()
+        })))
+      .sort((a, b) => b.revisedAt.localeCompare(a.revisedAt));
+
+    // Progress through purchased series; the series page has per-test ranks and the cumulative rank
+    const now = new Date();
+    const testSeries = purchasedSeries.map(series => {
+      const upcoming = series.tests
+        .filter((entry: any) => !isSeriesTestReleased(entry, now))
+        .map((entry: any) => new Date(entry.releaseAt).getTime());
+      const testsCompleted = series.tests
+        .filter((entry: any) => examHistory.some(attempt => attempt.testId === entry.testId.toString()))
+        .length;
+
+      return {
+        _id: series._id.toString(),
+        title: series.title,
+        exam: series.exam,
+        totalTests: series.tests.length,
+        releasedTests: series.tests.length - upcoming.length,
+        testsCompleted,
+        nextReleaseAt: upcoming.length > 0 ? new Date(Math.min(...upcoming)).toISOString() : null
+      };
+    });
+
+    // Live tests the student has bought, in schedule order
+    const scheduledTestDocs = purchasedTestIds.length > 0
+      ? await MockTest.find({ _id: { $in: purchasedTestIds }, isActive: true, startsAt: { $exists: true } })
+        .select('title duration startsAt lateEntryUntil endsAt resultsReleaseAt')
+        .sort({ startsAt: 1 })
+      : [];
+
+    const scheduledTests = scheduledTestDocs.map(test => ({
+      _id: test._id.toString(),
+      title: test.title,
+      duration: test.duration,
+      attempted: examHistory.some(attempt => attempt.testId === test._id.toString()),
+      ...serializeSchedule(test)
     }));
 
+    // Accuracy, attempt rate and speed per subject and topic across tests and course quizzes
+    const performanceProfile = await getPerformanceProfile(userId);
+
+    // Get in-progress attempts that can be resumed
+    const inProgressAttempts = await TestAttempt.find({ userId, status: 'in-progress' })
+      .populate('testId', 'title')
+      .sort({ startedAt: -1 });
+
+    const activeTests = inProgressAttempts
+      .filter(attempt => attempt.testId)
+      .map(attempt => ({
+        _id: attempt._id.toString(),
+        testId: attempt.testId._id.toString(),
+        testTitle: attempt.testId.title,
+        mode: attempt.mode || 'exam',
+        answeredCount: getStoredAnswers(attempt).length,
+        startedAt: attempt.startedAt.toISOString(),
+        deadline: attempt.deadline?.toISOString() ?? null
+      }));
+
     // Get payment history
     const allOrders = await Order.find({ userId })
       .sort({ createdAt: -1 });
@@ -156,6 +264,7 @@ export async function GET(request: NextRequest) {
       email: user.email,
       phone: user.profile.phone,
       address: user.profile.address,
+      category: user.profile.category,
       joinedAt: user.createdAt.toISOString()
     };
 
@@ -164,6 +273,11 @@ export async function GET(request: NextRequest) {
       books,
       studyMaterials,
       testHistory,
+      activeTests,
+      scheduledTests,
+      testSeries,
+      scoreRevisions,
+      performanceProfile,
       paymentHistory,
       profile,
       summary: {
@@ -172,8 +286,8 @@ export async function GET(request: NextRequest) {
         totalMaterials: studyMaterials.length,
         totalTests: testHistory.length,
         totalOrders: paymentHistory.length,
-        averageTestScore: testHistory.length > 0 
-          ? Math.round(testHistory.reduce((sum, test) => sum + test.percentage, 0) / testHistory.length)
+        averageTestScore: scoredTests.length > 0
+          ? Math.round(scoredTests.reduce((sum, test) => sum + (test.percentage || 0), 0) / scoredTests.length)
           : 0
       }
     };
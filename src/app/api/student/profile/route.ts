@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import connectDB from '@/lib/db/mongodb';
-import User from '@/models/User';
+import User, { RESERVATION_CATEGORIES } from '@/models/User';
 
 export const dynamic = 'force-dynamic';
 
@@ -22,7 +22,7 @@ export async function PUT(request: NextRequest) {
     const userId = session.user.id;
     const body = await request.json();
     
-    const { name, phone, address } = body;
+    const { name, phone, address, category } = body;
 
     // Validate required fields
     if (!name || name.trim().length === 0) {
@@ -32,6 +32,13 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (category && !RESERVATION_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: `Category must be one of: ${RESERVATION_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Find and update user
     const user = await User.findById(userId);
     if (!user) {
@@ -45,6 +52,7 @@ export async function PUT(request: NextRequest) {
     user.name = name.trim();
     user.profile.phone = phone ? phone.trim() : undefined;
     user.profile.address = address ? address.trim() : undefined;
+    user.profile.category = category || undefined;
 
     await user.save();
 
@@ -54,6 +62,7 @@ export async function PUT(request: NextRequest) {
       email: user.email,
       phone: user.profile.phone,
       address: user.profile.address,
+      category: user.profile.category,
       joinedAt: user.createdAt.toISOString()
     };
 
@@ -96,6 +105,7 @@ export async function GET(request: NextRequest) {
       email: user.email,
       phone: user.profile.phone,
       address: user.profile.address,
+      category: user.profile.category,
       joinedAt: user.createdAt.toISOString()
     };
 
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import TestSeries from '@/models/TestSeries';
+import { getSeriesProgress } from '@/lib/utils/test-series';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/test-series/[id]/progress - The caller's progress and cumulative rank in a series
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid series ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const series = await TestSeries.findById(params.id).select('tests isActive').lean();
+
+    if (!series) {
+      return NextResponse.json(
+        { success: false, error: 'Test series not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getSeriesProgress(series as any, session.user.id),
+    });
+  } catch (error) {
+    console.error('Get series progress error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch series progress' },
+      { status: 500 }
+    );
+  }
+}
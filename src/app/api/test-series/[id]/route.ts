@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth/config';
+import connectDB from '@/lib/db/mongodb';
+import MockTest from '@/models/MockTest';
+import TestSeries from '@/models/TestSeries';
+import { getPurchasedSeriesIds, isSeriesTestReleased } from '@/lib/utils/test-series';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/test-series/[id] - Get a series with its release schedule
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid series ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const series: any = await TestSeries.findById(params.id).select('-__v -createdBy').lean();
+
+    if (!series || !series.isActive) {
+      return NextResponse.json(
+        { success: false, error: 'Test series not found' },
+        { status: 404 }
+      );
+    }
+
+    const tests = await MockTest.find({ _id: { $in: series.tests.map((entry: any) => entry.testId) } })
+      .select('title description duration sections.questions._id')
+      .lean();
+    const testsById = new Map<string, any>(tests.map((test: any) => [test._id.toString(), test]));
+
+    const session = await getServerSession(authOptions);
+    const purchased = session?.user?.id
+      ? (await getPurchasedSeriesIds(session.user.id)).includes(params.id)
+      : false;
+
+    const now = new Date();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        _id: series._id.toString(),
+        title: series.title,
+        description: series.description,
+        exam: series.exam,
+        price: series.price,
+        originalPrice: series.originalPrice,
+        purchased,
+        tests: series.tests
+          .filter((entry: any) => testsById.has(entry.testId.toString()))
+          .map((entry: any) => {
+            const test = testsById.get(entry.testId.toString());
+            return {
+              testId: test._id.toString(),
+              title: test.title,
+              description: test.description,
+              duration: test.duration,
+              totalQuestions: test.sections.reduce((sum: number, section: any) => sum + section.questions.length, 0),
+              releaseAt: entry.releaseAt || null,
+              released: isSeriesTestReleased(entry, now),
+            };
+          }),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching test series:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch test series' },
+      { status: 500 }
+    );
+  }
+}
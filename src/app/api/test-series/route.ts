@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db/mongodb';
+import TestSeries from '@/models/TestSeries';
+import { isSeriesTestReleased } from '@/lib/utils/test-series';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/test-series - List active test series
+export async function GET(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const filter: any = { isActive: true };
+
+    const exam = searchParams.get('exam');
+    if (exam) {
+      filter.exam = exam;
+    }
+
+    const seriesList = await TestSeries.find(filter)
+      .sort({ createdAt: -1 })
+      .select('-__v -createdBy')
+      .lean();
+
+    const now = new Date();
+    const data = seriesList.map((series: any) => {
+      const upcoming = series.tests
+        .filter((entry: any) => !isSeriesTestReleased(entry, now))
+        .map((entry: any) => new Date(entry.releaseAt).getTime());
+
+      return {
+        _id: series._id.toString(),
+        title: series.title,
+        description: series.description,
+        exam: series.exam,
+        price: series.price,
+        originalPrice: series.originalPrice,
+        totalTests: series.tests.length,
+        releasedTests: series.tests.length - upcoming.length,
+        nextReleaseAt: upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null,
+        createdAt: series.createdAt,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching test series:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch test series' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db/mongodb';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import {
+  resolveSubmittedAnswers,
+  checkPracticeAnswer,
+  buildPracticeFeedback,
+  AttemptPaperSection,
+} from '@/lib/utils/test-attempts';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/tests/[id]/attempt/check - Check a practice answer and return instant feedback
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const { attemptId, questionId, answer } = await request.json();
+
+    if (!attemptId || typeof questionId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const attempt = await TestAttempt.findOne({
+      _id: attemptId,
+      userId: session.user.id,
+      testId: params.id
+    });
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    if (attempt.mode !== 'practice') {
+      return NextResponse.json(
+        { success: false, error: 'Answers are only checked in practice mode' },
+        { status: 400 }
+      );
+    }
+
+    if (attempt.status !== 'in-progress') {
+      return NextResponse.json(
+        { success: false, error: 'Attempt has already been submitted' },
+        { status: 409 }
+      );
+    }
+
+    const onPaper = (attempt.paper as AttemptPaperSection[]).some(section =>
+      section.questions.some(question => question.questionId.toString() === questionId)
+    );
+
+    if (!onPaper) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    const test = await MockTest.findById(params.id).lean();
+
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    // An unanswered check (e.g. the question timer ran out) still reveals the answer
+    const [resolved] = resolveSubmittedAnswers(answer ? [{ ...answer, questionId }] : [], attempt.paper);
+    checkPracticeAnswer(attempt, questionId, resolved);
+    await attempt.save();
+
+    const [feedback] = buildPracticeFeedback(test, attempt, [questionId]);
+
+    return NextResponse.json({
+      success: true,
+      data: { feedback }
+    });
+
+  } catch (error) {
+    console.error('Error checking practice answer:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check answer' },
+      { status: 500 }
+    );
+  }
+}
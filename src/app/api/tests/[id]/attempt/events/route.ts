@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db/mongodb';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import {
+  SUBMISSION_GRACE_SECONDS,
+  isAttemptExpired,
+  finalizeAttempt,
+  serializeAttemptResult,
+  serializeWithheldResult,
+} from '@/lib/utils/test-attempts';
+import { areResultsReleased } from '@/lib/utils/test-schedule';
+import {
+  sanitizeProctoringEvents,
+  recordProctoringEvents,
+  hasExceededViolations,
+} from '@/lib/utils/test-proctoring';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/tests/[id]/attempt/events - Record proctoring events; auto-submits at the violation limit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const { attemptId, events } = await request.json();
+
+    if (!attemptId || !Array.isArray(events)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const attempt = await TestAttempt.findOne({
+      _id: attemptId,
+      userId: session.user.id,
+      testId: params.id
+    });
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    if (attempt.status !== 'in-progress') {
+      return NextResponse.json(
+        { success: false, error: 'Attempt has already been submitted' },
+        { status: 409 }
+      );
+    }
+
+    const test = await MockTest.findById(params.id).lean();
+
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    // Practice attempts are never proctored
+    if (!test.proctored || attempt.mode === 'practice') {
+      return NextResponse.json(
+        { success: false, error: 'This attempt is not proctored' },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const expired = isAttemptExpired(attempt, now, SUBMISSION_GRACE_SECONDS);
+    if (!expired) {
+      recordProctoringEvents(attempt, sanitizeProctoringEvents(events, attempt, now));
+    }
+
+    // The last autosave is scored when time is over or the violation limit is reached
+    if (expired || hasExceededViolations(test, attempt)) {
+      const finalized = await finalizeAttempt(attempt, test, {
+        autoSubmitted: true,
+        autoSubmitReason: expired ? 'time' : 'violations'
+      });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: expired ? 'Test time is over' : 'Test submitted automatically after repeated violations',
+          data: areResultsReleased(test) ? serializeAttemptResult(finalized) : serializeWithheldResult(finalized.attempt, test)
+        },
+        { status: 409 }
+      );
+    }
+
+    await attempt.save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        violations: attempt.proctoringEvents.length,
+        maxViolations: test.maxViolations
+      }
+    });
+
+  } catch (error) {
+    console.error('Error recording proctoring events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to record proctoring events' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,50 +3,99 @@ import connectDB from '@/lib/db/mongodb';
 import MockTest, { TestAttempt } from '@/models/MockTest';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
-import { calculateTestScore, validateTestTiming, generatePerformanceAnalytics } from '@/lib/utils/test-scoring';
+import {
+  SUBMISSION_GRACE_SECONDS,
+  createAttemptPaper,
+  getAttemptDeadline,
+  getTestDuration,
+  isAttemptExpired,
+  mergeSectionalAnswers,
+  closeCurrentSection,
+  resolveSubmittedAnswers,
+  applySavedAnswers,
+  applyQuestionStates,
+  finalizeAttempt,
+  finalizeExpiredAttempts,
+  serializeActiveAttempt,
+  serializeAttemptResult,
+  serializeWithheldResult,
+  serializeSectionWindows,
+  buildAttemptReview,
+  getAttemptEligibility,
+  canViewSolutions,
+  resolveAttemptMode,
+  getPracticeError,
+  keepCheckedAnswers,
+  isBufferedLateSubmit,
+  rebuildFinalizedAttempt,
+} from '@/lib/utils/test-attempts';
+import { areResultsReleased, serializeSchedule } from '@/lib/utils/test-schedule';
+import { getSeriesAccessError } from '@/lib/utils/test-series';
+import { getAttemptQualification } from '@/lib/utils/test-cutoffs';
 
 export const dynamic = 'force-dynamic';
 
-// Utility function to shuffle array (Fisher-Yates algorithm)
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
+// GET /api/tests/[id]/attempt - Get the caller's in-progress attempt, if any
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    // Auto-finalise attempts whose deadline has passed
+    await finalizeExpiredAttempts({ userId: session.user.id, testId: params.id });
+
+    const attempt = await TestAttempt.findOne({
+      userId: session.user.id,
+      testId: params.id,
+      status: 'in-progress'
+    });
 
-// Utility function to randomize question options
-function randomizeQuestions(sections: any[]) {
-  return sections.map(section => ({
-    ...section,
-    questions: section.questions.map((question: any) => {
-      // Create array of options with their original indices
-      const optionsWithIndices = question.options.map((option: string, index: number) => ({
-        text: option,
-        originalIndex: index
-      }));
-      
-      // Shuffle the options
-      const shuffledOptions = shuffleArray(optionsWithIndices);
-      
-      // Find new index of correct answer
-      const newCorrectIndex = shuffledOptions.findIndex(
-        (option: any) => option.originalIndex === question.correctAnswer
-      );
-      
-      return {
-        ...question,
-        options: shuffledOptions.map((option: any) => option.text),
-        correctAnswer: newCorrectIndex,
-        originalCorrectAnswer: question.correctAnswer // Keep track for scoring
-      };
-    })
-  }));
+    const test = await MockTest.findById(params.id).lean();
+
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!attempt) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          attempt: null,
+          eligibility: await getAttemptEligibility(test, session.user.id),
+          schedule: serializeSchedule(test)
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { attempt: serializeActiveAttempt(attempt, test, true) }
+    });
+
+  } catch (error) {
+    console.error('Error fetching active test attempt:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch test attempt' },
+      { status: 500 }
+    );
+  }
 }
 
-// POST /api/tests/[id]/attempt - Start a new test attempt
+// POST /api/tests/[id]/attempt - Start a new exam or practice attempt
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -81,50 +130,223 @@ export async function POST(
 
     // Check if user has access to this test (implement access control logic here)
     // For now, we'll assume all authenticated users can attempt tests
+
+    const body = await request.json().catch(() => ({}));
+    const mode = resolveAttemptMode(test, body?.mode);
+
+    // Auto-finalise an overdue attempt before starting or resuming
+    await finalizeExpiredAttempts({ userId: session.user.id, testId: params.id });
+
+    // Resume the in-progress attempt if there is one
+    const existingAttempt = await TestAttempt.findOne({
+      userId: session.user.id,
+      testId: params.id,
+      status: 'in-progress'
+    });
+
+    if (existingAttempt) {
+      const existingMode = existingAttempt.mode || 'exam';
+
+      if (existingMode === mode) {
+        return NextResponse.json({
+          success: true,
+          data: serializeActiveAttempt(existingAttempt, test, true)
+        });
+      }
+
+      if (existingMode === 'exam') {
+        return NextResponse.json(
+          { success: false, error: 'Submit your exam attempt before practising this test' },
+          { status: 409 }
+        );
+      }
+
+      // Starting the exam ends an unfinished practice session
+      await finalizeAttempt(existingAttempt, test);
+    }
+
+    if (mode === 'practice') {
+      // Practice attempts have no attempt limit or cooldown
+      const practiceError = getPracticeError(test);
+      if (practiceError) {
+        return NextResponse.json(
+          { success: false, error: practiceError },
+          { status: 403 }
+        );
+      }
+    } else {
+      // Enforce the attempt limit and retake cooldown
+      const eligibility = await getAttemptEligibility(test, session.user.id);
+      if (!eligibility.canStart) {
+        return NextResponse.json(
+          { success: false, error: eligibility.reason, data: { eligibility } },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Tests sold in a series open to its buyers on their release date
+    const seriesError = session.user.role === 'admin' ? null : await getSeriesAccessError(test, session.user.id);
+    if (seriesError) {
+      return NextResponse.json(
+        { success: false, error: seriesError },
+        { status: 403 }
+      );
+    }
+
+    // Create the attempt with a server start time and per-attempt permutation
+    // (practice attempts have no overall time limit)
+    const startedAt = new Date();
+    const attempt = new TestAttempt({
+      userId: session.user.id,
+      testId: params.id,
+      mode,
+      status: 'in-progress',
+      startedAt,
+      deadline: mode === 'exam' ? getAttemptDeadline(startedAt, getTestDuration(test), test.endsAt) : undefined,
+      paper: createAttemptPaper(test),
+      answers: []
+    });
+
+    try {
+      await attempt.save();
+    } catch (error: any) {
+      // A concurrent request already created the in-progress attempt
+      if (error?.code === 11000) {
+        const concurrentAttempt = await TestAttempt.findOne({
+          userId: session.user.id,
+          testId: params.id,
+          status: 'in-progress'
+        });
+
+        if (concurrentAttempt) {
+          return NextResponse.json({
+            success: true,
+            data: serializeActiveAttempt(concurrentAttempt, test, true)
+          });
+        }
+      }
+      throw error;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeActiveAttempt(attempt, test, false)
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error starting test attempt:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start test attempt' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/tests/[id]/attempt - Autosave answers of an in-progress attempt
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
     
-    // Randomize questions for this attempt
-    const randomizedSections = randomizeQuestions(test.sections);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
     
-    // Calculate total marks
-    const totalMarks = randomizedSections.reduce((total, section) => 
-      total + section.questions.reduce((sectionTotal: number, question: any) => 
-        sectionTotal + question.marks, 0
-      ), 0
+    const body = await request.json();
+    const { attemptId, answers, advanceSection, visitedQuestionIds, markedQuestionIds, timings } = body;
+
+    if (!attemptId || !Array.isArray(answers)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const attempt = await TestAttempt.findOne({
+      _id: attemptId,
+      userId: session.user.id,
+      testId: params.id
+    });
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    if (attempt.status !== 'in-progress') {
+      return NextResponse.json(
+        { success: false, error: 'Attempt has already been submitted' },
+        { status: 409 }
+      );
+    }
+
+    const test = await MockTest.findById(params.id).lean();
+
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isAttemptExpired(attempt, new Date(), SUBMISSION_GRACE_SECONDS)) {
+      const finalized = await finalizeAttempt(attempt, test, { autoSubmitted: true });
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Test time is over',
+          data: areResultsReleased(test) ? serializeAttemptResult(finalized) : serializeWithheldResult(finalized.attempt, test)
+        },
+        { status: 409 }
+      );
+    }
+
+    // Answers for sections whose window has closed are rejected
+    const now = new Date();
+    const { accepted, rejectedQuestionIds } = mergeSectionalAnswers(
+      test,
+      attempt,
+      resolveSubmittedAnswers(answers, attempt.paper),
+      now
     );
 
-    // Return test with randomized questions (without correct answers for security)
-    const testForAttempt = {
-      _id: test._id,
-      title: test.title,
-      description: test.description,
-      duration: test.duration,
-      totalMarks,
-      sections: randomizedSections.map(section => ({
-        _id: section._id,
-        title: section.title,
-        timeLimit: section.timeLimit,
-        questions: section.questions.map((question: any) => ({
-          _id: question._id,
-          text: question.text,
-          options: question.options,
-          marks: question.marks
-          // Note: correctAnswer is excluded for security
-        }))
-      }))
-    };
+    // Checked practice answers are locked
+    applySavedAnswers(attempt, keepCheckedAnswers(attempt, accepted));
+    applyQuestionStates(test, attempt, { visitedQuestionIds, markedQuestionIds, timings }, now);
+
+    if (advanceSection) {
+      closeCurrentSection(test, attempt, now);
+    }
+
+    await attempt.save();
 
     return NextResponse.json({
       success: true,
       data: {
-        test: testForAttempt,
-        startTime: new Date().toISOString()
+        attemptId: attempt._id,
+        savedAt: attempt.lastSavedAt,
+        deadline: attempt.deadline,
+        serverTime: new Date().toISOString(),
+        rejectedQuestionIds,
+        ...serializeSectionWindows(test, attempt)
       }
     });
 
   } catch (error) {
-    console.error('Error starting test attempt:', error);
+    console.error('Error saving test attempt:', error);
     return NextResponse.json(
-      { success: false, error: 'Failed to start test attempt' },
+      { success: false, error: 'Failed to save test attempt' },
       { status: 500 }
     );
   }
@@ -148,15 +370,28 @@ export async function PUT(
     await connectDB();
     
     const body = await request.json();
-    const { answers, startTime, endTime } = body;
+    const { attemptId, answers, visitedQuestionIds, markedQuestionIds, timings, submittedAt } = body;
 
-    if (!answers || !startTime || !endTime) {
+    if (!attemptId || !Array.isArray(answers)) {
       return NextResponse.json(
         { success: false, error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
+    const attempt = await TestAttempt.findOne({
+      _id: attemptId,
+      userId: session.user.id,
+      testId: params.id
+    });
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt not found' },
+        { status: 404 }
+      );
+    }
+
     const test = await MockTest.findById(params.id).lean();
     
     if (!test) {
@@ -166,52 +401,70 @@ export async function PUT(
       );
     }
 
-    // Validate timing
-    const timingValidation = validateTestTiming(startTime, endTime, test.duration, 5);
-    
-    if (!timingValidation.isValid) {
-      return NextResponse.json(
-        { success: false, error: timingValidation.error },
-        { status: 400 }
-      );
+    let finalized;
+
+    if (attempt.status !== 'in-progress') {
+      // Submits are keyed by attempt: a retry (e.g. after the response was lost) gets the original result,
+      // and a completed attempt is never replaced
+      finalized = rebuildFinalizedAttempt(attempt, test);
+    } else {
+      const now = new Date();
+
+      // Answers sent after the deadline (plus grace) are ignored; the last autosave is scored
+      // Answers for sections whose window has closed are also ignored
+      const isLate = isAttemptExpired(attempt, now, SUBMISSION_GRACE_SECONDS);
+      if (!isLate) {
+        applyQuestionStates(test, attempt, { visitedQuestionIds, markedQuestionIds, timings });
+      }
+
+      // A late submit buffered offline still counts as the student's own, ending at their last autosave
+      const confirmsAutosave = isLate && isBufferedLateSubmit(attempt, submittedAt, now);
+
+      finalized = await finalizeAttempt(attempt, test, {
+        answers: isLate
+          ? undefined
+          : keepCheckedAnswers(attempt, mergeSectionalAnswers(test, attempt, resolveSubmittedAnswers(answers, attempt.paper), now).accepted),
+        endTime: confirmsAutosave ? attempt.lastSavedAt ?? attempt.deadline : now,
+        autoSubmitted: isLate && !confirmsAutosave
+      });
     }
 
-    // Calculate score using the scoring utility
-    const scoringResult = calculateTestScore(test, answers);
-    
-    // Generate performance analytics
-    const analytics = generatePerformanceAnalytics(scoringResult, timingValidation.actualDuration);
+    const eligibility = await getAttemptEligibility(test, session.user.id);
 
-    // Save test attempt
-    const testAttempt = new TestAttempt({
-      userId: session.user.id,
-      testId: params.id,
-      answers: scoringResult.processedAnswers,
-      score: scoringResult.score,
-      totalMarks: scoringResult.totalMarks,
-      timeSpent: timingValidation.actualDuration,
-      completedAt: new Date(endTime)
-    });
+    // Practice only opens once results are out and already shows every checked answer
+    if (finalized.attempt.mode === 'practice') {
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...serializeAttemptResult(finalized, true),
+          mode: 'practice',
+          review: buildAttemptReview(test, finalized.attempt),
+          solutionsLocked: false,
+          qualification: await getAttemptQualification(test, finalized.attempt, session.user.id),
+          eligibility
+        }
+      });
+    }
 
-    await testAttempt.save();
+    // Scheduled tests withhold scores and solutions until their release time
+    if (!areResultsReleased(test)) {
+      return NextResponse.json({
+        success: true,
+        data: { ...serializeWithheldResult(finalized.attempt, test), eligibility }
+      });
+    }
+
+    // Solutions may be held back until the final allowed attempt
+    const solutionsAvailable = canViewSolutions(test, eligibility.attemptsUsed);
 
     return NextResponse.json({
       success: true,
       data: {
-        attemptId: testAttempt._id,
-        score: scoringResult.score,
-        totalMarks: scoringResult.totalMarks,
-        percentage: scoringResult.percentage,
-        timeSpent: timingValidation.actualDuration,
-        completedAt: testAttempt.completedAt,
-        sectionWiseScores: scoringResult.sectionWiseScores,
-        analytics: {
-          grade: analytics.grade,
-          performance: analytics.performance,
-          timeEfficiency: analytics.timeEfficiency,
-          strengths: analytics.strengths,
-          improvements: analytics.improvements
-        }
+        ...serializeAttemptResult(finalized, solutionsAvailable),
+        review: solutionsAvailable ? buildAttemptReview(test, finalized.attempt) : [],
+        solutionsLocked: !solutionsAvailable,
+        qualification: await getAttemptQualification(test, finalized.attempt, session.user.id),
+        eligibility
       }
     });
 
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/db/mongodb';
+import MockTest, { RankingPolicy } from '@/models/MockTest';
+import { finalizeExpiredAttempts } from '@/lib/utils/test-attempts';
+import { areResultsReleased } from '@/lib/utils/test-schedule';
+import {
+  DEFAULT_LEADERBOARD_LIMIT,
+  MAX_LEADERBOARD_LIMIT,
+  DEFAULT_SECTION_TOPPERS,
+  getRankedAttempts,
+  getSectionToppers,
+  rankToPercentile,
+  serializeRankedAttempt,
+} from '@/lib/utils/test-leaderboard';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+
+export const dynamic = 'force-dynamic';
+
+const RANKING_POLICIES: RankingPolicy[] = ['first', 'best'];
+
+const parseCount = (value: string | null, fallback: number, min: number) =>
+  Math.min(Math.max(value === null ? fallback : parseInt(value) || fallback, min), MAX_LEADERBOARD_LIMIT);
+
+// GET /api/tests/[id]/leaderboard - Ranked leaderboard, the caller's standing and section toppers
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const policy = searchParams.get('policy') as RankingPolicy | null;
+    const limit = parseCount(searchParams.get('limit'), DEFAULT_LEADERBOARD_LIMIT, 1);
+    const toppersPerSection = parseCount(searchParams.get('toppers'), DEFAULT_SECTION_TOPPERS, 0);
+
+    if (policy && !RANKING_POLICIES.includes(policy)) {
+      return NextResponse.json(
+        { success: false, error: `Policy must be one of: ${RANKING_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const test = await MockTest.findById(params.id).select('title sections markingScheme rankingPolicy resultsReleaseAt').lean();
+
+    if (!test) {
+      return NextResponse.json(
+        { success: false, error: 'Test not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!areResultsReleased(test) && session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: `The leaderboard will be published at ${new Date(test.resultsReleaseAt!).toISOString()}` },
+        { status: 403 }
+      );
+    }
+
+    // Auto-finalise overdue attempts so they are ranked
+    await finalizeExpiredAttempts({ testId: params.id });
+
+    const ranked = await getRankedAttempts(test, policy || undefined);
+    const own = ranked.find(entry => entry.userId === session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        testTitle: test.title,
+        policy: policy || test.rankingPolicy || 'first',
+        totalCandidates: ranked.length,
+        entries: ranked.slice(0, limit).map(serializeRankedAttempt),
+        currentUser: own
+          ? {
+              ...serializeRankedAttempt(own),
+              percentile: rankToPercentile(own.rank, ranked.length)
+            }
+          : null,
+        sectionToppers: toppersPerSection > 0 ? getSectionToppers(test, ranked, toppersPerSection) : []
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch leaderboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/db/mongodb';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import QuestionReport, { QUESTION_REPORT_REASONS } from '@/models/QuestionReport';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/config';
+import { findTestQuestion } from '@/lib/utils/test-errata';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/tests/[id]/reports - List the student's question reports for a test
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const reports = await QuestionReport.find({ testId: params.id, userId: session.user.id })
+      .select('questionId reason message status action adminNote createdAt resolvedAt')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: reports
+    });
+  } catch (error) {
+    console.error('Get question reports error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reports' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tests/[id]/reports - Report a faulty question after attempting the test
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid test ID' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const { questionId, reason, message } = await request.json();
+
+    if (!questionId || !QUESTION_REPORT_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof message === 'string' && message.length > 1000) {
+      return NextResponse.json(
+        { success: false, error: 'Message must be 1000 characters or fewer' },
+        { status: 400 }
+      );
+    }
+
+    const test = await MockTest.findById(params.id).select('sections').lean();
+
+    if (!test || !findTestQuestion(test, String(questionId))) {
+      return NextResponse.json(
+        { success: false, error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only students who sat the test can report its questions
+    const attempt = await TestAttempt.findOne({
+      testId: params.id,
+      userId: session.user.id,
+      status: { $ne: 'in-progress' }
+    })
+      .select('_id')
+      .sort({ completedAt: -1 })
+      .lean();
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Complete the test before reporting a question' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await QuestionReport.exists({ userId: session.user.id, questionId, status: 'open' });
+
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'You have already reported this question' },
+        { status: 409 }
+      );
+    }
+
+    const report = await QuestionReport.create({
+      testId: params.id,
+      questionId,
+      userId: session.user.id,
+      attemptId: attempt._id,
+      reason,
+      message: typeof message === 'string' ? message : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create question report error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to report question' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
 import connectDB from '@/lib/db/mongodb';
-import { TestAttempt } from '@/models/MockTest';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import {
+  finalizeExpiredAttempts,
+  buildAttemptReview,
+  getTestDuration,
+  getAttemptEligibility,
+  canViewSolutions,
+  withholdAttemptAnswers,
+  withholdTimeOutcomes,
+} from '@/lib/utils/test-attempts';
+import { analyzeQuestionTimes } from '@/lib/utils/test-scoring';
+import { areResultsReleased } from '@/lib/utils/test-schedule';
+import { getRankedAttempts, rankAttempt, serializeRankedAttempt } from '@/lib/utils/test-leaderboard';
+import { getAttemptQualification } from '@/lib/utils/test-cutoffs';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 
@@ -22,16 +36,26 @@ export async function GET(
     }
 
     await connectDB();
+
+    // Auto-finalise overdue attempts so they show up in results and rankings
+    await finalizeExpiredAttempts({ testId: params.id });
     
     const { searchParams } = new URL(request.url);
     const attemptId = searchParams.get('attemptId');
 
     if (attemptId) {
-      // Get specific attempt details
-      const attempt = await TestAttempt.findById(attemptId)
-        .populate('userId', 'name email')
-        .populate('testId', 'title description')
-        .lean();
+      // Get specific attempt details; the attempt must belong to this test (its release rules apply)
+      // and to the student, unless an admin is looking
+      const attempt = mongoose.Types.ObjectId.isValid(attemptId)
+        ? await TestAttempt.findOne({
+          _id: attemptId,
+          testId: params.id,
+          ...(session.user.role !== 'admin' && { userId: session.user.id })
+        })
+          .populate('userId', 'name email')
+          .populate('testId', 'title description')
+          .lean()
+        : null;
 
       if (!attempt) {
         return NextResponse.json(
@@ -40,74 +64,103 @@ export async function GET(
         );
       }
 
-      // Check if user owns this attempt or is admin
-      if (attempt.userId._id.toString() !== session.user.id && session.user.role !== 'admin') {
+      if (attempt.status === 'in-progress') {
+        return NextResponse.json(
+          { success: false, error: 'Attempt is still in progress' },
+          { status: 409 }
+        );
+      }
+
+      const test = await MockTest.findById(params.id).lean();
+
+      // Scheduled tests withhold results until their release time (admins can review them earlier)
+      if (test && !areResultsReleased(test) && session.user.role !== 'admin') {
         return NextResponse.json(
-          { success: false, error: 'Unauthorized' },
+          {
+            success: false,
+            error: `Results will be released at ${new Date(test.resultsReleaseAt!).toISOString()}`,
+            data: { resultsReleaseAt: test.resultsReleaseAt }
+          },
           { status: 403 }
         );
       }
 
-      // Get ranking for this attempt
-      const betterAttempts = await TestAttempt.countDocuments({
-        testId: params.id,
-        score: { $gt: attempt.score }
-      });
+      // Rank against one counted attempt per student (see the test's ranking policy); practice attempts are not ranked
+      const practice = attempt.mode === 'practice';
+      const ranked = test && !practice ? await getRankedAttempts(test) : [];
+      const { rank, totalCandidates, percentile, counted } = rankAttempt(ranked, { ...attempt, userId: attempt.userId._id });
 
-      const totalAttempts = await TestAttempt.countDocuments({
-        testId: params.id
-      });
+      // Solutions may be held back until the student's final allowed attempt (admins always see them)
+      const solutionsLocked = !!test && !practice && session.user.role !== 'admin' && !canViewSolutions(
+        test,
+        (await getAttemptEligibility(test, attempt.userId._id.toString())).attemptsUsed
+      );
+
+      // Per-question breakdown in the option order the student saw
+      const review = test && !solutionsLocked ? buildAttemptReview(test, attempt) : [];
+      const timeAnalysis = test ? analyzeQuestionTimes(test, attempt.answers, getTestDuration(test)) : null;
 
-      const rank = betterAttempts + 1;
-      const percentile = totalAttempts > 0 ? Math.round(((totalAttempts - rank + 1) / totalAttempts) * 100) : 0;
+      // Qualification against the cutoffs of the student's category
+      const qualification = test
+        ? await getAttemptQualification(test, attempt, attempt.userId._id.toString(), practice ? undefined : ranked)
+        : null;
 
       return NextResponse.json({
         success: true,
         data: {
           attempt: {
-            ...attempt,
+            ...(solutionsLocked ? withholdAttemptAnswers(attempt) : attempt),
             percentage: Math.round((attempt.score / attempt.totalMarks) * 100)
           },
-          ranking: {
+          ranking: practice ? null : {
             rank,
-            totalAttempts,
-            percentile
-          }
+            totalAttempts: totalCandidates,
+            percentile,
+            counted
+          },
+          review,
+          solutionsLocked,
+          timeAnalysis: timeAnalysis && solutionsLocked ? withholdTimeOutcomes(timeAnalysis) : timeAnalysis,
+          qualification
         }
       });
     } else {
+      const test = await MockTest.findById(params.id)
+        .select('sections markingScheme rankingPolicy resultsReleaseAt solutionsAfterFinalAttempt maxAttempts')
+        .lean();
+
+      if (test && !areResultsReleased(test) && session.user.role !== 'admin') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Results will be released at ${new Date(test.resultsReleaseAt!).toISOString()}`,
+            data: { resultsReleaseAt: test.resultsReleaseAt }
+          },
+          { status: 403 }
+        );
+      }
+
       // Get user's attempts for this test
       const attempts = await TestAttempt.find({
         testId: params.id,
-        userId: session.user.id
+        userId: session.user.id,
+        status: { $ne: 'in-progress' }
       })
         .sort({ completedAt: -1 })
         .lean();
 
+      // Answers stay out of exam attempts until solutions unlock, as on the attempt review
+      const attemptsUsed = attempts.filter(attempt => attempt.mode !== 'practice').length;
+      const solutionsLocked = !!test && session.user.role !== 'admin' && !canViewSolutions(test, attemptsUsed);
+
       const attemptsWithPercentage = attempts.map(attempt => ({
-        ...attempt,
+        ...(solutionsLocked && attempt.mode !== 'practice' ? withholdAttemptAnswers(attempt) : attempt),
         percentage: Math.round((attempt.score / attempt.totalMarks) * 100)
       }));
 
-      // Get test leaderboard (top 10)
-      const leaderboard = await TestAttempt.find({
-        testId: params.id
-      })
-        .populate('userId', 'name')
-        .sort({ score: -1, completedAt: 1 })
-        .limit(10)
-        .lean();
-
-      const leaderboardWithRanks = leaderboard.map((attempt, index) => ({
-        rank: index + 1,
-        userId: attempt.userId._id,
-        userName: attempt.userId.name,
-        score: attempt.score,
-        totalMarks: attempt.totalMarks,
-        percentage: Math.round((attempt.score / attempt.totalMarks) * 100),
-        completedAt: attempt.completedAt,
-        timeSpent: attempt.timeSpent
-      }));
+      // Get test leaderboard (top 10, one counted attempt per student)
+      const ranked = test ? await getRankedAttempts(test) : [];
+      const leaderboardWithRanks = ranked.slice(0, 10).map(serializeRankedAttempt);
 
       return NextResponse.json({
         success: true,
@@ -115,9 +168,9 @@ export async function GET(
           userAttempts: attemptsWithPercentage,
           leaderboard: leaderboardWithRanks,
           stats: {
-            totalAttempts: await TestAttempt.countDocuments({ testId: params.id }),
+            totalAttempts: await TestAttempt.countDocuments({ testId: params.id, mode: { $ne: 'practice' }, status: { $ne: 'in-progress' } }),
             averageScore: await TestAttempt.aggregate([
-              { $match: { testId: params.id } },
+              { $match: { testId: new mongoose.Types.ObjectId(params.id), mode: { $ne: 'practice' }, status: { $ne: 'in-progress' } } },
               { $group: { _id: null, avgScore: { $avg: '$score' }, avgPercentage: { $avg: { $multiply: [{ $divide: ['$score', '$totalMarks'] }, 100] } } } }
             ]).then(result => result[0] || { avgScore: 0, avgPercentage: 0 })
           }
@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db/mongodb';
-import MockTest from '@/models/MockTest';
+import MockTest, { TestAttempt } from '@/models/MockTest';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
+import {
+  validateMarkingScheme,
+  validateQuestionAnswer,
+  validateQuestionTranslation,
+  validateQuestionContent,
+  getQuestionWording,
+  validateAttemptPolicy,
+  validateTestSchedule,
+} from '@/lib/utils/test-utils';
+import { validateCutoffs } from '@/lib/utils/test-cutoffs';
+import { resolveTestBankReferences } from '@/lib/utils/question-bank';
+import { withholdTestAnswerKey } from '@/lib/utils/content-delivery';
+import { getScoringSignature, startRescore } from '@/lib/utils/test-errata';
 
 export const dynamic = 'force-dynamic';
 
@@ -30,9 +43,12 @@ export async function GET(
       );
     }
 
+    // The answer key and explanations are for admins; students get them once results and solutions are out
+    const session = await getServerSession(authOptions);
+
     return NextResponse.json({
       success: true,
-      data: test
+      data: session?.user.role === 'admin' ? test : withholdTestAnswerKey(test)
     });
   } catch (error) {
     console.error('Error fetching test:', error);
@@ -61,7 +77,29 @@ export async function PUT(
     await connectDB();
     
     const body = await request.json();
-    const { title, description, duration, sections, price, isActive } = body;
+    const {
+      title,
+      description,
+      duration,
+      markingScheme,
+      sectionalTiming,
+      evaluateMarkedAnswers,
+      rankingPolicy,
+      maxAttempts,
+      retakeCooldownMinutes,
+      solutionsAfterFinalAttempt,
+      startsAt,
+      lateEntryUntil,
+      endsAt,
+      resultsReleaseAt,
+      proctored,
+      maxViolations,
+      practiceMode,
+      practiceQuestionSeconds,
+      cutoffs,
+      price,
+      isActive
+    } = body;
 
     const test = await MockTest.findById(params.id);
     
@@ -72,16 +110,97 @@ export async function PUT(
       );
     }
 
+    // Wording the test already holds was checked when it was saved
+    const savedWording = new Set<string>(
+      test.sections.flatMap((section: any) => section.questions.flatMap((question: any) => getQuestionWording(question)))
+    );
+
+    // Fill questions that reference the question bank
+    const resolved = body.sections !== undefined ? await resolveTestBankReferences(body.sections) : undefined;
+    const sections = resolved?.sections;
+
+    const validationErrors = [
+      ...(resolved?.errors || []),
+      ...validateMarkingScheme(markingScheme, 'Marking scheme'),
+      ...(Array.isArray(sections) ? sections : []).flatMap((section: any, index: number) => [
+        ...validateMarkingScheme(section.markingScheme, `Section ${index + 1} marking scheme`),
+        ...(section.questions || []).flatMap((question: any, questionIndex: number) => [
+          ...validateQuestionAnswer(question, `Section ${index + 1}, Question ${questionIndex + 1}`),
+          ...validateQuestionTranslation(question, `Section ${index + 1}, Question ${questionIndex + 1}`),
+          ...validateQuestionContent(question, `Section ${index + 1}, Question ${questionIndex + 1}`, savedWording),
+        ]),
+      ]),
+    ];
+
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${validationErrors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const scoringBefore = getScoringSignature(test);
+
     // Update fields if provided
     if (title !== undefined) test.title = title;
     if (description !== undefined) test.description = description;
     if (duration !== undefined) test.duration = duration;
     if (sections !== undefined) test.sections = sections;
+    if (markingScheme !== undefined) test.markingScheme = markingScheme;
+    if (sectionalTiming !== undefined) test.sectionalTiming = sectionalTiming;
+    if (evaluateMarkedAnswers !== undefined) test.evaluateMarkedAnswers = evaluateMarkedAnswers;
+    if (rankingPolicy !== undefined) test.rankingPolicy = rankingPolicy;
+    if (maxAttempts !== undefined) test.maxAttempts = maxAttempts;
+    if (retakeCooldownMinutes !== undefined) test.retakeCooldownMinutes = retakeCooldownMinutes;
+    if (solutionsAfterFinalAttempt !== undefined) test.solutionsAfterFinalAttempt = solutionsAfterFinalAttempt;
+    if (proctored !== undefined) test.proctored = proctored;
+    if (maxViolations !== undefined) test.maxViolations = maxViolations;
+    if (practiceMode !== undefined) test.practiceMode = practiceMode;
+    if (practiceQuestionSeconds !== undefined) test.practiceQuestionSeconds = practiceQuestionSeconds;
+    if (cutoffs !== undefined) test.cutoffs = cutoffs || [];
+    // null clears a schedule time
+    if (startsAt !== undefined) test.startsAt = startsAt || undefined;
+    if (lateEntryUntil !== undefined) test.lateEntryUntil = lateEntryUntil || undefined;
+    if (endsAt !== undefined) test.endsAt = endsAt || undefined;
+    if (resultsReleaseAt !== undefined) test.resultsReleaseAt = resultsReleaseAt || undefined;
+
+    if (test.sectionalTiming && test.sections.some((section: any) => !section.timeLimit)) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed: Every section needs a time limit for sectional timing' },
+        { status: 400 }
+      );
+    }
+
+    const policyErrors = [
+      ...validateAttemptPolicy(test),
+      ...validateTestSchedule(test),
+      // Stored cutoffs are re-checked when sections change so none points at a removed section
+      ...validateCutoffs(cutoffs !== undefined ? cutoffs : sections !== undefined ? test.toObject().cutoffs : undefined, test.sections),
+    ];
+    if (policyErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Validation failed: ${policyErrors.join(', ')}` },
+        { status: 400 }
+      );
+    }
     if (price !== undefined) test.price = price;
     if (isActive !== undefined) test.isActive = isActive;
 
     await test.save();
 
+    // Attempts already running must still finish by the scheduled end time
+    if (test.endsAt) {
+      await TestAttempt.updateMany(
+        { testId: test._id, status: 'in-progress', deadline: { $gt: test.endsAt } },
+        { deadline: test.endsAt }
+      );
+    }
+
+    // Answer key or marking changes apply to attempts already submitted
+    if (getScoringSignature(test) !== scoringBefore) {
+      await startRescore(test._id, 'Answer key or marking updated');
+    }
+
     return NextResponse.json({
       success: true,
       data: test
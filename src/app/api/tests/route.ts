@@ -16,6 +16,7 @@ import {
   ensureCompleteTestDelivery,
   validateContentCompleteness,
 } from '@/lib/utils/content-delivery';
+import { resolveTestBankReferences } from '@/lib/utils/question-bank';
 
 export const dynamic = 'force-dynamic';
 
@@ -27,7 +28,7 @@ export async function GET(request: NextRequest) {
     const { page, limit, skip } = extractQueryParams(new URL(request.url).searchParams);
 
     const tests = await MockTest.find({ isActive: true })
-      .select('title description duration price createdAt sections')
+      .select('title description duration price createdAt sections markingScheme sectionalTiming evaluateMarkedAnswers rankingPolicy maxAttempts retakeCooldownMinutes solutionsAfterFinalAttempt startsAt lateEntryUntil endsAt resultsReleaseAt proctored maxViolations practiceMode practiceQuestionSeconds cutoffs')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
@@ -36,7 +37,10 @@ export async function GET(request: NextRequest) {
     const total = await MockTest.countDocuments({ isActive: true });
 
     // Ensure complete content delivery for each test
-    const completeTests = tests.map(ensureCompleteTestDelivery);
+    // Only admins receive the answer key and explanations
+    const session = await getServerSession(authOptions);
+    const includeAnswerKey = session?.user.role === 'admin';
+    const completeTests = tests.map(test => ensureCompleteTestDelivery(test, includeAnswerKey));
 
     return createSuccessResponse(
       { tests: completeTests },
@@ -67,19 +71,64 @@ export async function POST(request: NextRequest) {
       return createValidationErrorResponse(`Missing required fields: ${missingFields.join(', ')}`);
     }
     
+    // Fill questions that reference the question bank
+    const { sections: resolvedSections, errors: referenceErrors } = await resolveTestBankReferences(body.sections);
+    if (referenceErrors.length > 0) {
+      return createValidationErrorResponse(referenceErrors);
+    }
+    body.sections = resolvedSections;
+    
     // Validate content completeness
     const contentErrors = validateContentCompleteness(body, 'test');
     if (contentErrors.length > 0) {
       return createValidationErrorResponse(contentErrors);
     }
 
-    const { title, description, duration, sections, price } = body;
+    const {
+      title,
+      description,
+      duration,
+      sections,
+      markingScheme,
+      sectionalTiming,
+      evaluateMarkedAnswers,
+      rankingPolicy,
+      maxAttempts,
+      retakeCooldownMinutes,
+      solutionsAfterFinalAttempt,
+      startsAt,
+      lateEntryUntil,
+      endsAt,
+      resultsReleaseAt,
+      proctored,
+      maxViolations,
+      practiceMode,
+      practiceQuestionSeconds,
+      cutoffs,
+      price
+    } = body;
 
     const mockTest = new MockTest({
       title,
       description,
       duration,
       sections,
+      markingScheme,
+      sectionalTiming,
+      evaluateMarkedAnswers,
+      rankingPolicy,
+      maxAttempts,
+      retakeCooldownMinutes,
+      solutionsAfterFinalAttempt,
+      startsAt: startsAt || undefined,
+      lateEntryUntil: lateEntryUntil || undefined,
+      endsAt: endsAt || undefined,
+      resultsReleaseAt: resultsReleaseAt || undefined,
+      proctored,
+      maxViolations,
+      practiceMode,
+      practiceQuestionSeconds,
+      cutoffs,
       price: price || 0,
       isActive: true
     });
@@ -87,7 +136,7 @@ export async function POST(request: NextRequest) {
     await mockTest.save();
 
     // Ensure complete content delivery
-    const completeTest = ensureCompleteTestDelivery(mockTest);
+    const completeTest = ensureCompleteTestDelivery(mockTest, true);
 
     return createSuccessResponse(
       completeTest,
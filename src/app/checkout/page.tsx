@@ -18,7 +18,7 @@ interface CheckoutFormData {
 
 interface CartItem {
     id: string;
-    type: 'course' | 'book' | 'material' | 'test';
+    type: 'course' | 'book' | 'material' | 'test' | 'test-series';
     title: string;
     price: number;
 }
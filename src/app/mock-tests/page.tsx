@@ -3,54 +3,89 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth/config';
 import MockTestsGrid from '@/components/features/MockTestsGrid';
 import { FileText, Clock, Trophy, Target } from 'lucide-react';
+import mongoose from 'mongoose';
 import connectDB from '@/lib/db/mongodb';
-import MockTest from '@/models/MockTest';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import { resolveMarkingScheme, getQuestionMarks } from '@/lib/utils/test-scoring';
+import { evaluateAttemptEligibility } from '@/lib/utils/test-attempts';
+import { serializeSchedule } from '@/lib/utils/test-schedule';
 
 export const metadata: Metadata = {
     title: 'Mock Tests - Career Path Institute',
     description: 'Practice with realistic mock tests for Patwari exam. Timed tests with instant results and performance analysis.',
 };
 
-async function getMockTests() {
+async function getMockTests(userId?: string) {
     try {
         await connectDB();
         const tests = await MockTest.find({ isActive: true })
-            .select('title description price duration sections createdAt')
+            .select('title description price duration sections markingScheme rankingPolicy maxAttempts retakeCooldownMinutes solutionsAfterFinalAttempt practiceMode startsAt lateEntryUntil endsAt resultsReleaseAt createdAt')
             .sort({ createdAt: -1 })
             .lean();
 
-        return tests.map(test => ({
-            id: test._id.toString(),
-            title: test.title,
-            description: test.description,
-            price: test.price,
-            duration: test.duration,
-            questions: test.sections?.reduce((total: number, section: any) => total + (section.questions?.length || 0), 0) || 0,
-            maxMarks: test.sections?.reduce((total: number, section: any) =>
-                total + (section.questions?.reduce((sum: number, q: any) => sum + (q.marks || 1), 0) || 0), 0) || 0,
-            subjects: test.sections?.map((section: any) => ({
-                name: section.title,
-                questions: section.questions?.length || 0
-            })) || [],
-            difficulty: 'Medium' as const, // Will be calculated based on question difficulty
-            attempts: Math.floor(Math.random() * 1000) + 100, // Will be replaced with actual data
-            averageScore: Math.floor(Math.random() * 30) + 60, // Will be replaced with actual data
-            features: [
-                'Latest Exam Pattern',
-                'Detailed Solutions',
-                'Performance Analysis',
-                'All India Ranking',
-                'Subject-wise Breakdown',
-                'Time Management Tips'
-            ],
-            instructions: [
-                `Total duration: ${test.duration} minutes`,
-                'Each question carries 1 mark',
-                'No negative marking',
-                'Questions will be shuffled for each attempt',
-                'Auto-submit when time expires'
-            ]
-        }));
+        // The signed-in student's completed exam attempts per test, for their attempt limits and cooldowns
+        const attemptStats = userId
+            ? await TestAttempt.aggregate([
+                { $match: { userId: new mongoose.Types.ObjectId(userId), mode: { $ne: 'practice' }, status: { $ne: 'in-progress' } } },
+                { $group: { _id: '$testId', attemptsUsed: { $sum: 1 }, lastCompletedAt: { $max: '$completedAt' } } }
+            ])
+            : [];
+        const statsByTest = new Map(attemptStats.map(stats => [stats._id.toString(), stats]));
+
+        return tests.map(test => {
+            const scheme = resolveMarkingScheme(test);
+            const stats = statsByTest.get(test._id.toString());
+            const eligibility = userId
+                ? evaluateAttemptEligibility(test, stats?.attemptsUsed || 0, stats?.lastCompletedAt)
+                : null;
+            return {
+                id: test._id.toString(),
+                title: test.title,
+                description: test.description,
+                price: test.price,
+                duration: test.duration,
+                questions: test.sections?.reduce((total: number, section: any) => total + (section.questions?.length || 0), 0) || 0,
+                maxMarks: test.sections?.reduce((total: number, section: any) => {
+                    const sectionScheme = resolveMarkingScheme(test, section);
+                    return total + (section.questions?.reduce((sum: number, q: any) =>
+                        sum + getQuestionMarks({ marks: q.marks || 1, resolution: q.resolution }, sectionScheme), 0) || 0);
+                }, 0) || 0,
+                subjects: test.sections?.map((section: any) => ({
+                    name: section.title,
+                    questions: section.questions?.length || 0
+                })) || [],
+                maxAttempts: test.maxAttempts || 0,
+                retakeCooldownMinutes: test.retakeCooldownMinutes || 0,
+                rankingPolicy: test.rankingPolicy || 'first',
+                solutionsAfterFinalAttempt: !!test.solutionsAfterFinalAttempt,
+                practiceMode: test.practiceMode || 'off',
+                attemptsUsed: eligibility?.attemptsUsed,
+                nextAttemptAt: eligibility?.nextAttemptAt?.toISOString(),
+                schedule: serializeSchedule(test),
+                difficulty: 'Medium' as const, // Will be calculated based on question difficulty
+                attempts: Math.floor(Math.random() * 1000) + 100, // Will be replaced with actual data
+                averageScore: Math.floor(Math.random() * 30) + 60, // Will be replaced with actual data
+                features: [
+                    'Latest Exam Pattern',
+                    'Detailed Solutions',
+                    'Performance Analysis',
+                    'All India Ranking',
+                    'Subject-wise Breakdown',
+                    'Time Management Tips'
+                ],
+                instructions: [
+                    `Total duration: ${test.duration} minutes`,
+                    scheme.positiveMarks !== undefined
+                        ? `Each correct answer carries ${scheme.positiveMarks} mark${scheme.positiveMarks === 1 ? '' : 's'}`
+                        : 'Marks are shown against each question',
+                    scheme.negativeFraction > 0
+                        ? `${scheme.negativeFraction} of the question's marks deducted for each wrong answer`
+                        : 'No negative marking',
+                    'Questions will be shuffled for each attempt',
+                    'Auto-submit when time expires'
+                ]
+            };
+        });
     } catch (error) {
         console.error('Error fetching mock tests:', error);
         return [];
@@ -59,7 +94,7 @@ async function getMockTests() {
 
 export default async function MockTestsPage() {
     const session = await getServerSession(authOptions);
-    const mockTests = await getMockTests();
+    const mockTests = await getMockTests(session?.user.id);
 
     return (
         <div className="min-h-screen bg-gray-50">
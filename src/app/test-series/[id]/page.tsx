@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { AddToCartButton } from '@/components/features/AddToCartButton';
+import { CalendarClock, CheckCircle, Clock, Lock, Medal, Trophy } from 'lucide-react';
+import Link from 'next/link';
+
+interface SeriesDetail {
+    _id: string;
+    title: string;
+    description: string;
+    exam?: string;
+    price: number;
+    originalPrice?: number;
+    purchased: boolean;
+    tests: Array<{
+        testId: string;
+        title: string;
+        description: string;
+        duration: number;
+        totalQuestions: number;
+        releaseAt: string | null;
+        released: boolean;
+    }>;
+}
+
+interface SeriesStanding {
+    rank: number;
+    userId: string;
+    userName: string;
+    score: number;
+    totalMarks: number;
+    percentage: number;
+    testsTaken: number;
+    timeSpent: number;
+}
+
+interface SeriesProgress {
+    testsCompleted: number;
+    totalTests: number;
+    releasedTests: number;
+    completionPercentage: number;
+    tests: Array<{
+        testId: string;
+        attempted: boolean;
+        resultsReleased: boolean;
+        score: number | null;
+        totalMarks: number | null;
+        rank: number | null;
+        totalCandidates: number;
+    }>;
+    standing: (SeriesStanding & { totalCandidates: number; percentile: number }) | null;
+    leaderboard: SeriesStanding[];
+}
+
+export default function TestSeriesDetailPage({ params }: { params: { id: string } }) {
+    const [series, setSeries] = useState<SeriesDetail | null>(null);
+    const [progress, setProgress] = useState<SeriesProgress | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchSeries = async () => {
+            try {
+                const [seriesResponse, progressResponse] = await Promise.all([
+                    fetch(`/api/test-series/${params.id}`),
+                    fetch(`/api/test-series/${params.id}/progress`),
+                ]);
+                const seriesData = await seriesResponse.json();
+                if (seriesData.success) {
+                    setSeries(seriesData.data);
+                }
+
+                // Progress needs a signed-in student
+                if (progressResponse.ok) {
+                    const progressData = await progressResponse.json();
+                    if (progressData.success) {
+                        setProgress(progressData.data);
+                    }
+                }
+            } catch (error) {
+                console.error('Error fetching test series:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchSeries();
+    }, [params.id]);
+
+    if (loading) {
+        return (
+            <div className="container mx-auto px-4 py-8">
+                <div className="animate-pulse space-y-4">
+                    <div className="h-8 bg-muted rounded w-1/2"></div>
+                    <div className="h-4 bg-muted rounded w-3/4"></div>
+                    <div className="h-64 bg-muted rounded"></div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!series) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center">
+                <h1 className="text-2xl font-bold mb-4">Test series not found</h1>
+                <Link href="/test-series">
+                    <Button variant="outline">Back to Test Series</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const progressByTest = new Map((progress?.tests || []).map(test => [test.testId, test]));
+
+    return (
+        <div className="container mx-auto px-4 py-8 space-y-6">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div>
+                    {series.exam && <Badge variant="secondary" className="mb-2">{series.exam}</Badge>}
+                    <h1 className="text-3xl font-bold mb-2">{series.title}</h1>
+                    <p className="text-muted-foreground max-w-3xl">{series.description}</p>
+                </div>
+                {!series.purchased && (
+                    <div className="md:w-64 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <span className="text-2xl font-bold">₹{series.price}</span>
+                            {series.originalPrice && series.originalPrice > series.price && (
+                                <span className="text-sm text-muted-foreground line-through">₹{series.originalPrice}</span>
+                            )}
+                        </div>
+                        <AddToCartButton
+                            item={{
+                                id: series._id,
+                                type: 'test-series',
+                                title: series.title,
+                                price: series.price,
+                                thumbnail: '',
+                                description: series.description,
+                            }}
+                            className="w-full"
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Series progress and cumulative rank */}
+            {series.purchased && progress && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Progress</CardDescription>
+                            <CardTitle>{progress.testsCompleted}/{progress.totalTests} tests</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <Progress value={progress.completionPercentage} className="h-2" />
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Series Rank</CardDescription>
+                            <CardTitle>
+                                {progress.standing
+                                    ? `#${progress.standing.rank} of ${progress.standing.totalCandidates}`
+                                    : '—'}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="text-sm text-muted-foreground">
+                            {progress.standing
+                                ? `${progress.standing.percentile}th percentile · ${progress.standing.testsTaken} test(s) counted`
+                                : 'Ranks appear once results of a test you took are out'}
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Cumulative Score</CardDescription>
+                            <CardTitle>
+                                {progress.standing
+                                    ? `${progress.standing.score}/${progress.standing.totalMarks}`
+                                    : '—'}
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="text-sm text-muted-foreground">
+                            {progress.standing ? `${progress.standing.percentage}%` : 'No scored tests yet'}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            {/* Release schedule */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <CalendarClock className="h-5 w-5" />
+                        Schedule
+                    </CardTitle>
+                    <CardDescription>
+                        Tests open on their release date and stay open for the rest of the series
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="space-y-2">
+                        {series.tests.map((test, index) => {
+                            const own = progressByTest.get(test.testId);
+                            return (
+                                <div key={test.testId} className="flex items-center justify-between p-3 border rounded-lg">
+                                    <div className="flex-1">
+                                        <h3 className="font-medium text-gray-900">
+                                            {index + 1}. {test.title}
+                                        </h3>
+                                        <p className="text-sm text-gray-500 flex items-center gap-1">
+                                            <Clock className="h-3 w-3" />
+                                            {test.duration} min · {test.totalQuestions} questions
+                                            {test.releaseAt && ` · ${test.released ? 'Released' : 'Releases'} ${new Date(test.releaseAt).toLocaleString()}`}
+                                        </p>
+                                    </div>
+                                    <div className="text-right">
+                                        {own?.attempted ? (
+                                            own.rank !== null ? (
+                                                <div>
+                                                    <p className="font-medium">{own.score}/{own.totalMarks}</p>
+                                                    <p className="text-xs text-gray-500">Rank {own.rank} of {own.totalCandidates}</p>
+                                                </div>
+                                            ) : (
+                                                <Badge variant="secondary">
+                                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                                    {own.resultsReleased ? 'Taken' : 'Results pending'}
+                                                </Badge>
+                                            )
+                                        ) : test.released ? (
+                                            series.purchased ? (
+                                                <Link href="/mock-tests">
+                                                    <Button size="sm">Take Test</Button>
+                                                </Link>
+                                            ) : (
+                                                <Badge variant="outline">Released</Badge>
+                                            )
+                                        ) : (
+                                            <Badge variant="outline">
+                                                <Lock className="h-3 w-3 mr-1" />
+                                                Upcoming
+                                            </Badge>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Cumulative leaderboard */}
+            {progress && progress.leaderboard.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Trophy className="h-5 w-5" />
+                            Series Leaderboard
+                        </CardTitle>
+                        <CardDescription>
+                            Total score over every test whose results are out
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="space-y-2">
+                            {progress.leaderboard.map((entry) => (
+                                <div
+                                    key={entry.userId}
+                                    className={`flex items-center justify-between p-3 border rounded-lg ${entry.userId === progress.standing?.userId ? 'bg-blue-50 border-blue-200' : ''}`}
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <span className="w-8 text-center font-semibold">
+                                            {entry.rank <= 3 ? <Medal className="h-5 w-5 mx-auto text-yellow-500" /> : `#${entry.rank}`}
+                                        </span>
+                                        <div>
+                                            <p className="font-medium text-gray-900">{entry.userName}</p>
+                                            <p className="text-xs text-gray-500">{entry.testsTaken} test(s) · {entry.timeSpent} min</p>
+                                        </div>
+                                    </div>
+                                    <p className="font-medium">{entry.score}/{entry.totalMarks}</p>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AddToCartButton } from '@/components/features/AddToCartButton';
+import { Layers, CalendarClock, IndianRupee } from 'lucide-react';
+import Link from 'next/link';
+
+interface TestSeriesSummary {
+    _id: string;
+    title: string;
+    description: string;
+    exam?: string;
+    price: number;
+    originalPrice?: number;
+    totalTests: number;
+    releasedTests: number;
+    nextReleaseAt: string | null;
+}
+
+export default function TestSeriesPage() {
+    const [seriesList, setSeriesList] = useState<TestSeriesSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchSeries = async () => {
+            try {
+                const response = await fetch('/api/test-series');
+                const data = await response.json();
+
+                if (data.success) {
+                    setSeriesList(data.data);
+                }
+            } catch (error) {
+                console.error('Error fetching test series:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchSeries();
+    }, []);
+
+    return (
+        <div className="container mx-auto px-4 py-8">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-4">Test Series</h1>
+                <p className="text-muted-foreground">
+                    Full mock test series released on a schedule, with a cumulative rank across every test.
+                </p>
+            </div>
+
+            {loading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {[...Array(3)].map((_, i) => (
+                        <Card key={i} className="animate-pulse">
+                            <CardHeader>
+                                <div className="h-4 bg-muted rounded w-3/4"></div>
+                                <div className="h-3 bg-muted rounded w-1/2"></div>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-2">
+                                    <div className="h-3 bg-muted rounded"></div>
+                                    <div className="h-3 bg-muted rounded w-5/6"></div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            ) : seriesList.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {seriesList.map((series) => (
+                        <Card key={series._id} className="h-full hover:shadow-lg transition-shadow">
+                            <CardHeader>
+                                <div className="flex items-center justify-between mb-2">
+                                    {series.exam ? <Badge variant="secondary">{series.exam}</Badge> : <span />}
+                                    <div className="flex items-center text-sm text-muted-foreground">
+                                        <Layers className="h-3 w-3 mr-1" />
+                                        {series.totalTests} tests
+                                    </div>
+                                </div>
+                                <CardTitle className="line-clamp-2">{series.title}</CardTitle>
+                                <CardDescription className="flex items-center">
+                                    <CalendarClock className="h-4 w-4 mr-2" />
+                                    {series.nextReleaseAt
+                                        ? `${series.releasedTests} released · next on ${new Date(series.nextReleaseAt).toLocaleDateString()}`
+                                        : 'All tests released'}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <p className="text-sm text-muted-foreground line-clamp-3 mb-4">
+                                    {series.description}
+                                </p>
+
+                                <div className="flex items-center gap-2 mb-4">
+                                    <div className="flex items-center font-semibold text-2xl">
+                                        <IndianRupee className="h-5 w-5" />
+                                        {series.price}
+                                    </div>
+                                    {series.originalPrice && series.originalPrice > series.price && (
+                                        <span className="text-sm text-muted-foreground line-through">
+                                            ₹{series.originalPrice}
+                                        </span>
+                                    )}
+                                </div>
+
+                                <div className="space-y-2">
+                                    <AddToCartButton
+                                        item={{
+                                            id: series._id,
+                                            type: 'test-series',
+                                            title: series.title,
+                                            price: series.price,
+                                            thumbnail: '',
+                                            description: series.description,
+                                        }}
+                                        className="w-full"
+                                    />
+
+                                    <Link href={`/test-series/${series._id}`}>
+                                        <Button variant="outline" className="w-full">
+                                            View Schedule
+                                        </Button>
+                                    </Link>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            ) : (
+                <div className="text-center py-12">
+                    <Layers className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        No test series available
+                    </h3>
+                    <p className="text-gray-600">
+                        Check back later for new test series.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
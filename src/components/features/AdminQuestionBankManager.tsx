@@ -0,0 +1,442 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Edit, Trash2, Search } from 'lucide-react';
+import { QuestionType } from '@/lib/utils/test-scoring';
+import { QUESTION_TYPE_LABELS } from '@/lib/utils/test-utils';
+import { TestQuestionEditor, EditableQuestion } from './TestQuestionEditor';
+import { BankQuestion } from './QuestionBankPicker';
+
+interface Pagination {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+}
+
+interface QuestionMetadata {
+    subject: string;
+    topic: string;
+    subtopic: string;
+    difficulty: BankQuestion['difficulty'];
+    examTags: string;
+    sourceYear: string;
+    language: BankQuestion['language'];
+    isActive: boolean;
+}
+
+const defaultMetadata: QuestionMetadata = {
+    subject: '',
+    topic: '',
+    subtopic: '',
+    difficulty: 'medium',
+    examTags: '',
+    sourceYear: '',
+    language: 'en',
+    isActive: true,
+};
+
+const newQuestion = (): EditableQuestion => ({
+    type: 'mcq',
+    text: '',
+    options: ['', '', '', ''],
+    correctAnswer: 0,
+    marks: 1,
+});
+
+const difficultyColors: Record<BankQuestion['difficulty'], string> = {
+    easy: 'bg-green-100 text-green-800',
+    medium: 'bg-yellow-100 text-yellow-800',
+    hard: 'bg-red-100 text-red-800',
+};
+
+export default function AdminQuestionBankManager() {
+    const [questions, setQuestions] = useState<BankQuestion[]>([]);
+    const [subjects, setSubjects] = useState<string[]>([]);
+    const [pagination, setPagination] = useState<Pagination | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [page, setPage] = useState(1);
+    const [filters, setFilters] = useState({ q: '', subject: 'all', difficulty: 'all', type: 'all' });
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [editingQuestion, setEditingQuestion] = useState<BankQuestion | null>(null);
+    const [question, setQuestion] = useState<EditableQuestion>(newQuestion());
+    const [metadata, setMetadata] = useState<QuestionMetadata>(defaultMetadata);
+
+    const fetchQuestions = useCallback(async () => {
+        try {
+            const params = new URLSearchParams({ page: String(page) });
+            if (filters.q.trim()) params.set('q', filters.q.trim());
+            if (filters.subject !== 'all') params.set('subject', filters.subject);
+            if (filters.difficulty !== 'all') params.set('difficulty', filters.difficulty);
+            if (filters.type !== 'all') params.set('type', filters.type);
+
+            const response = await fetch(`/api/admin/questions?${params.toString()}`);
+            if (response.ok) {
+                const data = await response.json();
+                setQuestions(data.questions || []);
+                setSubjects(data.facets?.subjects || []);
+                setPagination(data.pagination || null);
+            }
+        } catch (error) {
+            console.error('Failed to fetch questions:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [page, filters]);
+
+    useEffect(() => {
+        const timeout = setTimeout(fetchQuestions, 300);
+        return () => clearTimeout(timeout);
+    }, [fetchQuestions]);
+
+    const updateFilter = (changes: Partial<typeof filters>) => {
+        setFilters(prev => ({ ...prev, ...changes }));
+        setPage(1);
+    };
+
+    const resetForm = () => {
+        setEditingQuestion(null);
+        setQuestion(newQuestion());
+        setMetadata(defaultMetadata);
+    };
+
+    const openCreateDialog = () => {
+        resetForm();
+        setIsDialogOpen(true);
+    };
+
+    const openEditDialog = (bankQuestion: BankQuestion) => {
+        setEditingQuestion(bankQuestion);
+        setQuestion(bankQuestion);
+        setMetadata({
+            subject: bankQuestion.subject,
+            topic: bankQuestion.topic,
+            subtopic: bankQuestion.subtopic || '',
+            difficulty: bankQuestion.difficulty,
+            examTags: (bankQuestion.examTags || []).join(', '),
+            sourceYear: bankQuestion.sourceYear ? String(bankQuestion.sourceYear) : '',
+            language: bankQuestion.language,
+            isActive: bankQuestion.isActive,
+        });
+        setIsDialogOpen(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            const url = editingQuestion ? `/api/admin/questions/${editingQuestion._id}` : '/api/admin/questions';
+            const method = editingQuestion ? 'PUT' : 'POST';
+
+            const response = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    ...question,
+                    ...metadata,
+                    hindi: question.hindi ?? null, // null removes a deleted Hindi version
+                    subtopic: metadata.subtopic || undefined,
+                    sourceYear: metadata.sourceYear ? Number(metadata.sourceYear) : undefined,
+                }),
+            });
+
+            if (response.ok) {
+                const data = await response.json();
+                if (data.synced && (data.synced.tests > 0 || data.synced.courses > 0)) {
+                    alert(`Updated ${data.synced.tests} test(s) and ${data.synced.courses} course(s) using this question`);
+                }
+                await fetchQuestions();
+                resetForm();
+                setIsDialogOpen(false);
+            } else {
+                const error = await response.json();
+                alert(error.error || 'Failed to save question');
+            }
+        } catch (error) {
+            console.error('Failed to save question:', error);
+            alert('Failed to save question');
+        }
+    };
+
+    const handleDelete = async (questionId: string) => {
+        if (!confirm('Are you sure you want to delete this question?')) return;
+
+        try {
+            const response = await fetch(`/api/admin/questions/${questionId}`, {
+                method: 'DELETE',
+            });
+
+            if (response.ok) {
+                await fetchQuestions();
+            } else {
+                const error = await response.json();
+                alert(error.error || 'Failed to delete question');
+            }
+        } catch (error) {
+            console.error('Failed to delete question:', error);
+            alert('Failed to delete question');
+        }
+    };
+
+    if (loading) {
+        return <div className="animate-pulse">Loading questions...</div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">
+                    All Questions {pagination && <span className="text-gray-500 font-normal">({pagination.totalItems})</span>}
+                </h2>
+                <Button onClick={openCreateDialog}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Question
+                </Button>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-2">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                        placeholder="Search question text or topic..."
+                        value={filters.q}
+                        onChange={(e) => updateFilter({ q: e.target.value })}
+                        className="pl-10"
+                    />
+                </div>
+                <Select value={filters.subject} onValueChange={(value) => updateFilter({ subject: value })}>
+                    <SelectTrigger className="w-44">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All Subjects</SelectItem>
+                        {subjects.map(subject => (
+                            <SelectItem key={subject} value={subject}>{subject}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Select value={filters.difficulty} onValueChange={(value) => updateFilter({ difficulty: value })}>
+                    <SelectTrigger className="w-36">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">Any Level</SelectItem>
+                        <SelectItem value="easy">Easy</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="hard">Hard</SelectItem>
+                    </SelectContent>
+                </Select>
+                <Select value={filters.type} onValueChange={(value) => updateFilter({ type: value })}>
+                    <SelectTrigger className="w-48">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All Types</SelectItem>
+                        {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                            <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-3">
+                {questions.map(bankQuestion => (
+                    <Card key={bankQuestion._id}>
+                        <CardContent className="p-4">
+                            <div className="flex justify-between items-start gap-4">
+                                <div className="flex-1 space-y-2">
+                                    <p className="text-sm line-clamp-2">{bankQuestion.text}</p>
+                                    <div className="flex flex-wrap gap-1">
+                                        <Badge variant="outline">{QUESTION_TYPE_LABELS[bankQuestion.type || 'mcq']}</Badge>
+                                        <Badge variant="outline">
+                                            {bankQuestion.subject} › {bankQuestion.topic}
+                                            {bankQuestion.subtopic && ` › ${bankQuestion.subtopic}`}
+                                        </Badge>
+                                        <span className={`px-2 py-0.5 rounded text-xs capitalize ${difficultyColors[bankQuestion.difficulty]}`}>
+                                            {bankQuestion.difficulty}
+                                        </span>
+                                        {bankQuestion.examTags.map(tag => (
+                                            <Badge key={tag} variant="secondary">{tag}</Badge>
+                                        ))}
+                                        {bankQuestion.sourceYear && <Badge variant="outline">{bankQuestion.sourceYear}</Badge>}
+                                        <Badge variant="outline" className="uppercase">{bankQuestion.language}</Badge>
+                                        {bankQuestion.hindi && <Badge variant="outline">Bilingual</Badge>}
+                                        {!bankQuestion.isActive && (
+                                            <span className="px-2 py-0.5 rounded text-xs bg-red-100 text-red-800">Inactive</span>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="flex space-x-1">
+                                    <Button size="sm" variant="outline" onClick={() => openEditDialog(bankQuestion)}>
+                                        <Edit className="h-4 w-4" />
+                                    </Button>
+                                    <Button size="sm" variant="outline" onClick={() => handleDelete(bankQuestion._id)}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            {questions.length === 0 && (
+                <Card>
+                    <CardContent className="text-center py-8">
+                        <p className="text-gray-500">No questions found. Add your first question!</p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="flex justify-center items-center space-x-2">
+                    <Button variant="outline" size="sm" disabled={!pagination.hasPrevPage} onClick={() => setPage(page - 1)}>
+                        Previous
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                        Page {pagination.currentPage} of {pagination.totalPages}
+                    </span>
+                    <Button variant="outline" size="sm" disabled={!pagination.hasNextPage} onClick={() => setPage(page + 1)}>
+                        Next
+                    </Button>
+                </div>
+            )}
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {editingQuestion ? 'Edit Question' : 'Add Question'}
+                        </DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                            <div>
+                                <Label htmlFor="subject">Subject</Label>
+                                <Input
+                                    id="subject"
+                                    value={metadata.subject}
+                                    onChange={(e) => setMetadata({ ...metadata, subject: e.target.value })}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="topic">Topic</Label>
+                                <Input
+                                    id="topic"
+                                    value={metadata.topic}
+                                    onChange={(e) => setMetadata({ ...metadata, topic: e.target.value })}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="subtopic">Subtopic</Label>
+                                <Input
+                                    id="subtopic"
+                                    value={metadata.subtopic}
+                                    onChange={(e) => setMetadata({ ...metadata, subtopic: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <Label>Difficulty</Label>
+                                <Select
+                                    value={metadata.difficulty}
+                                    onValueChange={(value) => setMetadata({ ...metadata, difficulty: value as QuestionMetadata['difficulty'] })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="easy">Easy</SelectItem>
+                                        <SelectItem value="medium">Medium</SelectItem>
+                                        <SelectItem value="hard">Hard</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <Label>Language</Label>
+                                <Select
+                                    value={metadata.language}
+                                    onValueChange={(value) => setMetadata({ ...metadata, language: value as QuestionMetadata['language'] })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="en">English</SelectItem>
+                                        <SelectItem value="hi">Hindi</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <Label htmlFor="sourceYear">Source year</Label>
+                                <Input
+                                    id="sourceYear"
+                                    type="number"
+                                    min="1900"
+                                    value={metadata.sourceYear}
+                                    onChange={(e) => setMetadata({ ...metadata, sourceYear: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <Label htmlFor="examTags">Exam tags (comma separated)</Label>
+                            <Input
+                                id="examTags"
+                                placeholder="UPSC Prelims, SSC CGL"
+                                value={metadata.examTags}
+                                onChange={(e) => setMetadata({ ...metadata, examTags: e.target.value })}
+                            />
+                        </div>
+
+                        <TestQuestionEditor
+                            label="Question"
+                            question={question}
+                            onChange={setQuestion}
+                        />
+
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                id="isActive"
+                                checked={metadata.isActive}
+                                onChange={(e) => setMetadata({ ...metadata, isActive: e.target.checked })}
+                            />
+                            <Label htmlFor="isActive">Active</Label>
+                        </div>
+                        {editingQuestion && (
+                            <p className="text-xs text-gray-500">
+                                Saving updates every test and course quiz that uses this question.
+                            </p>
+                        )}
+                        <div className="flex justify-end space-x-2">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => {
+                                    setIsDialogOpen(false);
+                                    resetForm();
+                                }}
+                            >
+                                Cancel
+                            </Button>
+                            <Button type="submit">
+                                {editingQuestion ? 'Update' : 'Create'}
+                            </Button>
+                        </div>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,417 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, X } from 'lucide-react';
+
+interface SeriesTest {
+    testId: string;
+    releaseAt: string; // datetime-local value, empty when open immediately
+}
+
+interface TestSeries {
+    _id: string;
+    title: string;
+    description: string;
+    exam?: string;
+    price: number;
+    originalPrice?: number;
+    isActive: boolean;
+    purchaseCount: number;
+    tests: Array<{
+        testId: { _id: string; title: string; duration: number; isActive: boolean } | null;
+        releaseAt?: string;
+    }>;
+    createdAt: string;
+}
+
+interface TestOption {
+    _id: string;
+    title: string;
+}
+
+interface SeriesFormData {
+    title: string;
+    description: string;
+    exam: string;
+    price: number;
+    originalPrice: string;
+    isActive: boolean;
+}
+
+const emptyForm: SeriesFormData = {
+    title: '',
+    description: '',
+    exam: '',
+    price: 0,
+    originalPrice: '',
+    isActive: true,
+};
+
+// datetime-local inputs hold local time without a timezone
+const toDateTimeLocal = (value?: string) => {
+    if (!value) return '';
+    const date = new Date(value);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+export const AdminTestSeriesManager: React.FC = () => {
+    const [seriesList, setSeriesList] = useState<TestSeries[]>([]);
+    const [testOptions, setTestOptions] = useState<TestOption[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [editingSeries, setEditingSeries] = useState<TestSeries | null>(null);
+    const [formData, setFormData] = useState<SeriesFormData>(emptyForm);
+    const [seriesTests, setSeriesTests] = useState<SeriesTest[]>([]);
+
+    useEffect(() => {
+        fetchSeries();
+        fetchTestOptions();
+    }, []);
+
+    const fetchSeries = async () => {
+        try {
+            const response = await fetch('/api/admin/test-series');
+            if (response.ok) {
+                const data = await response.json();
+                setSeriesList(data.data || []);
+            }
+        } catch (error) {
+            console.error('Failed to fetch test series:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchTestOptions = async () => {
+        try {
+            const response = await fetch('/api/tests?limit=100');
+            if (response.ok) {
+                const data = await response.json();
+                setTestOptions(data.data?.tests || []);
+            }
+        } catch (error) {
+            console.error('Failed to fetch tests:', error);
+        }
+    };
+
+    const resetForm = () => {
+        setFormData(emptyForm);
+        setSeriesTests([]);
+        setEditingSeries(null);
+    };
+
+    const openEditDialog = (series: TestSeries) => {
+        setEditingSeries(series);
+        setFormData({
+            title: series.title,
+            description: series.description,
+            exam: series.exam || '',
+            price: series.price,
+            originalPrice: series.originalPrice?.toString() || '',
+            isActive: series.isActive,
+        });
+        setSeriesTests(series.tests
+            .filter(entry => entry.testId)
+            .map(entry => ({ testId: entry.testId!._id, releaseAt: toDateTimeLocal(entry.releaseAt) })));
+        setIsDialogOpen(true);
+    };
+
+    const addTest = (testId: string) => {
+        if (seriesTests.some(entry => entry.testId === testId)) return;
+        setSeriesTests([...seriesTests, { testId, releaseAt: '' }]);
+    };
+
+    const moveTest = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= seriesTests.length) return;
+        const next = [...seriesTests];
+        [next[index], next[target]] = [next[target], next[index]];
+        setSeriesTests(next);
+    };
+
+    const getTestTitle = (testId: string) =>
+        testOptions.find(test => test._id === testId)?.title
+        || editingSeries?.tests.find(entry => entry.testId?._id === testId)?.testId?.title
+        || testId;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            const url = editingSeries ? `/api/admin/test-series/${editingSeries._id}` : '/api/admin/test-series';
+            const response = await fetch(url, {
+                method: editingSeries ? 'PUT' : 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    title: formData.title,
+                    description: formData.description,
+                    exam: formData.exam,
+                    price: formData.price,
+                    originalPrice: formData.originalPrice === '' ? null : Number(formData.originalPrice),
+                    isActive: formData.isActive,
+                    tests: seriesTests.map(entry => ({
+                        testId: entry.testId,
+                        releaseAt: entry.releaseAt ? new Date(entry.releaseAt).toISOString() : null,
+                    })),
+                }),
+            });
+
+            if (response.ok) {
+                await fetchSeries();
+                resetForm();
+                setIsDialogOpen(false);
+            } else {
+                const error = await response.json();
+                alert(error.error || 'Failed to save test series');
+            }
+        } catch (error) {
+            console.error('Failed to save test series:', error);
+            alert('Failed to save test series');
+        }
+    };
+
+    const handleDelete = async (seriesId: string) => {
+        if (!confirm('Are you sure you want to delete this test series?')) return;
+
+        try {
+            const response = await fetch(`/api/admin/test-series/${seriesId}`, {
+                method: 'DELETE',
+            });
+
+            if (response.ok) {
+                await fetchSeries();
+            } else {
+                const error = await response.json();
+                alert(error.error || 'Failed to delete test series');
+            }
+        } catch (error) {
+            console.error('Failed to delete test series:', error);
+            alert('Failed to delete test series');
+        }
+    };
+
+    if (loading) {
+        return <div className="text-center py-8">Loading test series...</div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">All Test Series</h2>
+                <Dialog
+                    open={isDialogOpen}
+                    onOpenChange={(open) => {
+                        setIsDialogOpen(open);
+                        if (!open) resetForm();
+                    }}
+                >
+                    <DialogTrigger asChild>
+                        <Button onClick={resetForm}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Series
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <DialogHeader>
+                            <DialogTitle>
+                                {editingSeries ? 'Edit Test Series' : 'Create Test Series'}
+                            </DialogTitle>
+                        </DialogHeader>
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div>
+                                <Label htmlFor="series-title">Title</Label>
+                                <Input
+                                    id="series-title"
+                                    value={formData.title}
+                                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="series-description">Description</Label>
+                                <Textarea
+                                    id="series-description"
+                                    value={formData.description}
+                                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                    required
+                                />
+                            </div>
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <Label htmlFor="series-exam">Exam</Label>
+                                    <Input
+                                        id="series-exam"
+                                        placeholder="e.g. HP Patwari"
+                                        value={formData.exam}
+                                        onChange={(e) => setFormData({ ...formData, exam: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="series-price">Price (₹)</Label>
+                                    <Input
+                                        id="series-price"
+                                        type="number"
+                                        min="0"
+                                        value={formData.price}
+                                        onChange={(e) => setFormData({ ...formData, price: Number(e.target.value) })}
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="series-original-price">Original price (₹)</Label>
+                                    <Input
+                                        id="series-original-price"
+                                        type="number"
+                                        min="0"
+                                        value={formData.originalPrice}
+                                        onChange={(e) => setFormData({ ...formData, originalPrice: e.target.value })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-3 rounded-md border p-3">
+                                <p className="text-sm font-medium">Tests and release schedule</p>
+                                <Select value="" onValueChange={addTest}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Add a test" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {testOptions
+                                            .filter(test => !seriesTests.some(entry => entry.testId === test._id))
+                                            .map(test => (
+                                                <SelectItem key={test._id} value={test._id}>{test.title}</SelectItem>
+                                            ))}
+                                    </SelectContent>
+                                </Select>
+                                {seriesTests.length === 0 && (
+                                    <p className="text-sm text-gray-500">No tests added yet</p>
+                                )}
+                                {seriesTests.map((entry, index) => (
+                                    <div key={entry.testId} className="flex items-center gap-2">
+                                        <span className="text-sm w-6 text-gray-500">{index + 1}.</span>
+                                        <span className="flex-1 text-sm font-medium truncate">{getTestTitle(entry.testId)}</span>
+                                        <Input
+                                            type="datetime-local"
+                                            className="w-52"
+                                            value={entry.releaseAt}
+                                            onChange={(e) => setSeriesTests(seriesTests.map((other, otherIndex) =>
+                                                otherIndex === index ? { ...other, releaseAt: e.target.value } : other
+                                            ))}
+                                        />
+                                        <Button type="button" size="sm" variant="ghost" onClick={() => moveTest(index, -1)}>
+                                            <ArrowUp className="h-3 w-3" />
+                                        </Button>
+                                        <Button type="button" size="sm" variant="ghost" onClick={() => moveTest(index, 1)}>
+                                            <ArrowDown className="h-3 w-3" />
+                                        </Button>
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => setSeriesTests(seriesTests.filter((_, otherIndex) => otherIndex !== index))}
+                                        >
+                                            <X className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <p className="text-xs text-gray-500">
+                                    Leave the release date empty to open a test as soon as the series is bought
+                                </p>
+                            </div>
+
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    type="checkbox"
+                                    id="series-active"
+                                    checked={formData.isActive}
+                                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                                />
+                                <Label htmlFor="series-active">Active</Label>
+                            </div>
+
+                            <div className="flex justify-end space-x-2">
+                                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                                    Cancel
+                                </Button>
+                                <Button type="submit">
+                                    {editingSeries ? 'Update' : 'Create'} Series
+                                </Button>
+                            </div>
+                        </form>
+                    </DialogContent>
+                </Dialog>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {seriesList.map((series) => {
+                    const upcoming = series.tests.filter(entry => entry.releaseAt && new Date(entry.releaseAt) > new Date());
+                    return (
+                        <Card key={series._id}>
+                            <CardHeader>
+                                <div className="flex justify-between items-start">
+                                    <CardTitle className="text-lg">{series.title}</CardTitle>
+                                    <Badge variant={series.isActive ? 'default' : 'secondary'}>
+                                        {series.isActive ? 'Active' : 'Inactive'}
+                                    </Badge>
+                                </div>
+                                {series.exam && <p className="text-sm text-gray-600">{series.exam}</p>}
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Tests:</span>
+                                        <span className="font-medium">{series.tests.length}</span>
+                                    </div>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Upcoming releases:</span>
+                                        <span className="font-medium">{upcoming.length}</span>
+                                    </div>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Price:</span>
+                                        <span className="font-medium">₹{series.price}</span>
+                                    </div>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Purchases:</span>
+                                        <span className="font-medium">{series.purchaseCount}</span>
+                                    </div>
+                                </div>
+
+                                <div className="flex justify-between items-center mt-4">
+                                    <p className="text-xs text-gray-500">
+                                        Created: {new Date(series.createdAt).toLocaleDateString()}
+                                    </p>
+                                    <div className="flex space-x-1">
+                                        <Button size="sm" variant="ghost" onClick={() => openEditDialog(series)}>
+                                            <Edit className="h-3 w-3" />
+                                        </Button>
+                                        <Button size="sm" variant="ghost" onClick={() => handleDelete(series._id)}>
+                                            <Trash2 className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    );
+                })}
+            </div>
+
+            {seriesList.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                    No test series yet. Create one to sell tests together.
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AdminTestSeriesManager;
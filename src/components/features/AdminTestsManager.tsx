@@ -7,7 +7,80 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Edit, Trash2, Eye, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Edit, Trash2, Eye, Users, Library, Unlink, Wand2, Upload, Download, BarChart3, Flag, Printer } from 'lucide-react';
+import { TestQuestionEditor, EditableQuestion, RESOLUTION_LABELS } from './TestQuestionEditor';
+import { QuestionBankPicker, BankQuestion } from './QuestionBankPicker';
+import { TestBlueprintGenerator } from './TestBlueprintGenerator';
+import { TestImportDialog } from './TestImportDialog';
+import { TestItemAnalysis } from './TestItemAnalysis';
+import { TestAttemptsLog } from './TestAttemptsLog';
+import { TestErrataQueue } from './TestErrataQueue';
+import { TestPrintDialog } from './TestPrintDialog';
+import { CATEGORY_LABELS } from './ProfileManagement';
+import type { MarkingScheme } from '@/lib/utils/test-scoring';
+
+const defaultMarkingScheme: MarkingScheme = {
+    negativeFraction: 0,
+    unansweredMarks: 0,
+    allowPartialCredit: false,
+};
+
+type ScheduleField = 'startsAt' | 'lateEntryUntil' | 'endsAt' | 'resultsReleaseAt';
+
+const SCHEDULE_FIELDS: Array<{ field: ScheduleField; label: string }> = [
+    { field: 'startsAt', label: 'Starts at' },
+    { field: 'lateEntryUntil', label: 'Late entry until' },
+    { field: 'endsAt', label: 'Ends at (auto-submit)' },
+    { field: 'resultsReleaseAt', label: 'Results released at' },
+];
+
+const emptySchedule: Record<ScheduleField, string> = {
+    startsAt: '',
+    lateEntryUntil: '',
+    endsAt: '',
+    resultsReleaseAt: '',
+};
+
+// datetime-local inputs hold local time without a timezone
+const toDateTimeLocal = (value?: string) => {
+    if (!value) return '';
+    const date = new Date(value);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+type ReservationCategory = keyof typeof CATEGORY_LABELS;
+
+interface CategoryCutoff {
+    category: ReservationCategory;
+    overall?: number;
+    sections: Array<{ sectionId: string; marks: number }>;
+}
+
+// Cutoff inputs per category; blank inputs mean no cutoff
+type CutoffDrafts = Partial<Record<ReservationCategory, { overall: string; sections: Record<string, string> }>>;
+
+const toCutoffDrafts = (cutoffs: CategoryCutoff[] = []): CutoffDrafts => Object.fromEntries(
+    cutoffs.map(row => [row.category, {
+        overall: row.overall !== undefined && row.overall !== null ? String(row.overall) : '',
+        sections: Object.fromEntries(row.sections.map(entry => [entry.sectionId, String(entry.marks)])),
+    }])
+);
+
+const fromCutoffDrafts = (drafts: CutoffDrafts): CategoryCutoff[] =>
+    (Object.keys(CATEGORY_LABELS) as ReservationCategory[])
+        .map(category => {
+            const draft = drafts[category];
+            return {
+                category,
+                overall: draft?.overall ? Number(draft.overall) : undefined,
+                sections: Object.entries(draft?.sections || {})
+                    .filter(([, marks]) => marks !== '')
+                    .map(([sectionId, marks]) => ({ sectionId, marks: Number(marks) })),
+            };
+        })
+        .filter(row => row.overall !== undefined || row.sections.length > 0);
 
 interface MockTest {
     _id: string;
@@ -17,22 +90,74 @@ interface MockTest {
     sections: Array<{
         _id: string;
         title: string;
-        questions: Array<{
-            _id: string;
-            text: string;
-            options: string[];
-            correctAnswer: number;
-            explanation?: string;
-            marks: number;
-        }>;
+        questions: EditableQuestion[];
         timeLimit?: number;
+        markingScheme?: MarkingScheme;
     }>;
+    markingScheme?: MarkingScheme;
+    sectionalTiming?: boolean;
+    evaluateMarkedAnswers?: boolean;
+    rankingPolicy?: RankingPolicy;
+    maxAttempts?: number;
+    retakeCooldownMinutes?: number;
+    solutionsAfterFinalAttempt?: boolean;
+    proctored?: boolean;
+    maxViolations?: number;
+    practiceMode?: PracticeMode;
+    practiceQuestionSeconds?: number;
+    cutoffs?: CategoryCutoff[];
+    rescore?: {
+        status: 'running' | 'completed' | 'failed';
+        reason: string;
+        startedAt: string;
+        heartbeatAt?: string;
+        completedAt?: string;
+        attemptsRescored: number;
+        attemptsChanged: number;
+        error?: string;
+    };
+    startsAt?: string;
+    lateEntryUntil?: string;
+    endsAt?: string;
+    resultsReleaseAt?: string;
     price: number;
     isActive: boolean;
     createdAt: string;
     updatedAt: string;
 }
 
+type RankingPolicy = 'first' | 'best';
+
+type PracticeMode = 'off' | 'optional' | 'only';
+
+const newQuestion = (): EditableQuestion => ({
+    type: 'mcq',
+    text: '',
+    options: ['', '', '', ''],
+    correctAnswer: 0,
+    marks: 1,
+});
+
+// Copies a bank question into a test, keeping the link so bank edits flow through
+const fromBankQuestion = (question: BankQuestion): EditableQuestion => ({
+    type: question.type,
+    text: question.text,
+    options: question.options,
+    correctAnswer: question.correctAnswer,
+    correctAnswers: question.correctAnswers,
+    numericAnswer: question.numericAnswer,
+    tolerance: question.tolerance,
+    matchItems: question.matchItems,
+    correctMatches: question.correctMatches,
+    reason: question.reason,
+    explanation: question.explanation,
+    hindi: question.hindi,
+    marks: question.marks,
+    subject: question.subject,
+    topic: question.topic,
+    bankQuestionId: question._id,
+});
+
 export default function AdminTestsManager() {
     const [tests, setTests] = useState<MockTest[]>([]);
     const [loading, setLoading] = useState(true);
@@ -44,7 +169,31 @@ export default function AdminTestsManager() {
         duration: 60,
         price: 0,
         isActive: true,
+        markingScheme: defaultMarkingScheme,
+        sectionalTiming: false,
+        evaluateMarkedAnswers: true,
+        rankingPolicy: 'first' as RankingPolicy,
+        maxAttempts: 0,
+        retakeCooldownMinutes: 0,
+        solutionsAfterFinalAttempt: false,
+        proctored: false,
+        maxViolations: 0,
+        practiceMode: 'off' as PracticeMode,
+        practiceQuestionSeconds: 0,
     });
+    const [sectionDrafts, setSectionDrafts] = useState<MockTest['sections']>([]);
+    const [expandedSectionId, setExpandedSectionId] = useState<string | null>(null);
+    const [sectionTimeLimits, setSectionTimeLimits] = useState<Record<string, number | undefined>>({});
+    const [schedule, setSchedule] = useState(emptySchedule);
+    const [cutoffDrafts, setCutoffDrafts] = useState<CutoffDrafts>({});
+    const [sectionSchemes, setSectionSchemes] = useState<Record<string, MarkingScheme | undefined>>({});
+    const [bankPickerSectionId, setBankPickerSectionId] = useState<string | null>(null);
+    const [isGeneratorOpen, setIsGeneratorOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [analysisTestId, setAnalysisTestId] = useState<string | null>(null);
+    const [attemptsTestId, setAttemptsTestId] = useState<string | null>(null);
+    const [printTestId, setPrintTestId] = useState<string | null>(null);
+    const [isErrataOpen, setIsErrataOpen] = useState(false);
 
     useEffect(() => {
         fetchTests();
@@ -76,7 +225,21 @@ export default function AdminTestsManager() {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify(formData),
+                body: JSON.stringify({
+                    ...formData,
+                    ...Object.fromEntries(SCHEDULE_FIELDS.map(({ field }) => [
+                        field,
+                        schedule[field] ? new Date(schedule[field]).toISOString() : null,
+                    ])),
+                    cutoffs: fromCutoffDrafts(cutoffDrafts),
+                    ...(editingTest && {
+                        sections: sectionDrafts.map(section => ({
+                            ...section,
+                            markingScheme: sectionSchemes[section._id],
+                            timeLimit: sectionTimeLimits[section._id],
+                        })),
+                    }),
+                }),
             });
 
             if (response.ok) {
@@ -114,6 +277,24 @@ export default function AdminTestsManager() {
         }
     };
 
+    const handleRetryRescore = async (testId: string) => {
+        try {
+            const response = await fetch(`/api/admin/tests/${testId}/rescore`, {
+                method: 'POST',
+            });
+
+            if (response.ok) {
+                await fetchTests();
+            } else {
+                const error = await response.json();
+                alert(error.error || 'Failed to re-score attempts');
+            }
+        } catch (error) {
+            console.error('Failed to re-score attempts:', error);
+            alert('Failed to re-score attempts');
+        }
+    };
+
     const resetForm = () => {
         setFormData({
             title: '',
@@ -121,7 +302,25 @@ export default function AdminTestsManager() {
             duration: 60,
             price: 0,
             isActive: true,
+            markingScheme: defaultMarkingScheme,
+            sectionalTiming: false,
+            evaluateMarkedAnswers: true,
+            rankingPolicy: 'first',
+            maxAttempts: 0,
+            retakeCooldownMinutes: 0,
+            solutionsAfterFinalAttempt: false,
+            proctored: false,
+            maxViolations: 0,
+            practiceMode: 'off',
+            practiceQuestionSeconds: 0,
         });
+        setSectionSchemes({});
+        setSectionTimeLimits({});
+        setSchedule(emptySchedule);
+        setCutoffDrafts({});
+        setSectionDrafts([]);
+        setExpandedSectionId(null);
+        setBankPickerSectionId(null);
     };
 
     const openEditDialog = (test: MockTest) => {
@@ -132,10 +331,72 @@ export default function AdminTestsManager() {
             duration: test.duration,
             price: test.price,
             isActive: test.isActive,
+            markingScheme: { ...defaultMarkingScheme, ...test.markingScheme },
+            sectionalTiming: !!test.sectionalTiming,
+            evaluateMarkedAnswers: test.evaluateMarkedAnswers !== false,
+            rankingPolicy: test.rankingPolicy || 'first',
+            maxAttempts: test.maxAttempts || 0,
+            retakeCooldownMinutes: test.retakeCooldownMinutes || 0,
+            solutionsAfterFinalAttempt: !!test.solutionsAfterFinalAttempt,
+            proctored: !!test.proctored,
+            maxViolations: test.maxViolations || 0,
+            practiceMode: test.practiceMode || 'off',
+            practiceQuestionSeconds: test.practiceQuestionSeconds || 0,
         });
+        setSectionSchemes(Object.fromEntries(
+            test.sections.map(section => [section._id, section.markingScheme])
+        ));
+        setSectionTimeLimits(Object.fromEntries(
+            test.sections.map(section => [section._id, section.timeLimit])
+        ));
+        setSchedule(Object.fromEntries(
+            SCHEDULE_FIELDS.map(({ field }) => [field, toDateTimeLocal(test[field])])
+        ) as Record<ScheduleField, string>);
+        setCutoffDrafts(toCutoffDrafts(test.cutoffs));
+        setSectionDrafts(test.sections);
+        setExpandedSectionId(null);
         setIsCreateDialogOpen(true);
     };
 
+    const updateMarkingScheme = (changes: Partial<MarkingScheme>) => {
+        setFormData(prev => ({ ...prev, markingScheme: { ...prev.markingScheme, ...changes } }));
+    };
+
+    const updateSectionScheme = (sectionId: string, changes: Partial<MarkingScheme> | null) => {
+        setSectionSchemes(prev => ({
+            ...prev,
+            [sectionId]: changes === null
+                ? undefined
+                : { ...formData.markingScheme, ...prev[sectionId], ...changes },
+        }));
+    };
+
+    const updateCutoff = (category: ReservationCategory, sectionId: string | null, value: string) => {
+        setCutoffDrafts(prev => {
+            const draft = prev[category] || { overall: '', sections: {} };
+            return {
+                ...prev,
+                [category]: sectionId === null
+                    ? { ...draft, overall: value }
+                    : { ...draft, sections: { ...draft.sections, [sectionId]: value } },
+            };
+        });
+    };
+
+    const updateSectionQuestions = (sectionId: string, update: (questions: EditableQuestion[]) => EditableQuestion[]) => {
+        setSectionDrafts(prev => prev.map(section =>
+            section._id === sectionId ? { ...section, questions: update(section.questions) } : section
+        ));
+    };
+
+    const describeScheme = (scheme?: MarkingScheme) => {
+        const resolved = { ...defaultMarkingScheme, ...scheme };
+        const positive = resolved.positiveMarks !== undefined ? `+${resolved.positiveMarks}` : '+marks';
+        return resolved.negativeFraction > 0
+            ? `${positive} / -${resolved.negativeFraction}×`
+            : `${positive} / no negative`;
+    };
+
     const getTotalQuestions = (test: MockTest) => {
         return test.sections.reduce((total, section) => total + section.questions.length, 0);
     };
@@ -148,88 +409,567 @@ export default function AdminTestsManager() {
         <div className="space-y-6">
             <div className="flex justify-between items-center">
                 <h2 className="text-xl font-semibold">All Mock Tests</h2>
-                <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-                    <DialogTrigger asChild>
-                        <Button onClick={resetForm}>
-                            <Plus className="h-4 w-4 mr-2" />
-                            Add Test
-                        </Button>
-                    </DialogTrigger>
-                    <DialogContent className="max-w-md">
-                        <DialogHeader>
-                            <DialogTitle>
-                                {editingTest ? 'Edit Mock Test' : 'Create New Mock Test'}
-                            </DialogTitle>
-                        </DialogHeader>
-                        <form onSubmit={handleSubmit} className="space-y-4">
-                            <div>
-                                <Label htmlFor="title">Title</Label>
-                                <Input
-                                    id="title"
-                                    value={formData.title}
-                                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                                    required
-                                />
-                            </div>
-                            <div>
-                                <Label htmlFor="description">Description</Label>
-                                <Textarea
-                                    id="description"
-                                    value={formData.description}
-                                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                                    required
-                                />
-                            </div>
-                            <div>
-                                <Label htmlFor="duration">Duration (minutes)</Label>
-                                <Input
-                                    id="duration"
-                                    type="number"
-                                    min="1"
-                                    value={formData.duration}
-                                    onChange={(e) => setFormData({ ...formData, duration: Number(e.target.value) })}
-                                    required
-                                />
-                            </div>
-                            <div>
-                                <Label htmlFor="price">Price (₹)</Label>
-                                <Input
-                                    id="price"
-                                    type="number"
-                                    min="0"
-                                    value={formData.price}
-                                    onChange={(e) => setFormData({ ...formData, price: Number(e.target.value) })}
-                                    required
-                                />
-                            </div>
-                            <div className="flex items-center space-x-2">
-                                <input
-                                    type="checkbox"
-                                    id="isActive"
-                                    checked={formData.isActive}
-                                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
-                                />
-                                <Label htmlFor="isActive">Active</Label>
-                            </div>
-                            <div className="flex justify-end space-x-2">
-                                <Button
-                                    type="button"
-                                    variant="outline"
-                                    onClick={() => {
-                                        setIsCreateDialogOpen(false);
-                                        setEditingTest(null);
-                                        resetForm();
-                                    }}
-                                >
-                                    Cancel
-                                </Button>
-                                <Button type="submit">
-                                    {editingTest ? 'Update' : 'Create'}
-                                </Button>
-                            </div>
-                        </form>
-                    </DialogContent>
-                </Dialog>
+                <div className="flex space-x-2">
+                    <Button variant="outline" onClick={() => setIsErrataOpen(true)}>
+                        <Flag className="h-4 w-4 mr-2" />
+                        Reported Questions
+                    </Button>
+                    <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import
+                    </Button>
+                    <Button variant="outline" onClick={() => setIsGeneratorOpen(true)}>
+                        <Wand2 className="h-4 w-4 mr-2" />
+                        Generate from Blueprint
+                    </Button>
+                    <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                        <DialogTrigger asChild>
+                            <Button onClick={resetForm}>
+                                <Plus className="h-4 w-4 mr-2" />
+                                Add Test
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className={editingTest ? 'max-w-3xl max-h-[90vh] overflow-y-auto' : 'max-w-md'}>
+                            <DialogHeader>
+                                <DialogTitle>
+                                    {editingTest ? 'Edit Mock Test' : 'Create New Mock Test'}
+                                </DialogTitle>
+                            </DialogHeader>
+                            <form onSubmit={handleSubmit} className="space-y-4">
+                                <div>
+                                    <Label htmlFor="title">Title</Label>
+                                    <Input
+                                        id="title"
+                                        value={formData.title}
+                                        onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="description">Description</Label>
+                                    <Textarea
+                                        id="description"
+                                        value={formData.description}
+                                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="duration">Duration (minutes)</Label>
+                                    <Input
+                                        id="duration"
+                                        type="number"
+                                        min="1"
+                                        value={formData.duration}
+                                        onChange={(e) => setFormData({ ...formData, duration: Number(e.target.value) })}
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="price">Price (₹)</Label>
+                                    <Input
+                                        id="price"
+                                        type="number"
+                                        min="0"
+                                        value={formData.price}
+                                        onChange={(e) => setFormData({ ...formData, price: Number(e.target.value) })}
+                                        required
+                                    />
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <p className="text-sm font-medium">Marking Scheme</p>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <Label htmlFor="positiveMarks">Marks per correct</Label>
+                                            <Input
+                                                id="positiveMarks"
+                                                type="number"
+                                                min="0"
+                                                step="0.25"
+                                                placeholder="Question marks"
+                                                value={formData.markingScheme.positiveMarks ?? ''}
+                                                onChange={(e) => updateMarkingScheme({
+                                                    positiveMarks: e.target.value === '' ? undefined : Number(e.target.value),
+                                                })}
+                                            />
+                                        </div>
+                                        <div>
+                                            <Label htmlFor="negativeFraction">Negative fraction</Label>
+                                            <Input
+                                                id="negativeFraction"
+                                                type="number"
+                                                min="0"
+                                                max="1"
+                                                step="0.01"
+                                                value={formData.markingScheme.negativeFraction}
+                                                onChange={(e) => updateMarkingScheme({ negativeFraction: Number(e.target.value) })}
+                                            />
+                                        </div>
+                                        <div>
+                                            <Label htmlFor="unansweredMarks">Marks per skipped</Label>
+                                            <Input
+                                                id="unansweredMarks"
+                                                type="number"
+                                                max="0"
+                                                step="0.25"
+                                                value={formData.markingScheme.unansweredMarks}
+                                                onChange={(e) => updateMarkingScheme({ unansweredMarks: Number(e.target.value) })}
+                                            />
+                                        </div>
+                                        <div className="flex items-end space-x-2 pb-2">
+                                            <input
+                                                type="checkbox"
+                                                id="allowPartialCredit"
+                                                checked={formData.markingScheme.allowPartialCredit}
+                                                onChange={(e) => updateMarkingScheme({ allowPartialCredit: e.target.checked })}
+                                            />
+                                            <Label htmlFor="allowPartialCredit">Partial credit</Label>
+                                        </div>
+                                    </div>
+                                    {editingTest && editingTest.sections.length > 0 && (
+                                        <div className="space-y-2 pt-2 border-t">
+                                            <p className="text-xs text-gray-500">Section overrides</p>
+                                            {editingTest.sections.map(section => {
+                                                const override = sectionSchemes[section._id];
+                                                return (
+                                                    <div key={section._id} className="flex items-center gap-2 text-sm">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!override}
+                                                            onChange={(e) => updateSectionScheme(section._id, e.target.checked ? {} : null)}
+                                                        />
+                                                        <span className="flex-1 truncate">{section.title}</span>
+                                                        {override ? (
+                                                            <>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="0"
+                                                                    step="0.25"
+                                                                    className="w-20 h-8"
+                                                                    placeholder="+marks"
+                                                                    value={override.positiveMarks ?? ''}
+                                                                    onChange={(e) => updateSectionScheme(section._id, {
+                                                                        positiveMarks: e.target.value === '' ? undefined : Number(e.target.value),
+                                                                    })}
+                                                                />
+                                                                <Input
+                                                                    type="number"
+                                                                    min="0"
+                                                                    max="1"
+                                                                    step="0.01"
+                                                                    className="w-20 h-8"
+                                                                    value={override.negativeFraction}
+                                                                    onChange={(e) => updateSectionScheme(section._id, {
+                                                                        negativeFraction: Number(e.target.value),
+                                                                    })}
+                                                                />
+                                                            </>
+                                                        ) : (
+                                                            <span className="text-xs text-gray-500">Uses test scheme</span>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <div className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            id="sectionalTiming"
+                                            checked={formData.sectionalTiming}
+                                            onChange={(e) => setFormData({ ...formData, sectionalTiming: e.target.checked })}
+                                        />
+                                        <Label htmlFor="sectionalTiming">Enforce sectional timers</Label>
+                                    </div>
+                                    {formData.sectionalTiming && (
+                                        <p className="text-xs text-gray-500">
+                                            Students attempt sections in order and cannot return to a section once its time is over.
+                                        </p>
+                                    )}
+                                    {editingTest && editingTest.sections.length > 0 && (
+                                        <div className="space-y-2 pt-2 border-t">
+                                            <p className="text-xs text-gray-500">Section time limits (minutes)</p>
+                                            {editingTest.sections.map(section => (
+                                                <div key={section._id} className="flex items-center gap-2 text-sm">
+                                                    <span className="flex-1 truncate">{section.title}</span>
+                                                    <Input
+                                                        type="number"
+                                                        min="1"
+                                                        className="w-24 h-8"
+                                                        placeholder="None"
+                                                        value={sectionTimeLimits[section._id] ?? ''}
+                                                        onChange={(e) => setSectionTimeLimits(prev => ({
+                                                            ...prev,
+                                                            [section._id]: e.target.value === '' ? undefined : Number(e.target.value),
+                                                        }))}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="space-y-1 rounded-md border p-3">
+                                    <div className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            id="evaluateMarkedAnswers"
+                                            checked={formData.evaluateMarkedAnswers}
+                                            onChange={(e) => setFormData({ ...formData, evaluateMarkedAnswers: e.target.checked })}
+                                        />
+                                        <Label htmlFor="evaluateMarkedAnswers">Evaluate answers marked for review</Label>
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        {formData.evaluateMarkedAnswers
+                                            ? 'Answered questions count even if still marked for review at submission.'
+                                            : 'Answered questions still marked for review at submission are treated as unanswered.'}
+                                    </p>
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <p className="text-sm font-medium">Live test schedule</p>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {SCHEDULE_FIELDS.map(({ field, label }) => (
+                                            <div key={field}>
+                                                <Label htmlFor={field}>{label}</Label>
+                                                <Input
+                                                    id={field}
+                                                    type="datetime-local"
+                                                    value={schedule[field]}
+                                                    onChange={(e) => setSchedule(prev => ({ ...prev, [field]: e.target.value }))}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        Leave the start time empty for an always-open test. Attempts still running at the end time are submitted automatically.
+                                    </p>
+                                </div>
+                                <div>
+                                    <Label>Leaderboard ranks each student&apos;s</Label>
+                                    <Select
+                                        value={formData.rankingPolicy}
+                                        onValueChange={(value) => setFormData({ ...formData, rankingPolicy: value as RankingPolicy })}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="first">First attempt</SelectItem>
+                                            <SelectItem value="best">Best attempt</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <Label htmlFor="maxAttempts">Maximum attempts</Label>
+                                            <Input
+                                                id="maxAttempts"
+                                                type="number"
+                                                min="0"
+                                                value={formData.maxAttempts}
+                                                onChange={(e) => {
+                                                    const maxAttempts = Number(e.target.value);
+                                                    setFormData({
+                                                        ...formData,
+                                                        maxAttempts,
+                                                        solutionsAfterFinalAttempt: maxAttempts > 0 && formData.solutionsAfterFinalAttempt,
+                                                    });
+                                                }}
+                                            />
+                                            <p className="text-xs text-gray-500 mt-1">0 for unlimited</p>
+                                        </div>
+                                        <div>
+                                            <Label htmlFor="retakeCooldownMinutes">Retake cooldown (minutes)</Label>
+                                            <Input
+                                                id="retakeCooldownMinutes"
+                                                type="number"
+                                                min="0"
+                                                value={formData.retakeCooldownMinutes}
+                                                onChange={(e) => setFormData({ ...formData, retakeCooldownMinutes: Number(e.target.value) })}
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            id="solutionsAfterFinalAttempt"
+                                            checked={formData.solutionsAfterFinalAttempt}
+                                            disabled={formData.maxAttempts === 0 || formData.practiceMode !== 'off'}
+                                            onChange={(e) => setFormData({ ...formData, solutionsAfterFinalAttempt: e.target.checked })}
+                                        />
+                                        <Label htmlFor="solutionsAfterFinalAttempt">Show solutions only after the final attempt</Label>
+                                    </div>
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <div className="flex items-center space-x-2">
+                                        <input
+                                            type="checkbox"
+                                            id="proctored"
+                                            checked={formData.proctored}
+                                            onChange={(e) => setFormData({
+                                                ...formData,
+                                                proctored: e.target.checked,
+                                                maxViolations: e.target.checked ? formData.maxViolations : 0,
+                                            })}
+                                        />
+                                        <Label htmlFor="proctored">Proctored (fullscreen, activity log)</Label>
+                                    </div>
+                                    {formData.proctored && (
+                                        <div>
+                                            <Label htmlFor="maxViolations">Auto-submit after violations</Label>
+                                            <Input
+                                                id="maxViolations"
+                                                type="number"
+                                                min="0"
+                                                value={formData.maxViolations}
+                                                onChange={(e) => setFormData({ ...formData, maxViolations: Number(e.target.value) })}
+                                            />
+                                            <p className="text-xs text-gray-500 mt-1">0 to only record violations</p>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <Label>Practice mode</Label>
+                                            <Select
+                                                value={formData.practiceMode}
+                                                onValueChange={(value) => setFormData({
+                                                    ...formData,
+                                                    practiceMode: value as PracticeMode,
+                                                    solutionsAfterFinalAttempt: value === 'off' && formData.solutionsAfterFinalAttempt,
+                                                })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="off">Exam only</SelectItem>
+                                                    <SelectItem value="optional">Student chooses</SelectItem>
+                                                    <SelectItem value="only">Practice only</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        {formData.practiceMode !== 'off' && (
+                                            <div>
+                                                <Label htmlFor="practiceQuestionSeconds">Seconds per question</Label>
+                                                <Input
+                                                    id="practiceQuestionSeconds"
+                                                    type="number"
+                                                    min="0"
+                                                    value={formData.practiceQuestionSeconds}
+                                                    onChange={(e) => setFormData({ ...formData, practiceQuestionSeconds: Number(e.target.value) })}
+                                                />
+                                                <p className="text-xs text-gray-500 mt-1">0 for no timer</p>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                        Practice attempts check each answer instantly and stay off the leaderboard. Scheduled tests open practice once results are out.
+                                    </p>
+                                </div>
+                                <div className="space-y-3 rounded-md border p-3">
+                                    <p className="text-sm font-medium">Cutoffs</p>
+                                    {(Object.keys(CATEGORY_LABELS) as ReservationCategory[]).map(category => (
+                                        <div key={category} className="grid grid-cols-3 gap-2 items-end">
+                                            <div>
+                                                <Label htmlFor={`cutoff-${category}`}>{CATEGORY_LABELS[category]} overall</Label>
+                                                <Input
+                                                    id={`cutoff-${category}`}
+                                                    type="number"
+                                                    step="0.01"
+                                                    value={cutoffDrafts[category]?.overall ?? ''}
+                                                    onChange={(e) => updateCutoff(category, null, e.target.value)}
+                                                />
+                                            </div>
+                                            {editingTest && sectionDrafts.map(section => (
+                                                <div key={section._id}>
+                                                    <Label htmlFor={`cutoff-${category}-${section._id}`} className="text-xs">{section.title}</Label>
+                                                    <Input
+                                                        id={`cutoff-${category}-${section._id}`}
+                                                        type="number"
+                                                        step="0.01"
+                                                        value={cutoffDrafts[category]?.sections[section._id] ?? ''}
+                                                        onChange={(e) => updateCutoff(category, section._id, e.target.value)}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-gray-500">
+                                        Leave blank for no cutoff. Categories without cutoffs use the General ones{editingTest ? '' : '; sectional cutoffs can be set once the test is created'}.
+                                    </p>
+                                </div>
+                                {editingTest && sectionDrafts.length > 0 && (
+                                    <div className="space-y-3 rounded-md border p-3">
+                                        <p className="text-sm font-medium">Questions</p>
+                                        {sectionDrafts.map(section => (
+                                            <div key={section._id} className="space-y-2">
+                                                <div className="flex items-center justify-between">
+                                                    <span className="text-sm">
+                                                        {section.title} ({section.questions.length})
+                                                    </span>
+                                                    <Button
+                                                        type="button"
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => setExpandedSectionId(expandedSectionId === section._id ? null : section._id)}
+                                                    >
+                                                        {expandedSectionId === section._id ? 'Hide' : 'Edit questions'}
+                                                    </Button>
+                                                </div>
+                                                {expandedSectionId === section._id && (
+                                                    <div className="space-y-3">
+                                                        {section.questions.map((question, index) => {
+                                                            const updateQuestion = (updated: EditableQuestion) =>
+                                                                updateSectionQuestions(section._id, questions =>
+                                                                    questions.map((q, i) => (i === index ? updated : q))
+                                                                );
+                                                            const removeQuestion = () => updateSectionQuestions(section._id, questions =>
+                                                                questions.filter((_, i) => i !== index)
+                                                            );
+
+                                                            if (!question.bankQuestionId) {
+                                                                return (
+                                                                    <TestQuestionEditor
+                                                                        key={question._id || `new-${index}`}
+                                                                        label={`Question ${index + 1}`}
+                                                                        question={question}
+                                                                        onChange={updateQuestion}
+                                                                        onRemove={removeQuestion}
+                                                                    />
+                                                                );
+                                                            }
+
+                                                            // Linked questions are edited in the question bank; only marks are per test
+                                                            return (
+                                                                <div key={question._id || `bank-${index}`} className="flex items-center gap-2 rounded-md border p-3 text-sm">
+                                                                    <span className="font-medium">{index + 1}.</span>
+                                                                    <span className="flex-1 truncate">{question.text}</span>
+                                                                    {question.resolution && (
+                                                                        <Badge variant="secondary">{RESOLUTION_LABELS[question.resolution]}</Badge>
+                                                                    )}
+                                                                    <Badge variant="secondary">Question bank</Badge>
+                                                                    <Input
+                                                                        type="number"
+                                                                        min="0"
+                                                                        step="0.25"
+                                                                        className="w-20 h-8"
+                                                                        title="Marks"
+                                                                        value={question.marks}
+                                                                        onChange={(e) => updateQuestion({ ...question, marks: Number(e.target.value) })}
+                                                                    />
+                                                                    <Button
+                                                                        type="button"
+                                                                        size="sm"
+                                                                        variant="ghost"
+                                                                        title="Unlink from question bank"
+                                                                        onClick={() => updateQuestion({ ...question, bankQuestionId: undefined })}
+                                                                    >
+                                                                        <Unlink className="h-4 w-4" />
+                                                                    </Button>
+                                                                    <Button type="button" size="sm" variant="outline" onClick={removeQuestion}>
+                                                                        <Trash2 className="h-4 w-4" />
+                                                                    </Button>
+                                                                </div>
+                                                            );
+                                                        })}
+                                                        <div className="flex gap-2">
+                                                            <Button
+                                                                type="button"
+                                                                size="sm"
+                                                                variant="outline"
+                                                                onClick={() => updateSectionQuestions(section._id, questions => [...questions, newQuestion()])}
+                                                            >
+                                                                <Plus className="h-4 w-4 mr-1" />
+                                                                Add question
+                                                            </Button>
+                                                            <Button
+                                                                type="button"
+                                                                size="sm"
+                                                                variant="outline"
+                                                                onClick={() => setBankPickerSectionId(section._id)}
+                                                            >
+                                                                <Library className="h-4 w-4 mr-1" />
+                                                                Add from bank
+                                                            </Button>
+                                                        </div>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <div className="flex items-center space-x-2">
+                                    <input
+                                        type="checkbox"
+                                        id="isActive"
+                                        checked={formData.isActive}
+                                        onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                                    />
+                                    <Label htmlFor="isActive">Active</Label>
+                                </div>
+                                <div className="flex justify-end space-x-2">
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        onClick={() => {
+                                            setIsCreateDialogOpen(false);
+                                            setEditingTest(null);
+                                            resetForm();
+                                        }}
+                                    >
+                                        Cancel
+                                    </Button>
+                                    <Button type="submit">
+                                        {editingTest ? 'Update' : 'Create'}
+                                    </Button>
+                                </div>
+                            </form>
+                        </DialogContent>
+                    </Dialog>
+                </div>
+                <QuestionBankPicker
+                    open={bankPickerSectionId !== null}
+                    onOpenChange={(open) => !open && setBankPickerSectionId(null)}
+                    excludeIds={sectionDrafts.flatMap(section =>
+                        section.questions.map(question => question.bankQuestionId).filter((id): id is string => !!id)
+                    )}
+                    onSelect={(questions) => bankPickerSectionId && updateSectionQuestions(bankPickerSectionId, existing => [
+                        ...existing,
+                        ...questions.map(fromBankQuestion),
+                    ])}
+                />
+                <TestBlueprintGenerator
+                    open={isGeneratorOpen}
+                    onOpenChange={setIsGeneratorOpen}
+                    onPublished={fetchTests}
+                />
+                <TestImportDialog
+                    open={isImportOpen}
+                    onOpenChange={setIsImportOpen}
+                    tests={tests}
+                    onImported={fetchTests}
+                />
+                <TestItemAnalysis
+                    testId={analysisTestId}
+                    onOpenChange={(open) => !open && setAnalysisTestId(null)}
+                />
+                <TestAttemptsLog
+                    testId={attemptsTestId}
+                    onOpenChange={(open) => !open && setAttemptsTestId(null)}
+                />
+                <TestPrintDialog
+                    testId={printTestId}
+                    onOpenChange={(open) => !open && setPrintTestId(null)}
+                />
+                <TestErrataQueue
+                    open={isErrataOpen}
+                    onOpenChange={setIsErrataOpen}
+                    onResolved={fetchTests}
+                />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -239,6 +979,30 @@ export default function AdminTestsManager() {
                             <div className="flex justify-between items-start">
                                 <CardTitle className="text-lg">{test.title}</CardTitle>
                                 <div className="flex space-x-1">
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        title="Item analysis"
+                                        onClick={() => setAnalysisTestId(test._id)}
+                                    >
+                                        <BarChart3 className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        title="Attempts and proctoring log"
+                                        onClick={() => setAttemptsTestId(test._id)}
+                                    >
+                                        <Users className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        title="Print paper, answer key and solutions"
+                                        onClick={() => setPrintTestId(test._id)}
+                                    >
+                                        <Printer className="h-4 w-4" />
+                                    </Button>
                                     <Button
                                         size="sm"
                                         variant="outline"
@@ -273,10 +1037,69 @@ export default function AdminTestsManager() {
                                     <span className="text-sm text-gray-500">Questions:</span>
                                     <span className="font-medium">{getTotalQuestions(test)}</span>
                                 </div>
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm text-gray-500">Marking:</span>
+                                    <span className="font-medium text-sm">{describeScheme(test.markingScheme)}</span>
+                                </div>
                                 <div className="flex justify-between items-center">
                                     <span className="text-sm text-gray-500">Sections:</span>
                                     <span className="font-medium">{test.sections.length}</span>
                                 </div>
+                                {test.startsAt && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Live:</span>
+                                        <span className="font-medium text-sm">{new Date(test.startsAt).toLocaleString()}</span>
+                                    </div>
+                                )}
+                                {test.proctored && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Proctored:</span>
+                                        <span className="font-medium text-sm">
+                                            {test.maxViolations ? `Auto-submit after ${test.maxViolations}` : 'Log only'}
+                                        </span>
+                                    </div>
+                                )}
+                                {test.practiceMode && test.practiceMode !== 'off' && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Practice:</span>
+                                        <span className="font-medium text-sm">
+                                            {test.practiceMode === 'only' ? 'Practice only' : 'Optional'}
+                                            {test.practiceQuestionSeconds ? ` · ${test.practiceQuestionSeconds}s per question` : ''}
+                                        </span>
+                                    </div>
+                                )}
+                                {test.cutoffs && test.cutoffs.length > 0 && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Cutoffs:</span>
+                                        <span className="font-medium text-sm">
+                                            {test.cutoffs.map(row => CATEGORY_LABELS[row.category]).join(', ')}
+                                        </span>
+                                    </div>
+                                )}
+                                {test.rescore && (
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm text-gray-500">Re-score:</span>
+                                        <span
+                                            className={`font-medium text-sm ${test.rescore.status === 'failed' ? 'text-red-600' : ''}`}
+                                            title={test.rescore.error || test.rescore.reason}
+                                        >
+                                            {test.rescore.status === 'running'
+                                                ? 'Running...'
+                                                : test.rescore.status === 'failed'
+                                                    ? 'Failed'
+                                                    : `${test.rescore.attemptsChanged}/${test.rescore.attemptsRescored} changed`}
+                                            {test.rescore.status !== 'completed' && (
+                                                <button
+                                                    type="button"
+                                                    className="ml-2 text-xs text-blue-600 hover:underline"
+                                                    onClick={() => handleRetryRescore(test._id)}
+                                                >
+                                                    Retry
+                                                </button>
+                                            )}
+                                        </span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between items-center">
                                     <span className="text-sm text-gray-500">Status:</span>
                                     <span className={`px-2 py-1 rounded text-xs ${test.isActive
@@ -287,9 +1110,25 @@ export default function AdminTestsManager() {
                                     </span>
                                 </div>
                             </div>
-                            <p className="text-xs text-gray-500 mt-2">
-                                Created: {new Date(test.createdAt).toLocaleDateString()}
-                            </p>
+                            <div className="flex justify-between items-center mt-2">
+                                <p className="text-xs text-gray-500">
+                                    Created: {new Date(test.createdAt).toLocaleDateString()}
+                                </p>
+                                <div className="flex space-x-1">
+                                    <Button size="sm" variant="ghost" asChild>
+                                        <a href={`/api/admin/tests/${test._id}/export?format=csv`} download>
+                                            <Download className="h-3 w-3 mr-1" />
+                                            CSV
+                                        </a>
+                                    </Button>
+                                    <Button size="sm" variant="ghost" asChild>
+                                        <a href={`/api/admin/tests/${test._id}/export?format=json`} download>
+                                            <Download className="h-3 w-3 mr-1" />
+                                            JSON
+                                        </a>
+                                    </Button>
+                                </div>
+                            </div>
                         </CardContent>
                     </Card>
                 ))}
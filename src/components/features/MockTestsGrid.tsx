@@ -13,9 +13,14 @@ import {
     Trophy,
     CheckCircle,
     AlertCircle,
-    BarChart3
+    BarChart3,
+    RotateCcw,
+    Radio,
+    CalendarClock
 } from 'lucide-react';
 
+type ScheduleStatus = 'open' | 'upcoming' | 'live' | 'completed';
+
 interface MockTest {
     id: string;
     title: string;
@@ -29,6 +34,21 @@ interface MockTest {
         name: string;
         questions: number;
     }>;
+    maxAttempts: number; // 0 for unlimited
+    retakeCooldownMinutes: number;
+    rankingPolicy: 'first' | 'best';
+    solutionsAfterFinalAttempt: boolean;
+    practiceMode: 'off' | 'optional' | 'only';
+    attemptsUsed?: number; // signed-in students only
+    nextAttemptAt?: string;
+    schedule: {
+        status: ScheduleStatus;
+        startsAt: string | null;
+        lateEntryUntil: string | null;
+        endsAt: string | null;
+        resultsReleaseAt: string | null;
+        resultsReleased: boolean;
+    };
     difficulty: 'Easy' | 'Medium' | 'Hard';
     attempts: number;
     averageScore: number;
@@ -44,6 +64,7 @@ interface MockTestsGridProps {
 export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridProps) {
     const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all');
     const [selectedType, setSelectedType] = useState<string>('all');
+    const [selectedSchedule, setSelectedSchedule] = useState<string>('all');
 
     const difficulties = [
         { id: 'all', name: 'All Levels' },
@@ -60,6 +81,15 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
         { id: 'speed', name: 'Speed Tests' },
     ];
 
+    const schedules = [
+        { id: 'all', name: 'All' },
+        { id: 'live', name: 'Live' },
+        { id: 'upcoming', name: 'Upcoming' },
+        { id: 'completed', name: 'Completed' },
+    ];
+
+    const hasScheduledTests = tests.some(test => test.schedule.status !== 'open');
+
     const filteredTests = tests.filter(test => {
         const difficultyMatch = selectedDifficulty === 'all' ||
             test.difficulty.toLowerCase() === selectedDifficulty;
@@ -70,7 +100,9 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
             (selectedType === 'previous' && test.title.toLowerCase().includes('previous')) ||
             (selectedType === 'speed' && test.duration <= 45);
 
-        return difficultyMatch && typeMatch;
+        const scheduleMatch = selectedSchedule === 'all' || test.schedule.status === selectedSchedule;
+
+        return difficultyMatch && typeMatch && scheduleMatch;
     });
 
     const getDifficultyColor = (difficulty: string) => {
@@ -82,6 +114,38 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
         }
     };
 
+    const formatCooldown = (minutes: number) => {
+        if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+        if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+        return `${minutes} min`;
+    };
+
+    const formatScheduleTime = (value: string) =>
+        new Date(value).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+    const getScheduleBadge = (status: ScheduleStatus) => {
+        switch (status) {
+            case 'live':
+                return (
+                    <Badge className="bg-red-100 text-red-800 flex items-center gap-1">
+                        <Radio className="h-3 w-3" />
+                        Live
+                    </Badge>
+                );
+            case 'upcoming':
+                return (
+                    <Badge className="bg-blue-100 text-blue-800 flex items-center gap-1">
+                        <CalendarClock className="h-3 w-3" />
+                        Upcoming
+                    </Badge>
+                );
+            case 'completed':
+                return <Badge className="bg-gray-100 text-gray-800">Completed</Badge>;
+            default:
+                return null;
+        }
+    };
+
     const getDifficultyIcon = (difficulty: string) => {
         switch (difficulty.toLowerCase()) {
             case 'easy': return <CheckCircle className="h-4 w-4" />;
@@ -128,6 +192,25 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
                         </Button>
                     ))}
                 </div>
+
+                {hasScheduledTests && (
+                    <div className="flex flex-wrap gap-2 justify-center">
+                        <span className="text-sm font-medium text-gray-700 flex items-center mr-4">
+                            Schedule:
+                        </span>
+                        {schedules.map((schedule) => (
+                            <Button
+                                key={schedule.id}
+                                variant={selectedSchedule === schedule.id ? 'default' : 'outline'}
+                                size="sm"
+                                onClick={() => setSelectedSchedule(schedule.id)}
+                                className="rounded-full"
+                            >
+                                {schedule.name}
+                            </Button>
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* Tests Grid */}
@@ -144,6 +227,7 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
                                         {test.description}
                                     </p>
                                 </div>
+                                {getScheduleBadge(test.schedule.status)}
                                 {test.originalPrice && (
                                     <Badge className="bg-red-500 text-white ml-2">
                                         {Math.round(((test.originalPrice - test.price) / test.originalPrice) * 100)}% OFF
@@ -173,6 +257,36 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
                                 </div>
                             </div>
 
+                            {/* Live Test Schedule */}
+                            {test.schedule.status !== 'open' && (
+                                <div className="rounded-md bg-gray-50 p-3 space-y-1 text-sm">
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-600">Starts</span>
+                                        <span className="font-medium">{formatScheduleTime(test.schedule.startsAt!)}</span>
+                                    </div>
+                                    {test.schedule.lateEntryUntil && test.schedule.lateEntryUntil !== test.schedule.endsAt && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-600">Entry closes</span>
+                                            <span className="font-medium">{formatScheduleTime(test.schedule.lateEntryUntil)}</span>
+                                        </div>
+                                    )}
+                                    {test.schedule.endsAt && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-600">Ends</span>
+                                            <span className="font-medium">{formatScheduleTime(test.schedule.endsAt)}</span>
+                                        </div>
+                                    )}
+                                    {test.schedule.resultsReleaseAt && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-600">
+                                                {test.schedule.resultsReleased ? 'Results out' : 'Results'}
+                                            </span>
+                                            <span className="font-medium">{formatScheduleTime(test.schedule.resultsReleaseAt)}</span>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Difficulty Badge */}
                             <div className="flex items-center gap-2">
                                 <Badge className={`${getDifficultyColor(test.difficulty)} flex items-center gap-1`}>
@@ -198,6 +312,59 @@ export default function MockTestsGrid({ tests, isAuthenticated }: MockTestsGridP
                                 </div>
                             </div>
 
+                            {/* Attempt Policy */}
+                            <div>
+                                <h4 className="font-semibold text-sm text-gray-900 mb-2">Attempt Policy:</h4>
+                                <div className="space-y-1 text-sm">
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-600">Attempts</span>
+                                        <span className="font-medium">
+                                            {test.attemptsUsed !== undefined && `${test.attemptsUsed} of `}
+                                            {test.maxAttempts > 0 ? test.maxAttempts : 'Unlimited'}
+                                            {test.attemptsUsed !== undefined && ' used'}
+                                        </span>
+                                    </div>
+                                    {test.retakeCooldownMinutes > 0 && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-600">Retake after</span>
+                                            <span className="font-medium">{formatCooldown(test.retakeCooldownMinutes)}</span>
+                                        </div>
+                                    )}
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-600">Rank counts</span>
+                                        <span className="font-medium">
+                                            {test.rankingPolicy === 'best' ? 'Best attempt' : 'First attempt'}
+                                        </span>
+                                    </div>
+                                    {test.practiceMode !== 'off' && (
+                                        <div className="flex justify-between">
+                                            <span className="text-gray-600">Practice mode</span>
+                                            <span className="font-medium">
+                                                {test.practiceMode === 'only' ? 'Practice only' : 'Available'}
+                                            </span>
+                                        </div>
+                                    )}
+                                    {test.solutionsAfterFinalAttempt && test.maxAttempts > 0 && (
+                                        <div className="flex items-center text-xs text-gray-600">
+                                            <AlertCircle className="h-3 w-3 mr-2 text-yellow-500" />
+                                            <span>Solutions unlock after the final attempt</span>
+                                        </div>
+                                    )}
+                                    {test.nextAttemptAt && (
+                                        <div className="flex items-center text-xs text-orange-600">
+                                            <RotateCcw className="h-3 w-3 mr-2" />
+                                            <span>Next attempt available {new Date(test.nextAttemptAt).toLocaleString()}</span>
+                                        </div>
+                                    )}
+                                    {test.maxAttempts > 0 && test.attemptsUsed !== undefined && test.attemptsUsed >= test.maxAttempts && (
+                                        <div className="flex items-center text-xs text-red-600">
+                                            <AlertCircle className="h-3 w-3 mr-2" />
+                                            <span>All attempts used</span>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+
                             {/* Key Features */}
                             <div>
                                 <h4 className="font-semibold text-sm text-gray-900 mb-2">Features:</h4>
@@ -9,6 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { User, Save, X } from 'lucide-react';
 
 export interface ProfileData {
@@ -16,9 +17,20 @@ export interface ProfileData {
     email: string;
     phone?: string;
     address?: string;
+    category?: ReservationCategory;
     joinedAt: string;
 }
 
+type ReservationCategory = 'general' | 'ews' | 'obc' | 'sc' | 'st';
+
+export const CATEGORY_LABELS: Record<ReservationCategory, string> = {
+    'general': 'General',
+    'ews': 'EWS',
+    'obc': 'OBC',
+    'sc': 'SC',
+    'st': 'ST',
+};
+
 interface ProfileManagementProps {
     profile: ProfileData;
     onProfileUpdate: (updatedProfile: ProfileData) => void;
@@ -54,7 +66,8 @@ export default function ProfileManagement({ profile, onProfileUpdate }: ProfileM
                 body: JSON.stringify({
                     name: formData.name,
                     phone: formData.phone,
-                    address: formData.address
+                    address: formData.address,
+                    category: formData.category
                 }),
             });
 
@@ -163,6 +176,25 @@ export default function ProfileManagement({ profile, onProfileUpdate }: ProfileM
                         />
                     </div>
 
+                    <div className="space-y-2">
+                        <Label>Category</Label>
+                        <Select
+                            value={formData.category || 'general'}
+                            onValueChange={(value) => handleInputChange('category', value)}
+                            disabled={loading}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(CATEGORY_LABELS) as ReservationCategory[]).map(category => (
+                                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500">Test results show whether you clear the cutoffs of your category</p>
+                    </div>
+
                     <div className="flex justify-end space-x-2 pt-4">
                         <Button
                             type="button"
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search } from 'lucide-react';
+import { QUESTION_TYPE_LABELS } from '@/lib/utils/test-utils';
+import { EditableQuestion } from './TestQuestionEditor';
+
+export interface BankQuestion extends EditableQuestion {
+    _id: string;
+    subject: string;
+    topic: string;
+    subtopic?: string;
+    difficulty: 'easy' | 'medium' | 'hard';
+    examTags: string[];
+    sourceYear?: number;
+    language: 'en' | 'hi';
+    isActive: boolean;
+}
+
+interface QuestionBankPickerProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSelect: (questions: BankQuestion[]) => void;
+    allowedTypes?: EditableQuestion['type'][]; // e.g. course quizzes only take single-correct questions
+    excludeIds?: string[]; // bank questions already in use
+}
+
+export const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({
+    open,
+    onOpenChange,
+    onSelect,
+    allowedTypes,
+    excludeIds = []
+}) => {
+    const [questions, setQuestions] = useState<BankQuestion[]>([]);
+    const [subjects, setSubjects] = useState<string[]>([]);
+    const [search, setSearch] = useState('');
+    const [subject, setSubject] = useState('all');
+    const [difficulty, setDifficulty] = useState('all');
+    const [selected, setSelected] = useState<Map<string, BankQuestion>>(new Map());
+    const [loading, setLoading] = useState(false);
+
+    const fetchQuestions = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({ isActive: 'true', limit: '50' });
+            if (search.trim()) params.set('q', search.trim());
+            if (subject !== 'all') params.set('subject', subject);
+            if (difficulty !== 'all') params.set('difficulty', difficulty);
+
+            const response = await fetch(`/api/admin/questions?${params.toString()}`);
+            if (response.ok) {
+                const data = await response.json();
+                setQuestions(data.questions || []);
+                setSubjects(data.facets?.subjects || []);
+            }
+        } catch (error) {
+            console.error('Failed to fetch bank questions:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [search, subject, difficulty]);
+
+    useEffect(() => {
+        if (!open) return;
+        const timeout = setTimeout(fetchQuestions, 300);
+        return () => clearTimeout(timeout);
+    }, [open, fetchQuestions]);
+
+    useEffect(() => {
+        if (!open) setSelected(new Map());
+    }, [open]);
+
+    const toggleQuestion = (question: BankQuestion) => {
+        setSelected(prev => {
+            const next = new Map(prev);
+            if (next.has(question._id)) {
+                next.delete(question._id);
+            } else {
+                next.set(question._id, question);
+            }
+            return next;
+        });
+    };
+
+    const isSelectable = (question: BankQuestion) =>
+        !excludeIds.includes(question._id) && (!allowedTypes || allowedTypes.includes(question.type || 'mcq'));
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Add from Question Bank</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                        <Input
+                            placeholder="Search questions..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            className="pl-10"
+                        />
+                    </div>
+                    <Select value={subject} onValueChange={setSubject}>
+                        <SelectTrigger className="w-40">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All Subjects</SelectItem>
+                            {subjects.map(item => (
+                                <SelectItem key={item} value={item}>{item}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={difficulty} onValueChange={setDifficulty}>
+                        <SelectTrigger className="w-32">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">Any Level</SelectItem>
+                            <SelectItem value="easy">Easy</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="space-y-2">
+                    {loading && <p className="text-sm text-gray-500">Loading questions...</p>}
+                    {!loading && questions.length === 0 && (
+                        <p className="text-sm text-gray-500 text-center py-6">No questions found.</p>
+                    )}
+                    {questions.map(question => {
+                        const selectable = isSelectable(question);
+                        return (
+                            <label
+                                key={question._id}
+                                className={`flex items-start gap-3 rounded-md border p-3 text-sm ${selectable ? 'cursor-pointer hover:bg-gray-50' : 'opacity-50'}`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    className="mt-1"
+                                    disabled={!selectable}
+                                    checked={selected.has(question._id)}
+                                    onChange={() => toggleQuestion(question)}
+                                />
+                                <div className="flex-1 space-y-1">
+                                    <p className="line-clamp-2">{question.text}</p>
+                                    <div className="flex flex-wrap gap-1">
+                                        <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type || 'mcq']}</Badge>
+                                        <Badge variant="outline">{question.subject} › {question.topic}</Badge>
+                                        <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                                        {question.sourceYear && <Badge variant="outline">{question.sourceYear}</Badge>}
+                                        {excludeIds.includes(question._id) && <Badge variant="secondary">Already added</Badge>}
+                                    </div>
+                                </div>
+                            </label>
+                        );
+                    })}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        disabled={selected.size === 0}
+                        onClick={() => {
+                            onSelect(Array.from(selected.values()));
+                            onOpenChange(false);
+                        }}
+                    >
+                        Add {selected.size > 0 ? selected.size : ''} {selected.size === 1 ? 'question' : 'questions'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default QuestionBankPicker;
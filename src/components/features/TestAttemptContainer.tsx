@@ -5,13 +5,34 @@ import { TestTimer } from './TestTimer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { RichContent } from '@/components/ui/rich-content';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, CheckSquare, Square, Clock, AlertTriangle, Lock, Bookmark, Maximize, ShieldAlert, Lightbulb, WifiOff } from 'lucide-react';
+import type { PracticeFeedback, SerializedSectionWindow as SectionWindow } from '@/lib/utils/test-attempts';
+import type { AnswerOutcome, QuestionType } from '@/lib/utils/test-scoring';
+import type { AttemptMode, ProctoringEventType } from '@/models/MockTest';
+
+type Language = 'en' | 'hi';
+
+// Hindi wording; empty option and item lists fall back to the English ones
+interface QuestionTranslation {
+    text: string;
+    options: string[];
+    matchItems: string[];
+    reason?: string;
+}
 
 interface TestQuestion {
     _id: string;
+    type?: QuestionType;
     text: string;
     options: string[];
+    matchItems?: string[];
+    reason?: string;
+    hindi?: QuestionTranslation;
     marks: number;
+    negativeMarks?: number;
 }
 
 interface TestSection {
@@ -27,72 +48,490 @@ interface TestData {
     description: string;
     duration: number;
     totalMarks: number;
+    sectionalTiming?: boolean;
+    evaluateMarkedAnswers?: boolean;
+    proctored?: boolean; // fullscreen is enforced and suspicious activity is reported
+    maxViolations?: number; // 0 when violations are only recorded
+    mode?: AttemptMode; // practice: no overall timer, answers are checked one by one
+    practiceQuestionSeconds?: number; // per-question timer in practice mode, 0 for none
     sections: TestSection[];
 }
 
 interface Answer {
     questionId: string;
-    selectedOption: number;
+    selectedOption: number; // -1 for question types that use another field
+    selectedOptions?: number[];
+    numericAnswer?: number;
+    matches?: number[];
+}
+
+type AnswerResponse = Omit<Answer, 'questionId'>;
+
+const OUTCOME_STYLES: Record<AnswerOutcome, { label: string; className: string }> = {
+    'correct': { label: 'Correct', className: 'border-green-200 bg-green-50 text-green-800' },
+    'partial': { label: 'Partially correct', className: 'border-yellow-200 bg-yellow-50 text-yellow-800' },
+    'wrong': { label: 'Incorrect', className: 'border-red-200 bg-red-50 text-red-800' },
+    'unanswered': { label: 'Not answered', className: 'border-gray-200 bg-gray-50 text-gray-800' },
+};
+
+interface QuestionTiming {
+    questionId: string;
+    timeSpent: number; // seconds, cumulative for the attempt
+    visits: number;
+}
+
+interface QuestionStates {
+    visitedQuestionIds: string[];
+    markedQuestionIds: string[]; // marked for review
+    timings: QuestionTiming[];
+}
+
+interface ProctoringEvent {
+    type: ProctoringEventType;
+    occurredAt: string;
 }
 
+const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+    'tab-switch': 'You switched to another tab or app',
+    'window-blur': 'You left the test window',
+    'copy': 'Copying is not allowed',
+    'paste': 'Pasting is not allowed',
+    'fullscreen-exit': 'You exited fullscreen',
+};
+
+type PaletteStatus = 'not-visited' | 'not-answered' | 'answered' | 'marked' | 'answered-marked';
+
+const PALETTE_STYLES: Record<PaletteStatus, { label: string; className: string }> = {
+    'not-visited': { label: 'Not visited', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+    'not-answered': { label: 'Not answered', className: 'bg-red-500 text-white border-red-500' },
+    'answered': { label: 'Answered', className: 'bg-green-500 text-white border-green-500' },
+    'marked': { label: 'Marked for review', className: 'bg-purple-500 text-white border-purple-500' },
+    'answered-marked': { label: 'Answered & marked', className: 'bg-purple-500 text-white border-green-400 ring-2 ring-green-400' },
+};
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'offline';
+
 interface TestAttemptContainerProps {
     testData: TestData;
-    onSubmit: (answers: Answer[], startTime: string, endTime: string) => Promise<void>;
+    deadline?: string; // server-authoritative end time of the attempt
+    serverTime?: string;
+    initialAnswers?: Answer[]; // answers restored when resuming an attempt
+    initialStates?: QuestionStates; // palette states and timings restored when resuming an attempt
+    onSubmit: (answers: Answer[], states: QuestionStates) => Promise<void>;
+    onSaveProgress?: (answers: Answer[], states: QuestionStates) => Promise<void>;
+    onBufferAnswers?: (answers: Answer[], states: QuestionStates) => void; // keeps answers on the device as they are chosen
+    submissionQueued?: boolean; // submitted while offline; sent once the connection returns
+    sectionWindows?: SectionWindow[]; // present when each section runs on its own timer
+    onAdvanceSection?: (answers: Answer[], states: QuestionStates) => Promise<SectionWindow[] | void>;
+    autosaveIntervalSeconds?: number;
+    initialViolations?: number; // proctoring events already recorded when resuming
+    onProctoringEvent?: (event: ProctoringEvent) => Promise<{ violations: number; submitted: boolean } | void>;
+    initialFeedback?: PracticeFeedback[]; // practice questions already checked when resuming
+    onCheckAnswer?: (questionId: string, answer?: AnswerResponse) => Promise<PracticeFeedback>;
     onTimeWarning?: (remainingMinutes: number) => void;
     className?: string;
 }
 
+// Wording of a question in the chosen language (answers are keyed by option position, so they carry over)
+const localizeQuestion = (question: TestQuestion, language: Language) => {
+    const hindi = language === 'hi' ? question.hindi : undefined;
+    return {
+        text: hindi?.text || question.text,
+        reason: hindi?.reason || question.reason,
+        options: hindi?.options.length ? hindi.options : question.options,
+        matchItems: hindi?.matchItems.length ? hindi.matchItems : question.matchItems || [],
+    };
+};
+
+const optionLetter = (index: number) => (index >= 0 ? String.fromCharCode(65 + index) : '-');
+
+// Correct answer of a checked practice question, in the option letters the student saw
+const describeCorrectAnswer = (question: TestQuestion, feedback: PracticeFeedback) => {
+    switch (question.type || 'mcq') {
+        case 'multiple':
+            return feedback.correctOptions.map(optionLetter).join(', ');
+        case 'numeric':
+            return feedback.tolerance > 0
+                ? `${feedback.correctNumericAnswer} (±${feedback.tolerance})`
+                : String(feedback.correctNumericAnswer);
+        case 'match':
+            return feedback.correctMatches.map((match, index) => `${index + 1}-${optionLetter(match)}`).join(', ');
+        default:
+            return optionLetter(feedback.correctOption);
+    }
+};
+
+const toAnswerArray = (answers: Map<string, AnswerResponse>): Answer[] =>
+    Array.from(answers.entries()).map(([questionId, response]) => ({
+        questionId,
+        ...response
+    }));
+
+const hasResponse = (response: AnswerResponse) =>
+    response.selectedOption >= 0 ||
+    (response.selectedOptions?.length ?? 0) > 0 ||
+    typeof response.numericAnswer === 'number' ||
+    (response.matches ?? []).some(match => match >= 0);
+
 export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
     testData,
+    deadline,
+    serverTime,
+    initialAnswers = [],
+    initialStates,
     onSubmit,
+    onSaveProgress,
+    onBufferAnswers,
+    submissionQueued = false,
+    sectionWindows,
+    onAdvanceSection,
+    autosaveIntervalSeconds = 30,
+    initialViolations = 0,
+    onProctoringEvent,
+    initialFeedback = [],
+    onCheckAnswer,
     onTimeWarning,
     className = ''
 }) => {
-    const [answers, setAnswers] = useState<Map<string, number>>(new Map());
+    const [answers, setAnswers] = useState<Map<string, AnswerResponse>>(
+        () => new Map(initialAnswers.map(({ questionId, ...response }) => [questionId, response]))
+    );
+    const [visited, setVisited] = useState<Set<string>>(() => new Set(initialStates?.visitedQuestionIds || []));
+    const [marked, setMarked] = useState<Set<string>>(() => new Set(initialStates?.markedQuestionIds || []));
     const [currentSectionIndex, setCurrentSectionIndex] = useState(0);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [showSubmitDialog, setShowSubmitDialog] = useState(false);
     const [showTimeUpDialog, setShowTimeUpDialog] = useState(false);
-    const [startTime] = useState(new Date().toISOString());
     const [isTestActive, setIsTestActive] = useState(true);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+    const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+    const [unsyncedIds, setUnsyncedIds] = useState<Set<string>>(() => new Set());
+    const [windows, setWindows] = useState<SectionWindow[]>(sectionWindows || []);
+    const [activeSectionIndex, setActiveSectionIndex] = useState(() => {
+        const clockOffsetMs = serverTime ? new Date(serverTime).getTime() - Date.now() : 0;
+        const now = Date.now() + clockOffsetMs;
+        const index = (sectionWindows || []).findIndex(window => new Date(window.endsAt).getTime() > now);
+        return index === -1 ? 0 : index;
+    });
+    const [showSectionDialog, setShowSectionDialog] = useState(false);
+    const [clearedCount, setClearedCount] = useState(0); // remounts uncontrolled inputs after clearing
+    const [violations, setViolations] = useState(initialViolations);
+    const [violationWarning, setViolationWarning] = useState<ProctoringEventType | null>(null);
+    const [isFullscreen, setIsFullscreen] = useState(false);
+    const [language, setLanguage] = useState<Language>('en');
+    const [feedback, setFeedback] = useState<Map<string, PracticeFeedback>>(
+        () => new Map(initialFeedback.map(entry => [entry.questionId, entry]))
+    );
+    const [checkingQuestionId, setCheckingQuestionId] = useState<string | null>(null);
+    const [questionSecondsLeft, setQuestionSecondsLeft] = useState<number | null>(null);
     const submitTriggeredRef = useRef(false);
+    const feedbackRef = useRef(feedback);
+    const answersRef = useRef(answers);
+    const previousAnswersRef = useRef(answers);
+    const visitedRef = useRef(visited);
+    const markedRef = useRef(marked);
+    const isDirtyRef = useRef(false);
+    const timingsRef = useRef<Map<string, QuestionTiming>>(
+        new Map((initialStates?.timings || []).map(timing => [timing.questionId, { ...timing }]))
+    );
+    // Question on screen and when its current stretch started (null while the tab is hidden)
+    const activeQuestionRef = useRef<{ questionId: string; since: number | null } | null>(null);
+
+    answersRef.current = answers;
+    visitedRef.current = visited;
+    markedRef.current = marked;
+    feedbackRef.current = feedback;
+
+    // Adds the time since the last flush to the question on screen
+    const flushQuestionTime = useCallback(() => {
+        const active = activeQuestionRef.current;
+        if (!active || active.since === null) return;
+
+        const now = Date.now();
+        const timing = timingsRef.current.get(active.questionId) || { questionId: active.questionId, timeSpent: 0, visits: 0 };
+        timingsRef.current.set(active.questionId, { ...timing, timeSpent: timing.timeSpent + (now - active.since) / 1000 });
+        active.since = now;
+        isDirtyRef.current = true;
+    }, []);
+
+    const getQuestionStates = (): QuestionStates => {
+        flushQuestionTime();
+        return {
+            visitedQuestionIds: Array.from(visitedRef.current),
+            markedQuestionIds: Array.from(markedRef.current),
+            timings: Array.from(timingsRef.current.values()).map(timing => ({
+                ...timing,
+                timeSpent: Math.round(timing.timeSpent),
+            })),
+        };
+    };
+
+    const isPractice = testData.mode === 'practice';
+    const isSectional = !!testData.sectionalTiming && windows.length > 0;
+    const isLastSection = activeSectionIndex >= testData.sections.length - 1;
+
+    // In sectional mode the student can only be in the currently open section
+    useEffect(() => {
+        if (!isSectional) return;
+        setCurrentSectionIndex(activeSectionIndex);
+        setCurrentQuestionIndex(0);
+    }, [isSectional, activeSectionIndex]);
 
     const currentSection = testData.sections[currentSectionIndex];
     const currentQuestion = currentSection?.questions[currentQuestionIndex];
+    const currentResponse = currentQuestion ? answers.get(currentQuestion._id) : undefined;
+    const currentFeedback = currentQuestion ? feedback.get(currentQuestion._id) : undefined;
+    const isBilingual = testData.sections.some(section => section.questions.some(question => !!question.hindi));
     const totalQuestions = testData.sections.reduce((total, section) => total + section.questions.length, 0);
     const answeredQuestions = answers.size;
 
-    // Handle answer selection
-    const handleAnswerSelect = useCallback((questionId: string, optionIndex: number) => {
-        if (!isTestActive) return;
+    // Record a visit whenever a question is shown
+    useEffect(() => {
+        if (!currentQuestion || visitedRef.current.has(currentQuestion._id)) return;
+        setVisited(prev => new Set(prev).add(currentQuestion._id));
+        isDirtyRef.current = true;
+    }, [currentQuestion]);
+
+    // Time each question while it is on screen and count how often it is opened
+    useEffect(() => {
+        if (!currentQuestion || !isTestActive) return;
+
+        const questionId = currentQuestion._id;
+        const timing = timingsRef.current.get(questionId) || { questionId, timeSpent: 0, visits: 0 };
+        timingsRef.current.set(questionId, { ...timing, visits: timing.visits + 1 });
+        activeQuestionRef.current = { questionId, since: document.visibilityState === 'visible' ? Date.now() : null };
+        isDirtyRef.current = true;
+
+        return () => {
+            flushQuestionTime();
+            activeQuestionRef.current = null;
+        };
+    }, [currentQuestion, isTestActive, flushQuestionTime]);
+
+    const getPaletteStatus = (questionId: string): PaletteStatus => {
+        const isAnswered = answers.has(questionId);
+        if (marked.has(questionId)) return isAnswered ? 'answered-marked' : 'marked';
+        if (isAnswered) return 'answered';
+        return visited.has(questionId) ? 'not-answered' : 'not-visited';
+    };
+
+    const getSectionSummary = (section: TestSection) => {
+        const summary: Record<PaletteStatus, number> = {
+            'not-visited': 0,
+            'not-answered': 0,
+            'answered': 0,
+            'marked': 0,
+            'answered-marked': 0,
+        };
+        section.questions.forEach(question => {
+            summary[getPaletteStatus(question._id)]++;
+        });
+        return summary;
+    };
+
+    // Update (or clear) the response to a question
+    const updateAnswer = useCallback((questionId: string, update: (prev: AnswerResponse) => AnswerResponse) => {
+        // Checked practice answers are locked
+        if (!isTestActive || feedbackRef.current.has(questionId)) return;
 
         setAnswers(prev => {
             const newAnswers = new Map(prev);
-            newAnswers.set(questionId, optionIndex);
+            const response = update(prev.get(questionId) || { selectedOption: -1 });
+            if (hasResponse(response)) {
+                newAnswers.set(questionId, response);
+            } else {
+                newAnswers.delete(questionId);
+            }
             return newAnswers;
         });
+        isDirtyRef.current = true;
+    }, [isTestActive]);
+
+    // Handle answer selection (toggles for multiple-correct questions)
+    const handleAnswerSelect = useCallback((question: TestQuestion, optionIndex: number) => {
+        updateAnswer(question._id, prev => {
+            if (question.type !== 'multiple') {
+                return { selectedOption: optionIndex };
+            }
+
+            const selectedOptions = prev.selectedOptions || [];
+            return {
+                selectedOption: -1,
+                selectedOptions: selectedOptions.includes(optionIndex)
+                    ? selectedOptions.filter(option => option !== optionIndex)
+                    : [...selectedOptions, optionIndex].sort((a, b) => a - b)
+            };
+        });
+    }, [updateAnswer]);
+
+    const handleNumericChange = useCallback((questionId: string, value: string) => {
+        const numericAnswer = value.trim() === '' ? NaN : Number(value);
+        updateAnswer(questionId, () => ({
+            selectedOption: -1,
+            numericAnswer: Number.isFinite(numericAnswer) ? numericAnswer : undefined
+        }));
+    }, [updateAnswer]);
+
+    const handleMatchChange = useCallback((question: TestQuestion, itemIndex: number, optionIndex: number) => {
+        updateAnswer(question._id, prev => {
+            const matches = (question.matchItems || []).map((_, index) => prev.matches?.[index] ?? -1);
+            matches[itemIndex] = optionIndex;
+            return { selectedOption: -1, matches };
+        });
+    }, [updateAnswer]);
+
+    const toggleMarkForReview = useCallback((questionId: string) => {
+        if (!isTestActive) return;
+
+        setMarked(prev => {
+            const next = new Set(prev);
+            if (next.has(questionId)) {
+                next.delete(questionId);
+            } else {
+                next.add(questionId);
+            }
+            return next;
+        });
+        isDirtyRef.current = true;
     }, [isTestActive]);
 
+    const clearResponse = useCallback((questionId: string) => {
+        updateAnswer(questionId, () => ({ selectedOption: -1 }));
+        setClearedCount(prev => prev + 1);
+    }, [updateAnswer]);
+
+    // Practice mode: check one answer and show its solution; the answer is locked afterwards
+    const checkAnswer = useCallback(async (questionId: string) => {
+        if (!onCheckAnswer || !isTestActive || feedbackRef.current.has(questionId)) return;
+
+        setCheckingQuestionId(questionId);
+        try {
+            const result = await onCheckAnswer(questionId, answersRef.current.get(questionId));
+            setFeedback(prev => new Map(prev).set(questionId, result));
+        } catch (error) {
+            console.error('Error checking answer:', error);
+            alert(error instanceof Error ? error.message : 'Failed to check answer');
+        } finally {
+            setCheckingQuestionId(null);
+        }
+    }, [onCheckAnswer, isTestActive]);
+
+    // Practice question timer: counts down the question's remaining time and checks it when time runs out
+    const questionSeconds = isPractice ? testData.practiceQuestionSeconds || 0 : 0;
+    useEffect(() => {
+        if (!currentQuestion || questionSeconds <= 0 || !isTestActive || feedbackRef.current.has(currentQuestion._id)) {
+            setQuestionSecondsLeft(null);
+            return;
+        }
+
+        const questionId = currentQuestion._id;
+        const remaining = () => {
+            flushQuestionTime();
+            const spent = timingsRef.current.get(questionId)?.timeSpent || 0;
+            return Math.max(0, Math.ceil(questionSeconds - spent));
+        };
+
+        setQuestionSecondsLeft(remaining());
+        const interval = setInterval(() => {
+            const left = remaining();
+            setQuestionSecondsLeft(left);
+            if (left === 0) {
+                clearInterval(interval);
+                checkAnswer(questionId);
+            }
+        }, 1000);
+        return () => clearInterval(interval);
+    }, [currentQuestion, questionSeconds, isTestActive, feedback, checkAnswer, flushQuestionTime]);
+
+    // Keep every change on the device straight away and track which answers the server has not seen yet
+    useEffect(() => {
+        const previous = previousAnswersRef.current;
+        previousAnswersRef.current = answers;
+        if (previous === answers) return;
+
+        const changed = Array.from(new Set([...Array.from(answers.keys()), ...Array.from(previous.keys())]))
+            .filter(questionId => answers.get(questionId) !== previous.get(questionId));
+        if (changed.length === 0) return;
+
+        setUnsyncedIds(prev => new Set([...Array.from(prev), ...changed]));
+        onBufferAnswers?.(toAnswerArray(answers), getQuestionStates());
+    }, [answers, onBufferAnswers]);
+
+    // Persist answers to the server so the attempt can be resumed
+    const saveProgress = useCallback(async () => {
+        flushQuestionTime();
+        if (!onSaveProgress || !isDirtyRef.current || submitTriggeredRef.current) return;
+
+        isDirtyRef.current = false;
+        setSaveStatus('saving');
+        const sent = answersRef.current;
+
+        try {
+            await onSaveProgress(toAnswerArray(sent), getQuestionStates());
+            setSaveStatus('saved');
+            setLastSavedAt(new Date());
+            // Answers changed while the save was in flight stay unsynced
+            setUnsyncedIds(prev => new Set(Array.from(prev).filter(questionId => answersRef.current.get(questionId) !== sent.get(questionId))));
+        } catch (error) {
+            console.error('Error saving answers:', error);
+            isDirtyRef.current = true;
+            setSaveStatus(navigator.onLine && !(error instanceof TypeError) ? 'error' : 'offline');
+        }
+    }, [onSaveProgress, flushQuestionTime]);
+
+    // Periodic autosave
+    useEffect(() => {
+        if (!isTestActive || !onSaveProgress) return;
+
+        const interval = setInterval(saveProgress, autosaveIntervalSeconds * 1000);
+        return () => clearInterval(interval);
+    }, [isTestActive, onSaveProgress, saveProgress, autosaveIntervalSeconds]);
+
+    // Save as soon as the connection returns
+    useEffect(() => {
+        if (!isTestActive || !onSaveProgress) return;
+
+        window.addEventListener('online', saveProgress);
+        return () => window.removeEventListener('online', saveProgress);
+    }, [isTestActive, onSaveProgress, saveProgress]);
+
+    // Save when the tab is hidden (app switch, screen lock); time away from the tab is not counted
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            const active = activeQuestionRef.current;
+            if (document.visibilityState === 'hidden') {
+                flushQuestionTime();
+                if (active) active.since = null;
+                saveProgress();
+            } else if (active) {
+                active.since = Date.now();
+            }
+        };
+
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, [saveProgress, flushQuestionTime]);
+
     // Navigation functions
     const goToNextQuestion = useCallback(() => {
         if (currentQuestionIndex < currentSection.questions.length - 1) {
             setCurrentQuestionIndex(prev => prev + 1);
-        } else if (currentSectionIndex < testData.sections.length - 1) {
+        } else if (!isSectional && currentSectionIndex < testData.sections.length - 1) {
             setCurrentSectionIndex(prev => prev + 1);
             setCurrentQuestionIndex(0);
         }
-    }, [currentQuestionIndex, currentSectionIndex, currentSection, testData.sections.length]);
+    }, [currentQuestionIndex, currentSectionIndex, currentSection, testData.sections.length, isSectional]);
 
     const goToPreviousQuestion = useCallback(() => {
         if (currentQuestionIndex > 0) {
             setCurrentQuestionIndex(prev => prev - 1);
-        } else if (currentSectionIndex > 0) {
+        } else if (!isSectional && currentSectionIndex > 0) {
             setCurrentSectionIndex(prev => prev - 1);
             const prevSection = testData.sections[currentSectionIndex - 1];
             setCurrentQuestionIndex(prevSection.questions.length - 1);
         }
-    }, [currentQuestionIndex, currentSectionIndex, testData.sections]);
+    }, [currentQuestionIndex, currentSectionIndex, testData.sections, isSectional]);
 
     // Auto-submission when time is up
     const handleTimeUp = useCallback(async () => {
@@ -117,13 +556,7 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
         setIsTestActive(false);
 
         try {
-            const answersArray: Answer[] = Array.from(answers.entries()).map(([questionId, selectedOption]) => ({
-                questionId,
-                selectedOption
-            }));
-
-            const endTime = new Date().toISOString();
-            await onSubmit(answersArray, startTime, endTime);
+            await onSubmit(toAnswerArray(answersRef.current), getQuestionStates());
         } catch (error) {
             console.error('Error submitting test:', error);
             // Re-enable test if submission fails
@@ -134,7 +567,53 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
             setShowSubmitDialog(false);
             setShowTimeUpDialog(false);
         }
-    }, [answers, startTime, onSubmit]);
+    }, [onSubmit]);
+
+    // Section timer expired: move to the next section (earlier sections stay locked)
+    const handleSectionTimeUp = useCallback(() => {
+        if (isLastSection) {
+            handleTimeUp();
+            return;
+        }
+
+        saveProgress();
+        setShowSectionDialog(false);
+        setActiveSectionIndex(prev => prev + 1);
+    }, [isLastSection, handleTimeUp, saveProgress]);
+
+    // Student finished the section early and moves on
+    const handleAdvanceSection = useCallback(async () => {
+        if (!onAdvanceSection) return;
+
+        setIsSubmitting(true);
+        try {
+            const updatedWindows = await onAdvanceSection(toAnswerArray(answersRef.current), getQuestionStates());
+            if (updatedWindows) {
+                setWindows(updatedWindows);
+            }
+            isDirtyRef.current = false;
+            setActiveSectionIndex(prev => Math.min(prev + 1, testData.sections.length - 1));
+        } catch (error) {
+            console.error('Error moving to next section:', error);
+        } finally {
+            setIsSubmitting(false);
+            setShowSectionDialog(false);
+        }
+    }, [onAdvanceSection, testData.sections.length]);
+
+    // Jump to a question from the palette (only the open section in sectional mode)
+    const goToQuestion = useCallback((sectionIndex: number, questionIndex: number) => {
+        if (isSectional && sectionIndex !== activeSectionIndex) return;
+        setCurrentSectionIndex(sectionIndex);
+        setCurrentQuestionIndex(questionIndex);
+    }, [isSectional, activeSectionIndex]);
+
+    const handleMarkAndNext = useCallback(() => {
+        if (!currentQuestion) return;
+        const wasMarked = markedRef.current.has(currentQuestion._id);
+        toggleMarkForReview(currentQuestion._id);
+        if (!wasMarked) goToNextQuestion();
+    }, [currentQuestion, toggleMarkForReview, goToNextQuestion]);
 
     // Handle manual submit button click
     const handleManualSubmit = useCallback(() => {
@@ -144,6 +623,9 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
     // Keyboard navigation
     useEffect(() => {
         const handleKeyPress = (event: KeyboardEvent) => {
+            // Leave typing in numeric answers alone
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
             if (!isTestActive) return;
 
             switch (event.key) {
@@ -163,8 +645,13 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
                 case '6':
                     event.preventDefault();
                     const optionIndex = parseInt(event.key) - 1;
-                    if (currentQuestion && optionIndex < currentQuestion.options.length) {
-                        handleAnswerSelect(currentQuestion._id, optionIndex);
+                    if (
+                        currentQuestion &&
+                        currentQuestion.type !== 'numeric' &&
+                        currentQuestion.type !== 'match' &&
+                        optionIndex < currentQuestion.options.length
+                    ) {
+                        handleAnswerSelect(currentQuestion, optionIndex);
                     }
                     break;
             }
@@ -174,34 +661,210 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
         return () => window.removeEventListener('keydown', handleKeyPress);
     }, [isTestActive, currentQuestion, goToNextQuestion, goToPreviousQuestion, handleAnswerSelect]);
 
+    // Report suspicious activity on proctored tests; the server submits the attempt at the violation limit
+    const reportProctoringEvent = useCallback(async (type: ProctoringEventType) => {
+        if (!testData.proctored || !isTestActive || submitTriggeredRef.current) return;
+
+        setViolations(prev => prev + 1);
+        setViolationWarning(type);
+        if (!onProctoringEvent) return;
+
+        try {
+            const outcome = await onProctoringEvent({ type, occurredAt: new Date().toISOString() });
+            if (!outcome) return;
+
+            setViolations(outcome.violations);
+            if (outcome.submitted) {
+                submitTriggeredRef.current = true;
+                setIsTestActive(false);
+                setViolationWarning(null);
+            }
+        } catch (error) {
+            console.error('Error recording proctoring event:', error);
+        }
+    }, [testData.proctored, isTestActive, onProctoringEvent]);
+
+    useEffect(() => {
+        if (!testData.proctored || !isTestActive) return;
+
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') reportProctoringEvent('tab-switch');
+        };
+        // A tab switch also blurs the window; only count blurs that leave the tab visible
+        let blurTimeout: ReturnType<typeof setTimeout> | undefined;
+        const handleBlur = () => {
+            blurTimeout = setTimeout(() => {
+                if (document.visibilityState === 'visible') reportProctoringEvent('window-blur');
+            }, 200);
+        };
+        const handleCopy = (event: ClipboardEvent) => {
+            event.preventDefault();
+            reportProctoringEvent('copy');
+        };
+        const handlePaste = (event: ClipboardEvent) => {
+            event.preventDefault();
+            reportProctoringEvent('paste');
+        };
+        const handleFullscreenChange = () => {
+            const fullscreen = !!document.fullscreenElement;
+            setIsFullscreen(fullscreen);
+            if (!fullscreen) reportProctoringEvent('fullscreen-exit');
+        };
+
+        setIsFullscreen(!!document.fullscreenElement);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        window.addEventListener('blur', handleBlur);
+        document.addEventListener('copy', handleCopy);
+        document.addEventListener('cut', handleCopy);
+        document.addEventListener('paste', handlePaste);
+        document.addEventListener('fullscreenchange', handleFullscreenChange);
+        return () => {
+            clearTimeout(blurTimeout);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('blur', handleBlur);
+            document.removeEventListener('copy', handleCopy);
+            document.removeEventListener('cut', handleCopy);
+            document.removeEventListener('paste', handlePaste);
+            document.removeEventListener('fullscreenchange', handleFullscreenChange);
+        };
+    }, [testData.proctored, isTestActive, reportProctoringEvent]);
+
+    // Leave fullscreen once the attempt is over
+    useEffect(() => {
+        if (testData.proctored && !isTestActive && document.fullscreenElement) {
+            document.exitFullscreen().catch(() => undefined);
+        }
+    }, [testData.proctored, isTestActive]);
+
+    // Fullscreen can only be requested from a user gesture
+    const enterFullscreen = useCallback(() => {
+        setViolationWarning(null);
+        document.documentElement.requestFullscreen?.().catch(error => {
+            console.error('Error entering fullscreen:', error);
+        });
+    }, []);
+
     // Prevent page refresh/navigation during test
     useEffect(() => {
         const handleBeforeUnload = (event: BeforeUnloadEvent) => {
             if (isTestActive && !submitTriggeredRef.current) {
+                saveProgress();
                 event.preventDefault();
-                event.returnValue = 'Are you sure you want to leave? Your test progress will be lost.';
+                event.returnValue = 'Are you sure you want to leave? The test timer keeps running while you are away.';
                 return event.returnValue;
             }
         };
 
         window.addEventListener('beforeunload', handleBeforeUnload);
         return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-    }, [isTestActive]);
+    }, [isTestActive, saveProgress]);
 
     if (!currentQuestion) {
         return <div>Loading test...</div>;
     }
 
+    const maxViolations = testData.maxViolations || 0;
+    const displayedQuestion = localizeQuestion(currentQuestion, language);
+
     return (
         <div className={`max-w-4xl mx-auto p-6 space-y-6 ${className}`}>
-            {/* Timer */}
-            <TestTimer
-                durationInMinutes={testData.duration}
-                onTimeUp={handleTimeUp}
-                onTimeWarning={onTimeWarning}
-                isActive={isTestActive}
-                className="sticky top-4 z-10"
-            />
+            {/* Submitted without a connection */}
+            {submissionQueued && (
+                <div className="flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+                    <WifiOff className="h-5 w-5 shrink-0" />
+                    <div>
+                        <p className="font-medium">Your submission is saved on this device</p>
+                        <p>
+                            It will be sent automatically when your connection returns, with the time you submitted.
+                            Keep this browser&apos;s data until your result appears.
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Fullscreen gate (proctored tests) */}
+            {testData.proctored && isTestActive && !isFullscreen && !violationWarning && (
+                <div className="fixed inset-0 z-40 flex items-center justify-center bg-white/95 p-6">
+                    <Card className="max-w-md text-center">
+                        <CardHeader>
+                            <CardTitle className="flex items-center justify-center gap-2">
+                                <ShieldAlert className="h-5 w-5 text-orange-500" />
+                                Proctored test
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                This test must be taken in fullscreen. Switching tabs, leaving the window, copying,
+                                pasting and exiting fullscreen are recorded{maxViolations > 0
+                                    ? ` and the test is submitted automatically after ${maxViolations} violations`
+                                    : ''}.
+                            </p>
+                            <Button onClick={enterFullscreen}>
+                                <Maximize className="h-4 w-4 mr-2" />
+                                Enter fullscreen
+                            </Button>
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            {/* Timer (practice attempts have at most a per-question timer) */}
+            {isPractice ? (
+                <div className="sticky top-4 z-10 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-900">
+                    <span className="flex items-center gap-2 font-medium">
+                        <Lightbulb className="h-4 w-4" />
+                        Practice mode · not ranked
+                    </span>
+                    {questionSecondsLeft !== null && (
+                        <span className={`flex items-center gap-1 font-mono ${questionSecondsLeft <= 10 ? 'text-red-600' : ''}`}>
+                            <Clock className="h-4 w-4" />
+                            {Math.floor(questionSecondsLeft / 60)}:{String(questionSecondsLeft % 60).padStart(2, '0')}
+                        </span>
+                    )}
+                </div>
+            ) : isSectional ? (
+                <TestTimer
+                    key={activeSectionIndex}
+                    durationInMinutes={currentSection.timeLimit || testData.duration}
+                    endsAt={windows[activeSectionIndex]?.endsAt}
+                    serverTime={serverTime}
+                    onTimeUp={handleSectionTimeUp}
+                    onTimeWarning={onTimeWarning}
+                    isActive={isTestActive}
+                    className="sticky top-4 z-10"
+                />
+            ) : (
+                <TestTimer
+                    durationInMinutes={testData.duration}
+                    endsAt={deadline}
+                    serverTime={serverTime}
+                    onTimeUp={handleTimeUp}
+                    onTimeWarning={onTimeWarning}
+                    isActive={isTestActive}
+                    className="sticky top-4 z-10"
+                />
+            )}
+
+            {/* Section progress (sectional timing) */}
+            {isSectional && (
+                <div className="flex flex-wrap gap-2">
+                    {testData.sections.map((section, index) => (
+                        <span
+                            key={section._id}
+                            className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border ${index === activeSectionIndex
+                                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                : index < activeSectionIndex
+                                    ? 'border-gray-200 bg-gray-100 text-gray-500'
+                                    : 'border-gray-200 text-gray-400'
+                                }`}
+                        >
+                            {index < activeSectionIndex && <Lock className="w-3 h-3" />}
+                            {section.title}
+                            {section.timeLimit && ` · ${section.timeLimit} min`}
+                        </span>
+                    ))}
+                </div>
+            )}
 
             {/* Progress indicator */}
             <div className="bg-white rounded-lg border p-4">
@@ -212,6 +875,15 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
                     </span>
                     <span className="text-sm font-medium text-gray-600">
                         Answered: {answeredQuestions}/{totalQuestions}
+                        {isPractice && ` · Checked: ${feedback.size}`}
+                        {onSaveProgress && saveStatus !== 'idle' && (
+                            <span className={`ml-3 text-xs ${saveStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                                {saveStatus === 'saving' && 'Saving...'}
+                                {saveStatus === 'saved' && lastSavedAt && `Saved at ${lastSavedAt.toLocaleTimeString()}`}
+                                {saveStatus === 'error' && 'Not saved - will retry'}
+                                {saveStatus === 'offline' && `Offline - ${unsyncedIds.size} unsynced answer(s) kept on this device`}
+                            </span>
+                        )}
                     </span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
@@ -227,51 +899,196 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
                 <CardHeader>
                     <CardTitle className="flex items-center justify-between">
                         <span>Question {currentQuestionIndex + 1}</span>
+                        {isBilingual && (
+                            <div className="flex rounded-md border text-sm font-normal" role="group" aria-label="Question language">
+                                {(['en', 'hi'] as Language[]).map(option => (
+                                    <button
+                                        key={option}
+                                        type="button"
+                                        onClick={() => setLanguage(option)}
+                                        className={`px-3 py-1 ${language === option ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                                    >
+                                        {option === 'en' ? 'English' : 'हिन्दी'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         <span className="text-sm font-normal text-gray-600">
-                            {currentQuestion.marks} {currentQuestion.marks === 1 ? 'mark' : 'marks'}
+                            +{currentQuestion.marks} {currentQuestion.marks === 1 ? 'mark' : 'marks'}
+                            {!!currentQuestion.negativeMarks && (
+                                <span className="ml-2 text-red-600">-{currentQuestion.negativeMarks} for wrong answer</span>
+                            )}
                         </span>
                     </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                    <p className="text-lg leading-relaxed">{currentQuestion.text}</p>
+                    {currentQuestion.type === 'assertion-reason' ? (
+                        <div className="space-y-2 text-lg leading-relaxed">
+                            <div><span className="font-semibold">Assertion (A):</span> <RichContent inline content={displayedQuestion.text} /></div>
+                            <div><span className="font-semibold">Reason (R):</span> <RichContent inline content={displayedQuestion.reason} /></div>
+                        </div>
+                    ) : (
+                        <RichContent className="text-lg leading-relaxed" content={displayedQuestion.text} />
+                    )}
 
-                    <div className="space-y-3">
-                        {currentQuestion.options.map((option, index) => {
-                            const isSelected = answers.get(currentQuestion._id) === index;
-                            return (
-                                <button
-                                    key={index}
-                                    onClick={() => handleAnswerSelect(currentQuestion._id, index)}
-                                    disabled={!isTestActive}
-                                    className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ${isSelected
-                                        ? 'border-blue-500 bg-blue-50 text-blue-900'
-                                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                                        } ${!isTestActive ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
-                                >
-                                    <div className="flex items-center space-x-3">
-                                        <span className={`w-6 h-6 rounded-full border-2 flex items-center justify-center text-sm font-medium ${isSelected ? 'border-blue-500 bg-blue-500 text-white' : 'border-gray-300'
-                                            }`}>
-                                            {String.fromCharCode(65 + index)}
-                                        </span>
-                                        <span>{option}</span>
-                                        {isSelected && <CheckCircle className="w-5 h-5 text-blue-500 ml-auto" />}
+                    {currentQuestion.type === 'numeric' ? (
+                        <div className="space-y-2">
+                            <p className="text-sm text-gray-600">Enter your answer as a number</p>
+                            <Input
+                                key={`${currentQuestion._id}-${clearedCount}`}
+                                type="number"
+                                step="any"
+                                inputMode="decimal"
+                                className="max-w-xs"
+                                disabled={!isTestActive || !!currentFeedback}
+                                defaultValue={currentResponse?.numericAnswer ?? ''}
+                                onChange={(e) => handleNumericChange(currentQuestion._id, e.target.value)}
+                            />
+                        </div>
+                    ) : currentQuestion.type === 'match' ? (
+                        <div className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <ol className="space-y-1 list-decimal list-inside">
+                                    {displayedQuestion.matchItems.map((item, index) => (
+                                        <li key={index}><RichContent inline content={item} /></li>
+                                    ))}
+                                </ol>
+                                <ul className="space-y-1">
+                                    {displayedQuestion.options.map((option, index) => (
+                                        <li key={index}>
+                                            <span className="font-medium">{String.fromCharCode(65 + index)}.</span> <RichContent inline content={option} />
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                            <div className="space-y-2">
+                                {displayedQuestion.matchItems.map((item, itemIndex) => (
+                                    <div key={itemIndex} className="flex items-center gap-3">
+                                        <span className="flex-1 text-sm">{itemIndex + 1}. <RichContent inline content={item} /></span>
+                                        <Select
+                                            value={String(currentResponse?.matches?.[itemIndex] ?? -1)}
+                                            onValueChange={(value) => handleMatchChange(currentQuestion, itemIndex, Number(value))}
+                                            disabled={!isTestActive || !!currentFeedback}
+                                        >
+                                            <SelectTrigger className="w-32">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="-1">Not matched</SelectItem>
+                                                {currentQuestion.options.map((_, optionIndex) => (
+                                                    <SelectItem key={optionIndex} value={String(optionIndex)}>
+                                                        {String.fromCharCode(65 + optionIndex)}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
                                     </div>
-                                </button>
-                            );
-                        })}
-                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {currentQuestion.type === 'multiple' && (
+                                <p className="text-sm text-gray-600">Select all correct options</p>
+                            )}
+                            {displayedQuestion.options.map((option, index) => {
+                                const isMultiple = currentQuestion.type === 'multiple';
+                                const isSelected = isMultiple
+                                    ? !!currentResponse?.selectedOptions?.includes(index)
+                                    : currentResponse?.selectedOption === index;
+                                const isCorrectOption = !!currentFeedback && (isMultiple
+                                    ? currentFeedback.correctOptions.includes(index)
+                                    : currentFeedback.correctOption === index);
+                                return (
+                                    <button
+                                        key={index}
+                                        onClick={() => handleAnswerSelect(currentQuestion, index)}
+                                        disabled={!isTestActive || !!currentFeedback}
+                                        className={`w-full text-left p-4 rounded-lg border-2 transition-all duration-200 ${isCorrectOption
+                                            ? 'border-green-500 bg-green-50 text-green-900'
+                                            : currentFeedback && isSelected
+                                                ? 'border-red-500 bg-red-50 text-red-900'
+                                                : isSelected
+                                                    ? 'border-blue-500 bg-blue-50 text-blue-900'
+                                                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                                            } ${!isTestActive || currentFeedback ? 'cursor-not-allowed' : 'cursor-pointer'} ${!isTestActive ? 'opacity-50' : ''}`}
+                                    >
+                                        <div className="flex items-center space-x-3">
+                                            <span className={`w-6 h-6 ${isMultiple ? 'rounded' : 'rounded-full'} border-2 flex items-center justify-center text-sm font-medium ${isSelected ? 'border-blue-500 bg-blue-500 text-white' : 'border-gray-300'
+                                                }`}>
+                                                {String.fromCharCode(65 + index)}
+                                            </span>
+                                            <RichContent inline content={option} />
+                                            {isSelected && (isMultiple
+                                                ? <CheckSquare className="w-5 h-5 text-blue-500 ml-auto" />
+                                                : <CheckCircle className="w-5 h-5 text-blue-500 ml-auto" />)}
+                                            {!isSelected && isMultiple && <Square className="w-5 h-5 text-gray-300 ml-auto" />}
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {/* Practice feedback */}
+                    {currentFeedback && (
+                        <div className={`space-y-2 rounded-lg border p-4 text-sm ${OUTCOME_STYLES[currentFeedback.outcome].className}`}>
+                            <div className="flex items-center justify-between font-medium">
+                                <span>{OUTCOME_STYLES[currentFeedback.outcome].label}</span>
+                                <span>{currentFeedback.marksAwarded > 0 ? '+' : ''}{currentFeedback.marksAwarded} marks</span>
+                            </div>
+                            {currentFeedback.outcome !== 'correct' && (
+                                <p>Correct answer: {describeCorrectAnswer(currentQuestion, currentFeedback)}</p>
+                            )}
+                            {(currentFeedback.explanation || currentFeedback.hindiExplanation) && (
+                                <div className="border-t pt-2 text-gray-800">
+                                    <span className="font-medium">Explanation: </span>
+                                    <RichContent
+                                        inline
+                                        content={(language === 'hi' && currentFeedback.hindiExplanation) || currentFeedback.explanation}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
             {/* Navigation and submit buttons */}
             <div className="flex justify-between items-center">
-                <Button
-                    variant="outline"
-                    onClick={goToPreviousQuestion}
-                    disabled={currentSectionIndex === 0 && currentQuestionIndex === 0 || !isTestActive}
-                >
-                    Previous
-                </Button>
+                <div className="flex space-x-3">
+                    <Button
+                        variant="outline"
+                        onClick={goToPreviousQuestion}
+                        disabled={(isSectional ? currentQuestionIndex === 0 : currentSectionIndex === 0 && currentQuestionIndex === 0) || !isTestActive}
+                    >
+                        Previous
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={handleMarkAndNext}
+                        disabled={!isTestActive}
+                    >
+                        <Bookmark className="w-4 h-4 mr-1" />
+                        {marked.has(currentQuestion._id) ? 'Unmark' : 'Mark for Review & Next'}
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        onClick={() => clearResponse(currentQuestion._id)}
+                        disabled={!isTestActive || !currentResponse || !!currentFeedback}
+                    >
+                        Clear Response
+                    </Button>
+                    {isPractice && (
+                        <Button
+                            variant="secondary"
+                            onClick={() => checkAnswer(currentQuestion._id)}
+                            disabled={!isTestActive || !onCheckAnswer || !!currentFeedback || checkingQuestionId !== null}
+                        >
+                            {checkingQuestionId === currentQuestion._id ? 'Checking...' : 'Check Answer'}
+                        </Button>
+                    )}
+                </div>
 
                 <div className="flex space-x-3">
                     <Button
@@ -279,38 +1096,167 @@ export const TestAttemptContainer: React.FC<TestAttemptContainerProps> = ({
                         onClick={handleManualSubmit}
                         disabled={!isTestActive || isSubmitting}
                     >
-                        {isSubmitting ? 'Submitting...' : 'Submit Test'}
+                        {isSubmitting ? 'Submitting...' : isPractice ? 'Finish Practice' : 'Submit Test'}
                     </Button>
 
-                    <Button
-                        onClick={goToNextQuestion}
-                        disabled={
-                            (currentSectionIndex === testData.sections.length - 1 &&
-                                currentQuestionIndex === currentSection.questions.length - 1) ||
-                            !isTestActive
-                        }
-                    >
-                        Next
-                    </Button>
+                    {isSectional && !isLastSection && currentQuestionIndex === currentSection.questions.length - 1 ? (
+                        <Button
+                            onClick={() => setShowSectionDialog(true)}
+                            disabled={!isTestActive || isSubmitting || !onAdvanceSection}
+                        >
+                            Next Section
+                        </Button>
+                    ) : (
+                        <Button
+                            onClick={goToNextQuestion}
+                            disabled={
+                                ((isSectional || currentSectionIndex === testData.sections.length - 1) &&
+                                    currentQuestionIndex === currentSection.questions.length - 1) ||
+                                !isTestActive
+                            }
+                        >
+                            Next
+                        </Button>
+                    )}
                 </div>
             </div>
 
+            {/* Question palette */}
+            <Card>
+                <CardContent className="p-4 space-y-4">
+                    {!isSectional && testData.sections.length > 1 && (
+                        <div className="flex flex-wrap gap-2">
+                            {testData.sections.map((section, index) => (
+                                <Button
+                                    key={section._id}
+                                    size="sm"
+                                    variant={index === currentSectionIndex ? 'default' : 'outline'}
+                                    onClick={() => goToQuestion(index, 0)}
+                                    disabled={!isTestActive}
+                                >
+                                    {section.title}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="grid grid-cols-8 sm:grid-cols-10 gap-2">
+                        {currentSection.questions.map((question, index) => {
+                            const status = getPaletteStatus(question._id);
+                            return (
+                                <button
+                                    key={question._id}
+                                    onClick={() => goToQuestion(currentSectionIndex, index)}
+                                    disabled={!isTestActive}
+                                    title={PALETTE_STYLES[status].label}
+                                    className={`h-9 rounded-md border text-sm font-medium ${PALETTE_STYLES[status].className} ${index === currentQuestionIndex ? 'outline outline-2 outline-offset-2 outline-blue-500' : ''}`}
+                                >
+                                    {index + 1}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs text-gray-600">
+                        {(Object.keys(PALETTE_STYLES) as PaletteStatus[]).map(status => (
+                            <span key={status} className="flex items-center gap-1">
+                                <span className={`inline-block w-3 h-3 rounded-sm border ${PALETTE_STYLES[status].className}`} />
+                                {PALETTE_STYLES[status].label}
+                            </span>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
             {/* Submit confirmation dialog */}
             <Dialog open={showSubmitDialog} onOpenChange={setShowSubmitDialog}>
                 <DialogContent>
                     <DialogHeader>
-                        <DialogTitle>Submit Test?</DialogTitle>
+                        <DialogTitle>{isPractice ? 'Finish Practice?' : 'Submit Test?'}</DialogTitle>
                         <DialogDescription>
-                            Are you sure you want to submit your test? You have answered {answeredQuestions} out of {totalQuestions} questions.
+                            Are you sure you want to {isPractice ? 'finish this practice session' : 'submit your test'}? You have answered {answeredQuestions} out of {totalQuestions} questions.
                             This action cannot be undone.
                         </DialogDescription>
                     </DialogHeader>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b text-left text-gray-500">
+                                <th className="py-1 pr-2">Section</th>
+                                <th className="py-1 px-1 text-center">Answered</th>
+                                <th className="py-1 px-1 text-center">Not answered</th>
+                                <th className="py-1 px-1 text-center">Marked</th>
+                                <th className="py-1 px-1 text-center">Answered & marked</th>
+                                <th className="py-1 px-1 text-center">Not visited</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {testData.sections.map(section => {
+                                const summary = getSectionSummary(section);
+                                return (
+                                    <tr key={section._id} className="border-b">
+                                        <td className="py-1 pr-2">{section.title}</td>
+                                        <td className="py-1 px-1 text-center">{summary['answered']}</td>
+                                        <td className="py-1 px-1 text-center">{summary['not-answered']}</td>
+                                        <td className="py-1 px-1 text-center">{summary['marked']}</td>
+                                        <td className="py-1 px-1 text-center">{summary['answered-marked']}</td>
+                                        <td className="py-1 px-1 text-center">{summary['not-visited']}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500">
+                        {testData.evaluateMarkedAnswers === false
+                            ? 'Answers still marked for review will NOT be evaluated.'
+                            : 'Answers marked for review will be evaluated.'}
+                    </p>
                     <DialogFooter>
                         <Button variant="outline" disabled={isSubmitting} onClick={() => setShowSubmitDialog(false)}>
                             Cancel
                         </Button>
                         <Button onClick={() => handleSubmit()} disabled={isSubmitting}>
-                            {isSubmitting ? 'Submitting...' : 'Submit Test'}
+                            {isSubmitting ? 'Submitting...' : isPractice ? 'Finish Practice' : 'Submit Test'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Next section confirmation dialog */}
+            <Dialog open={showSectionDialog} onOpenChange={setShowSectionDialog}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Move to the next section?</DialogTitle>
+                        <DialogDescription>
+                            You will not be able to return to {currentSection.title} once you continue.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" disabled={isSubmitting} onClick={() => setShowSectionDialog(false)}>
+                            Stay
+                        </Button>
+                        <Button onClick={handleAdvanceSection} disabled={isSubmitting}>
+                            {isSubmitting ? 'Saving...' : 'Continue'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Proctoring violation warning */}
+            <Dialog open={!!violationWarning && isTestActive} onOpenChange={() => { }}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center space-x-2">
+                            <ShieldAlert className="w-6 h-6 text-red-500" />
+                            <span>Warning</span>
+                        </DialogTitle>
+                        <DialogDescription>
+                            {violationWarning && PROCTORING_EVENT_LABELS[violationWarning]}. This has been recorded
+                            {maxViolations > 0
+                                ? ` (${violations} of ${maxViolations}). Your test will be submitted automatically after ${maxViolations} violations.`
+                                : ` (${violations} so far) and will be reviewed with your result.`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button onClick={enterFullscreen}>
+                            Return to test
                         </Button>
                     </DialogFooter>
                 </DialogContent>
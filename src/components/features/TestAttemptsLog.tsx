@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronDown, ChevronRight, ShieldAlert } from 'lucide-react';
+
+interface ProctoringEvent {
+    type: string;
+    label: string;
+    occurredAt: string;
+}
+
+interface AttemptSummary {
+    attemptId: string;
+    userName: string;
+    userEmail: string;
+    mode?: 'exam' | 'practice';
+    score: number;
+    totalMarks: number;
+    percentage: number;
+    timeSpent: number;
+    completedAt?: string;
+    autoSubmitted?: boolean;
+    autoSubmitReason?: 'time' | 'violations';
+    events: ProctoringEvent[];
+}
+
+interface AttemptsLog {
+    testTitle: string;
+    proctored: boolean;
+    maxViolations: number;
+    attempts: AttemptSummary[];
+}
+
+interface TestAttemptsLogProps {
+    testId: string | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+export const TestAttemptsLog: React.FC<TestAttemptsLogProps> = ({ testId, onOpenChange }) => {
+    const [log, setLog] = useState<AttemptsLog | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!testId) return;
+
+        const fetchAttempts = async () => {
+            setLoading(true);
+            setLog(null);
+            setExpandedId(null);
+            try {
+                const response = await fetch(`/api/admin/tests/${testId}/attempts`);
+                const data = await response.json();
+
+                if (response.ok) {
+                    setLog(data.data);
+                } else {
+                    alert(data.error || 'Failed to load attempts');
+                }
+            } catch (error) {
+                console.error('Failed to load attempts:', error);
+                alert('Failed to load attempts');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchAttempts();
+    }, [testId]);
+
+    const attempts = (log?.attempts || []).filter(attempt => !flaggedOnly || attempt.events.length > 0);
+
+    return (
+        <Dialog open={testId !== null} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Attempts{log ? `: ${log.testTitle}` : ''}</DialogTitle>
+                </DialogHeader>
+
+                {loading && <p className="text-sm text-gray-500 py-8 text-center">Loading attempts...</p>}
+
+                {log && log.attempts.length === 0 && (
+                    <p className="text-sm text-gray-500 py-8 text-center">No completed attempts yet.</p>
+                )}
+
+                {log && log.attempts.length > 0 && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                            <p className="text-gray-600">
+                                {log.proctored
+                                    ? log.maxViolations > 0
+                                        ? `Proctored, auto-submit after ${log.maxViolations} violations`
+                                        : 'Proctored, violations are only recorded'
+                                    : 'Not proctored'}
+                            </p>
+                            <Button
+                                size="sm"
+                                variant={flaggedOnly ? 'default' : 'outline'}
+                                onClick={() => setFlaggedOnly(!flaggedOnly)}
+                            >
+                                With violations only
+                            </Button>
+                        </div>
+
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b text-gray-500">
+                                    <th className="py-2 pr-2 w-6"></th>
+                                    <th className="py-2 pr-4">Student</th>
+                                    <th className="py-2 pr-4">Score</th>
+                                    <th className="py-2 pr-4">Time</th>
+                                    <th className="py-2 pr-4">Submitted</th>
+                                    <th className="py-2">Violations</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {attempts.map(attempt => (
+                                    <React.Fragment key={attempt.attemptId}>
+                                        <tr
+                                            className="border-b align-top cursor-pointer hover:bg-gray-50"
+                                            onClick={() => setExpandedId(expandedId === attempt.attemptId ? null : attempt.attemptId)}
+                                        >
+                                            <td className="py-2 pr-2">
+                                                {attempt.events.length > 0 && (expandedId === attempt.attemptId
+                                                    ? <ChevronDown className="h-4 w-4" />
+                                                    : <ChevronRight className="h-4 w-4" />)}
+                                            </td>
+                                            <td className="py-2 pr-4">
+                                                <p>{attempt.userName}</p>
+                                                <p className="text-xs text-gray-500">{attempt.userEmail}</p>
+                                                {attempt.mode === 'practice' && <Badge variant="outline">Practice</Badge>}
+                                            </td>
+                                            <td className="py-2 pr-4">
+                                                {attempt.score}/{attempt.totalMarks} ({attempt.percentage}%)
+                                            </td>
+                                            <td className="py-2 pr-4">{formatTime(attempt.timeSpent)}</td>
+                                            <td className="py-2 pr-4">
+                                                <p>{attempt.completedAt ? new Date(attempt.completedAt).toLocaleString() : '-'}</p>
+                                                {attempt.autoSubmitted && (
+                                                    <Badge className={attempt.autoSubmitReason === 'violations'
+                                                        ? 'bg-red-100 text-red-800'
+                                                        : 'bg-gray-100 text-gray-800'}
+                                                    >
+                                                        {attempt.autoSubmitReason === 'violations' ? 'Auto-submitted: violations' : 'Auto-submitted: time'}
+                                                    </Badge>
+                                                )}
+                                            </td>
+                                            <td className="py-2">
+                                                {attempt.events.length > 0 ? (
+                                                    <span className="flex items-center gap-1 text-red-700">
+                                                        <ShieldAlert className="h-4 w-4" />
+                                                        {attempt.events.length}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-gray-500">0</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {expandedId === attempt.attemptId && attempt.events.length > 0 && (
+                                            <tr className="border-b bg-gray-50">
+                                                <td></td>
+                                                <td colSpan={5} className="py-2">
+                                                    <ol className="space-y-1 text-xs">
+                                                        {attempt.events.map((event, index) => (
+                                                            <li key={`${event.type}-${event.occurredAt}-${index}`} className="flex gap-4">
+                                                                <span className="text-gray-500 w-44">
+                                                                    {new Date(event.occurredAt).toLocaleString()}
+                                                                </span>
+                                                                <span>{event.label}</span>
+                                                            </li>
+                                                        ))}
+                                                    </ol>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TestAttemptsLog;
@@ -0,0 +1,425 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Trash2, RefreshCw, AlertTriangle } from 'lucide-react';
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+interface SectionDraft {
+    title: string;
+    subject: string;
+    topics: string;
+    examTags: string;
+    easy: number;
+    medium: number;
+    hard: number;
+    marks: string;
+    timeLimit: string;
+}
+
+interface GeneratedQuestion {
+    bankQuestionId: string;
+    text: string;
+    marks: number;
+    topic: string;
+    difficulty: Difficulty;
+}
+
+interface GeneratedSection {
+    title: string;
+    timeLimit?: number;
+    questions: GeneratedQuestion[];
+}
+
+interface Shortfall {
+    section: string;
+    difficulty: Difficulty;
+    requested: number;
+    available: number;
+}
+
+interface TestBlueprintGeneratorProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onPublished: () => void;
+}
+
+const newSectionDraft = (): SectionDraft => ({
+    title: '',
+    subject: '',
+    topics: '',
+    examTags: '',
+    easy: 0,
+    medium: 0,
+    hard: 0,
+    marks: '',
+    timeLimit: '',
+});
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toBlueprintSection = (draft: SectionDraft) => ({
+    title: draft.title,
+    subject: draft.subject.trim() || undefined,
+    topics: splitList(draft.topics),
+    examTags: splitList(draft.examTags),
+    counts: { easy: draft.easy, medium: draft.medium, hard: draft.hard },
+    marks: draft.marks ? Number(draft.marks) : undefined,
+    timeLimit: draft.timeLimit ? Number(draft.timeLimit) : undefined,
+});
+
+const difficultyColors: Record<Difficulty, string> = {
+    easy: 'bg-green-100 text-green-800',
+    medium: 'bg-yellow-100 text-yellow-800',
+    hard: 'bg-red-100 text-red-800',
+};
+
+export const TestBlueprintGenerator: React.FC<TestBlueprintGeneratorProps> = ({
+    open,
+    onOpenChange,
+    onPublished
+}) => {
+    const [details, setDetails] = useState({ title: '', description: '', duration: 60, price: 0 });
+    const [avoidRecentTests, setAvoidRecentTests] = useState(3);
+    const [sectionDrafts, setSectionDrafts] = useState<SectionDraft[]>([newSectionDraft()]);
+    const [preview, setPreview] = useState<GeneratedSection[] | null>(null);
+    const [shortfalls, setShortfalls] = useState<Shortfall[]>([]);
+    const [generating, setGenerating] = useState(false);
+
+    const updateSectionDraft = (index: number, changes: Partial<SectionDraft>) => {
+        setSectionDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+        setPreview(null);
+    };
+
+    const requestGeneration = async (body: Record<string, unknown>) => {
+        const response = await fetch('/api/admin/tests/generate', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ avoidRecentTests, ...body }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to generate test');
+        }
+        return data as { sections: GeneratedSection[]; shortfalls: Shortfall[] };
+    };
+
+    const handleGenerate = async () => {
+        setGenerating(true);
+        try {
+            const data = await requestGeneration({ sections: sectionDrafts.map(toBlueprintSection) });
+            setPreview(data.sections);
+            setShortfalls(data.shortfalls);
+        } catch (error) {
+            console.error('Failed to generate test:', error);
+            alert(error instanceof Error ? error.message : 'Failed to generate test');
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    // Redraws one section while keeping the questions already drawn for the others
+    const handleRegenerateSection = async (index: number) => {
+        if (!preview) return;
+
+        setGenerating(true);
+        try {
+            const data = await requestGeneration({
+                sections: [toBlueprintSection(sectionDrafts[index])],
+                excludeQuestionIds: preview
+                    .filter((_, i) => i !== index)
+                    .flatMap(section => section.questions.map(question => question.bankQuestionId)),
+            });
+            setPreview(prev => prev && prev.map((section, i) => (i === index ? data.sections[0] : section)));
+            setShortfalls(prev => [
+                ...prev.filter(shortfall => shortfall.section !== sectionDrafts[index].title),
+                ...data.shortfalls,
+            ]);
+        } catch (error) {
+            console.error('Failed to regenerate section:', error);
+            alert(error instanceof Error ? error.message : 'Failed to regenerate section');
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const handlePublish = async () => {
+        if (!preview) return;
+
+        try {
+            const response = await fetch('/api/tests', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    ...details,
+                    // Content is filled in from the question bank when the test is saved
+                    sections: preview.map(section => ({
+                        title: section.title,
+                        timeLimit: section.timeLimit,
+                        questions: section.questions.map(({ bankQuestionId, marks }) => ({ bankQuestionId, marks })),
+                    })),
+                }),
+            });
+
+            if (response.ok) {
+                setPreview(null);
+                setShortfalls([]);
+                setSectionDrafts([newSectionDraft()]);
+                setDetails({ title: '', description: '', duration: 60, price: 0 });
+                onOpenChange(false);
+                onPublished();
+            } else {
+                const error = await response.json();
+                alert(error.error || 'Failed to publish test');
+            }
+        } catch (error) {
+            console.error('Failed to publish test:', error);
+            alert('Failed to publish test');
+        }
+    };
+
+    const canGenerate = sectionDrafts.every(draft => draft.title.trim() && draft.easy + draft.medium + draft.hard > 0);
+    const canPublish = !!preview && !!details.title.trim() && !!details.description.trim()
+        && preview.every(section => section.questions.length > 0);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Generate Test from Blueprint</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="col-span-2">
+                            <Label htmlFor="blueprintTitle">Title</Label>
+                            <Input
+                                id="blueprintTitle"
+                                value={details.title}
+                                onChange={(e) => setDetails({ ...details, title: e.target.value })}
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <Label htmlFor="blueprintDescription">Description</Label>
+                            <Textarea
+                                id="blueprintDescription"
+                                value={details.description}
+                                onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="blueprintDuration">Duration (minutes)</Label>
+                            <Input
+                                id="blueprintDuration"
+                                type="number"
+                                min="1"
+                                value={details.duration}
+                                onChange={(e) => setDetails({ ...details, duration: Number(e.target.value) })}
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="blueprintPrice">Price (₹)</Label>
+                            <Input
+                                id="blueprintPrice"
+                                type="number"
+                                min="0"
+                                value={details.price}
+                                onChange={(e) => setDetails({ ...details, price: Number(e.target.value) })}
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="avoidRecentTests">Avoid questions from last N tests</Label>
+                            <Input
+                                id="avoidRecentTests"
+                                type="number"
+                                min="0"
+                                value={avoidRecentTests}
+                                onChange={(e) => {
+                                    setAvoidRecentTests(Number(e.target.value));
+                                    setPreview(null);
+                                }}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <p className="text-sm font-medium">Blueprint</p>
+                        {sectionDrafts.map((draft, index) => (
+                            <div key={index} className="space-y-2 rounded-md border p-3">
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        placeholder="Section title (e.g. Reasoning)"
+                                        value={draft.title}
+                                        onChange={(e) => updateSectionDraft(index, { title: e.target.value })}
+                                    />
+                                    {sectionDrafts.length > 1 && (
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => {
+                                                setSectionDrafts(prev => prev.filter((_, i) => i !== index));
+                                                setPreview(null);
+                                            }}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <Input
+                                        placeholder="Subject"
+                                        value={draft.subject}
+                                        onChange={(e) => updateSectionDraft(index, { subject: e.target.value })}
+                                    />
+                                    <Input
+                                        placeholder="Topics (comma separated)"
+                                        value={draft.topics}
+                                        onChange={(e) => updateSectionDraft(index, { topics: e.target.value })}
+                                    />
+                                    <Input
+                                        placeholder="Exam tags (comma separated)"
+                                        value={draft.examTags}
+                                        onChange={(e) => updateSectionDraft(index, { examTags: e.target.value })}
+                                    />
+                                </div>
+                                <div className="grid grid-cols-5 gap-2">
+                                    {(['easy', 'medium', 'hard'] as Difficulty[]).map(difficulty => (
+                                        <div key={difficulty}>
+                                            <Label className="text-xs capitalize">{difficulty}</Label>
+                                            <Input
+                                                type="number"
+                                                min="0"
+                                                className="h-8"
+                                                value={draft[difficulty]}
+                                                onChange={(e) => updateSectionDraft(index, { [difficulty]: Number(e.target.value) })}
+                                            />
+                                        </div>
+                                    ))}
+                                    <div>
+                                        <Label className="text-xs">Marks each</Label>
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            step="0.25"
+                                            className="h-8"
+                                            placeholder="Bank"
+                                            value={draft.marks}
+                                            onChange={(e) => updateSectionDraft(index, { marks: e.target.value })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label className="text-xs">Time (min)</Label>
+                                        <Input
+                                            type="number"
+                                            min="1"
+                                            className="h-8"
+                                            placeholder="None"
+                                            value={draft.timeLimit}
+                                            onChange={(e) => updateSectionDraft(index, { timeLimit: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                                setSectionDrafts(prev => [...prev, newSectionDraft()]);
+                                setPreview(null);
+                            }}
+                        >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add section
+                        </Button>
+                    </div>
+
+                    {preview && (
+                        <div className="space-y-3 rounded-md border p-3">
+                            <div className="flex items-center justify-between">
+                                <p className="text-sm font-medium">
+                                    Preview ({preview.reduce((total, section) => total + section.questions.length, 0)} questions)
+                                </p>
+                                <Button type="button" size="sm" variant="outline" disabled={generating} onClick={handleGenerate}>
+                                    <RefreshCw className="h-4 w-4 mr-1" />
+                                    Regenerate all
+                                </Button>
+                            </div>
+
+                            {shortfalls.length > 0 && (
+                                <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800 space-y-1">
+                                    {shortfalls.map(shortfall => (
+                                        <p key={`${shortfall.section}-${shortfall.difficulty}`} className="flex items-center gap-1">
+                                            <AlertTriangle className="h-4 w-4" />
+                                            {shortfall.section}: only {shortfall.available} of {shortfall.requested} {shortfall.difficulty} questions available
+                                        </p>
+                                    ))}
+                                </div>
+                            )}
+
+                            {preview.map((section, sectionIndex) => (
+                                <div key={sectionIndex} className="space-y-1">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-sm font-medium">
+                                            {section.title} ({section.questions.length})
+                                        </span>
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            variant="ghost"
+                                            disabled={generating}
+                                            onClick={() => handleRegenerateSection(sectionIndex)}
+                                        >
+                                            <RefreshCw className="h-4 w-4 mr-1" />
+                                            Regenerate section
+                                        </Button>
+                                    </div>
+                                    {section.questions.map((question, index) => (
+                                        <div key={question.bankQuestionId} className="flex items-center gap-2 text-sm">
+                                            <span className="w-6 text-gray-500">{index + 1}.</span>
+                                            <span className="flex-1 truncate">{question.text}</span>
+                                            <Badge variant="outline">{question.topic}</Badge>
+                                            <span className={`px-2 py-0.5 rounded text-xs capitalize ${difficultyColors[question.difficulty]}`}>
+                                                {question.difficulty}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end space-x-2">
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                            Cancel
+                        </Button>
+                        {preview ? (
+                            <Button type="button" disabled={!canPublish || generating} onClick={handlePublish}>
+                                Publish Test
+                            </Button>
+                        ) : (
+                            <Button type="button" disabled={!canGenerate || generating} onClick={handleGenerate}>
+                                {generating ? 'Generating...' : 'Generate Preview'}
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TestBlueprintGenerator;
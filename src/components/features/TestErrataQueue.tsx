@@ -0,0 +1,363 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type ReportStatus = 'open' | 'accepted' | 'rejected';
+
+type ReportReason = 'wrong-key' | 'wrong-question' | 'ambiguous' | 'typo' | 'other';
+
+type ErrataAction = 'key-changed' | 'bonus' | 'dropped' | 'restored' | 'corrected' | 'rejected';
+
+interface ErrataEntry {
+    testId: string;
+    testTitle: string;
+    questionId: string;
+    questionLabel: string;
+    questionText: string;
+    type: string;
+    options: string[];
+    correctAnswer?: number;
+    correctAnswers: number[];
+    numericAnswer?: number;
+    tolerance: number;
+    resolution?: 'bonus' | 'dropped';
+    linkedToBank: boolean;
+    reportCount: number;
+    reasons: Partial<Record<ReportReason, number>>;
+    messages: Array<{ reason: ReportReason; message: string; createdAt: string }>;
+    firstReportedAt: string;
+}
+
+interface Resolution {
+    action: ErrataAction;
+    correctAnswer?: number;
+    correctAnswers: number[];
+    numericAnswer: string;
+    tolerance: string;
+    adminNote: string;
+}
+
+interface TestErrataQueueProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onResolved?: () => void;
+}
+
+const REASON_LABELS: Record<ReportReason, string> = {
+    'wrong-key': 'Wrong key',
+    'wrong-question': 'Wrong question',
+    'ambiguous': 'Ambiguous',
+    'typo': 'Typo',
+    'other': 'Other',
+};
+
+const ACTION_LABELS: Record<ErrataAction, string> = {
+    'key-changed': 'Change the answer key',
+    'bonus': 'Award bonus marks to everyone',
+    'dropped': 'Drop the question from scoring',
+    'restored': 'Restore normal scoring',
+    'corrected': 'Accept (wording fixed in the editor)',
+    'rejected': 'Reject the reports',
+};
+
+// Questions whose key is a set of options; match keys are changed in the test editor
+const SINGLE_KEY_TYPES = ['mcq', 'true-false', 'assertion-reason'];
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const newResolution = (entry: ErrataEntry): Resolution => ({
+    action: 'key-changed',
+    correctAnswer: entry.correctAnswer,
+    correctAnswers: entry.correctAnswers,
+    numericAnswer: entry.numericAnswer !== undefined ? String(entry.numericAnswer) : '',
+    tolerance: String(entry.tolerance || 0),
+    adminNote: '',
+});
+
+const describeKey = (entry: ErrataEntry) => {
+    if (entry.type === 'numeric') return `${entry.numericAnswer ?? '-'}${entry.tolerance ? ` ±${entry.tolerance}` : ''}`;
+    if (entry.type === 'multiple') return entry.correctAnswers.map(optionLetter).join(', ') || '-';
+    if (entry.type === 'match') return 'See test editor';
+    return entry.correctAnswer !== undefined ? optionLetter(entry.correctAnswer) : '-';
+};
+
+export const TestErrataQueue: React.FC<TestErrataQueueProps> = ({ open, onOpenChange, onResolved }) => {
+    const [status, setStatus] = useState<ReportStatus>('open');
+    const [entries, setEntries] = useState<ErrataEntry[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+    const [resolution, setResolution] = useState<Resolution | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const fetchQueue = async () => {
+        setLoading(true);
+        try {
+            const response = await fetch(`/api/admin/tests/errata?status=${status}`);
+            const data = await response.json();
+
+            if (response.ok) {
+                setEntries(data.data);
+            } else {
+                alert(data.error || 'Failed to load reported questions');
+            }
+        } catch (error) {
+            console.error('Failed to load reported questions:', error);
+            alert('Failed to load reported questions');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!open) return;
+        setResolvingKey(null);
+        fetchQueue();
+    }, [open, status]);
+
+    const startResolving = (entry: ErrataEntry) => {
+        setResolvingKey(`${entry.testId}:${entry.questionId}`);
+        setResolution(newResolution(entry));
+    };
+
+    const toggleCorrectOption = (index: number) => {
+        if (!resolution) return;
+        const selected = resolution.correctAnswers.includes(index)
+            ? resolution.correctAnswers.filter(option => option !== index)
+            : [...resolution.correctAnswers, index].sort((a, b) => a - b);
+        setResolution({ ...resolution, correctAnswers: selected });
+    };
+
+    const submitResolution = async (entry: ErrataEntry) => {
+        if (!resolution) return;
+
+        const key = resolution.action !== 'key-changed'
+            ? {}
+            : entry.type === 'numeric'
+                ? { numericAnswer: parseFloat(resolution.numericAnswer), tolerance: parseFloat(resolution.tolerance) || 0 }
+                : entry.type === 'multiple'
+                    ? { correctAnswers: resolution.correctAnswers }
+                    : { correctAnswer: resolution.correctAnswer };
+
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/admin/tests/${entry.testId}/errata`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    questionId: entry.questionId,
+                    action: resolution.action,
+                    adminNote: resolution.adminNote,
+                    ...key,
+                }),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                if (data.data.testsRescored > 0) {
+                    alert(`Re-scoring submitted attempts in ${data.data.testsRescored} test(s). Scores and rankings update as it runs.`);
+                }
+                setResolvingKey(null);
+                await fetchQueue();
+                onResolved?.();
+            } else {
+                alert(data.error || 'Failed to resolve reports');
+            }
+        } catch (error) {
+            console.error('Failed to resolve reports:', error);
+            alert('Failed to resolve reports');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const renderKeyEditor = (entry: ErrataEntry, current: Resolution) => {
+        if (entry.type === 'match') {
+            return <p className="text-xs text-gray-500">Change match keys in the test editor; saving re-scores attempts.</p>;
+        }
+
+        if (entry.type === 'numeric') {
+            return (
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <Label className="text-xs">Correct answer</Label>
+                        <Input
+                            type="number"
+                            step="any"
+                            value={current.numericAnswer}
+                            onChange={(e) => setResolution({ ...current, numericAnswer: e.target.value })}
+                        />
+                    </div>
+                    <div>
+                        <Label className="text-xs">Tolerance</Label>
+                        <Input
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={current.tolerance}
+                            onChange={(e) => setResolution({ ...current, tolerance: e.target.value })}
+                        />
+                    </div>
+                </div>
+            );
+        }
+
+        return (
+            <div className="space-y-1">
+                {entry.options.map((option, index) => (
+                    <label key={index} className="flex items-start gap-2 text-sm">
+                        <input
+                            type={SINGLE_KEY_TYPES.includes(entry.type) ? 'radio' : 'checkbox'}
+                            name={`errata-key-${entry.questionId}`}
+                            className="mt-1"
+                            checked={SINGLE_KEY_TYPES.includes(entry.type)
+                                ? current.correctAnswer === index
+                                : current.correctAnswers.includes(index)}
+                            onChange={() => SINGLE_KEY_TYPES.includes(entry.type)
+                                ? setResolution({ ...current, correctAnswer: index })
+                                : toggleCorrectOption(index)}
+                        />
+                        <span><span className="font-semibold mr-1">{optionLetter(index)}.</span>{option}</span>
+                    </label>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Reported Questions</DialogTitle>
+                </DialogHeader>
+
+                <div className="flex gap-2">
+                    {(['open', 'accepted', 'rejected'] as ReportStatus[]).map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={status === option ? 'default' : 'outline'}
+                            onClick={() => setStatus(option)}
+                        >
+                            {option === 'open' ? 'Open' : option === 'accepted' ? 'Accepted' : 'Rejected'}
+                        </Button>
+                    ))}
+                </div>
+
+                {loading && <p className="text-sm text-gray-500 py-8 text-center">Loading reports...</p>}
+
+                {!loading && entries.length === 0 && (
+                    <p className="text-sm text-gray-500 py-8 text-center">No {status} reports.</p>
+                )}
+
+                {!loading && entries.length > 0 && (
+                    <div className="space-y-4">
+                        {entries.map(entry => {
+                            const entryKey = `${entry.testId}:${entry.questionId}`;
+                            const current = resolvingKey === entryKey ? resolution : null;
+
+                            return (
+                                <div key={entryKey} className="rounded-lg border p-4 space-y-3">
+                                    <div className="flex flex-wrap items-start justify-between gap-2">
+                                        <div>
+                                            <p className="text-xs text-gray-500">{entry.testTitle} · {entry.questionLabel}</p>
+                                            <p className="text-sm font-medium line-clamp-3">{entry.questionText}</p>
+                                        </div>
+                                        <div className="flex flex-wrap gap-1">
+                                            <Badge variant="outline">{entry.reportCount} report(s)</Badge>
+                                            {entry.resolution && (
+                                                <Badge className="bg-blue-100 text-blue-800">
+                                                    {entry.resolution === 'bonus' ? 'Bonus' : 'Dropped'}
+                                                </Badge>
+                                            )}
+                                            {entry.linkedToBank && <Badge variant="secondary">Question bank</Badge>}
+                                        </div>
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+                                        {(Object.keys(entry.reasons) as ReportReason[]).map(reason => (
+                                            <span key={reason}>{REASON_LABELS[reason]}: {entry.reasons[reason]}</span>
+                                        ))}
+                                        <span>· Current key: {describeKey(entry)}</span>
+                                    </div>
+
+                                    {entry.messages.length > 0 && (
+                                        <ul className="space-y-1 text-sm text-gray-700">
+                                            {entry.messages.map((message, index) => (
+                                                <li key={index} className="rounded bg-gray-50 px-2 py-1">
+                                                    <span className="text-xs text-gray-500 mr-2">{REASON_LABELS[message.reason]}</span>
+                                                    {message.message}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+
+                                    {status === 'open' && !current && (
+                                        <Button size="sm" onClick={() => startResolving(entry)}>
+                                            Resolve
+                                        </Button>
+                                    )}
+
+                                    {current && (
+                                        <div className="space-y-3 rounded-md bg-gray-50 p-3">
+                                            <Select
+                                                value={current.action}
+                                                onValueChange={(value) => setResolution({ ...current, action: value as ErrataAction })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {(Object.keys(ACTION_LABELS) as ErrataAction[]).map(action => (
+                                                        <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+
+                                            {current.action === 'key-changed' && renderKeyEditor(entry, current)}
+                                            {current.action === 'key-changed' && entry.linkedToBank && (
+                                                <p className="text-xs text-amber-700">
+                                                    This question comes from the question bank: every test using it is corrected and re-scored.
+                                                </p>
+                                            )}
+
+                                            <div>
+                                                <Label className="text-xs">Note to students (optional)</Label>
+                                                <Textarea
+                                                    rows={2}
+                                                    value={current.adminNote}
+                                                    onChange={(e) => setResolution({ ...current, adminNote: e.target.value })}
+                                                />
+                                            </div>
+
+                                            <div className="flex justify-end gap-2">
+                                                <Button size="sm" variant="outline" onClick={() => setResolvingKey(null)}>
+                                                    Cancel
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    disabled={saving || (current.action === 'key-changed' && entry.type === 'match')}
+                                                    onClick={() => submitResolution(entry)}
+                                                >
+                                                    {saving ? 'Saving...' : 'Apply'}
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TestErrataQueue;
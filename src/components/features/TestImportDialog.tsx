@@ -0,0 +1,275 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+
+type ImportFormat = 'csv' | 'json';
+
+interface ImportReport {
+    totalRows: number;
+    validRows: number;
+    errors: Array<{ row: number; errors: string[] }>;
+    sections: Array<{ title: string; questions: number }>;
+}
+
+interface TestImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    tests: Array<{ _id: string; title: string }>;
+    onImported: () => void;
+}
+
+const NEW_TEST = 'new';
+
+const SAMPLE_CSV = 'section,type,question,options,correct_answer,explanation,marks\nReasoning,mcq,"Which number comes next: 2, 4, 8, ?",12|14|16|18,C,Each term doubles,1';
+
+export const TestImportDialog: React.FC<TestImportDialogProps> = ({
+    open,
+    onOpenChange,
+    tests,
+    onImported
+}) => {
+    const [format, setFormat] = useState<ImportFormat>('csv');
+    const [content, setContent] = useState('');
+    const [fileName, setFileName] = useState('');
+    const [target, setTarget] = useState(NEW_TEST);
+    const [details, setDetails] = useState({ title: '', description: '', duration: 60, price: 0 });
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    const resetForm = () => {
+        setContent('');
+        setFileName('');
+        setTarget(NEW_TEST);
+        setDetails({ title: '', description: '', duration: 60, price: 0 });
+        setReport(null);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setFileName(file.name);
+        setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+        setReport(null);
+
+        const reader = new FileReader();
+        reader.onload = () => setContent(String(reader.result || ''));
+        reader.readAsText(file);
+    };
+
+    const submitImport = async (dryRun: boolean) => {
+        setSubmitting(true);
+        try {
+            const response = await fetch('/api/admin/tests/import', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    format,
+                    content,
+                    dryRun,
+                    ...(target === NEW_TEST ? details : { testId: target }),
+                }),
+            });
+
+            const data = await response.json();
+            if (data.report) setReport(data.report);
+
+            if (response.ok && !dryRun) {
+                alert(`Imported ${data.imported} question(s) into "${data.test.title}"`);
+                resetForm();
+                onOpenChange(false);
+                onImported();
+            } else if (!response.ok) {
+                alert(data.error || 'Failed to import questions');
+            }
+        } catch (error) {
+            console.error('Failed to import questions:', error);
+            alert('Failed to import questions');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const hasRowErrors = !!report && report.errors.length > 0;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Questions</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="grid grid-cols-3 gap-3">
+                        <div className="col-span-2">
+                            <Label htmlFor="importFile">CSV or JSON file</Label>
+                            <Input id="importFile" type="file" accept=".csv,.json" onChange={handleFileChange} />
+                        </div>
+                        <div>
+                            <Label>Format</Label>
+                            <Select value={format} onValueChange={(value) => { setFormat(value as ImportFormat); setReport(null); }}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="csv">CSV</SelectItem>
+                                    <SelectItem value="json">JSON</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label htmlFor="importContent">{fileName ? `Contents of ${fileName}` : 'Or paste the file contents'}</Label>
+                        <Textarea
+                            id="importContent"
+                            rows={6}
+                            className="font-mono text-xs"
+                            placeholder={SAMPLE_CSV}
+                            value={content}
+                            onChange={(e) => { setContent(e.target.value); setReport(null); }}
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                            Columns: section, type, question, options, correct_answer, explanation, marks, reason, match_items, tolerance.
+                            Separate options with &quot;|&quot; and give correct answers as option letters.
+                            Optional Hindi columns: question_hi, options_hi, explanation_hi, reason_hi, match_items_hi.
+                            Optional subject and topic columns tag questions for topic-wise performance.
+                        </p>
+                    </div>
+
+                    <div>
+                        <Label>Import into</Label>
+                        <Select value={target} onValueChange={setTarget}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NEW_TEST}>A new test</SelectItem>
+                                {tests.map(test => (
+                                    <SelectItem key={test._id} value={test._id}>{test.title}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {target !== NEW_TEST && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                Questions are appended to sections with the same title; other sections are added.
+                            </p>
+                        )}
+                    </div>
+
+                    {target === NEW_TEST && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="col-span-2">
+                                <Label htmlFor="importTitle">Title</Label>
+                                <Input
+                                    id="importTitle"
+                                    value={details.title}
+                                    onChange={(e) => setDetails({ ...details, title: e.target.value })}
+                                />
+                            </div>
+                            <div className="col-span-2">
+                                <Label htmlFor="importDescription">Description</Label>
+                                <Textarea
+                                    id="importDescription"
+                                    value={details.description}
+                                    onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="importDuration">Duration (minutes)</Label>
+                                <Input
+                                    id="importDuration"
+                                    type="number"
+                                    min="1"
+                                    value={details.duration}
+                                    onChange={(e) => setDetails({ ...details, duration: Number(e.target.value) })}
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="importPrice">Price (₹)</Label>
+                                <Input
+                                    id="importPrice"
+                                    type="number"
+                                    min="0"
+                                    value={details.price}
+                                    onChange={(e) => setDetails({ ...details, price: Number(e.target.value) })}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {report && (
+                        <div className="space-y-2 rounded-md border p-3 text-sm">
+                            <p className={`flex items-center gap-1 font-medium ${hasRowErrors ? 'text-red-700' : 'text-green-700'}`}>
+                                {hasRowErrors ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                                {report.validRows} of {report.totalRows} rows are valid
+                            </p>
+                            {report.sections.length > 0 && (
+                                <p className="text-gray-600">
+                                    {report.sections.map(section => `${section.title} (${section.questions})`).join(', ')}
+                                </p>
+                            )}
+                            {hasRowErrors && (
+                                <table className="w-full text-left">
+                                    <thead>
+                                        <tr className="border-b text-gray-500">
+                                            <th className="py-1 pr-4 w-16">Row</th>
+                                            <th className="py-1">Problems</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.errors.map(rowError => (
+                                            <tr key={rowError.row} className="border-b align-top">
+                                                <td className="py-1 pr-4">{rowError.row}</td>
+                                                <td className="py-1 text-red-700">{rowError.errors.join('; ')}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end space-x-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => {
+                                resetForm();
+                                onOpenChange(false);
+                            }}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            disabled={!content.trim() || submitting}
+                            onClick={() => submitImport(true)}
+                        >
+                            Validate
+                        </Button>
+                        <Button
+                            type="button"
+                            disabled={!content.trim() || submitting || hasRowErrors}
+                            onClick={() => submitImport(false)}
+                        >
+                            Import
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TestImportDialog;
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+
+type ItemFlag = 'too-easy' | 'too-hard' | 'low-discrimination' | 'negative-discrimination' | 'distractor-preferred';
+
+interface OptionStatistics {
+    index: number;
+    text: string;
+    isCorrect: boolean;
+    count: number;
+    share: number;
+    upperCount: number;
+    lowerCount: number;
+}
+
+interface ItemStatistics {
+    questionId: string;
+    sectionTitle: string;
+    number: number;
+    text: string;
+    candidates: number;
+    answered: number;
+    correct: number;
+    difficultyIndex: number;
+    discriminationIndex: number;
+    averageTime: number;
+    options: OptionStatistics[];
+    flags: ItemFlag[];
+}
+
+interface ItemAnalysis {
+    testTitle: string;
+    candidates: number;
+    groupSize: number;
+    items: ItemStatistics[];
+}
+
+interface TestItemAnalysisProps {
+    testId: string | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+const FLAG_LABELS: Record<ItemFlag, { label: string; className: string }> = {
+    'too-easy': { label: 'Too easy', className: 'bg-blue-100 text-blue-800' },
+    'too-hard': { label: 'Too hard', className: 'bg-orange-100 text-orange-800' },
+    'low-discrimination': { label: 'Low discrimination', className: 'bg-yellow-100 text-yellow-800' },
+    'negative-discrimination': { label: 'Negative discrimination', className: 'bg-red-100 text-red-800' },
+    'distractor-preferred': { label: 'Toppers chose a distractor', className: 'bg-red-100 text-red-800' },
+};
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const formatIndex = (value: number) => value.toFixed(2);
+
+export const TestItemAnalysis: React.FC<TestItemAnalysisProps> = ({ testId, onOpenChange }) => {
+    const [analysis, setAnalysis] = useState<ItemAnalysis | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!testId) return;
+
+        const fetchAnalysis = async () => {
+            setLoading(true);
+            setAnalysis(null);
+            setExpandedId(null);
+            try {
+                const response = await fetch(`/api/admin/tests/${testId}/item-analysis`);
+                const data = await response.json();
+
+                if (response.ok) {
+                    setAnalysis(data.data);
+                } else {
+                    alert(data.error || 'Failed to load item analysis');
+                }
+            } catch (error) {
+                console.error('Failed to load item analysis:', error);
+                alert('Failed to load item analysis');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchAnalysis();
+    }, [testId]);
+
+    const flaggedCount = analysis?.items.filter(item => item.flags.length > 0).length || 0;
+    const items = (analysis?.items || []).filter(item => !flaggedOnly || item.flags.length > 0);
+
+    return (
+        <Dialog open={testId !== null} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Item Analysis{analysis ? `: ${analysis.testTitle}` : ''}</DialogTitle>
+                </DialogHeader>
+
+                {loading && <p className="text-sm text-gray-500 py-8 text-center">Analysing attempts...</p>}
+
+                {analysis && analysis.candidates === 0 && (
+                    <p className="text-sm text-gray-500 py-8 text-center">No completed attempts yet.</p>
+                )}
+
+                {analysis && analysis.candidates > 0 && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                            <p className="text-gray-600">
+                                {analysis.candidates} candidate{analysis.candidates === 1 ? '' : 's'} (first attempts),
+                                upper and lower groups of {analysis.groupSize}
+                            </p>
+                            <div className="flex items-center gap-2">
+                                {flaggedCount > 0 && (
+                                    <span className="flex items-center gap-1 text-red-700">
+                                        <AlertTriangle className="h-4 w-4" />
+                                        {flaggedCount} flagged
+                                    </span>
+                                )}
+                                <Button
+                                    size="sm"
+                                    variant={flaggedOnly ? 'default' : 'outline'}
+                                    onClick={() => setFlaggedOnly(!flaggedOnly)}
+                                >
+                                    Flagged only
+                                </Button>
+                            </div>
+                        </div>
+
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b text-gray-500">
+                                    <th className="py-2 pr-2 w-6"></th>
+                                    <th className="py-2 pr-4">Q</th>
+                                    <th className="py-2 pr-4">Question</th>
+                                    <th className="py-2 pr-4" title="Share of candidates answering correctly">Difficulty</th>
+                                    <th className="py-2 pr-4" title="Upper group minus lower group difficulty">Discrimination</th>
+                                    <th className="py-2 pr-4">Avg time</th>
+                                    <th className="py-2">Flags</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {items.map(item => (
+                                    <React.Fragment key={item.questionId}>
+                                        <tr
+                                            className="border-b align-top cursor-pointer hover:bg-gray-50"
+                                            onClick={() => setExpandedId(expandedId === item.questionId ? null : item.questionId)}
+                                        >
+                                            <td className="py-2 pr-2">
+                                                {item.options.length > 0 && (expandedId === item.questionId
+                                                    ? <ChevronDown className="h-4 w-4" />
+                                                    : <ChevronRight className="h-4 w-4" />)}
+                                            </td>
+                                            <td className="py-2 pr-4">{item.number}</td>
+                                            <td className="py-2 pr-4">
+                                                <p className="line-clamp-2">{item.text}</p>
+                                                <p className="text-xs text-gray-500">{item.sectionTitle} · {item.answered} answered</p>
+                                            </td>
+                                            <td className="py-2 pr-4">{Math.round(item.difficultyIndex * 100)}%</td>
+                                            <td className={`py-2 pr-4 ${item.discriminationIndex < 0 ? 'text-red-700' : ''}`}>
+                                                {formatIndex(item.discriminationIndex)}
+                                            </td>
+                                            <td className="py-2 pr-4">{item.averageTime}s</td>
+                                            <td className="py-2">
+                                                <div className="flex flex-wrap gap-1">
+                                                    {item.flags.map(flag => (
+                                                        <Badge key={flag} className={FLAG_LABELS[flag].className}>
+                                                            {FLAG_LABELS[flag].label}
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                        {expandedId === item.questionId && item.options.length > 0 && (
+                                            <tr className="border-b bg-gray-50">
+                                                <td></td>
+                                                <td colSpan={6} className="py-2">
+                                                    <table className="w-full text-xs">
+                                                        <thead>
+                                                            <tr className="text-gray-500">
+                                                                <th className="py-1 pr-4 text-left">Option</th>
+                                                                <th className="py-1 pr-4 text-left w-1/3">Chosen by</th>
+                                                                <th className="py-1 pr-4 text-left">Upper group</th>
+                                                                <th className="py-1 text-left">Lower group</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {item.options.map(option => (
+                                                                <tr key={option.index} className={option.isCorrect ? 'text-green-700 font-medium' : ''}>
+                                                                    <td className="py-1 pr-4">
+                                                                        {optionLetter(option.index)}. {option.text}
+                                                                        {option.isCorrect && ' (key)'}
+                                                                    </td>
+                                                                    <td className="py-1 pr-4">
+                                                                        <div className="flex items-center gap-2">
+                                                                            <div className="h-2 flex-1 rounded bg-gray-200">
+                                                                                <div
+                                                                                    className={`h-2 rounded ${option.isCorrect ? 'bg-green-500' : 'bg-gray-500'}`}
+                                                                                    style={{ width: `${Math.round(option.share * 100)}%` }}
+                                                                                />
+                                                                            </div>
+                                                                            <span>{option.count} ({Math.round(option.share * 100)}%)</span>
+                                                                        </div>
+                                                                    </td>
+                                                                    <td className="py-1 pr-4">{option.upperCount}</td>
+                                                                    <td className="py-1">{option.lowerCount}</td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TestItemAnalysis;
@@ -16,8 +16,21 @@ interface LeaderboardEntry {
     timeSpent: number;
 }
 
+interface SectionToppers {
+    sectionId: string;
+    sectionTitle: string;
+    toppers: Array<{
+        rank: number;
+        userId: string;
+        userName: string;
+        score: number;
+        totalMarks: number;
+    }>;
+}
+
 interface TestLeaderboardProps {
     entries: LeaderboardEntry[];
+    sectionToppers?: SectionToppers[];
     currentUserId?: string;
     testTitle: string;
     className?: string;
@@ -25,6 +38,7 @@ interface TestLeaderboardProps {
 
 export const TestLeaderboard: React.FC<TestLeaderboardProps> = ({
     entries,
+    sectionToppers = [],
     currentUserId,
     testTitle,
     className = ''
@@ -170,6 +184,30 @@ export const TestLeaderboard: React.FC<TestLeaderboardProps> = ({
                     </div>
                 )}
 
+                {sectionToppers.some(section => section.toppers.length > 0) && (
+                    <div className="mt-6 pt-4 border-t border-gray-200">
+                        <h4 className="font-semibold text-gray-900 mb-3">Section Toppers</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {sectionToppers.map(section => (
+                                <div key={section.sectionId} className="rounded-lg border border-gray-200 p-3">
+                                    <div className="text-sm font-medium text-gray-700 mb-2">{section.sectionTitle}</div>
+                                    <ul className="space-y-1 text-sm">
+                                        {section.toppers.map(topper => (
+                                            <li
+                                                key={topper.userId}
+                                                className={`flex justify-between ${topper.userId === currentUserId ? 'font-semibold text-blue-900' : 'text-gray-700'}`}
+                                            >
+                                                <span>#{topper.rank} {topper.userName}</span>
+                                                <span>{topper.score}/{topper.totalMarks}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {entries.length > 0 && (
                     <div className="mt-6 pt-4 border-t border-gray-200">
                         <div className="grid grid-cols-3 gap-4 text-center text-sm">
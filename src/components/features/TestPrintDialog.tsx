@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, KeyRound, BookOpen } from 'lucide-react';
+
+type PaperSet = 'A' | 'B' | 'C' | 'D';
+
+const PAPER_SETS: PaperSet[] = ['A', 'B', 'C', 'D'];
+
+const DOCUMENTS = [
+    { document: 'paper', label: 'Question paper', icon: FileText },
+    { document: 'answer-key', label: 'Answer key', icon: KeyRound },
+    { document: 'solutions', label: 'Solution booklet', icon: BookOpen },
+];
+
+interface TestPrintDialogProps {
+    testId: string | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const TestPrintDialog: React.FC<TestPrintDialogProps> = ({ testId, onOpenChange }) => {
+    const [set, setSet] = useState<PaperSet>('A');
+    const [bilingual, setBilingual] = useState(false);
+
+    const printUrl = (document: string) =>
+        `/api/admin/tests/${testId}/print?document=${document}&set=${set}${bilingual ? '&bilingual=true' : ''}`;
+
+    return (
+        <Dialog open={!!testId} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Print for classroom</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div>
+                        <Label>Set</Label>
+                        <Select value={set} onValueChange={(value) => setSet(value as PaperSet)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PAPER_SETS.map(paperSet => (
+                                    <SelectItem key={paperSet} value={paperSet}>
+                                        Set {paperSet}{paperSet === 'A' ? ' (original order)' : ' (shuffled)'}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500 mt-1">
+                            Each set always prints in the same order, so its answer key matches its paper
+                        </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            id="printBilingual"
+                            checked={bilingual}
+                            onChange={(e) => setBilingual(e.target.checked)}
+                        />
+                        <Label htmlFor="printBilingual">Include Hindi wording where available</Label>
+                    </div>
+                    <div className="grid grid-cols-1 gap-2">
+                        {DOCUMENTS.map(({ document, label, icon: Icon }) => (
+                            <Button key={document} variant="outline" asChild>
+                                <a href={printUrl(document)} target="_blank" rel="noopener noreferrer">
+                                    <Icon className="h-4 w-4 mr-2" />
+                                    {label}
+                                </a>
+                            </Button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Documents open in a new tab; use Print to print them or save them as PDF.
+                    </p>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TestPrintDialog;
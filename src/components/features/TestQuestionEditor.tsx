@@ -0,0 +1,544 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RichContent } from '@/components/ui/rich-content';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Eye, Edit } from 'lucide-react';
+import { QuestionType } from '@/lib/utils/test-scoring';
+import { QUESTION_TYPE_LABELS, TRUE_FALSE_OPTIONS, ASSERTION_REASON_OPTIONS } from '@/lib/utils/test-utils';
+
+// Hindi wording; options and match items line up with the English ones (blank entries fall back to English)
+export interface EditableTranslation {
+    text: string;
+    options: string[];
+    matchItems: string[];
+    reason?: string;
+    explanation?: string;
+}
+
+export interface EditableQuestion {
+    _id?: string;
+    type?: QuestionType;
+    text: string;
+    options: string[];
+    correctAnswer?: number;
+    correctAnswers?: number[];
+    numericAnswer?: number;
+    tolerance?: number;
+    matchItems?: string[];
+    correctMatches?: number[];
+    reason?: string;
+    explanation?: string;
+    hindi?: EditableTranslation;
+    marks: number;
+    subject?: string; // topic tags for the students' topic-wise performance
+    topic?: string;
+    resolution?: 'bonus' | 'dropped'; // set through the reported questions queue
+    bankQuestionId?: string; // set when the question is linked to the question bank
+}
+
+export const RESOLUTION_LABELS: Record<NonNullable<EditableQuestion['resolution']>, string> = {
+    bonus: 'Bonus',
+    dropped: 'Dropped',
+};
+
+interface TestQuestionEditorProps {
+    question: EditableQuestion;
+    label: string;
+    onChange: (question: EditableQuestion) => void;
+    onRemove?: () => void;
+}
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const CONTENT_HINT = 'Supports images ![alt](https://...), tables (| cell | cell |) and math ($x^2$, $$\\frac{a}{b}$$)';
+
+// Pads or trims translated entries to one per English entry
+const alignTranslated = (translated: string[], original: string[] = []) =>
+    original.map((_, index) => translated[index] || '');
+
+// Index of an option after the option at `removed` is deleted (-1 when it was the removed one)
+const shiftIndex = (index: number, removed: number) => (index === removed ? -1 : index > removed ? index - 1 : index);
+
+const isCorrectOption = (question: EditableQuestion, index: number) =>
+    question.type === 'multiple' ? !!question.correctAnswers?.includes(index) : question.correctAnswer === index;
+
+/**
+ * Renders a question as students will see it, with the answer key highlighted
+ */
+const QuestionPreview: React.FC<{ question: EditableQuestion; wording: EditableQuestion | EditableTranslation }> = ({
+    question,
+    wording
+}) => {
+    const type = question.type || 'mcq';
+    const options = wording.options?.length ? wording.options : question.options;
+    const matchItems = wording.matchItems?.length ? wording.matchItems : question.matchItems || [];
+
+    return (
+        <div className="space-y-3 text-sm">
+            {type === 'assertion-reason' ? (
+                <div className="space-y-1">
+                    <div><span className="font-semibold">Assertion (A):</span> <RichContent inline content={wording.text} /></div>
+                    <div><span className="font-semibold">Reason (R):</span> <RichContent inline content={wording.reason || question.reason} /></div>
+                </div>
+            ) : (
+                <RichContent content={wording.text} />
+            )}
+
+            {type === 'numeric' ? (
+                <p className="text-green-700">
+                    Answer: {question.numericAnswer ?? '-'}
+                    {!!question.tolerance && ` ±${question.tolerance}`}
+                </p>
+            ) : (
+                <ul className="space-y-1">
+                    {options.map((option, index) => (
+                        <li
+                            key={index}
+                            className={`rounded border p-2 ${type !== 'match' && isCorrectOption(question, index) ? 'border-green-300 bg-green-50' : ''}`}
+                        >
+                            <span className="font-semibold mr-2">{optionLetter(index)}.</span>
+                            <RichContent inline content={option || question.options[index]} />
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {type === 'match' && (
+                <ol className="space-y-1 list-decimal list-inside">
+                    {matchItems.map((item, index) => (
+                        <li key={index}>
+                            <RichContent inline content={item || question.matchItems?.[index]} />
+                            <span className="ml-2 text-green-700">→ {optionLetter(question.correctMatches?.[index] ?? 0)}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {(wording.explanation || question.explanation) && (
+                <div className="rounded border border-blue-200 bg-blue-50 p-2">
+                    <RichContent content={wording.explanation || question.explanation} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Returns the question reshaped for a new type, keeping what still applies
+ */
+export const convertQuestionType = (question: EditableQuestion, type: QuestionType): EditableQuestion => {
+    const options = question.options.length >= 2 ? question.options : ['', '', '', ''];
+    const base = {
+        _id: question._id,
+        type,
+        text: question.text,
+        explanation: question.explanation,
+        // Options and items are reshaped per type, so their translations start over
+        hindi: question.hindi && { text: question.hindi.text, explanation: question.hindi.explanation, options: [], matchItems: [] },
+        marks: question.marks,
+        subject: question.subject,
+        topic: question.topic,
+        resolution: question.resolution,
+        bankQuestionId: question.bankQuestionId,
+    };
+
+    switch (type) {
+        case 'true-false':
+            return { ...base, options: [...TRUE_FALSE_OPTIONS], correctAnswer: 0 };
+        case 'assertion-reason':
+            return {
+                ...base,
+                options: [...ASSERTION_REASON_OPTIONS],
+                correctAnswer: 0,
+                reason: question.reason || '',
+                hindi: base.hindi && { ...base.hindi, reason: question.hindi?.reason || '' },
+            };
+        case 'numeric':
+            return { ...base, options: [], numericAnswer: question.numericAnswer, tolerance: question.tolerance || 0 };
+        case 'multiple':
+            return { ...base, options, correctAnswers: question.correctAnswers || [] };
+        case 'match': {
+            const matchItems = question.matchItems?.length ? question.matchItems : ['', ''];
+            return {
+                ...base,
+                options,
+                matchItems,
+                correctMatches: matchItems.map((_, index) => question.correctMatches?.[index] ?? Math.min(index, options.length - 1)),
+            };
+        }
+        default:
+            return { ...base, options, correctAnswer: question.correctAnswer ?? 0 };
+    }
+};
+
+export const TestQuestionEditor: React.FC<TestQuestionEditorProps> = ({
+    question,
+    label,
+    onChange,
+    onRemove
+}) => {
+    const [isPreview, setIsPreview] = useState(false);
+    const type = question.type || 'mcq';
+    const hasFixedOptions = type === 'true-false' || type === 'assertion-reason';
+
+    const update = (changes: Partial<EditableQuestion>) => onChange({ ...question, ...changes });
+
+    const updateHindi = (changes: Partial<EditableTranslation>) => {
+        if (question.hindi) update({ hindi: { ...question.hindi, ...changes } });
+    };
+
+    const toggleHindi = (enabled: boolean) => update({
+        hindi: enabled
+            ? { text: '', options: [], matchItems: [], reason: type === 'assertion-reason' ? '' : undefined, explanation: '' }
+            : undefined,
+    });
+
+    const updateHindiEntry = (field: 'options' | 'matchItems', index: number, value: string) => {
+        if (!question.hindi) return;
+        const entries = alignTranslated(question.hindi[field], question[field]);
+        entries[index] = value;
+        updateHindi({ [field]: entries });
+    };
+
+    const updateOption = (index: number, value: string) => {
+        update({ options: question.options.map((option, i) => (i === index ? value : option)) });
+    };
+
+    const addOption = () => update({
+        options: [...question.options, ''],
+        hindi: question.hindi && {
+            ...question.hindi,
+            options: question.hindi.options.length ? [...alignTranslated(question.hindi.options, question.options), ''] : [],
+        },
+    });
+
+    const removeOption = (index: number) => {
+        const correctAnswer = shiftIndex(question.correctAnswer ?? 0, index);
+        update({
+            options: question.options.filter((_, i) => i !== index),
+            correctAnswer: correctAnswer < 0 ? 0 : correctAnswer,
+            correctAnswers: (question.correctAnswers || [])
+                .map(option => shiftIndex(option, index))
+                .filter(option => option >= 0),
+            correctMatches: (question.correctMatches || []).map(option => Math.max(shiftIndex(option, index), 0)),
+            hindi: question.hindi && { ...question.hindi, options: question.hindi.options.filter((_, i) => i !== index) },
+        });
+    };
+
+    const toggleCorrectOption = (index: number) => {
+        const correctAnswers = question.correctAnswers || [];
+        update({
+            correctAnswers: correctAnswers.includes(index)
+                ? correctAnswers.filter(option => option !== index)
+                : [...correctAnswers, index].sort((a, b) => a - b),
+        });
+    };
+
+    const updateMatchItem = (index: number, changes: { text?: string; match?: number }) => {
+        update({
+            matchItems: (question.matchItems || []).map((item, i) => (i === index && changes.text !== undefined ? changes.text : item)),
+            correctMatches: (question.correctMatches || []).map((match, i) => (i === index && changes.match !== undefined ? changes.match : match)),
+        });
+    };
+
+    const addMatchItem = () => update({
+        matchItems: [...(question.matchItems || []), ''],
+        correctMatches: [...(question.correctMatches || []), 0],
+        hindi: question.hindi && {
+            ...question.hindi,
+            matchItems: question.hindi.matchItems.length
+                ? [...alignTranslated(question.hindi.matchItems, question.matchItems), '']
+                : [],
+        },
+    });
+
+    const removeMatchItem = (index: number) => update({
+        matchItems: (question.matchItems || []).filter((_, i) => i !== index),
+        correctMatches: (question.correctMatches || []).filter((_, i) => i !== index),
+        hindi: question.hindi && { ...question.hindi, matchItems: question.hindi.matchItems.filter((_, i) => i !== index) },
+    });
+
+    return (
+        <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">
+                    {label}
+                    {question.resolution && (
+                        <Badge variant="secondary" className="ml-2">{RESOLUTION_LABELS[question.resolution]}</Badge>
+                    )}
+                </span>
+                <div className="flex items-center gap-2">
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        title={isPreview ? 'Edit' : 'Preview'}
+                        onClick={() => setIsPreview(!isPreview)}
+                    >
+                        {isPreview ? <Edit className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                    <Select value={type} onValueChange={(value) => onChange(convertQuestionType(question, value as QuestionType))}>
+                        <SelectTrigger className="w-48 h-8">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(questionType => (
+                                <SelectItem key={questionType} value={questionType}>
+                                    {QUESTION_TYPE_LABELS[questionType]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {onRemove && (
+                        <Button type="button" size="sm" variant="outline" onClick={onRemove}>
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {isPreview ? (
+                <div className="space-y-3">
+                    <QuestionPreview question={question} wording={question} />
+                    {question.hindi && (
+                        <div className="border-t pt-3">
+                            <p className="mb-2 text-xs font-medium text-gray-500">Hindi</p>
+                            <QuestionPreview question={question} wording={question.hindi} />
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <>
+                    <div>
+                        <Label>{type === 'assertion-reason' ? 'Assertion (A)' : 'Question'}</Label>
+                        <Textarea value={question.text} onChange={(e) => update({ text: e.target.value })} />
+                        <p className="text-xs text-gray-500 mt-1">{CONTENT_HINT}</p>
+                    </div>
+
+                    {type === 'assertion-reason' && (
+                        <div>
+                            <Label>Reason (R)</Label>
+                            <Textarea value={question.reason || ''} onChange={(e) => update({ reason: e.target.value })} />
+                        </div>
+                    )}
+
+                    {type === 'numeric' ? (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <Label>Correct answer</Label>
+                                <Input
+                                    type="number"
+                                    step="any"
+                                    value={question.numericAnswer ?? ''}
+                                    onChange={(e) => update({ numericAnswer: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                />
+                            </div>
+                            <div>
+                                <Label>Tolerance (±)</Label>
+                                <Input
+                                    type="number"
+                                    step="any"
+                                    min="0"
+                                    value={question.tolerance ?? 0}
+                                    onChange={(e) => update({ tolerance: Number(e.target.value) })}
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <Label>
+                                {type === 'match' ? 'Column B options' : type === 'multiple' ? 'Options (tick every correct one)' : 'Options (select the correct one)'}
+                            </Label>
+                            {question.options.map((option, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    {type === 'multiple' ? (
+                                        <input
+                                            type="checkbox"
+                                            checked={(question.correctAnswers || []).includes(index)}
+                                            onChange={() => toggleCorrectOption(index)}
+                                        />
+                                    ) : type !== 'match' && (
+                                        <input
+                                            type="radio"
+                                            checked={question.correctAnswer === index}
+                                            onChange={() => update({ correctAnswer: index })}
+                                        />
+                                    )}
+                                    <span className="w-4 text-sm text-gray-500">{optionLetter(index)}</span>
+                                    <Input
+                                        className="h-8"
+                                        value={option}
+                                        onChange={(e) => updateOption(index, e.target.value)}
+                                    />
+                                    {!hasFixedOptions && question.options.length > 2 && (
+                                        <Button type="button" size="sm" variant="ghost" onClick={() => removeOption(index)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                            {!hasFixedOptions && (
+                                <Button type="button" size="sm" variant="outline" onClick={addOption}>
+                                    <Plus className="h-4 w-4 mr-1" />
+                                    Add option
+                                </Button>
+                            )}
+                        </div>
+                    )}
+
+                    {type === 'match' && (
+                        <div className="space-y-2">
+                            <Label>Column A items and their matching option</Label>
+                            {(question.matchItems || []).map((item, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <span className="w-4 text-sm text-gray-500">{index + 1}</span>
+                                    <Input
+                                        className="h-8"
+                                        value={item}
+                                        onChange={(e) => updateMatchItem(index, { text: e.target.value })}
+                                    />
+                                    <Select
+                                        value={String(question.correctMatches?.[index] ?? 0)}
+                                        onValueChange={(value) => updateMatchItem(index, { match: Number(value) })}
+                                    >
+                                        <SelectTrigger className="w-20 h-8">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {question.options.map((_, optionIndex) => (
+                                                <SelectItem key={optionIndex} value={String(optionIndex)}>
+                                                    {optionLetter(optionIndex)}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {(question.matchItems || []).length > 2 && (
+                                        <Button type="button" size="sm" variant="ghost" onClick={() => removeMatchItem(index)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                            <Button type="button" size="sm" variant="outline" onClick={addMatchItem}>
+                                <Plus className="h-4 w-4 mr-1" />
+                                Add item
+                            </Button>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label>Marks</Label>
+                            <Input
+                                type="number"
+                                min="0"
+                                step="0.25"
+                                value={question.marks}
+                                onChange={(e) => update({ marks: Number(e.target.value) })}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <Label>Subject</Label>
+                            <Input
+                                value={question.subject || ''}
+                                placeholder="e.g. Quantitative Aptitude"
+                                onChange={(e) => update({ subject: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <Label>Topic</Label>
+                            <Input
+                                value={question.topic || ''}
+                                placeholder="e.g. Percentages"
+                                onChange={(e) => update({ topic: e.target.value })}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label>Explanation</Label>
+                        <Textarea value={question.explanation || ''} onChange={(e) => update({ explanation: e.target.value })} />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                        <input
+                            type="checkbox"
+                            checked={!!question.hindi}
+                            onChange={(e) => toggleHindi(e.target.checked)}
+                        />
+                        <Label>Hindi version</Label>
+                    </div>
+
+                    {question.hindi && (
+                        <div className="space-y-3 rounded-md border border-dashed p-3">
+                            <div>
+                                <Label>{type === 'assertion-reason' ? 'Assertion (A) in Hindi' : 'Question in Hindi'}</Label>
+                                <Textarea value={question.hindi.text} onChange={(e) => updateHindi({ text: e.target.value })} />
+                            </div>
+
+                            {type === 'assertion-reason' && (
+                                <div>
+                                    <Label>Reason (R) in Hindi</Label>
+                                    <Textarea value={question.hindi.reason || ''} onChange={(e) => updateHindi({ reason: e.target.value })} />
+                                </div>
+                            )}
+
+                            {type !== 'numeric' && (
+                                <div className="space-y-2">
+                                    <Label>{type === 'match' ? 'Column B options in Hindi' : 'Options in Hindi'} (blank uses the English text)</Label>
+                                    {question.options.map((option, index) => (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <span className="w-4 text-sm text-gray-500">{optionLetter(index)}</span>
+                                            <Input
+                                                className="h-8"
+                                                placeholder={option}
+                                                value={question.hindi?.options[index] || ''}
+                                                onChange={(e) => updateHindiEntry('options', index, e.target.value)}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {type === 'match' && (
+                                <div className="space-y-2">
+                                    <Label>Column A items in Hindi (blank uses the English text)</Label>
+                                    {(question.matchItems || []).map((item, index) => (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <span className="w-4 text-sm text-gray-500">{index + 1}</span>
+                                            <Input
+                                                className="h-8"
+                                                placeholder={item}
+                                                value={question.hindi?.matchItems[index] || ''}
+                                                onChange={(e) => updateHindiEntry('matchItems', index, e.target.value)}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div>
+                                <Label>Explanation in Hindi</Label>
+                                <Textarea
+                                    value={question.hindi.explanation || ''}
+                                    onChange={(e) => updateHindi({ explanation: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TestQuestionEditor;
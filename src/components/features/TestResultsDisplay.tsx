@@ -13,8 +13,12 @@ import {
     CheckCircle,
     XCircle,
     BarChart3,
-    Users
+    Users,
+    Timer,
+    Flag
 } from 'lucide-react';
+import { CATEGORY_LABELS } from './ProfileManagement';
+import type { MarkingScheme, QuestionType } from '@/lib/utils/test-scoring';
 
 interface SectionScore {
     sectionId: string;
@@ -23,7 +27,12 @@ interface SectionScore {
     totalMarks: number;
     percentage: number;
     correctAnswers: number;
+    partiallyCorrect?: number;
+    wrongAnswers?: number;
+    unanswered?: number;
+    negativeMarks?: number;
     totalQuestions: number;
+    markingScheme?: MarkingScheme;
 }
 
 interface Analytics {
@@ -34,6 +43,57 @@ interface Analytics {
     improvements: string[];
 }
 
+type AnswerOutcome = 'correct' | 'partial' | 'wrong' | 'unanswered';
+
+// Times are in seconds
+interface SectionTimeAnalysis {
+    sectionId: string;
+    sectionTitle: string;
+    timeSpent: number;
+    attempted: number;
+    averagePerAttempted: number;
+    timeOnWrong: number;
+}
+
+interface QuestionTimeEntry {
+    questionId: string;
+    sectionTitle: string;
+    timeSpent: number;
+    visits: number;
+    outcome?: AnswerOutcome; // withheld while solutions are locked
+}
+
+interface TimeAnalysis {
+    trackedTime: number;
+    targetPerQuestion: number;
+    timeOnCorrect: number;
+    timeOnPartial: number;
+    timeOnWrong: number;
+    timeOnUnanswered: number;
+    averagePerAttempted: number;
+    sections: SectionTimeAnalysis[];
+    abandoned: QuestionTimeEntry[];
+    slowest: QuestionTimeEntry[];
+}
+
+interface CutoffCheck {
+    cutoff: number;
+    score: number;
+    maxMarks: number;
+    qualified: boolean;
+    shortBy: number;
+    safeScore: number | null; // projected from the cohort, null while too few candidates
+}
+
+interface QualificationVerdict {
+    category: keyof typeof CATEGORY_LABELS;
+    cutoffCategory: keyof typeof CATEGORY_LABELS; // general when the student's category has no cutoffs of its own
+    qualified: boolean;
+    overall: CutoffCheck | null;
+    sections: Array<CutoffCheck & { sectionId: string; sectionTitle: string }>;
+    cohortSize: number;
+}
+
 interface TestResult {
     attemptId: string;
     score: number;
@@ -41,26 +101,112 @@ interface TestResult {
     percentage: number;
     timeSpent: number;
     completedAt: string;
+    autoSubmitReason?: 'time' | 'violations';
+    proctoringViolations?: number;
+    revisions?: Array<{
+        previousScore: number;
+        previousTotalMarks: number;
+        score: number;
+        totalMarks: number;
+        reason: string;
+        revisedAt: string;
+    }>;
     sectionWiseScores: SectionScore[];
     analytics: Analytics;
+    timeAnalysis?: TimeAnalysis | null;
+    qualification?: QualificationVerdict | null;
 }
 
 interface Ranking {
     rank: number;
     totalAttempts: number;
     percentile: number;
+    counted?: boolean; // false for retakes that do not count on the leaderboard
+}
+
+// Options are listed in the order the student saw them during the attempt
+interface QuestionReview {
+    questionId: string;
+    type?: QuestionType;
+    text: string;
+    options: string[];
+    selectedOption: number;
+    selectedOptions?: number[];
+    numericAnswer?: number;
+    matches?: number[];
+    correctOption: number;
+    correctOptions?: number[];
+    correctNumericAnswer?: number;
+    tolerance?: number;
+    correctMatches?: number[];
+    isCorrect: boolean;
+    marksAwarded: number;
+    timeSpent?: number; // seconds
+    visits?: number;
+    explanation?: string;
+}
+
+interface SectionReview {
+    sectionId: string;
+    sectionTitle: string;
+    questions: QuestionReview[];
 }
 
 interface TestResultsDisplayProps {
     result: TestResult;
     ranking?: Ranking;
+    review?: SectionReview[];
     testTitle: string;
     className?: string;
 }
 
+const optionLetter = (index: number) => (index >= 0 ? String.fromCharCode(65 + index) : '-');
+
+const formatOptions = (options?: number[]) => (options && options.length > 0 ? options.map(optionLetter).join('') : '-');
+
+const formatMatches = (matches?: number[]) =>
+    matches && matches.some(match => match >= 0)
+        ? matches.map((match, item) => `${item + 1}${optionLetter(match)}`).join(' ')
+        : '-';
+
+const isUnanswered = (question: QuestionReview) =>
+    question.selectedOption < 0 &&
+    !question.selectedOptions?.length &&
+    question.numericAnswer === undefined &&
+    !question.matches?.some(match => match >= 0);
+
+const formatSeconds = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
+};
+
+const OUTCOME_STYLES: Record<AnswerOutcome, { label: string; className: string }> = {
+    correct: { label: 'Correct', className: 'text-green-600' },
+    partial: { label: 'Partial', className: 'text-amber-600' },
+    wrong: { label: 'Wrong', className: 'text-red-600' },
+    unanswered: { label: 'Skipped', className: 'text-gray-500' },
+};
+
+// "your answer / correct answer" for each question type
+const formatReviewAnswer = (question: QuestionReview) => {
+    switch (question.type) {
+        case 'multiple':
+            return `${formatOptions(question.selectedOptions)} / ${formatOptions(question.correctOptions)}`;
+        case 'numeric':
+            return `${question.numericAnswer ?? '-'} / ${question.correctNumericAnswer ?? '-'}${question.tolerance ? ` ±${question.tolerance}` : ''}`;
+        case 'match':
+            return `${formatMatches(question.matches)} / ${formatMatches(question.correctMatches)}`;
+        default:
+            return `${optionLetter(question.selectedOption)} / ${optionLetter(question.correctOption)}`;
+    }
+};
+
 export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
     result,
     ranking,
+    review,
     testTitle,
     className = ''
 }) => {
@@ -106,6 +252,35 @@ export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
         }
     };
 
+    const describeMarkingScheme = (scheme?: MarkingScheme) => {
+        if (!scheme) return null;
+        const parts = [
+            scheme.positiveMarks !== undefined ? `+${scheme.positiveMarks} per correct` : 'Question marks per correct',
+            scheme.negativeFraction > 0 ? `-${scheme.negativeFraction} × marks per wrong` : 'no negative marking',
+        ];
+        if (scheme.unansweredMarks !== 0) {
+            parts.push(`${scheme.unansweredMarks} per skipped`);
+        }
+        if (scheme.allowPartialCredit) {
+            parts.push('partial credit');
+        }
+        return parts.join(', ');
+    };
+
+    const qualification = result.qualification;
+    const timeAnalysis = result.timeAnalysis && result.timeAnalysis.trackedTime > 0 ? result.timeAnalysis : null;
+
+    // Question numbers follow the order the student saw, when the answer sheet is available
+    const questionLabels = new Map<string, string>();
+    review?.forEach(section => section.questions.forEach((question, index) => {
+        questionLabels.set(question.questionId, `Q${index + 1}`);
+    }));
+
+    const describeQuestion = (entry: QuestionTimeEntry) =>
+        `${questionLabels.get(entry.questionId) || 'Question'} · ${entry.sectionTitle}`;
+
+    const totalNegativeMarks = result.sectionWiseScores.reduce((sum, section) => sum + (section.negativeMarks || 0), 0);
+
     const formatTime = (minutes: number) => {
         if (minutes < 60) {
             return `${minutes} min`;
@@ -139,7 +314,24 @@ export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
                                 Grade {result.analytics.grade}
                             </Badge>
                         </div>
+                        {qualification && (
+                            <div className="text-center">
+                                <Badge className={`text-lg px-4 py-2 ${qualification.qualified ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                                    {qualification.qualified ? 'Qualified' : 'Not qualified'}
+                                </Badge>
+                            </div>
+                        )}
                     </div>
+                    {result.autoSubmitReason === 'violations' && (
+                        <p className="text-sm text-red-600 mt-4">
+                            Submitted automatically after {result.proctoringViolations} proctoring violations.
+                        </p>
+                    )}
+                    {result.revisions?.map(revision => (
+                        <p key={revision.revisedAt} className="text-sm text-blue-700 mt-2">
+                            Re-evaluated ({revision.reason}): {revision.previousScore}/{revision.previousTotalMarks} → {revision.score}/{revision.totalMarks}
+                        </p>
+                    ))}
                 </CardHeader>
             </Card>
 
@@ -189,6 +381,11 @@ export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
                                     <div className="text-sm text-gray-500">
                                         {ranking.percentile}th percentile
                                     </div>
+                                    {ranking.counted === false && (
+                                        <div className="text-xs text-gray-500">
+                                            Indicative - this attempt is not counted on the leaderboard
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         </CardContent>
@@ -213,11 +410,34 @@ export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
                                     <span className="text-sm text-gray-600">
                                         {section.correctAnswers}/{section.totalQuestions} correct
                                     </span>
+                                    {!!section.partiallyCorrect && (
+                                        <span className="text-sm text-amber-600">
+                                            {section.partiallyCorrect} partial
+                                        </span>
+                                    )}
+                                    {section.wrongAnswers !== undefined && (
+                                        <span className="text-sm text-red-600">
+                                            {section.wrongAnswers} wrong
+                                        </span>
+                                    )}
+                                    {section.unanswered !== undefined && (
+                                        <span className="text-sm text-gray-500">
+                                            {section.unanswered} skipped
+                                        </span>
+                                    )}
                                     <Badge variant="outline">
                                         {section.score}/{section.totalMarks} marks
                                     </Badge>
                                 </div>
                             </div>
+                            {(section.markingScheme || !!section.negativeMarks) && (
+                                <div className="flex justify-between text-xs text-gray-500">
+                                    <span>{describeMarkingScheme(section.markingScheme)}</span>
+                                    {!!section.negativeMarks && (
+                                        <span className="text-red-600">-{section.negativeMarks} negative marks</span>
+                                    )}
+                                </div>
+                            )}
                             <div className="flex items-center space-x-3">
                                 <Progress value={section.percentage} className="flex-1" />
                                 <span className="text-sm font-medium w-12">
@@ -229,6 +449,187 @@ export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
                 </CardContent>
             </Card>
 
+            {/* Cutoffs */}
+            {qualification && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center space-x-2">
+                            <Flag className="w-5 h-5" />
+                            <span>Cutoffs ({CATEGORY_LABELS[qualification.cutoffCategory]})</span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {[
+                            ...(qualification.overall ? [{ key: 'overall', title: 'Overall', check: qualification.overall }] : []),
+                            ...qualification.sections.map(section => ({ key: section.sectionId, title: section.sectionTitle, check: section })),
+                        ].map(({ key, title, check }) => (
+                            <div key={key} className="flex justify-between items-center text-sm">
+                                <div>
+                                    <span className="font-medium">{title}</span>
+                                    <div className="text-xs text-gray-500">
+                                        {check.score}/{check.maxMarks} marks · cutoff {check.cutoff}
+                                        {check.safeScore !== null && ` · safe score ${check.safeScore}`}
+                                    </div>
+                                </div>
+                                {check.qualified ? (
+                                    <span className="flex items-center text-green-600">
+                                        <CheckCircle className="w-4 h-4 mr-1" />
+                                        Cleared
+                                    </span>
+                                ) : (
+                                    <span className="flex items-center text-red-600">
+                                        <XCircle className="w-4 h-4 mr-1" />
+                                        {check.shortBy} marks short
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                        <p className="text-xs text-gray-500">
+                            Safe scores add a margin for how spread out the {qualification.cohortSize} candidates' marks are
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Time Management */}
+            {timeAnalysis && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center space-x-2">
+                            <Timer className="w-5 h-5" />
+                            <span>Time Management</span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            <div>
+                                <div className="text-gray-600">Avg. per attempted question</div>
+                                <div className="font-medium">
+                                    {formatSeconds(timeAnalysis.averagePerAttempted)}
+                                    {timeAnalysis.targetPerQuestion > 0 && (
+                                        <span className="text-gray-500"> (target {formatSeconds(timeAnalysis.targetPerQuestion)})</span>
+                                    )}
+                                </div>
+                            </div>
+                            <div>
+                                <div className="text-gray-600">On correct answers</div>
+                                <div className="font-medium text-green-600">{formatSeconds(timeAnalysis.timeOnCorrect + timeAnalysis.timeOnPartial)}</div>
+                            </div>
+                            <div>
+                                <div className="text-gray-600">On wrong answers</div>
+                                <div className="font-medium text-red-600">{formatSeconds(timeAnalysis.timeOnWrong)}</div>
+                            </div>
+                            <div>
+                                <div className="text-gray-600">On skipped questions</div>
+                                <div className="font-medium text-gray-700">{formatSeconds(timeAnalysis.timeOnUnanswered)}</div>
+                            </div>
+                        </div>
+
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b text-left text-gray-500">
+                                    <th className="py-1 pr-2">Section</th>
+                                    <th className="py-1 px-2 text-right">Time</th>
+                                    <th className="py-1 px-2 text-right">Attempted</th>
+                                    <th className="py-1 px-2 text-right">Avg. per attempted</th>
+                                    <th className="py-1 pl-2 text-right">On wrong answers</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {timeAnalysis.sections.map(section => (
+                                    <tr key={section.sectionId} className="border-b">
+                                        <td className="py-1 pr-2">{section.sectionTitle}</td>
+                                        <td className="py-1 px-2 text-right">{formatSeconds(section.timeSpent)}</td>
+                                        <td className="py-1 px-2 text-right">{section.attempted}</td>
+                                        <td className="py-1 px-2 text-right">{formatSeconds(section.averagePerAttempted)}</td>
+                                        <td className="py-1 pl-2 text-right text-red-600">{formatSeconds(section.timeOnWrong)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                            <div>
+                                <div className="font-medium mb-2">Abandoned after a long look</div>
+                                {timeAnalysis.abandoned.length > 0 ? (
+                                    <ul className="space-y-1">
+                                        {timeAnalysis.abandoned.map(entry => (
+                                            <li key={entry.questionId} className="flex justify-between">
+                                                <span>{describeQuestion(entry)}</span>
+                                                <span className="text-gray-600">
+                                                    {formatSeconds(entry.timeSpent)}, opened {entry.visits}×
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-gray-500">None - you moved on quickly from questions you skipped</p>
+                                )}
+                            </div>
+                            <div>
+                                <div className="font-medium mb-2">Most time spent</div>
+                                <ul className="space-y-1">
+                                    {timeAnalysis.slowest.map(entry => (
+                                        <li key={entry.questionId} className="flex justify-between">
+                                            <span>{describeQuestion(entry)}</span>
+                                            <span>
+                                                {formatSeconds(entry.timeSpent)}{' '}
+                                                {entry.outcome && (
+                                                    <span className={OUTCOME_STYLES[entry.outcome].className}>
+                                                        {OUTCOME_STYLES[entry.outcome].label}
+                                                    </span>
+                                                )}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Answer Sheet */}
+            {review && review.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center space-x-2">
+                            <Award className="w-5 h-5" />
+                            <span>Answer Sheet</span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {review.map(section => (
+                            <div key={section.sectionId}>
+                                <div className="font-medium mb-2">{section.sectionTitle}</div>
+                                <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-2">
+                                    {section.questions.map((question, index) => (
+                                        <div
+                                            key={question.questionId}
+                                            className={`rounded border px-2 py-1 text-xs ${isUnanswered(question)
+                                                ? 'border-gray-200 text-gray-500'
+                                                : question.isCorrect
+                                                    ? 'border-green-200 bg-green-50 text-green-800'
+                                                    : question.marksAwarded > 0
+                                                        ? 'border-amber-200 bg-amber-50 text-amber-800'
+                                                        : 'border-red-200 bg-red-50 text-red-800'
+                                                }`}
+                                        >
+                                            <span className="font-semibold">Q{index + 1}</span>{' '}
+                                            {formatReviewAnswer(question)}
+                                            {!!question.timeSpent && (
+                                                <span className="block opacity-75">{formatSeconds(question.timeSpent)}</span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <p className="text-xs text-gray-500">Your answer / correct answer, in the option order shown during your attempt, with the time spent on each question</p>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Strengths and Improvements */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <Card>
@@ -293,6 +694,14 @@ export const TestResultsDisplay: React.FC<TestResultsDisplayProps> = ({
                                 {result.sectionWiseScores.reduce((sum, section) => sum + section.totalQuestions, 0)}
                             </div>
                         </div>
+                        {totalNegativeMarks > 0 && (
+                            <div>
+                                <div className="text-gray-600">Negative Marks</div>
+                                <div className="font-medium text-red-600">
+                                    -{Math.round(totalNegativeMarks * 100) / 100}
+                                </div>
+                            </div>
+                        )}
                         <div>
                             <div className="text-gray-600">Attempt ID</div>
                             <div className="font-medium font-mono text-xs">
@@ -0,0 +1,586 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { RichContent } from '@/components/ui/rich-content';
+import { AlertTriangle, ChevronLeft, ChevronRight, Clock, Flag, Lightbulb } from 'lucide-react';
+import type { QuestionType } from '@/lib/utils/test-scoring';
+
+type Language = 'en' | 'hi';
+
+type ReportReason = 'wrong-key' | 'wrong-question' | 'ambiguous' | 'typo' | 'other';
+
+interface QuestionReport {
+    questionId: string;
+    reason: ReportReason;
+    status: 'open' | 'accepted' | 'rejected';
+    adminNote?: string;
+}
+
+const REPORT_REASONS: Record<ReportReason, string> = {
+    'wrong-key': 'Answer key is wrong',
+    'wrong-question': 'Question is wrong or has no correct option',
+    'ambiguous': 'More than one answer is correct',
+    'typo': 'Typo or formatting problem',
+    'other': 'Other',
+};
+
+const REPORT_STATUS_LABELS: Record<QuestionReport['status'], string> = {
+    open: 'Reported, under review',
+    accepted: 'Report accepted',
+    rejected: 'Report reviewed, no change',
+};
+
+// Hindi wording; empty option and item lists fall back to the English ones
+interface QuestionTranslation {
+    text: string;
+    options: string[];
+    matchItems: string[];
+    reason?: string;
+    explanation?: string;
+}
+
+// Options are listed in the order the student saw them during the attempt
+interface ReviewQuestion {
+    questionId: string;
+    type?: QuestionType;
+    text: string;
+    reason?: string;
+    options: string[];
+    matchItems?: string[];
+    selectedOption: number;
+    selectedOptions?: number[];
+    numericAnswer?: number;
+    matches?: number[];
+    correctOption: number;
+    correctOptions?: number[];
+    correctNumericAnswer?: number;
+    tolerance?: number;
+    correctMatches?: number[];
+    isCorrect: boolean;
+    marks?: number;
+    resolution?: 'bonus' | 'dropped'; // set when the question was corrected after the test
+    marksAwarded: number;
+    timeSpent?: number; // seconds
+    visits?: number;
+    markedForReview?: boolean;
+    explanation?: string;
+    hindi?: QuestionTranslation;
+}
+
+interface ReviewSection {
+    sectionId: string;
+    sectionTitle: string;
+    questions: ReviewQuestion[];
+}
+
+type ReviewFilter = 'all' | 'correct' | 'wrong' | 'skipped' | 'marked';
+
+interface TestSolutionReviewProps {
+    testId?: string; // enables reporting questions
+    testTitle: string;
+    review: ReviewSection[];
+    className?: string;
+}
+
+interface ReviewEntry {
+    question: ReviewQuestion;
+    sectionId: string;
+    sectionTitle: string;
+    number: number; // position within its section
+}
+
+const FILTER_LABELS: Record<ReviewFilter, string> = {
+    all: 'All',
+    correct: 'Correct',
+    wrong: 'Wrong',
+    skipped: 'Skipped',
+    marked: 'Marked',
+};
+
+const optionLetter = (index: number) => (index >= 0 ? String.fromCharCode(65 + index) : '-');
+
+const isUnanswered = (question: ReviewQuestion) =>
+    question.selectedOption < 0 &&
+    !question.selectedOptions?.length &&
+    question.numericAnswer === undefined &&
+    !question.matches?.some(match => match >= 0);
+
+const matchesFilter = (question: ReviewQuestion, filter: ReviewFilter) => {
+    switch (filter) {
+        case 'correct':
+            return question.isCorrect;
+        case 'wrong':
+            return !question.isCorrect && !isUnanswered(question);
+        case 'skipped':
+            return isUnanswered(question);
+        case 'marked':
+            return !!question.markedForReview;
+        default:
+            return true;
+    }
+};
+
+const formatSeconds = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
+};
+
+const getOutcome = (question: ReviewQuestion) => {
+    if (isUnanswered(question)) return { label: 'Skipped', className: 'bg-gray-100 text-gray-700 border-gray-200' };
+    if (question.isCorrect) return { label: 'Correct', className: 'bg-green-100 text-green-800 border-green-200' };
+    if (question.marksAwarded > 0) return { label: 'Partially correct', className: 'bg-amber-100 text-amber-800 border-amber-200' };
+    return { label: 'Wrong', className: 'bg-red-100 text-red-800 border-red-200' };
+};
+
+const localizeQuestion = (question: ReviewQuestion, language: Language): ReviewQuestion => {
+    const hindi = language === 'hi' ? question.hindi : undefined;
+    if (!hindi) return question;
+
+    return {
+        ...question,
+        text: hindi.text,
+        reason: hindi.reason || question.reason,
+        options: hindi.options.length ? hindi.options : question.options,
+        matchItems: hindi.matchItems.length ? hindi.matchItems : question.matchItems,
+        explanation: hindi.explanation || question.explanation,
+    };
+};
+
+const getPaletteClass = (question: ReviewQuestion) => {
+    if (isUnanswered(question)) return 'bg-gray-100 text-gray-700 border-gray-300';
+    if (question.isCorrect) return 'bg-green-500 text-white border-green-500';
+    if (question.marksAwarded > 0) return 'bg-amber-400 text-white border-amber-400';
+    return 'bg-red-500 text-white border-red-500';
+};
+
+export const TestSolutionReview: React.FC<TestSolutionReviewProps> = ({
+    testId,
+    testTitle,
+    review,
+    className = ''
+}) => {
+    const [filter, setFilter] = useState<ReviewFilter>('all');
+    const [position, setPosition] = useState(0);
+    const [language, setLanguage] = useState<Language>('en');
+    const [reports, setReports] = useState<QuestionReport[]>([]);
+    const [reportingId, setReportingId] = useState<string | null>(null);
+    const [reportReason, setReportReason] = useState<ReportReason>('wrong-key');
+    const [reportMessage, setReportMessage] = useState('');
+    const [submittingReport, setSubmittingReport] = useState(false);
+
+    useEffect(() => {
+        if (!testId) return;
+
+        const fetchReports = async () => {
+            try {
+                const response = await fetch(`/api/tests/${testId}/reports`);
+                const data = await response.json();
+                if (response.ok) setReports(data.data);
+            } catch (error) {
+                console.error('Failed to load question reports:', error);
+            }
+        };
+
+        fetchReports();
+    }, [testId]);
+
+    const entries = useMemo<ReviewEntry[]>(
+        () => review.flatMap(section => section.questions.map((question, index) => ({
+            question,
+            sectionId: section.sectionId,
+            sectionTitle: section.sectionTitle,
+            number: index + 1,
+        }))),
+        [review]
+    );
+
+    const filteredEntries = useMemo(
+        () => entries.filter(entry => matchesFilter(entry.question, filter)),
+        [entries, filter]
+    );
+
+    const counts = useMemo(() => {
+        const result = {} as Record<ReviewFilter, number>;
+        (Object.keys(FILTER_LABELS) as ReviewFilter[]).forEach(key => {
+            result[key] = entries.filter(entry => matchesFilter(entry.question, key)).length;
+        });
+        return result;
+    }, [entries]);
+
+    const current = filteredEntries[Math.min(position, filteredEntries.length - 1)];
+    const displayedQuestion = current && localizeQuestion(current.question, language);
+    const isBilingual = entries.some(entry => !!entry.question.hindi);
+
+    const changeFilter = (value: ReviewFilter) => {
+        setFilter(value);
+        setPosition(0);
+    };
+
+    // Latest report on a question (reports come newest first)
+    const getReport = (questionId: string) => reports.find(report => report.questionId === questionId);
+
+    const openReportDialog = (questionId: string) => {
+        setReportingId(questionId);
+        setReportReason('wrong-key');
+        setReportMessage('');
+    };
+
+    const submitReport = async () => {
+        if (!testId || !reportingId) return;
+
+        setSubmittingReport(true);
+        try {
+            const response = await fetch(`/api/tests/${testId}/reports`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ questionId: reportingId, reason: reportReason, message: reportMessage.trim() }),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                setReports(prev => [data.data, ...prev]);
+                setReportingId(null);
+            } else {
+                alert(data.error || 'Failed to report question');
+            }
+        } catch (error) {
+            console.error('Failed to report question:', error);
+            alert('Failed to report question');
+        } finally {
+            setSubmittingReport(false);
+        }
+    };
+
+    const currentReport = current && getReport(current.question.questionId);
+
+    const renderOptions = (question: ReviewQuestion) => {
+        const selected = question.type === 'multiple' ? question.selectedOptions || [] : [question.selectedOption];
+        const correct = question.type === 'multiple' ? question.correctOptions || [] : [question.correctOption];
+
+        return (
+            <div className="space-y-2">
+                {question.options.map((option, index) => {
+                    const isSelected = selected.includes(index);
+                    const isCorrectOption = correct.includes(index);
+
+                    return (
+                        <div
+                            key={index}
+                            className={`flex items-start justify-between gap-3 rounded-lg border p-3 ${isCorrectOption
+                                ? 'border-green-300 bg-green-50'
+                                : isSelected
+                                    ? 'border-red-300 bg-red-50'
+                                    : 'border-gray-200'
+                                }`}
+                        >
+                            <span>
+                                <span className="font-semibold mr-2">{optionLetter(index)}.</span>
+                                <RichContent inline content={option} />
+                            </span>
+                            <span className="flex flex-shrink-0 gap-1">
+                                {isSelected && <Badge variant="outline">Your answer</Badge>}
+                                {isCorrectOption && <Badge className="bg-green-600">Correct answer</Badge>}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    const renderNumeric = (question: ReviewQuestion) => (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="rounded-lg border p-3">
+                <div className="text-gray-600">Your answer</div>
+                <div className="text-lg font-medium">{question.numericAnswer ?? '-'}</div>
+            </div>
+            <div className="rounded-lg border border-green-300 bg-green-50 p-3">
+                <div className="text-gray-600">Correct answer</div>
+                <div className="text-lg font-medium">
+                    {question.correctNumericAnswer ?? '-'}
+                    {!!question.tolerance && <span className="text-sm text-gray-600"> ±{question.tolerance}</span>}
+                </div>
+            </div>
+        </div>
+    );
+
+    const renderMatches = (question: ReviewQuestion) => (
+        <div className="space-y-3">
+            <div className="space-y-1 text-sm">
+                {question.options.map((option, index) => (
+                    <div key={index}>
+                        <span className="font-semibold mr-2">{optionLetter(index)}.</span>
+                        <RichContent inline content={option} />
+                    </div>
+                ))}
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="border-b text-left text-gray-500">
+                        <th className="py-1 pr-2">Item</th>
+                        <th className="py-1 px-2">Your match</th>
+                        <th className="py-1 pl-2">Correct match</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {(question.matchItems || []).map((item, itemIndex) => {
+                        const chosen = question.matches?.[itemIndex] ?? -1;
+                        const expected = question.correctMatches?.[itemIndex] ?? -1;
+                        return (
+                            <tr key={itemIndex} className="border-b">
+                                <td className="py-1 pr-2">{itemIndex + 1}. <RichContent inline content={item} /></td>
+                                <td className={`py-1 px-2 ${chosen < 0 ? 'text-gray-500' : chosen === expected ? 'text-green-700' : 'text-red-700'}`}>
+                                    {optionLetter(chosen)}
+                                </td>
+                                <td className="py-1 pl-2 text-green-700">{optionLetter(expected)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+
+    return (
+        <div className={`space-y-6 ${className}`}>
+            <Card>
+                <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <CardTitle>{testTitle} - Solutions</CardTitle>
+                        {isBilingual && (
+                            <div className="flex gap-1" role="group" aria-label="Question language">
+                                {(['en', 'hi'] as Language[]).map(option => (
+                                    <Button
+                                        key={option}
+                                        size="sm"
+                                        variant={language === option ? 'default' : 'outline'}
+                                        onClick={() => setLanguage(option)}
+                                    >
+                                        {option === 'en' ? 'English' : 'हिन्दी'}
+                                    </Button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                    {(Object.keys(FILTER_LABELS) as ReviewFilter[]).map(key => (
+                        <Button
+                            key={key}
+                            size="sm"
+                            variant={filter === key ? 'default' : 'outline'}
+                            onClick={() => changeFilter(key)}
+                        >
+                            {FILTER_LABELS[key]} ({counts[key]})
+                        </Button>
+                    ))}
+                </CardContent>
+            </Card>
+
+            {!current ? (
+                <Card>
+                    <CardContent className="p-8 text-center text-gray-500">
+                        No {FILTER_LABELS[filter].toLowerCase()} questions in this attempt.
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                    <Card className="lg:col-span-3">
+                        <CardHeader>
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <CardTitle className="text-lg">
+                                    Question {current.number}
+                                    <span className="ml-2 text-sm font-normal text-gray-500">{current.sectionTitle}</span>
+                                </CardTitle>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <Badge className={getOutcome(current.question).className}>
+                                        {getOutcome(current.question).label}
+                                    </Badge>
+                                    <Badge variant="outline">
+                                        {current.question.marksAwarded}
+                                        {current.question.marks !== undefined && ` / ${current.question.marks}`} marks
+                                    </Badge>
+                                    {!!current.question.timeSpent && (
+                                        <Badge variant="outline" className="flex items-center gap-1">
+                                            <Clock className="h-3 w-3" />
+                                            {formatSeconds(current.question.timeSpent)}
+                                            {!!current.question.visits && current.question.visits > 1 && `, ${current.question.visits} visits`}
+                                        </Badge>
+                                    )}
+                                    {current.question.markedForReview && (
+                                        <Badge variant="secondary" className="flex items-center gap-1">
+                                            <Flag className="h-3 w-3" />
+                                            Marked
+                                        </Badge>
+                                    )}
+                                    {current.question.resolution && (
+                                        <Badge className="bg-blue-100 text-blue-800 border-blue-200">
+                                            {current.question.resolution === 'bonus' ? 'Bonus: full marks to all' : 'Dropped from scoring'}
+                                        </Badge>
+                                    )}
+                                    {testId && currentReport?.status !== 'open' && (
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => openReportDialog(current.question.questionId)}
+                                        >
+                                            <AlertTriangle className="h-4 w-4 mr-1" />
+                                            Report
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            {currentReport && (
+                                <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                                    <span className="font-medium">{REPORT_STATUS_LABELS[currentReport.status]}</span>
+                                    {currentReport.adminNote && `: ${currentReport.adminNote}`}
+                                </div>
+                            )}
+
+                            {displayedQuestion.type === 'assertion-reason' ? (
+                                <div className="space-y-2">
+                                    <div><span className="font-semibold">Assertion (A):</span> <RichContent inline content={displayedQuestion.text} /></div>
+                                    <div><span className="font-semibold">Reason (R):</span> <RichContent inline content={displayedQuestion.reason} /></div>
+                                </div>
+                            ) : (
+                                <RichContent className="text-lg leading-relaxed" content={displayedQuestion.text} />
+                            )}
+
+                            {displayedQuestion.type === 'numeric'
+                                ? renderNumeric(displayedQuestion)
+                                : displayedQuestion.type === 'match'
+                                    ? renderMatches(displayedQuestion)
+                                    : renderOptions(displayedQuestion)}
+
+                            {displayedQuestion.explanation && (
+                                <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+                                    <div className="mb-1 flex items-center gap-2 font-medium text-blue-900">
+                                        <Lightbulb className="h-4 w-4" />
+                                        Explanation
+                                    </div>
+                                    <RichContent className="text-sm text-blue-900" content={displayedQuestion.explanation} />
+                                </div>
+                            )}
+
+                            <div className="flex items-center justify-between">
+                                <Button
+                                    variant="outline"
+                                    disabled={position === 0}
+                                    onClick={() => setPosition(prev => Math.max(0, prev - 1))}
+                                >
+                                    <ChevronLeft className="h-4 w-4 mr-1" />
+                                    Previous
+                                </Button>
+                                <span className="text-sm text-gray-500">
+                                    {Math.min(position, filteredEntries.length - 1) + 1} of {filteredEntries.length}
+                                </span>
+                                <Button
+                                    variant="outline"
+                                    disabled={position >= filteredEntries.length - 1}
+                                    onClick={() => setPosition(prev => Math.min(filteredEntries.length - 1, prev + 1))}
+                                >
+                                    Next
+                                    <ChevronRight className="h-4 w-4 ml-1" />
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="text-base">Questions</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {review.map(section => {
+                                const sectionEntries = filteredEntries.filter(entry => entry.sectionId === section.sectionId);
+                                if (sectionEntries.length === 0) return null;
+
+                                return (
+                                    <div key={section.sectionId}>
+                                        <div className="text-sm font-medium mb-2">{section.sectionTitle}</div>
+                                        <div className="grid grid-cols-5 gap-2">
+                                            {sectionEntries.map(entry => {
+                                                const index = filteredEntries.indexOf(entry);
+                                                return (
+                                                    <button
+                                                        key={entry.question.questionId}
+                                                        type="button"
+                                                        onClick={() => setPosition(index)}
+                                                        className={`relative h-8 rounded border text-xs font-medium ${getPaletteClass(entry.question)} ${entry === current ? 'ring-2 ring-blue-500 ring-offset-1' : ''}`}
+                                                    >
+                                                        {entry.number}
+                                                        {entry.question.markedForReview && (
+                                                            <span className="absolute -right-1 -top-1 h-2 w-2 rounded-full bg-purple-500" />
+                                                        )}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+
+            <Dialog open={reportingId !== null} onOpenChange={open => !open && setReportingId(null)}>
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Report this question</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label>What is wrong?</Label>
+                            <Select value={reportReason} onValueChange={value => setReportReason(value as ReportReason)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(REPORT_REASONS) as ReportReason[]).map(reason => (
+                                        <SelectItem key={reason} value={reason}>{REPORT_REASONS[reason]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="report-message">Details (optional)</Label>
+                            <Textarea
+                                id="report-message"
+                                value={reportMessage}
+                                maxLength={1000}
+                                rows={4}
+                                placeholder="Which option should be correct, and why?"
+                                onChange={(e) => setReportMessage(e.target.value)}
+                            />
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            If the question is corrected, every attempt is re-evaluated and your score updates automatically.
+                        </p>
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" onClick={() => setReportingId(null)}>
+                                Cancel
+                            </Button>
+                            <Button onClick={submitReport} disabled={submittingReport}>
+                                {submittingReport ? 'Sending...' : 'Send report'}
+                            </Button>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
+
+export default TestSolutionReview;
@@ -1,10 +1,12 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Clock, AlertTriangle } from 'lucide-react';
 
 interface TestTimerProps {
     durationInMinutes: number;
+    endsAt?: string; // server deadline; takes precedence over the local countdown
+    serverTime?: string; // server clock at load time, used to correct client clock skew
     onTimeUp: () => void;
     onTimeWarning?: (remainingMinutes: number) => void;
     warningThresholds?: number[]; // Minutes remaining when to show warnings
@@ -14,13 +16,26 @@ interface TestTimerProps {
 
 export const TestTimer: React.FC<TestTimerProps> = ({
     durationInMinutes,
+    endsAt,
+    serverTime,
     onTimeUp,
     onTimeWarning,
     warningThresholds = [5, 1], // Default warnings at 5 and 1 minute remaining
     isActive = true,
     className = ''
 }) => {
-    const [timeRemaining, setTimeRemaining] = useState(durationInMinutes * 60); // Convert to seconds
+    const clockOffsetMs = useMemo(
+        () => (serverTime ? new Date(serverTime).getTime() - Date.now() : 0),
+        [serverTime]
+    );
+
+    const getRemainingFromDeadline = useCallback((): number => {
+        if (!endsAt) return durationInMinutes * 60;
+        const remainingMs = new Date(endsAt).getTime() - (Date.now() + clockOffsetMs);
+        return Math.max(0, Math.ceil(remainingMs / 1000));
+    }, [endsAt, clockOffsetMs, durationInMinutes]);
+
+    const [timeRemaining, setTimeRemaining] = useState(getRemainingFromDeadline); // In seconds
     const [isWarning, setIsWarning] = useState(false);
     const [hasTriggeredWarnings, setHasTriggeredWarnings] = useState<Set<number>>(new Set());
 
@@ -57,7 +72,7 @@ export const TestTimer: React.FC<TestTimerProps> = ({
 
         const interval = setInterval(() => {
             setTimeRemaining(prev => {
-                const newTime = prev - 1;
+                const newTime = endsAt ? getRemainingFromDeadline() : prev - 1;
 
                 if (newTime <= 0) {
                     clearInterval(interval);
@@ -73,14 +88,14 @@ export const TestTimer: React.FC<TestTimerProps> = ({
         }, 1000);
 
         return () => clearInterval(interval);
-    }, [isActive, onTimeUp, checkWarnings]);
+    }, [isActive, endsAt, onTimeUp, checkWarnings, getRemainingFromDeadline]);
 
-    // Reset timer when duration changes
+    // Reset timer when duration or deadline changes
     useEffect(() => {
-        setTimeRemaining(durationInMinutes * 60);
+        setTimeRemaining(getRemainingFromDeadline());
         setHasTriggeredWarnings(new Set());
         setIsWarning(false);
-    }, [durationInMinutes]);
+    }, [getRemainingFromDeadline]);
 
     const getTimerColor = () => {
         const remainingMinutes = Math.ceil(timeRemaining / 60);
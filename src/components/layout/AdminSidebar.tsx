@@ -10,6 +10,8 @@ import {
     FileText,
     Settings,
     TestTube,
+    Library,
+    Layers,
     Home,
     Menu,
     X
@@ -20,6 +22,8 @@ const navigation = [
     { name: 'Dashboard', href: '/admin', icon: Home },
     { name: 'Courses', href: '/admin/courses', icon: BookOpen },
     { name: 'Mock Tests', href: '/admin/tests', icon: TestTube },
+    { name: 'Test Series', href: '/admin/test-series', icon: Layers },
+    { name: 'Question Bank', href: '/admin/question-bank', icon: Library },
     { name: 'Users', href: '/admin/users', icon: Users },
     { name: 'Orders', href: '/admin/orders', icon: ShoppingCart },
     { name: 'Blog Posts', href: '/admin/blog', icon: FileText },
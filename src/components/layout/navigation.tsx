@@ -11,6 +11,7 @@ import {
     Trophy,
     Newspaper,
     LogOut,
+    Layers,
     Home
 } from 'lucide-react';
 
@@ -21,6 +22,7 @@ export default function Navigation() {
         { href: '/', label: 'Home', icon: Home },
         { href: '/courses', label: 'Courses', icon: BookOpen },
         { href: '/mock-tests', label: 'Mock Tests', icon: Trophy },
+        { href: '/test-series', label: 'Test Series', icon: Layers },
         { href: '/study-materials', label: 'Study Materials', icon: FileText },
         { href: '/current-affairs', label: 'Current Affairs', icon: Newspaper },
         { href: '/blog', label: 'Blog', icon: FileText },
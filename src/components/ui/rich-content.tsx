@@ -0,0 +1,26 @@
+'use client';
+
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { renderRichContent } from '@/lib/utils/rich-content';
+
+interface RichContentProps {
+    content?: string;
+    inline?: boolean; // render inside a line of text (options, match items)
+    className?: string;
+}
+
+/**
+ * Renders question markup: images, tables and math. The HTML is generated from escaped text only.
+ */
+export function RichContent({ content = '', inline = false, className }: RichContentProps) {
+    const html = useMemo(() => renderRichContent(content, { inline }), [content, inline]);
+    const Tag = inline ? 'span' : 'div';
+
+    return (
+        <Tag
+            className={cn('overflow-x-auto', inline && 'inline-block max-w-full align-middle', className)}
+            dangerouslySetInnerHTML={{ __html: html }}
+        />
+    );
+}
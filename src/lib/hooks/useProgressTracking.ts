@@ -23,7 +23,14 @@ interface ProgressUpdate {
   watchedDuration?: number;
   totalDuration?: number;
   completed?: boolean;
-  score?: number;
+  answers?: QuizAnswerInput[];
+}
+
+// Option chosen for a course quiz question (-1 when skipped); graded on the server
+export interface QuizAnswerInput {
+  questionId: string;
+  selectedOption: number;
+  timeSpent?: number; // in seconds
 }
 
 export function useProgressTracking(options: UseProgressTrackingOptions) {
@@ -233,17 +240,17 @@ export function useProgressTracking(options: UseProgressTrackingOptions) {
     });
   }, [updateProgress]);
 
-  // Track quiz completion
+  // Track quiz completion; the server grades the answers
   const trackQuizCompletion = useCallback((
     sectionId: string,
     quizId: string,
-    score?: number
+    answers: QuizAnswerInput[]
   ) => {
     updateProgress({
       type: 'quiz',
       sectionId,
       itemId: quizId,
-      score,
+      answers,
       completed: true
     });
   }, [updateProgress]);
@@ -1,21 +1,115 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  BufferedAttempt,
+  bufferAttempt,
+  clearBufferedAttempt,
+  getBufferedAttempt,
+  listBufferedAttempts,
+  requestAttemptSync,
+  registerAttemptSyncWorker,
+  isNetworkError,
+} from '@/lib/utils/attempt-buffer';
+import type { PracticeFeedback, SerializedSectionWindow as SectionWindow } from '@/lib/utils/test-attempts';
+import type { AttemptMode, ProctoringEventType } from '@/models/MockTest';
 
 interface Answer {
   questionId: string;
   selectedOption: number;
+  selectedOptions?: number[];
+  numericAnswer?: number;
+  matches?: number[];
+}
+
+interface QuestionTiming {
+  questionId: string;
+  timeSpent: number; // seconds, cumulative for the attempt
+  visits: number;
+}
+
+interface QuestionStates {
+  visitedQuestionIds: string[];
+  markedQuestionIds: string[];
+  timings: QuestionTiming[];
 }
 
 interface TestAttemptResult {
   attemptId: string;
-  score: number;
-  totalMarks: number;
-  percentage: number;
+  score?: number; // withheld while resultsPending
+  totalMarks?: number;
+  percentage?: number;
   timeSpent: number;
   completedAt: string;
+  autoSubmitted?: boolean;
+  autoSubmitReason?: 'time' | 'violations';
+  proctoringViolations?: number;
+  resultsPending?: boolean; // scheduled test whose results are not released yet
+  resultsReleaseAt?: string;
+}
+
+interface ProctoringEvent {
+  type: ProctoringEventType;
+  occurredAt: string;
+}
+
+interface ActiveTestAttempt {
+  attemptId: string;
+  mode: AttemptMode;
+  test: any;
+  answers: Answer[];
+  visitedQuestionIds: string[];
+  markedQuestionIds: string[];
+  timings: QuestionTiming[];
+  practiceFeedback: PracticeFeedback[]; // checked practice questions
+  startTime: string;
+  deadline: string | null; // null for practice attempts
+  lastSavedAt: string | null; // server time of the last autosave
+  serverTime: string;
+  sectionWindows: SectionWindow[];
+  currentSectionIndex: number;
+  proctoringViolations: number;
+  resumed: boolean;
+}
+
+// Message posted by the service worker after it replays a buffered request
+interface AttemptSyncMessage {
+  type: 'attempt-synced';
+  attemptId: string;
+  kind: BufferedAttempt['kind'];
+  status: number;
+  data: any;
 }
 
+// Whether the server has settled a request for good (sign-in problems and server errors are retried)
+const isSettled = (status: number) => status !== 401 && status < 500;
+
+/**
+ * Sends a buffered request
+ * @param replay - The request is being replayed after going unsent; submits then say when they were buffered
+ */
+const sendBuffered = (entry: BufferedAttempt, replay = false) =>
+  fetch(`/api/tests/${entry.testId}/attempt`, {
+    method: entry.kind === 'submit' ? 'PUT' : 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(replay && entry.kind === 'submit' ? { ...entry.body, submittedAt: entry.bufferedAt } : entry.body),
+  });
+
+// Whether a buffered autosave is older than the server's last save (made since on another device or tab)
+const isStaleSnapshot = (
+  entry: BufferedAttempt,
+  attempt: Pick<ActiveTestAttempt, 'lastSavedAt' | 'serverTime'>,
+  receivedAt: number
+) => {
+  if (entry.kind !== 'save' || !attempt.lastSavedAt) return false;
+
+  // Snapshots are stamped with the device clock; shift them onto the server's
+  const clockOffsetMs = new Date(attempt.serverTime).getTime() - receivedAt;
+  return new Date(entry.bufferedAt).getTime() + clockOffsetMs < new Date(attempt.lastSavedAt).getTime();
+};
+
 interface UseTestAttemptProps {
   testId: string;
   onSuccess?: (result: TestAttemptResult) => void;
@@ -26,8 +120,101 @@ export const useTestAttempt = ({ testId, onSuccess, onError }: UseTestAttemptPro
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<TestAttemptResult | null>(null);
+  const [hasUnsyncedAnswers, setHasUnsyncedAnswers] = useState(false);
+  const [pendingSubmission, setPendingSubmission] = useState<string | null>(null); // attempt submitted while offline
+  const onSuccessRef = useRef(onSuccess);
+
+  onSuccessRef.current = onSuccess;
+
+  const refreshUnsynced = useCallback(async () => {
+    const buffered = await listBufferedAttempts(testId).catch(() => []);
+    setHasUnsyncedAnswers(buffered.length > 0);
+    setPendingSubmission(buffered.find(entry => entry.kind === 'submit')?.attemptId || null);
+  }, [testId]);
+
+  // A buffered submit (or an autosave the server answered by finalising the attempt) produced a result
+  const settleResult = useCallback((attemptResult: TestAttemptResult) => {
+    setResult(attemptResult);
+    setPendingSubmission(null);
+    onSuccessRef.current?.(attemptResult);
+  }, []);
+
+  // Replays answers and submits buffered on this device, oldest connection drop first.
+  // Autosaves older than the server's last save are dropped instead of overwriting newer answers.
+  const syncBufferedAnswers = useCallback(async () => {
+    const entries = await listBufferedAttempts(testId).catch(() => []);
+    let serverAttempt: { attempt: ActiveTestAttempt | null; receivedAt: number } | null = null;
+
+    for (const entry of entries) {
+      try {
+        if (entry.kind === 'save') {
+          if (!serverAttempt) {
+            const attemptResponse = await fetch(`/api/tests/${testId}/attempt`);
+            const attemptData = attemptResponse.ok ? await attemptResponse.json() : null;
+            serverAttempt = { attempt: attemptData?.data?.attempt ?? null, receivedAt: Date.now() };
+          }
+
+          const { attempt, receivedAt } = serverAttempt;
+          if (attempt?.attemptId === entry.attemptId && isStaleSnapshot(entry, attempt, receivedAt)) {
+            await clearBufferedAttempt(entry.attemptId, entry.bufferedAt);
+            continue;
+          }
+        }
+
+        const response = await sendBuffered(entry, true);
+        const data = await response.json();
 
-  const startAttempt = useCallback(async () => {
+        if (isSettled(response.status)) {
+          await clearBufferedAttempt(entry.attemptId, entry.bufferedAt);
+        }
+        if (data.data && (entry.kind === 'submit' ? response.ok : response.status === 409)) {
+          settleResult(data.data as TestAttemptResult);
+        }
+      } catch (err) {
+        if (!isNetworkError(err)) console.error('Error syncing buffered answers:', err);
+        break; // still offline; the service worker or the next online event retries
+      }
+    }
+
+    await refreshUnsynced();
+  }, [testId, settleResult, refreshUnsynced]);
+
+  // Sync when the connection returns, and pick up what the service worker synced in the background
+  useEffect(() => {
+    registerAttemptSyncWorker();
+    syncBufferedAnswers();
+
+    const handleWorkerMessage = (event: MessageEvent<AttemptSyncMessage>) => {
+      const message = event.data;
+      if (message?.type !== 'attempt-synced') return;
+
+      if (message.data?.data && (message.kind === 'submit' ? message.status < 300 : message.status === 409)) {
+        settleResult(message.data.data as TestAttemptResult);
+      }
+      refreshUnsynced();
+    };
+
+    window.addEventListener('online', syncBufferedAnswers);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => {
+      window.removeEventListener('online', syncBufferedAnswers);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [syncBufferedAnswers, settleResult, refreshUnsynced]);
+
+  /**
+   * Keeps the latest answers on this device as they are chosen, before any autosave
+   */
+  const bufferAnswers = useCallback(async (attemptId: string, answers: Answer[], states?: QuestionStates) => {
+    try {
+      const buffered = await bufferAttempt({ attemptId, testId, kind: 'save', body: { attemptId, answers, ...states } });
+      if (buffered) setHasUnsyncedAnswers(true);
+    } catch (err) {
+      console.error('Error buffering answers:', err);
+    }
+  }, [testId]);
+
+  const startAttempt = useCallback(async (mode?: AttemptMode): Promise<ActiveTestAttempt> => {
     setIsLoading(true);
     setError(null);
     
@@ -37,6 +224,7 @@ export const useTestAttempt = ({ testId, onSuccess, onError }: UseTestAttemptPro
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ mode }),
       });
 
       if (!response.ok) {
@@ -45,7 +233,7 @@ export const useTestAttempt = ({ testId, onSuccess, onError }: UseTestAttemptPro
       }
 
       const data = await response.json();
-      return data.data;
+      return data.data as ActiveTestAttempt;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to start test attempt';
       setError(errorMessage);
@@ -56,26 +244,196 @@ export const useTestAttempt = ({ testId, onSuccess, onError }: UseTestAttemptPro
     }
   }, [testId, onError]);
 
-  const submitAttempt = useCallback(async (
+  const getActiveAttempt = useCallback(async (): Promise<ActiveTestAttempt | null> => {
+    try {
+      const response = await fetch(`/api/tests/${testId}/attempt`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch test attempt');
+      }
+
+      const receivedAt = Date.now();
+      const data = await response.json();
+      const attempt = data.data.attempt as ActiveTestAttempt | null;
+
+      // Answers buffered on this device win, unless the server has saved newer ones since (another device or tab)
+      const buffered = attempt ? await getBufferedAttempt(attempt.attemptId).catch(() => null) : null;
+      if (attempt && buffered?.kind === 'save') {
+        if (!isStaleSnapshot(buffered, attempt, receivedAt)) {
+          return { ...attempt, ...(buffered.body as Partial<ActiveTestAttempt>) };
+        }
+        await clearBufferedAttempt(buffered.attemptId, buffered.bufferedAt).catch(() => undefined);
+        await refreshUnsynced();
+      }
+
+      return attempt;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch test attempt';
+      setError(errorMessage);
+      onError?.(errorMessage);
+      throw err;
+    }
+  }, [testId, onError, refreshUnsynced]);
+
+  const saveProgress = useCallback(async (
+    attemptId: string,
     answers: Answer[],
-    startTime: string,
-    endTime: string
+    options: { advanceSection?: boolean; states?: QuestionStates } = {}
   ) => {
+    const body = {
+      attemptId,
+      answers,
+      advanceSection: options.advanceSection,
+      ...options.states,
+    };
+
+    // Moving to the next section needs the server, so only plain autosaves are buffered
+    const buffered = options.advanceSection
+      ? null
+      : await bufferAttempt({ attemptId, testId, kind: 'save', body }).catch(() => null);
+
+    let response: Response;
+    try {
+      response = buffered
+        ? await sendBuffered(buffered)
+        : await fetch(`/api/tests/${testId}/attempt`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        });
+    } catch (err) {
+      if (buffered && isNetworkError(err)) {
+        setHasUnsyncedAnswers(true);
+        requestAttemptSync();
+      }
+      throw err;
+    }
+
+    const data = await response.json();
+
+    if (buffered && isSettled(response.status)) {
+      await clearBufferedAttempt(attemptId, buffered.bufferedAt);
+      await refreshUnsynced();
+    }
+
+    // The server finalised the attempt because its deadline passed
+    if (response.status === 409 && data.data) {
+      const attemptResult = data.data as TestAttemptResult;
+      setResult(attemptResult);
+      onSuccess?.(attemptResult);
+      return { finalized: true as const, result: attemptResult };
+    }
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save answers');
+    }
+
+    return {
+      finalized: false as const,
+      savedAt: data.data.savedAt as string,
+      sectionWindows: data.data.sectionWindows as SectionWindow[],
+      currentSectionIndex: data.data.currentSectionIndex as number,
+      rejectedQuestionIds: data.data.rejectedQuestionIds as string[],
+    };
+  }, [testId, onSuccess, refreshUnsynced]);
+
+  const recordProctoringEvents = useCallback(async (attemptId: string, events: ProctoringEvent[]) => {
+    const response = await fetch(`/api/tests/${testId}/attempt/events`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ attemptId, events }),
+    });
+
+    const data = await response.json();
+
+    // The server submitted the attempt (violation limit reached or time over)
+    if (response.status === 409 && data.data) {
+      const attemptResult = data.data as TestAttemptResult;
+      setResult(attemptResult);
+      onSuccess?.(attemptResult);
+      return { finalized: true as const, result: attemptResult };
+    }
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to record proctoring events');
+    }
+
+    return {
+      finalized: false as const,
+      violations: data.data.violations as number,
+      maxViolations: data.data.maxViolations as number,
+    };
+  }, [testId, onSuccess]);
+
+  const checkAnswer = useCallback(async (attemptId: string, questionId: string, answer?: Answer) => {
+    const response = await fetch(`/api/tests/${testId}/attempt/check`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ attemptId, questionId, answer }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to check answer');
+    }
+
+    return data.data.feedback as PracticeFeedback;
+  }, [testId]);
+
+  /**
+   * Submits an attempt. The submit is buffered first, so when the connection is down it is sent
+   * later and this resolves to null; `pendingSubmission` is set meanwhile. A submit that only reaches
+   * the server after the deadline confirms the answers it already holds from autosave.
+   */
+  const submitAttempt = useCallback(async (
+    attemptId: string,
+    answers: Answer[],
+    states?: QuestionStates
+  ): Promise<TestAttemptResult | null> => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/tests/${testId}/attempt`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          answers,
-          startTime,
-          endTime,
-        }),
-      });
+      const body = {
+        attemptId,
+        answers,
+        ...states,
+      };
+      const buffered = await bufferAttempt({ attemptId, testId, kind: 'submit', body }).catch(() => null);
+
+      let response: Response;
+      try {
+        response = buffered
+          ? await sendBuffered(buffered)
+          : await fetch(`/api/tests/${testId}/attempt`, {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          });
+      } catch (err) {
+        if (buffered && isNetworkError(err)) {
+          setPendingSubmission(attemptId);
+          setHasUnsyncedAnswers(true);
+          requestAttemptSync();
+          return null;
+        }
+        throw err;
+      }
+
+      if (buffered && isSettled(response.status)) {
+        await clearBufferedAttempt(attemptId, buffered.bufferedAt);
+        await refreshUnsynced();
+      }
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -97,7 +455,7 @@ export const useTestAttempt = ({ testId, onSuccess, onError }: UseTestAttemptPro
     } finally {
       setIsLoading(false);
     }
-  }, [testId, onSuccess, onError]);
+  }, [testId, onSuccess, onError, refreshUnsynced]);
 
   const getResults = useCallback(async (attemptId?: string) => {
     setIsLoading(true);
@@ -136,7 +494,15 @@ export const useTestAttempt = ({ testId, onSuccess, onError }: UseTestAttemptPro
     isLoading,
     error,
     result,
+    hasUnsyncedAnswers,
+    pendingSubmission,
     startAttempt,
+    getActiveAttempt,
+    saveProgress,
+    bufferAnswers,
+    syncBufferedAnswers,
+    recordProctoringEvents,
+    checkAnswer,
     submitAttempt,
     getResults,
     resetState,
@@ -231,7 +231,7 @@ export async function validateOrderCreation(
       }
 
       // Validate item type
-      const validTypes = ['course', 'book', 'material', 'test', 'bundle'];
+      const validTypes = ['course', 'book', 'material', 'test', 'test-series', 'bundle'];
       if (!validTypes.includes(item.type)) {
         return {
           isValid: false,
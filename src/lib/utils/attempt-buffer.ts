@@ -0,0 +1,128 @@
+/**
+ * Offline Attempt Buffer
+ * Keeps test answers in IndexedDB until the server has them, so a dropped connection loses nothing.
+ * The service worker (public/sw.js) replays the same store in the background; keep the names in sync.
+ */
+
+export const ATTEMPT_BUFFER_DB = 'career-path-offline';
+export const ATTEMPT_BUFFER_STORE = 'attempts';
+export const ATTEMPT_SYNC_TAG = 'attempt-sync';
+
+export type BufferedRequestKind = 'save' | 'submit';
+
+export interface BufferedAttempt {
+  attemptId: string;
+  testId: string;
+  kind: BufferedRequestKind; // autosave (PATCH) or submit (PUT)
+  body: Record<string, unknown>; // request body to replay
+  bufferedAt: string;
+}
+
+const isSupported = () => typeof indexedDB !== 'undefined';
+
+function openBuffer(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(ATTEMPT_BUFFER_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ATTEMPT_BUFFER_STORE, { keyPath: 'attemptId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openBuffer();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(ATTEMPT_BUFFER_STORE, mode).objectStore(ATTEMPT_BUFFER_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Buffered request of an attempt, if any
+ */
+export async function getBufferedAttempt(attemptId: string): Promise<BufferedAttempt | null> {
+  if (!isSupported()) return null;
+  return (await withStore<BufferedAttempt | undefined>('readonly', store => store.get(attemptId))) || null;
+}
+
+/**
+ * Buffered requests of a test (or of every test)
+ */
+export async function listBufferedAttempts(testId?: string): Promise<BufferedAttempt[]> {
+  if (!isSupported()) return [];
+  const entries = await withStore<BufferedAttempt[]>('readonly', store => store.getAll());
+  return testId ? entries.filter(entry => entry.testId === testId) : entries;
+}
+
+/**
+ * Stores the latest snapshot of an attempt (answers are full snapshots, so only the newest is kept).
+ * A buffered submit is never replaced by a later autosave.
+ * @returns The stored entry, or null when IndexedDB is unavailable
+ */
+export async function bufferAttempt(entry: Omit<BufferedAttempt, 'bufferedAt'>): Promise<BufferedAttempt | null> {
+  if (!isSupported()) return null;
+
+  const existing = await getBufferedAttempt(entry.attemptId);
+  if (existing?.kind === 'submit' && entry.kind === 'save') return existing;
+
+  const buffered = { ...entry, bufferedAt: new Date().toISOString() };
+  await withStore('readwrite', store => store.put(buffered));
+  return buffered;
+}
+
+/**
+ * Removes a buffered snapshot once the server has it
+ * @param bufferedAt - Only remove this snapshot, not one buffered after it was sent
+ */
+export async function clearBufferedAttempt(attemptId: string, bufferedAt?: string): Promise<void> {
+  if (!isSupported()) return;
+
+  const existing = await getBufferedAttempt(attemptId);
+  if (!existing || (bufferedAt && existing.bufferedAt !== bufferedAt)) return;
+
+  await withStore('readwrite', store => store.delete(attemptId));
+}
+
+/**
+ * Registers the service worker that replays buffered requests in the background
+ */
+export async function registerAttemptSyncWorker(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.error('Service Worker registration failed:', error);
+  }
+}
+
+/**
+ * Asks the service worker to replay buffered requests once the connection is back
+ * (browsers without Background Sync rely on the page retrying when it comes back online)
+ */
+export async function requestAttemptSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    await (registration as (ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    }) | undefined)?.sync?.register(ATTEMPT_SYNC_TAG);
+  } catch (error) {
+    console.error('Background sync registration failed:', error);
+  }
+}
+
+/**
+ * Whether a failed fetch never reached the server (offline or dropped connection)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
@@ -1,6 +1,6 @@
 export interface CartItem {
   id: string;
-  type: 'course' | 'book' | 'material' | 'test';
+  type: 'course' | 'book' | 'material' | 'test' | 'test-series';
   title: string;
   price: number;
   description?: string;
@@ -4,6 +4,17 @@
  */
 
 import { Types } from 'mongoose';
+import { MarkingScheme, QuestionType, resolveMarkingScheme, getQuestionMarks } from './test-scoring';
+import {
+  validateMarkingScheme,
+  validateQuestionAnswer,
+  validateQuestionTranslation,
+  validateQuestionContent,
+  validateAttemptPolicy,
+  validateTestSchedule,
+  QuestionTranslation,
+} from './test-utils';
+import { validateCutoffs } from './test-cutoffs';
 
 export interface CourseContentDelivery {
   _id: string;
@@ -67,10 +78,17 @@ export interface QuestionContentDelivery {
   _id: string;
   text: string;
   options: string[];
-  correctAnswer: number;
+  correctAnswer?: number; // answer key and explanations are left out of tests for students
+  correctAnswers?: number[];
+  numericAnswer?: number;
+  tolerance?: number;
+  matchItems?: string[];
+  correctMatches?: number[];
+  reason?: string;
   explanation?: string;
+  hindi?: QuestionTranslation;
   marks: number;
-  type: 'mcq' | 'multiple' | 'true-false';
+  type: QuestionType;
 }
 
 export interface TestContentDelivery {
@@ -81,6 +99,9 @@ export interface TestContentDelivery {
   price: number;
   isActive: boolean;
   sections: TestSectionContentDelivery[];
+  markingScheme: MarkingScheme;
+  sectionalTiming: boolean;
+  evaluateMarkedAnswers: boolean;
   totalQuestions: number;
   totalMarks: number;
   createdAt: string;
@@ -92,6 +113,7 @@ export interface TestSectionContentDelivery {
   title: string;
   questions: QuestionContentDelivery[];
   timeLimit?: number;
+  markingScheme?: Partial<MarkingScheme>; // section override, if any
   totalQuestions: number;
   totalMarks: number;
 }
@@ -219,10 +241,38 @@ export function ensureCompleteCourseDelivery(course: any): CourseContentDelivery
   };
 }
 
+// Fields of a test question that give away its answer; students get them from the results and solutions routes
+const ANSWER_KEY_DELIVERY_FIELDS = ['correctAnswer', 'correctAnswers', 'numericAnswer', 'tolerance', 'correctMatches', 'explanation'];
+
+function withholdQuestionAnswerKey<T extends Record<string, any>>(question: T): T {
+  const withheld: Record<string, any> = Object.fromEntries(
+    Object.entries(question).filter(([field]) => !ANSWER_KEY_DELIVERY_FIELDS.includes(field))
+  );
+  if (question.hindi) {
+    const { explanation, ...hindi } = question.hindi;
+    withheld.hindi = hindi;
+  }
+  return withheld as T;
+}
+
+/**
+ * Removes the answer key and explanations from a stored test for non-admin callers
+ */
+export function withholdTestAnswerKey<T extends { sections?: any[] }>(test: T): T {
+  return {
+    ...test,
+    sections: (test.sections || []).map(section => ({
+      ...section,
+      questions: (section.questions || []).map(withholdQuestionAnswerKey),
+    })),
+  };
+}
+
 /**
  * Ensures complete test content delivery
+ * @param includeAnswerKey - Keep the answer key and explanations (admin callers only)
  */
-export function ensureCompleteTestDelivery(test: any): TestContentDelivery {
+export function ensureCompleteTestDelivery(test: any, includeAnswerKey = false): TestContentDelivery {
   const sections = test.sections || [];
   
   let totalQuestions = 0;
@@ -230,8 +280,9 @@ export function ensureCompleteTestDelivery(test: any): TestContentDelivery {
 
   const completeSections: TestSectionContentDelivery[] = sections.map((section: any) => {
     const questions = section.questions || [];
+    const scheme = resolveMarkingScheme(test, section);
     const sectionQuestions = questions.length;
-    const sectionMarks = questions.reduce((sum: number, q: any) => sum + (q.marks || 1), 0);
+    const sectionMarks = questions.reduce((sum: number, q: any) => sum + getQuestionMarks({ marks: q.marks || 1, resolution: q.resolution }, scheme), 0);
 
     totalQuestions += sectionQuestions;
     totalMarks += sectionMarks;
@@ -239,16 +290,27 @@ export function ensureCompleteTestDelivery(test: any): TestContentDelivery {
     return {
       _id: section._id?.toString() || new Types.ObjectId().toString(),
       title: section.title || 'Untitled Section',
-      questions: questions.map((q: any) => ({
-        _id: q._id?.toString() || new Types.ObjectId().toString(),
-        text: q.text || '',
-        options: q.options || [],
-        correctAnswer: q.correctAnswer || 0,
-        explanation: q.explanation,
-        marks: q.marks || 1,
-        type: q.type || 'mcq',
-      })),
+      questions: questions.map((q: any) => {
+        const question: QuestionContentDelivery = {
+          _id: q._id?.toString() || new Types.ObjectId().toString(),
+          text: q.text || '',
+          options: q.options || [],
+          correctAnswer: q.correctAnswer || 0,
+          correctAnswers: q.correctAnswers || [],
+          numericAnswer: q.numericAnswer,
+          tolerance: q.tolerance || 0,
+          matchItems: q.matchItems || [],
+          correctMatches: q.correctMatches || [],
+          reason: q.reason,
+          explanation: q.explanation,
+          hindi: q.hindi,
+          marks: q.marks || 1,
+          type: q.type || 'mcq',
+        };
+        return includeAnswerKey ? question : withholdQuestionAnswerKey(question);
+      }),
       timeLimit: section.timeLimit,
+      markingScheme: section.markingScheme,
       totalQuestions: sectionQuestions,
       totalMarks: sectionMarks,
     };
@@ -262,6 +324,9 @@ export function ensureCompleteTestDelivery(test: any): TestContentDelivery {
     price: test.price || 0,
     isActive: test.isActive !== false,
     sections: completeSections,
+    markingScheme: resolveMarkingScheme(test),
+    sectionalTiming: !!test.sectionalTiming,
+    evaluateMarkedAnswers: test.evaluateMarkedAnswers !== false,
     totalQuestions,
     totalMarks,
     createdAt: test.createdAt?.toISOString() || new Date().toISOString(),
@@ -329,22 +394,27 @@ export function validateContentCompleteness(content: any, type: 'course' | 'test
       if (!content.title) errors.push('Test title is required');
       if (!content.description) errors.push('Test description is required');
       if (!content.duration || content.duration <= 0) errors.push('Valid test duration is required');
+      errors.push(...validateMarkingScheme(content.markingScheme, 'Marking scheme'));
+      errors.push(...validateAttemptPolicy(content));
+      errors.push(...validateTestSchedule(content));
+      errors.push(...validateCutoffs(content.cutoffs, content.sections));
       if (!content.sections || !Array.isArray(content.sections) || content.sections.length === 0) {
         errors.push('Test must have at least one section');
       } else {
         content.sections.forEach((section: any, sIndex: number) => {
           if (!section.title) errors.push(`Test section ${sIndex + 1} title is required`);
+          errors.push(...validateMarkingScheme(section.markingScheme, `Test section ${sIndex + 1} marking scheme`));
+          if (content.sectionalTiming && (!section.timeLimit || section.timeLimit <= 0)) {
+            errors.push(`Test section ${sIndex + 1} needs a time limit for sectional timing`);
+          }
           if (!section.questions || !Array.isArray(section.questions) || section.questions.length === 0) {
             errors.push(`Test section ${sIndex + 1} must have at least one question`);
           } else {
             section.questions.forEach((question: any, qIndex: number) => {
               if (!question.text) errors.push(`Question ${qIndex + 1} in section ${sIndex + 1} text is required`);
-              if (!question.options || question.options.length < 2) {
-                errors.push(`Question ${qIndex + 1} in section ${sIndex + 1} must have at least 2 options`);
-              }
-              if (question.correctAnswer < 0 || question.correctAnswer >= (question.options?.length || 0)) {
-                errors.push(`Question ${qIndex + 1} in section ${sIndex + 1} has invalid correct answer`);
-              }
+              errors.push(...validateQuestionAnswer(question, `Question ${qIndex + 1} in section ${sIndex + 1}`));
+              errors.push(...validateQuestionTranslation(question, `Question ${qIndex + 1} in section ${sIndex + 1}`));
+              errors.push(...validateQuestionContent(question, `Question ${qIndex + 1} in section ${sIndex + 1}`));
             });
           }
         });
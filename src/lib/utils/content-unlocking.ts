@@ -1,5 +1,6 @@
 import User from '@/models/User';
 import Course from '@/models/Course';
+import TestSeries from '@/models/TestSeries';
 import { IOrder } from '@/models/Order';
 
 export interface ContentUnlockResult {
@@ -105,6 +106,9 @@ async function unlockSingleItem(
     case 'test':
       await unlockTest(userId, itemId);
       break;
+    case 'test-series':
+      await unlockTestSeries(userId, itemId);
+      break;
     default:
       throw new Error(`Unknown item type: ${itemType}`);
   }
@@ -151,6 +155,21 @@ async function unlockTest(userId: string, testId: string): Promise<void> {
   // such as attempt limits or time-based access
 }
 
+/**
+ * Unlock every test in a series for user
+ */
+async function unlockTestSeries(userId: string, seriesId: string): Promise<void> {
+  // Verify series exists
+  const series = await TestSeries.findById(seriesId).select('_id');
+  if (!series) {
+    throw new Error(`Test series not found: ${seriesId}`);
+  }
+
+  // Record the grant; it opens the series tests (on their release dates, enforced when
+  // an attempt is started) and places the user in the series ranking
+  await User.updateOne({ _id: userId }, { $addToSet: { testSeries: series._id } });
+}
+
 /**
  * Check if user has access to specific content
  */
@@ -165,14 +184,21 @@ export async function checkUserAccess(
       return false;
     }
 
+    // Series are unlocked through the grant recorded when their order completed
+    const seriesIds: string[] = (user.testSeries || []).map((id: any) => id.toString());
+    if (itemType === 'test-series') {
+      return seriesIds.includes(itemId);
+    }
+
     // Check if user has purchased any order containing this item
     for (const purchase of user.purchases) {
       if (purchase && typeof purchase === 'object' && 'items' in purchase) {
         const order = purchase as any;
+        if (order.status !== 'completed') continue;
+
         const hasItem = order.items?.some((item: any) => 
           item.type === itemType && 
-          item.itemId.toString() === itemId &&
-          order.status === 'completed'
+          item.itemId.toString() === itemId
         );
         if (hasItem) {
           return true;
@@ -180,6 +206,11 @@ export async function checkUserAccess(
       }
     }
 
+    // Tests are also unlocked by any purchased series that holds them
+    if (itemType === 'test' && seriesIds.length > 0) {
+      return !!(await TestSeries.exists({ _id: { $in: seriesIds }, 'tests.testId': itemId }));
+    }
+
     return false;
   } catch (error) {
     console.error('Error checking user access:', error);
@@ -195,12 +226,14 @@ export async function getUserUnlockedContent(userId: string): Promise<{
   books: string[];
   materials: string[];
   tests: string[];
+  testSeries: string[];
 }> {
   const result = {
     courses: [] as string[],
     books: [] as string[],
     materials: [] as string[],
     tests: [] as string[],
+    testSeries: [] as string[],
   };
 
   try {
@@ -243,6 +276,20 @@ export async function getUserUnlockedContent(userId: string): Promise<{
       }
     }
 
+    // Series come from the grants recorded on unlock; every test in them is unlocked
+    result.testSeries = (user.testSeries || []).map((id: any) => id.toString());
+    if (result.testSeries.length > 0) {
+      const seriesList = await TestSeries.find({ _id: { $in: result.testSeries } }).select('tests').lean();
+      for (const series of seriesList as any[]) {
+        for (const entry of series.tests) {
+          const testId = entry.testId.toString();
+          if (!result.tests.includes(testId)) {
+            result.tests.push(testId);
+          }
+        }
+      }
+    }
+
     return result;
   } catch (error) {
     console.error('Error getting user unlocked content:', error);
@@ -9,7 +9,7 @@ export interface InvoiceData {
     address?: string;
   };
   items: Array<{
-    type: 'course' | 'book' | 'material' | 'test';
+    type: 'course' | 'book' | 'material' | 'test' | 'test-series';
     itemId: string;
     title: string;
     price: number;
@@ -136,6 +136,7 @@ export function initializeCourseProgress(
     })),
     materialsAccessed: [],
     quizzesCompleted: [],
+    quizResults: [],
     completionPercentage: 0,
     isCompleted: false,
     lastAccessedAt: new Date()
@@ -264,8 +265,7 @@ export function markMaterialAccessed(
 export function markQuizCompleted(
   progress: ICourseProgress,
   sectionId: string,
-  quizId: string,
-  score?: number
+  quizId: string
 ): ICourseProgress {
   const sectionProgress = progress.sectionsProgress.find(
     section => section.sectionId.toString() === sectionId
@@ -298,6 +298,71 @@ export function markQuizCompleted(
   return progress;
 }
 
+/**
+ * Grades a quiz submission against the course's answer key, keeps it for the topic-wise profile
+ * and marks the quiz completed. Unanswered questions are stored as skipped so the attempt rate stays honest.
+ */
+export function recordQuizResult(
+  progress: ICourseProgress,
+  course: ICourse,
+  sectionId: string,
+  quizId: string,
+  answers: unknown
+): ICourseProgress {
+  const quiz = course.sections
+    .find(section => section._id.toString() === sectionId)
+    ?.quizzes.find(entry => entry._id.toString() === quizId);
+
+  if (!quiz) {
+    throw new Error('Quiz not found in course');
+  }
+
+  const sectionProgress = progress.sectionsProgress.find(
+    section => section.sectionId.toString() === sectionId
+  );
+
+  if (!sectionProgress) {
+    throw new Error('Section not found in progress');
+  }
+
+  const submitted = new Map<string, any>(
+    (Array.isArray(answers) ? answers : [])
+      .filter((answer: any) => answer?.questionId)
+      .map((answer: any) => [answer.questionId.toString(), answer])
+  );
+
+  let score = 0;
+  let totalMarks = 0;
+  const graded = quiz.questions.map(question => {
+    const answer = submitted.get(question._id.toString());
+    const selectedOption = Number.isInteger(answer?.selectedOption) && answer.selectedOption >= 0
+      ? answer.selectedOption
+      : -1;
+    const isCorrect = selectedOption >= 0 && selectedOption === question.correctAnswer;
+    const timeSpent = Number(answer?.timeSpent);
+
+    totalMarks += question.marks;
+    if (isCorrect) score += question.marks;
+
+    return {
+      questionId: question._id,
+      selectedOption,
+      isCorrect,
+      timeSpent: Number.isFinite(timeSpent) && timeSpent > 0 ? Math.round(timeSpent) : 0
+    };
+  });
+
+  sectionProgress.quizResults.push({
+    quizId: quiz._id,
+    answers: graded,
+    score,
+    totalMarks,
+    completedAt: new Date()
+  });
+
+  return markQuizCompleted(progress, sectionId, quizId);
+}
+
 /**
  * Updates section progress calculation
  */
@@ -0,0 +1,298 @@
+/**
+ * Question Bank Utilities
+ * Links test and course quiz questions to question bank entries and keeps the copies in sync
+ */
+
+import mongoose from 'mongoose';
+import BankQuestion, { IBankQuestion } from '@/models/BankQuestion';
+import MockTest from '@/models/MockTest';
+import Course from '@/models/Course';
+import { QuestionType } from './test-scoring';
+import { validateQuestionAnswer, validateQuestionTranslation, validateQuestionContent } from './test-utils';
+
+// Content copied from the bank into test questions (marks stay per test)
+export const BANK_CONTENT_FIELDS = [
+  'type',
+  'text',
+  'options',
+  'correctAnswer',
+  'correctAnswers',
+  'numericAnswer',
+  'tolerance',
+  'matchItems',
+  'correctMatches',
+  'reason',
+  'explanation',
+  'hindi',
+] as const;
+
+// Course quiz questions only support a single correct option
+export const QUIZ_CONTENT_FIELDS = ['text', 'options', 'correctAnswer', 'explanation'] as const;
+
+export const QUIZ_QUESTION_TYPES: QuestionType[] = ['mcq', 'true-false'];
+
+// Bank-only fields describing where a question comes from
+export const BANK_METADATA_FIELDS = [
+  'marks',
+  'subject',
+  'topic',
+  'subtopic',
+  'difficulty',
+  'examTags',
+  'sourceYear',
+  'language',
+  'isActive',
+] as const;
+
+// Topic tags copied along with the content so linked questions count towards the topic profile
+export const BANK_TOPIC_FIELDS = ['subject', 'topic'] as const;
+
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+type ContentField = typeof BANK_CONTENT_FIELDS[number];
+
+export interface BankQuestionFilters {
+  q?: string;
+  subject?: string;
+  topic?: string;
+  subtopic?: string;
+  difficulty?: string;
+  type?: string;
+  examTag?: string;
+  sourceYear?: number;
+  language?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Picks the writable question bank fields from a request body
+ */
+export function pickBankQuestionFields(body: Record<string, any>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  [...BANK_CONTENT_FIELDS, ...BANK_METADATA_FIELDS].forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+
+  if (typeof fields.examTags === 'string') {
+    fields.examTags = (fields.examTags as string).split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+
+  return fields;
+}
+
+/**
+ * Validates a question bank entry
+ * @param saved - Wording the entry already holds, which is not re-checked
+ * @returns List of validation errors
+ */
+export function validateBankQuestion(data: Record<string, any>, saved?: Set<string>): string[] {
+  const errors: string[] = [];
+
+  if (!data.text?.trim()) errors.push('Question text is required');
+  if (!data.subject?.trim()) errors.push('Subject is required');
+  if (!data.topic?.trim()) errors.push('Topic is required');
+
+  if (data.difficulty !== undefined && !QUESTION_DIFFICULTIES.includes(data.difficulty)) {
+    errors.push('Difficulty must be easy, medium or hard');
+  }
+
+  if (data.marks !== undefined && (typeof data.marks !== 'number' || data.marks <= 0)) {
+    errors.push('Marks must be greater than 0');
+  }
+
+  errors.push(...validateQuestionAnswer(data, 'Question'));
+  errors.push(...validateQuestionTranslation(data, 'Question'));
+  errors.push(...validateQuestionContent(data, 'Question', saved));
+
+  return errors;
+}
+
+/**
+ * Builds a MongoDB query from question bank search filters
+ */
+export function buildBankQuestionQuery(filters: BankQuestionFilters): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+
+  if (filters.q?.trim()) query.$text = { $search: filters.q.trim() };
+  if (filters.subject) query.subject = filters.subject;
+  if (filters.topic) query.topic = filters.topic;
+  if (filters.subtopic) query.subtopic = filters.subtopic;
+  if (filters.difficulty) query.difficulty = filters.difficulty;
+  if (filters.type) query.type = filters.type;
+  if (filters.examTag) query.examTags = filters.examTag;
+  if (filters.sourceYear) query.sourceYear = filters.sourceYear;
+  if (filters.language) query.language = filters.language;
+  if (filters.isActive !== undefined) query.isActive = filters.isActive;
+
+  return query;
+}
+
+/**
+ * Extracts the shareable content of a bank question, with its topic tags
+ */
+export function getBankQuestionContent(
+  bankQuestion: Partial<IBankQuestion>,
+  fields: readonly ContentField[] = BANK_CONTENT_FIELDS
+): Record<string, unknown> {
+  return Object.fromEntries([...fields, ...BANK_TOPIC_FIELDS].map(field => [field, bankQuestion[field]]));
+}
+
+async function loadBankQuestions(questions: any[]): Promise<Map<string, IBankQuestion>> {
+  const ids = Array.from(new Set(
+    questions
+      .map(question => question?.bankQuestionId?.toString())
+      .filter((id): id is string => !!id && mongoose.Types.ObjectId.isValid(id))
+  ));
+
+  if (ids.length === 0) return new Map();
+
+  const bankQuestions: IBankQuestion[] = await BankQuestion.find({ _id: { $in: ids } }).lean();
+  return new Map(bankQuestions.map(question => [question._id.toString(), question]));
+}
+
+function linkQuestion(
+  question: any,
+  bankQuestions: Map<string, IBankQuestion>,
+  label: string,
+  errors: string[],
+  quiz: boolean
+) {
+  if (!question?.bankQuestionId) return question;
+
+  const bankQuestion = bankQuestions.get(question.bankQuestionId.toString());
+  if (!bankQuestion) {
+    errors.push(`${label}: Question bank entry not found`);
+    return question;
+  }
+
+  if (quiz && !QUIZ_QUESTION_TYPES.includes(bankQuestion.type || 'mcq')) {
+    errors.push(`${label}: Course quizzes only support single-correct and true/false bank questions`);
+    return question;
+  }
+
+  return {
+    ...question,
+    ...getBankQuestionContent(bankQuestion, quiz ? QUIZ_CONTENT_FIELDS : BANK_CONTENT_FIELDS),
+    marks: question.marks ?? bankQuestion.marks,
+    bankQuestionId: bankQuestion._id,
+  };
+}
+
+/**
+ * Fills test questions that reference the question bank with the bank's current content
+ * @returns Sections with linked questions resolved, and errors for unknown references
+ */
+export async function resolveTestBankReferences(sections: unknown): Promise<{ sections: any[]; errors: string[] }> {
+  if (!Array.isArray(sections)) return { sections: [], errors: [] };
+
+  const bankQuestions = await loadBankQuestions(sections.flatMap((section: any) => section?.questions || []));
+  const errors: string[] = [];
+
+  const resolved = sections.map((section: any, sectionIndex: number) => ({
+    ...section,
+    questions: (section?.questions || []).map((question: any, questionIndex: number) =>
+      linkQuestion(question, bankQuestions, `Section ${sectionIndex + 1}, Question ${questionIndex + 1}`, errors, false)
+    ),
+  }));
+
+  return { sections: resolved, errors };
+}
+
+/**
+ * Fills course quiz questions that reference the question bank with the bank's current content
+ * @returns Quizzes with linked questions resolved, and errors for unknown or unsupported references
+ */
+export async function resolveQuizBankReferences(quizzes: unknown): Promise<{ quizzes: any[]; errors: string[] }> {
+  if (!Array.isArray(quizzes)) return { quizzes: [], errors: [] };
+
+  const bankQuestions = await loadBankQuestions(quizzes.flatMap((quiz: any) => quiz?.questions || []));
+  const errors: string[] = [];
+
+  const resolved = quizzes.map((quiz: any, quizIndex: number) => ({
+    ...quiz,
+    questions: (quiz?.questions || []).map((question: any, questionIndex: number) =>
+      linkQuestion(question, bankQuestions, `Quiz ${quizIndex + 1}, Question ${questionIndex + 1}`, errors, true)
+    ),
+  }));
+
+  return { quizzes: resolved, errors };
+}
+
+/**
+ * Resolves question bank references in every quiz of a course's sections
+ * @returns Sections with linked quiz questions resolved, and errors for invalid references
+ */
+export async function resolveCourseBankReferences(sections: unknown): Promise<{ sections: any[]; errors: string[] }> {
+  if (!Array.isArray(sections)) return { sections: [], errors: [] };
+
+  const errors: string[] = [];
+  const resolved: any[] = [];
+
+  for (let index = 0; index < sections.length; index++) {
+    const section = sections[index];
+    if (!Array.isArray(section?.quizzes)) {
+      resolved.push(section);
+      continue;
+    }
+
+    const result = await resolveQuizBankReferences(section.quizzes);
+    errors.push(...result.errors.map(error => `Section ${index + 1}, ${error}`));
+    resolved.push({ ...section, quizzes: result.quizzes });
+  }
+
+  return { sections: resolved, errors };
+}
+
+function buildSyncUpdate(content: Record<string, unknown>, pathPrefix: string) {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+
+  Object.entries(content).forEach(([field, value]) => {
+    if (value === undefined || value === null) {
+      $unset[`${pathPrefix}.${field}`] = '';
+    } else {
+      $set[`${pathPrefix}.${field}`] = value;
+    }
+  });
+
+  return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+}
+
+/**
+ * Copies a bank question's content into every test and course quiz question linked to it
+ * @returns Number of tests and courses updated
+ */
+export async function syncBankQuestion(bankQuestion: IBankQuestion): Promise<{ tests: number; courses: number }> {
+  const testResult = await MockTest.updateMany(
+    { 'sections.questions.bankQuestionId': bankQuestion._id },
+    buildSyncUpdate(getBankQuestionContent(bankQuestion), 'sections.$[].questions.$[question]'),
+    { arrayFilters: [{ 'question.bankQuestionId': bankQuestion._id }] }
+  );
+
+  let courses = 0;
+  if (QUIZ_QUESTION_TYPES.includes(bankQuestion.type || 'mcq')) {
+    const courseResult = await Course.updateMany(
+      { 'sections.quizzes.questions.bankQuestionId': bankQuestion._id },
+      buildSyncUpdate(
+        getBankQuestionContent(bankQuestion, QUIZ_CONTENT_FIELDS),
+        'sections.$[].quizzes.$[].questions.$[question]'
+      ),
+      { arrayFilters: [{ 'question.bankQuestionId': bankQuestion._id }] }
+    );
+    courses = courseResult.modifiedCount;
+  }
+
+  return { tests: testResult.modifiedCount, courses };
+}
+
+/**
+ * Counts the tests and courses that use a bank question
+ */
+export async function countBankQuestionUsage(bankQuestionId: string | mongoose.Types.ObjectId) {
+  const [tests, courses] = await Promise.all([
+    MockTest.countDocuments({ 'sections.questions.bankQuestionId': bankQuestionId }),
+    Course.countDocuments({ 'sections.quizzes.questions.bankQuestionId': bankQuestionId }),
+  ]);
+
+  return { tests, courses };
+}
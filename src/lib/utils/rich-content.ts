@@ -0,0 +1,483 @@
+/**
+ * Rich Question Content Utilities
+ * Parses the markup allowed in question text, options and explanations and renders it as safe HTML.
+ * Supported: images ![alt](url), pipe tables, and LaTeX-style math ($inline$, $$display$$) rendered as MathML.
+ * A $ only opens math when it pairs with the next unescaped $; inline math must hug its formula
+ * ($x$, not $ x $) and may not close right before a digit, so prices such as $5 and $10 stay text.
+ * \$ is always a literal dollar sign.
+ */
+
+export type RichInline =
+  | { type: 'text'; text: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'image'; src: string; alt: string };
+
+export type RichBlock =
+  | { type: 'paragraph'; content: RichInline[] }
+  | { type: 'table'; header: RichInline[][] | null; rows: RichInline[][][] };
+
+export interface RichContentRenderOptions {
+  inline?: boolean; // options and match items: no paragraph wrappers
+}
+
+// Styles are inlined so the same HTML renders identically in the app and in printed papers
+const TABLE_STYLE = 'border-collapse:collapse;margin:0.5em 0;font-size:0.95em';
+const CELL_STYLE = 'border:1px solid #d1d5db;padding:0.25em 0.6em;text-align:left';
+const IMAGE_STYLE = 'max-width:100%;height:auto;display:inline-block;vertical-align:middle';
+
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\(([^)\s]+)\)/;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Whether an image URL may be embedded (http(s) or a site-relative path)
+ */
+export function isSafeImageUrl(url: string): boolean {
+  return /^(https?:\/\/|\/(?!\/))[^\s"'<>]*$/i.test(url);
+}
+
+// ---------------------------------------------------------------------------
+// Math (a LaTeX subset converted to MathML, which browsers render natively)
+// ---------------------------------------------------------------------------
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+};
+
+const OPERATORS: Record<string, string> = {
+  times: '×', div: '÷', pm: '±', mp: '∓', cdot: '⋅', ast: '∗', circ: '∘', degree: '°',
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', cong: '≅',
+  propto: '∝', infty: '∞', angle: '∠', triangle: '△', perp: '⊥', parallel: '∥', therefore: '∴', because: '∵',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔', Leftrightarrow: '⇔',
+  sum: '∑', prod: '∏', int: '∫', partial: '∂', nabla: '∇', in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆',
+  supset: '⊃', cup: '∪', cap: '∩', emptyset: '∅', forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨',
+  ldots: '…', cdots: '⋯', prime: '′', langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+};
+
+const FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'log', 'ln', 'exp', 'lim', 'max', 'min', 'gcd', 'det'];
+
+const SPACES: Record<string, string> = { ',': '0.17em', ':': '0.22em', ';': '0.28em', ' ': '0.25em', quad: '1em', qquad: '2em' };
+
+const ACCENTS: Record<string, string> = { overline: '¯', bar: '¯', vec: '→', hat: '^', dot: '˙' };
+
+interface TexState {
+  src: string;
+  pos: number;
+  errors: string[];
+}
+
+const isLetter = (char: string) => /[a-zA-Z]/.test(char);
+
+function skipSpaces(state: TexState) {
+  while (state.pos < state.src.length && /\s/.test(state.src[state.pos])) state.pos++;
+}
+
+function readCommandName(state: TexState): string {
+  state.pos++; // backslash
+  const start = state.pos;
+  if (isLetter(state.src[state.pos] || '')) {
+    while (state.pos < state.src.length && isLetter(state.src[state.pos])) state.pos++;
+  } else {
+    state.pos++;
+  }
+  return state.src.slice(start, state.pos);
+}
+
+// Raw text of a {...} argument (for \text), with nested braces kept
+function readRawGroup(state: TexState): string {
+  skipSpaces(state);
+  if (state.src[state.pos] !== '{') return '';
+
+  let depth = 0;
+  const start = state.pos + 1;
+  for (; state.pos < state.src.length; state.pos++) {
+    if (state.src[state.pos] === '{') depth++;
+    if (state.src[state.pos] === '}' && --depth === 0) {
+      state.pos++;
+      return state.src.slice(start, state.pos - 1);
+    }
+  }
+
+  state.errors.push('Missing closing brace in math');
+  return state.src.slice(start);
+}
+
+function parseArgument(state: TexState): string {
+  skipSpaces(state);
+  if (state.src[state.pos] === '{') {
+    state.pos++;
+    const row = parseRow(state, '}');
+    state.pos++; // closing brace (parseRow reports it when missing)
+    return `<mrow>${row}</mrow>`;
+  }
+
+  const atom = parseAtom(state, true);
+  if (atom === null) {
+    state.errors.push('Missing argument in math');
+    return '<mrow></mrow>';
+  }
+  return atom;
+}
+
+function parseDelimiter(state: TexState): string {
+  skipSpaces(state);
+  const char = state.src[state.pos];
+  if (char === undefined) return '';
+
+  if (char === '\\') {
+    const name = readCommandName(state);
+    if (name === '{' || name === '}' || name === '|') return `<mo>${escapeHtml(name === '|' ? '‖' : name)}</mo>`;
+    if (OPERATORS[name]) return `<mo>${OPERATORS[name]}</mo>`;
+    state.errors.push(`Unsupported math delimiter \\${name}`);
+    return '';
+  }
+
+  state.pos++;
+  return char === '.' ? '' : `<mo>${escapeHtml(char)}</mo>`;
+}
+
+function parseCommand(state: TexState): string {
+  const name = readCommandName(state);
+
+  switch (name) {
+    case 'frac':
+    case 'dfrac':
+    case 'tfrac':
+      return `<mfrac>${parseArgument(state)}${parseArgument(state)}</mfrac>`;
+    case 'sqrt': {
+      skipSpaces(state);
+      if (state.src[state.pos] === '[') {
+        state.pos++;
+        const index = parseRow(state, ']');
+        state.pos++;
+        return `<mroot>${parseArgument(state)}<mrow>${index}</mrow></mroot>`;
+      }
+      return `<msqrt>${parseArgument(state)}</msqrt>`;
+    }
+    case 'text':
+    case 'textrm':
+    case 'mathrm':
+      return `<mtext>${escapeHtml(readRawGroup(state))}</mtext>`;
+    case 'left':
+    case 'right':
+      return parseDelimiter(state);
+    case '\\':
+      return '<mspace linebreak="newline"/>';
+    case '{':
+    case '}':
+    case '%':
+    case '$':
+    case '&':
+    case '#':
+    case '_':
+    case '|':
+      return `<mo>${escapeHtml(name)}</mo>`;
+  }
+
+  if (ACCENTS[name]) return `<mover accent="true">${parseArgument(state)}<mo>${ACCENTS[name]}</mo></mover>`;
+  if (SPACES[name]) return `<mspace width="${SPACES[name]}"/>`;
+  if (GREEK[name]) return `<mi>${GREEK[name]}</mi>`;
+  if (OPERATORS[name]) return `<mo>${OPERATORS[name]}</mo>`;
+  if (FUNCTIONS.includes(name)) return `<mi>${name}</mi>`;
+
+  state.errors.push(`Unsupported math command \\${name}`);
+  return `<mtext>\\${escapeHtml(name)}</mtext>`;
+}
+
+/**
+ * Parses one base (number, letter, operator, group or command)
+ * @param single - Only take one character of a number (script arguments such as x^23)
+ * @returns MathML, or null at the end of the input or of the enclosing group
+ */
+function parseAtom(state: TexState, single = false): string | null {
+  skipSpaces(state);
+  const char = state.src[state.pos];
+  if (char === undefined || char === '}') return null;
+
+  if (char === '{') {
+    state.pos++;
+    const row = parseRow(state, '}');
+    state.pos++;
+    return `<mrow>${row}</mrow>`;
+  }
+
+  if (char === '\\') return parseCommand(state);
+
+  if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(state.src[state.pos + 1] || ''))) {
+    const number = single ? char : state.src.slice(state.pos).match(/^[0-9]*\.?[0-9]+/)![0];
+    state.pos += number.length;
+    return `<mn>${number}</mn>`;
+  }
+
+  state.pos++;
+  return isLetter(char) ? `<mi>${char}</mi>` : `<mo>${escapeHtml(char)}</mo>`;
+}
+
+/**
+ * Parses a sequence of atoms with their sub/superscripts until the closer or the end
+ */
+function parseRow(state: TexState, closer?: '}' | ']'): string {
+  let row = '';
+
+  for (;;) {
+    skipSpaces(state);
+    const char = state.src[state.pos];
+
+    if (char === undefined) {
+      if (closer) state.errors.push(closer === '}' ? 'Missing closing brace in math' : 'Missing closing bracket in math');
+      return row;
+    }
+    if (char === closer) return row;
+    if (char === '}') {
+      state.errors.push('Unexpected closing brace in math');
+      state.pos++;
+      continue;
+    }
+
+    const base = char === '^' || char === '_' ? '<mrow></mrow>' : parseAtom(state);
+    if (base === null) return row;
+
+    let sub: string | null = null;
+    let sup: string | null = null;
+    for (;;) {
+      skipSpaces(state);
+      const script = state.src[state.pos];
+      if (script === '^' && sup === null) {
+        state.pos++;
+        sup = parseArgument(state);
+      } else if (script === '_' && sub === null) {
+        state.pos++;
+        sub = parseArgument(state);
+      } else {
+        break;
+      }
+    }
+
+    if (sub !== null && sup !== null) row += `<msubsup>${base}${sub}${sup}</msubsup>`;
+    else if (sup !== null) row += `<msup>${base}${sup}</msup>`;
+    else if (sub !== null) row += `<msub>${base}${sub}</msub>`;
+    else row += base;
+  }
+}
+
+/**
+ * Converts LaTeX-style math to MathML
+ * @returns MathML markup, and errors for unsupported or malformed input
+ */
+export function texToMathML(tex: string, display = false): { html: string; errors: string[] } {
+  const state: TexState = { src: tex, pos: 0, errors: [] };
+  const row = parseRow(state);
+  const html = `<math xmlns="http://www.w3.org/1998/Math/MathML"${display ? ' display="block"' : ''}>`
+    + `<semantics><mrow>${row}</mrow><annotation encoding="application/x-tex">${escapeHtml(tex)}</annotation></semantics></math>`;
+
+  return { html, errors: state.errors };
+}
+
+// ---------------------------------------------------------------------------
+// Markup parsing
+// ---------------------------------------------------------------------------
+
+// Index of the next unescaped delimiter, or -1
+function findClosingDollar(text: string, from: number, delimiter: string): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (text.startsWith(delimiter, index)) return index;
+  }
+  return -1;
+}
+
+// Whether a $...$ pair holds math rather than two dollar amounts ($$...$$ always does)
+function isMathPair(text: string, start: number, end: number, delimiter: string): boolean {
+  if (delimiter === '$$') return true;
+
+  const tex = text.slice(start + 1, end);
+  return /^\S/.test(tex) && /\S$/.test(tex) && !/[0-9]/.test(text[end + 1] || '');
+}
+
+/**
+ * Splits a run of text into plain text, math and images. A $ without a math pair is plain text.
+ */
+function parseInline(text: string): RichInline[] {
+  const content: RichInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) content.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (char === '\\' && text[index + 1] === '$') {
+      buffer += '$';
+      index++;
+      continue;
+    }
+
+    if (char === '$') {
+      const delimiter = text[index + 1] === '$' ? '$$' : '$';
+      const end = findClosingDollar(text, index + delimiter.length, delimiter);
+      if (end === -1 || !isMathPair(text, index, end, delimiter)) {
+        buffer += char;
+        continue;
+      }
+
+      flush();
+      content.push({ type: 'math', tex: text.slice(index + delimiter.length, end).trim(), display: delimiter === '$$' });
+      index = end + delimiter.length - 1;
+      continue;
+    }
+
+    if (char === '!' && text[index + 1] === '[') {
+      const match = text.slice(index).match(IMAGE_PATTERN);
+      if (match) {
+        flush();
+        content.push({ type: 'image', alt: match[1], src: match[2] });
+        index += match[0].length - 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+  }
+
+  flush();
+  return content;
+}
+
+const isTableLine = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+
+// Cells are separated by unescaped pipes; \| keeps a literal pipe (e.g. |x| inside a table)
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim());
+
+/**
+ * Parses rich content markup into blocks
+ * @returns Paragraphs and tables
+ */
+export function parseRichContent(text: string): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  const lines = (text || '').replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const joined = paragraph.join('\n').trim();
+    if (joined) blocks.push({ type: 'paragraph', content: parseInline(joined) });
+    paragraph = [];
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    if (!isTableLine(lines[index])) {
+      if (lines[index].trim()) paragraph.push(lines[index]);
+      else flushParagraph();
+      continue;
+    }
+
+    flushParagraph();
+    const tableLines: string[] = [];
+    while (index < lines.length && isTableLine(lines[index])) tableLines.push(lines[index++]);
+    index--;
+
+    const hasHeader = tableLines.length > 1 && TABLE_SEPARATOR_PATTERN.test(tableLines[1].trim());
+    const toCells = (line: string) => splitTableRow(line).map(cell => parseInline(cell));
+
+    blocks.push({
+      type: 'table',
+      header: hasHeader ? toCells(tableLines[0]) : null,
+      rows: tableLines.slice(hasHeader ? 2 : 0).map(toCells),
+    });
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function renderInline(content: RichInline[]): string {
+  return content.map(node => {
+    switch (node.type) {
+      case 'math':
+        return texToMathML(node.tex, node.display).html;
+      case 'image':
+        return isSafeImageUrl(node.src)
+          ? `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}" loading="lazy" style="${IMAGE_STYLE}">`
+          : escapeHtml(node.alt);
+      default:
+        return escapeHtml(node.text).replace(/\n/g, '<br>');
+    }
+  }).join('');
+}
+
+function renderTable(block: Extract<RichBlock, { type: 'table' }>): string {
+  const renderRow = (cells: RichInline[][], tag: 'th' | 'td') =>
+    `<tr>${cells.map(cell => `<${tag} style="${CELL_STYLE}">${renderInline(cell)}</${tag}>`).join('')}</tr>`;
+
+  return `<table style="${TABLE_STYLE}">`
+    + (block.header ? `<thead>${renderRow(block.header, 'th')}</thead>` : '')
+    + `<tbody>${block.rows.map(row => renderRow(row, 'td')).join('')}</tbody></table>`;
+}
+
+/**
+ * Renders rich content markup as HTML (all text is escaped; only generated tags are emitted)
+ */
+export function renderRichContent(text: string, options: RichContentRenderOptions = {}): string {
+  return parseRichContent(text).map(block => {
+    if (block.type === 'table') return renderTable(block);
+    const html = renderInline(block.content);
+    return options.inline ? html : `<p style="margin:0 0 0.5em">${html}</p>`;
+  }).join(options.inline ? '<br>' : '');
+}
+
+/**
+ * Flattens rich content to plain text (reports, CSV and other text-only views)
+ */
+export function richContentToPlainText(text: string): string {
+  const flatten = (content: RichInline[]) => content
+    .map(node => (node.type === 'text' ? node.text : node.type === 'math' ? node.tex : `[${node.alt || 'image'}]`))
+    .join('');
+
+  return parseRichContent(text)
+    .map(block => (block.type === 'table'
+      ? [block.header, ...block.rows].filter(Boolean).map(row => row!.map(flatten).join(' | ')).join('\n')
+      : flatten(block.content)))
+    .join('\n');
+}
+
+/**
+ * Validates rich content markup
+ * @returns Distinct error messages (malformed or unsupported math, unsafe image URLs)
+ */
+export function validateRichContent(text: string | undefined): string[] {
+  if (!text) return [];
+
+  const errors: string[] = [];
+  const inlines = parseRichContent(text).flatMap(block => (block.type === 'table'
+    ? [...(block.header || []), ...block.rows.flat()].flat()
+    : block.content));
+
+  inlines.forEach(node => {
+    if (node.type === 'math') errors.push(...texToMathML(node.tex).errors);
+    if (node.type === 'image' && !isSafeImageUrl(node.src)) {
+      errors.push('Images must use an http(s) or site-relative URL');
+    }
+  });
+
+  return Array.from(new Set(errors));
+}
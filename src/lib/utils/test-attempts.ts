@@ -0,0 +1,1070 @@
+/**
+ * Test Attempt Lifecycle Utilities
+ * Creates server-side attempt papers, autosaves answers and finalises attempts
+ */
+
+import mongoose from 'mongoose';
+import MockTest, { TestAttempt, ITestAttempt, IAnswer, AutoSubmitReason, AttemptMode } from '@/models/MockTest';
+import {
+  Answer,
+  QuestionTiming,
+  ScoringResult,
+  TimeAnalysis,
+  QuestionTimeEntry,
+  isAnswered,
+  calculateTestScore,
+  analyzeQuestionTimes,
+  generatePerformanceAnalytics,
+  resolveMarkingScheme,
+  getQuestionMarks,
+  getNegativeMarks,
+  evaluateAnswer,
+  AnswerOutcome,
+} from './test-scoring';
+import { shuffleArray, hasShuffleableOptions } from './test-utils';
+import { getScheduleStatus, getEntryError, areResultsReleased } from './test-schedule';
+
+// Submissions arriving shortly after the deadline still count (network latency)
+export const SUBMISSION_GRACE_SECONDS = 60;
+
+// Submits buffered on a device that lost its connection still count as the student's own if they reach us
+// this long after the deadline; they only confirm the answers the server already holds from autosave
+export const OFFLINE_SUBMIT_WINDOW_MINUTES = 30;
+
+export interface AttemptPaperSection {
+  sectionId: mongoose.Types.ObjectId;
+  questions: Array<{
+    questionId: mongoose.Types.ObjectId;
+    optionOrder: number[];
+  }>;
+  closedAt?: Date;
+}
+
+export interface SectionWindow {
+  sectionId: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// A section window as sent to the client
+export type SerializedSectionWindow = Omit<SectionWindow, 'startsAt' | 'endsAt'> & {
+  startsAt: string;
+  endsAt: string;
+};
+
+export interface QuestionStates {
+  visitedQuestionIds: string[];
+  markedQuestionIds: string[]; // marked for review
+  timings: QuestionTiming[]; // cumulative time and visits per question
+}
+
+export interface AttemptEligibility {
+  attemptsUsed: number;
+  attemptsRemaining: number | null; // null when attempts are unlimited
+  nextAttemptAt: Date | null; // when the retake cooldown ends
+  canStart: boolean;
+  reason?: string;
+}
+
+export interface PracticeFeedback {
+  questionId: string;
+  outcome: AnswerOutcome;
+  marksAwarded: number;
+  correctOption: number; // displayed order
+  correctOptions: number[];
+  correctNumericAnswer?: number;
+  tolerance: number;
+  correctMatches: number[];
+  explanation?: string;
+  hindiExplanation?: string;
+}
+
+export interface AttemptFinalizeOptions {
+  answers?: Answer[];
+  endTime?: Date;
+  autoSubmitted?: boolean;
+  autoSubmitReason?: AutoSubmitReason; // defaults to 'time' for auto-submitted attempts
+}
+
+export interface FinalizedAttempt {
+  attempt: ITestAttempt;
+  scoringResult: ScoringResult;
+  analytics: ReturnType<typeof generatePerformanceAnalytics>;
+  timeAnalysis: TimeAnalysis;
+}
+
+/**
+ * Creates a per-attempt permutation of questions and options
+ * @param random - Seeded source for a repeatable permutation (printed paper sets)
+ */
+export function createAttemptPaper(test: any, random: () => number = Math.random): AttemptPaperSection[] {
+  return (test.sections || []).map((section: any) => ({
+    sectionId: section._id,
+    questions: shuffleArray<any>(section.questions || [], random).map((question: any) => {
+      const optionOrder = (question.options || []).map((_: string, index: number) => index);
+      return {
+        questionId: question._id,
+        optionOrder: hasShuffleableOptions(question.type) ? shuffleArray<number>(optionOrder, random) : optionOrder,
+      };
+    }),
+  }));
+}
+
+/**
+ * Hindi wording of a question in the attempt's option order
+ * @returns Translation, or undefined when the question has no Hindi version
+ */
+export function getPaperTranslation(question: any, optionOrder: number[], withExplanation = false) {
+  const hindi = question.hindi;
+  if (!hindi?.text) return undefined;
+
+  // Untranslated options and items fall back to the English wording
+  const translate = (translated: string[] | undefined, original: string[] = []) =>
+    translated?.length === original.length ? original.map((text, index) => translated[index] || text) : original;
+  const options = translate(hindi.options, question.options);
+
+  return {
+    text: hindi.text,
+    options: optionOrder.map(index => options[index]),
+    matchItems: translate(hindi.matchItems, question.matchItems),
+    reason: hindi.reason,
+    ...(withExplanation && { explanation: hindi.explanation }),
+  };
+}
+
+/**
+ * Correct answer of a question in the option order the student saw
+ */
+export function getDisplayedKey(question: any, optionOrder: number[]) {
+  const toDisplayed = (option: number) => option >= 0 ? optionOrder.indexOf(option) : -1;
+
+  return {
+    toDisplayed,
+    correctOption: toDisplayed(question.correctAnswer ?? -1),
+    correctOptions: (question.correctAnswers || []).map(toDisplayed).sort((a: number, b: number) => a - b),
+    correctNumericAnswer: question.numericAnswer,
+    tolerance: question.tolerance || 0,
+    correctMatches: (question.correctMatches || []).map(toDisplayed),
+  };
+}
+
+/**
+ * Builds the client-facing paper for an attempt (correct answers excluded).
+ * Practice attempts have no overall or sectional timer and are not proctored.
+ */
+export function buildAttemptPaper(test: any, paper: AttemptPaperSection[], mode: AttemptMode = 'exam') {
+  const practice = mode === 'practice';
+  const sectionsById = new Map<string, any>(
+    (test.sections || []).map((section: any) => [section._id.toString(), section])
+  );
+
+  let totalMarks = 0;
+
+  const sections = paper
+    .map(paperSection => {
+      const section = sectionsById.get(paperSection.sectionId.toString());
+      if (!section) return null;
+
+      const scheme = resolveMarkingScheme(test, section);
+      const questionsById = new Map<string, any>(
+        section.questions.map((question: any) => [question._id.toString(), question])
+      );
+
+      const questions = paperSection.questions
+        .map(paperQuestion => {
+          const question = questionsById.get(paperQuestion.questionId.toString());
+          if (!question) return null;
+
+          const marks = getQuestionMarks(question, scheme);
+          totalMarks += marks;
+
+          return {
+            _id: question._id,
+            type: question.type || 'mcq',
+            text: question.text,
+            options: paperQuestion.optionOrder.map(index => question.options[index]),
+            matchItems: question.matchItems || [],
+            reason: question.reason,
+            hindi: getPaperTranslation(question, paperQuestion.optionOrder),
+            marks,
+            negativeMarks: getNegativeMarks(question, scheme),
+            // Note: correctAnswer is excluded for security
+          };
+        })
+        .filter(Boolean);
+
+      return {
+        _id: section._id,
+        title: section.title,
+        timeLimit: section.timeLimit,
+        markingScheme: scheme,
+        questions,
+      };
+    })
+    .filter(Boolean);
+
+  return {
+    _id: test._id,
+    title: test.title,
+    description: test.description,
+    duration: getTestDuration(test),
+    totalMarks,
+    markingScheme: resolveMarkingScheme(test),
+    sectionalTiming: !practice && !!test.sectionalTiming,
+    evaluateMarkedAnswers: test.evaluateMarkedAnswers !== false,
+    proctored: !practice && !!test.proctored,
+    maxViolations: !practice && test.proctored ? test.maxViolations || 0 : 0,
+    mode,
+    practiceQuestionSeconds: practice ? test.practiceQuestionSeconds || 0 : 0,
+    sections,
+  };
+}
+
+/**
+ * Computes the deadline for an attempt started at the given time
+ * @param endsAt - End of a scheduled test; late starters get less time
+ */
+export function getAttemptDeadline(startedAt: Date, durationMinutes: number, endsAt?: Date | null): Date {
+  const deadline = new Date(startedAt.getTime() + durationMinutes * 60 * 1000);
+  return endsAt && new Date(endsAt) < deadline ? new Date(endsAt) : deadline;
+}
+
+/**
+ * Effective test duration in minutes (sum of section limits in sectional mode)
+ */
+export function getTestDuration(test: any): number {
+  if (!test.sectionalTiming) return test.duration;
+  return (test.sections || []).reduce((total: number, section: any) => total + (section.timeLimit || 0), 0);
+}
+
+/**
+ * Computes each section's time window for a sectionally timed attempt.
+ * A section opens when the previous one closes, either early (student moved on) or on expiry.
+ * @returns Windows in paper order, or an empty array when the test is not sectionally timed
+ *   or the attempt is a practice attempt
+ */
+export function getSectionWindows(
+  test: any,
+  attempt: Pick<ITestAttempt, 'startedAt' | 'paper'> & Partial<Pick<ITestAttempt, 'mode'>>
+): SectionWindow[] {
+  if (!test.sectionalTiming || attempt.mode === 'practice') return [];
+
+  const limits = new Map<string, number>(
+    (test.sections || []).map((section: any) => [section._id.toString(), section.timeLimit || 0])
+  );
+
+  const windows: SectionWindow[] = [];
+  let cursor = new Date(attempt.startedAt);
+
+  for (const paperSection of attempt.paper) {
+    const sectionId = paperSection.sectionId.toString();
+    const naturalEnd = new Date(cursor.getTime() + (limits.get(sectionId) || 0) * 60 * 1000);
+    const closedAt = paperSection.closedAt ? new Date(paperSection.closedAt) : undefined;
+    const endsAt = closedAt && closedAt < naturalEnd ? closedAt : naturalEnd;
+
+    windows.push({ sectionId, startsAt: cursor, endsAt });
+    cursor = endsAt;
+  }
+
+  return windows;
+}
+
+/**
+ * Index of the section currently open (windows.length when every section has closed)
+ */
+export function getCurrentSectionIndex(windows: SectionWindow[], now: Date = new Date()): number {
+  const index = windows.findIndex(window => window.endsAt > now);
+  return index === -1 ? windows.length : index;
+}
+
+// Sections accepting changes right now (null when the test is not sectionally timed)
+function getOpenSectionIds(test: any, attempt: ITestAttempt, now: Date): Set<string> | null {
+  const windows = getSectionWindows(test, attempt);
+  if (windows.length === 0) return null;
+
+  const openSectionIds = new Set<string>();
+  windows.forEach((window, index) => {
+    const paperSection = attempt.paper[index];
+    const grace = paperSection.closedAt ? 0 : SUBMISSION_GRACE_SECONDS * 1000;
+    if (window.startsAt <= now && now.getTime() <= window.endsAt.getTime() + grace) {
+      openSectionIds.add(window.sectionId);
+    }
+  });
+
+  return openSectionIds;
+}
+
+function getSectionOfQuestion(paper: AttemptPaperSection[]): Map<string, string> {
+  const sectionOfQuestion = new Map<string, string>();
+  paper.forEach(section => section.questions.forEach(question => {
+    sectionOfQuestion.set(question.questionId.toString(), section.sectionId.toString());
+  }));
+  return sectionOfQuestion;
+}
+
+/**
+ * Accepts answers only for the section that is currently open; locked and
+ * not-yet-started sections keep their previously saved answers
+ * @returns Merged answers and the ids of questions whose submitted answers were rejected
+ */
+export function mergeSectionalAnswers(
+  test: any,
+  attempt: ITestAttempt,
+  submitted: Answer[],
+  now: Date = new Date()
+): { accepted: Answer[]; rejectedQuestionIds: string[] } {
+  const openSectionIds = getOpenSectionIds(test, attempt, now);
+  if (!openSectionIds) {
+    return { accepted: submitted, rejectedQuestionIds: [] };
+  }
+
+  const sectionOfQuestion = getSectionOfQuestion(attempt.paper);
+
+  const merged = new Map<string, Answer>();
+  getStoredAnswers(attempt).forEach(answer => {
+    if (!openSectionIds.has(sectionOfQuestion.get(answer.questionId) || '')) {
+      merged.set(answer.questionId, answer);
+    }
+  });
+
+  const rejectedQuestionIds: string[] = [];
+  for (const answer of submitted) {
+    if (openSectionIds.has(sectionOfQuestion.get(answer.questionId) || '')) {
+      merged.set(answer.questionId, answer);
+    } else {
+      const saved = merged.get(answer.questionId);
+      if (!saved || !isSameAnswer(saved, answer)) {
+        rejectedQuestionIds.push(answer.questionId);
+      }
+    }
+  }
+
+  return { accepted: Array.from(merged.values()), rejectedQuestionIds };
+}
+
+/**
+ * Closes the currently open section so the next one starts immediately
+ * @returns false when there is no open section left
+ */
+export function closeCurrentSection(test: any, attempt: ITestAttempt, now: Date = new Date()): boolean {
+  const windows = getSectionWindows(test, attempt);
+  const currentIndex = getCurrentSectionIndex(windows, now);
+  if (currentIndex >= windows.length) return false;
+
+  attempt.paper[currentIndex].closedAt = now;
+  attempt.markModified('paper');
+  return true;
+}
+
+/**
+ * Checks whether an attempt's deadline (plus optional grace) has passed
+ */
+export function isAttemptExpired(
+  attempt: Pick<ITestAttempt, 'deadline'>,
+  now: Date = new Date(),
+  graceSeconds: number = 0
+): boolean {
+  if (!attempt.deadline) return false;
+  return now.getTime() > new Date(attempt.deadline).getTime() + graceSeconds * 1000;
+}
+
+/**
+ * Whether a late submit was buffered on the student's device and still reached us within the offline window.
+ * The device clock is never used for timing: such a submit is scored from the last autosave, in server time.
+ * @param submittedAt - When the client buffered the submit; only sent when replaying one that went unsent,
+ * and it must fall within the attempt's time
+ */
+export function isBufferedLateSubmit(
+  attempt: Pick<ITestAttempt, 'deadline'>,
+  submittedAt: unknown,
+  now: Date = new Date()
+): boolean {
+  if (typeof submittedAt !== 'string' || !attempt.deadline) return false;
+
+  const bufferedAt = new Date(submittedAt).getTime();
+  const deadline = new Date(attempt.deadline).getTime();
+  if (Number.isNaN(bufferedAt) || bufferedAt > deadline + SUBMISSION_GRACE_SECONDS * 1000) return false;
+  if (!isAttemptExpired(attempt, now, SUBMISSION_GRACE_SECONDS)) return false;
+
+  return now.getTime() <= new Date(attempt.deadline).getTime() + OFFLINE_SUBMIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+/**
+ * Converts stored answers to plain answers, dropping unanswered entries
+ */
+export function getStoredAnswers(attempt: Pick<ITestAttempt, 'answers'>): Answer[] {
+  return attempt.answers
+    .map((answer: IAnswer) => ({
+      questionId: answer.questionId.toString(),
+      selectedOption: answer.selectedOption,
+      selectedOptions: Array.from(answer.selectedOptions || []),
+      numericAnswer: answer.numericAnswer ?? undefined,
+      matches: Array.from(answer.matches || []),
+    }))
+    .filter(answer => isAnswered(answer));
+}
+
+function isSameAnswer(a: Answer, b: Answer): boolean {
+  return a.selectedOption === b.selectedOption
+    && a.numericAnswer === b.numericAnswer
+    && [...(a.selectedOptions || [])].sort().join() === [...(b.selectedOptions || [])].sort().join()
+    && (a.matches || []).join() === (b.matches || []).join();
+}
+
+/**
+ * Keeps only well-formed answers for questions on the attempt's paper
+ */
+export function sanitizeAnswers(answers: unknown, paper: AttemptPaperSection[]): Answer[] {
+  if (!Array.isArray(answers)) return [];
+
+  const optionCounts = new Map<string, number>();
+  paper.forEach(section => section.questions.forEach(question => {
+    optionCounts.set(question.questionId.toString(), question.optionOrder.length);
+  }));
+
+  const sanitized = new Map<string, Answer>();
+  for (const answer of answers) {
+    if (!answer || typeof answer.questionId !== 'string') continue;
+
+    const optionCount = optionCounts.get(answer.questionId);
+    if (optionCount === undefined) continue;
+
+    const isOption = (value: unknown): value is number =>
+      Number.isInteger(value) && (value as number) >= 0 && (value as number) < optionCount;
+
+    const sanitizedAnswer: Answer = {
+      questionId: answer.questionId,
+      selectedOption: isOption(answer.selectedOption) ? answer.selectedOption : -1,
+      selectedOptions: Array.isArray(answer.selectedOptions)
+        ? Array.from(new Set<number>(answer.selectedOptions.filter(isOption)))
+        : [],
+      numericAnswer: typeof answer.numericAnswer === 'number' && Number.isFinite(answer.numericAnswer)
+        ? answer.numericAnswer
+        : undefined,
+      matches: Array.isArray(answer.matches)
+        ? answer.matches.map((match: unknown) => isOption(match) ? match : -1)
+        : [],
+    };
+
+    if (isAnswered(sanitizedAnswer)) {
+      sanitized.set(answer.questionId, sanitizedAnswer);
+    }
+  }
+
+  return Array.from(sanitized.values());
+}
+
+function buildOptionOrderMap(paper: AttemptPaperSection[]): Map<string, number[]> {
+  const optionOrders = new Map<string, number[]>();
+  paper.forEach(section => section.questions.forEach(question => {
+    optionOrders.set(question.questionId.toString(), question.optionOrder);
+  }));
+  return optionOrders;
+}
+
+function mapAnswerOptions(answer: Answer, mapOption: (option: number) => number): Answer {
+  return {
+    questionId: answer.questionId,
+    selectedOption: mapOption(answer.selectedOption),
+    selectedOptions: (answer.selectedOptions || []).map(mapOption),
+    numericAnswer: answer.numericAnswer,
+    matches: (answer.matches || []).map(mapOption),
+  };
+}
+
+/**
+ * Translates answers from the option order the student saw to canonical option indices
+ */
+export function toCanonicalAnswers(answers: Answer[], paper: AttemptPaperSection[]): Answer[] {
+  const optionOrders = buildOptionOrderMap(paper);
+
+  return answers.map(answer => {
+    const optionOrder = optionOrders.get(answer.questionId);
+    return mapAnswerOptions(answer, option =>
+      option >= 0 ? optionOrder?.[option] ?? option : option
+    );
+  });
+}
+
+/**
+ * Translates an answer's canonical option indices to the order the student saw
+ */
+export function toDisplayedAnswer(answer: Answer, paper: AttemptPaperSection[]): Answer {
+  const optionOrder = buildOptionOrderMap(paper).get(answer.questionId);
+
+  return mapAnswerOptions(answer, option => {
+    if (option < 0 || !optionOrder) return option;
+    const displayedOption = optionOrder.indexOf(option);
+    return displayedOption >= 0 ? displayedOption : option;
+  });
+}
+
+/**
+ * Validates submitted answers and converts them to canonical option indices
+ */
+export function resolveSubmittedAnswers(answers: unknown, paper: AttemptPaperSection[]): Answer[] {
+  return toCanonicalAnswers(sanitizeAnswers(answers, paper), paper);
+}
+
+/**
+ * Stores in-progress answers (canonical option indices) on an attempt
+ */
+export function applySavedAnswers(attempt: ITestAttempt, answers: Answer[]): void {
+  writeAnswers(attempt, answers, getStoredTimings(attempt));
+  attempt.lastSavedAt = new Date();
+}
+
+/**
+ * Per-question time and visits recorded on an attempt
+ */
+export function getStoredTimings(attempt: Pick<ITestAttempt, 'answers'>): QuestionTiming[] {
+  return attempt.answers
+    .filter((answer: IAnswer) => answer.timeSpent > 0 || answer.visits > 0)
+    .map((answer: IAnswer) => ({
+      questionId: answer.questionId.toString(),
+      timeSpent: answer.timeSpent || 0,
+      visits: answer.visits || 0,
+    }));
+}
+
+// Questions that were looked at but not answered keep an empty answer entry carrying their timing
+function writeAnswers(attempt: ITestAttempt, answers: Answer[], timings: QuestionTiming[]): void {
+  const timingsById = new Map(timings.map(timing => [timing.questionId, timing]));
+  const answeredIds = new Set(answers.map(answer => answer.questionId));
+
+  attempt.set('answers', [
+    ...answers.map(answer => ({
+      questionId: answer.questionId,
+      selectedOption: answer.selectedOption,
+      selectedOptions: answer.selectedOptions || [],
+      numericAnswer: answer.numericAnswer,
+      matches: answer.matches || [],
+      timeSpent: timingsById.get(answer.questionId)?.timeSpent ?? 0,
+      visits: timingsById.get(answer.questionId)?.visits ?? 0,
+    })),
+    ...timings
+      .filter(timing => !answeredIds.has(timing.questionId))
+      .map(timing => ({
+        questionId: timing.questionId,
+        selectedOption: -1,
+        selectedOptions: [],
+        matches: [],
+        timeSpent: timing.timeSpent,
+        visits: timing.visits,
+      })),
+  ]);
+}
+
+function sanitizeTimings(timings: unknown, sectionOfQuestion: Map<string, string>): QuestionTiming[] {
+  if (!Array.isArray(timings)) return [];
+
+  const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  return timings
+    .filter(timing => timing && typeof timing.questionId === 'string' && sectionOfQuestion.has(timing.questionId))
+    .map(timing => ({
+      questionId: timing.questionId,
+      timeSpent: isCount(timing.timeSpent) ? Math.round(timing.timeSpent) : 0,
+      visits: isCount(timing.visits) ? Math.round(timing.visits) : 0,
+    }));
+}
+
+function sanitizeQuestionIds(ids: unknown, sectionOfQuestion: Map<string, string>): string[] {
+  if (!Array.isArray(ids)) return [];
+  return Array.from(new Set(ids.filter((id): id is string => typeof id === 'string' && sectionOfQuestion.has(id))));
+}
+
+/**
+ * Stores palette states (visited, marked for review) and question timings on an attempt.
+ * Visits accumulate; marks in sections that are already locked keep their saved value.
+ * Timings are cumulative totals from the client: stored values never decrease and no
+ * question can account for more time than has elapsed since the attempt started.
+ */
+export function applyQuestionStates(
+  test: any,
+  attempt: ITestAttempt,
+  states: { visitedQuestionIds?: unknown; markedQuestionIds?: unknown; timings?: unknown },
+  now: Date = new Date()
+): void {
+  const sectionOfQuestion = getSectionOfQuestion(attempt.paper);
+  const openSectionIds = getOpenSectionIds(test, attempt, now);
+  const isOpen = (questionId: string) => !openSectionIds || openSectionIds.has(sectionOfQuestion.get(questionId) || '');
+
+  if (states.visitedQuestionIds !== undefined) {
+    const visited = new Set((attempt.visitedQuestions || []).map(id => id.toString()));
+    sanitizeQuestionIds(states.visitedQuestionIds, sectionOfQuestion)
+      .filter(isOpen)
+      .forEach(id => visited.add(id));
+    attempt.set('visitedQuestions', Array.from(visited));
+  }
+
+  if (states.markedQuestionIds !== undefined) {
+    const marked = new Set(
+      (attempt.markedQuestions || []).map(id => id.toString()).filter(id => !isOpen(id))
+    );
+    sanitizeQuestionIds(states.markedQuestionIds, sectionOfQuestion)
+      .filter(isOpen)
+      .forEach(id => marked.add(id));
+    attempt.set('markedQuestions', Array.from(marked));
+  }
+
+  if (states.timings !== undefined) {
+    const elapsedSeconds = Math.max(0, Math.round((now.getTime() - attempt.startedAt.getTime()) / 1000));
+    const timings = new Map(getStoredTimings(attempt).map(timing => [timing.questionId, timing]));
+
+    sanitizeTimings(states.timings, sectionOfQuestion)
+      .filter(timing => isOpen(timing.questionId))
+      .forEach(timing => {
+        const stored = timings.get(timing.questionId);
+        timings.set(timing.questionId, {
+          questionId: timing.questionId,
+          timeSpent: Math.min(elapsedSeconds, Math.max(stored?.timeSpent ?? 0, timing.timeSpent)),
+          visits: Math.max(stored?.visits ?? 0, timing.visits),
+        });
+      });
+
+    writeAnswers(attempt, getStoredAnswers(attempt), Array.from(timings.values()));
+  }
+}
+
+/**
+ * Palette states of an attempt for the client
+ */
+export function getQuestionStates(
+  attempt: Pick<ITestAttempt, 'visitedQuestions' | 'markedQuestions' | 'answers'>
+): QuestionStates {
+  return {
+    visitedQuestionIds: (attempt.visitedQuestions || []).map(id => id.toString()),
+    markedQuestionIds: (attempt.markedQuestions || []).map(id => id.toString()),
+    timings: getStoredTimings(attempt),
+  };
+}
+
+/**
+ * Drops answers still marked for review when the test does not evaluate them
+ */
+export function getEvaluatedAnswers(test: any, attempt: Pick<ITestAttempt, 'markedQuestions'>, answers: Answer[]): Answer[] {
+  if (test.evaluateMarkedAnswers !== false) return answers;
+
+  const marked = new Set((attempt.markedQuestions || []).map(id => id.toString()));
+  return answers.filter(answer => !marked.has(answer.questionId));
+}
+
+/**
+ * Applies a test's schedule, attempt limit and retake cooldown to a student's completed attempts
+ * @param test - Test with its attempt policy
+ * @param attemptsUsed - Number of completed attempts
+ * @param lastCompletedAt - When the latest attempt was completed
+ */
+export function evaluateAttemptEligibility(
+  test: any,
+  attemptsUsed: number,
+  lastCompletedAt?: Date | null,
+  now: Date = new Date()
+): AttemptEligibility {
+  const maxAttempts = test.maxAttempts || 0;
+  const attemptsRemaining = maxAttempts > 0 ? Math.max(0, maxAttempts - attemptsUsed) : null;
+  const cooldownEnds = lastCompletedAt && test.retakeCooldownMinutes > 0
+    ? new Date(new Date(lastCompletedAt).getTime() + test.retakeCooldownMinutes * 60 * 1000)
+    : null;
+  const nextAttemptAt = cooldownEnds && cooldownEnds > now ? cooldownEnds : null;
+
+  if (attemptsRemaining === 0) {
+    return { attemptsUsed, attemptsRemaining, nextAttemptAt: null, canStart: false, reason: 'You have used all attempts for this test' };
+  }
+
+  const entryError = getEntryError(test, now);
+  if (entryError) {
+    return {
+      attemptsUsed,
+      attemptsRemaining,
+      nextAttemptAt: getScheduleStatus(test, now) === 'upcoming' ? new Date(test.startsAt) : null,
+      canStart: false,
+      reason: entryError,
+    };
+  }
+
+  if (nextAttemptAt) {
+    return {
+      attemptsUsed,
+      attemptsRemaining,
+      nextAttemptAt,
+      canStart: false,
+      reason: `You can retake this test after ${nextAttemptAt.toISOString()}`,
+    };
+  }
+
+  return { attemptsUsed, attemptsRemaining, nextAttemptAt: null, canStart: true };
+}
+
+/**
+ * Whether a student may start another exam attempt of a test (practice attempts do not count)
+ */
+export async function getAttemptEligibility(test: any, userId: string, now: Date = new Date()): Promise<AttemptEligibility> {
+  const completedAttempts = await TestAttempt.find({
+    userId,
+    testId: test._id,
+    mode: { $ne: 'practice' },
+    status: { $ne: 'in-progress' },
+  })
+    .select('completedAt')
+    .sort({ completedAt: -1 })
+    .lean();
+
+  return evaluateAttemptEligibility(test, completedAttempts.length, completedAttempts[0]?.completedAt, now);
+}
+
+/**
+ * Mode of a new attempt under the test's practice policy
+ * @param requested - Mode the student asked for
+ */
+export function resolveAttemptMode(test: any, requested?: unknown): AttemptMode {
+  if (test.practiceMode === 'only') return 'practice';
+  return requested === 'practice' ? 'practice' : 'exam';
+}
+
+/**
+ * Why a student cannot start a practice attempt of a test. Practice shows answers,
+ * so it only opens once the live window has ended and results are out.
+ * @returns Error message, or null when practice is open
+ */
+export function getPracticeError(test: any, now: Date = new Date()): string | null {
+  if ((test.practiceMode || 'off') === 'off') return 'Practice mode is not available for this test';
+
+  const status = getScheduleStatus(test, now);
+  if (status === 'upcoming' || status === 'live') return 'Practice opens after the live test ends';
+  if (!areResultsReleased(test, now)) return 'Practice opens once results are released';
+
+  return null;
+}
+
+/**
+ * Whether solutions may be shown after a number of completed attempts
+ * (tests can hold them back until every allowed attempt is used)
+ */
+export function canViewSolutions(test: any, attemptsUsed: number): boolean {
+  return !test.solutionsAfterFinalAttempt || !test.maxAttempts || attemptsUsed >= test.maxAttempts;
+}
+
+/**
+ * Scores and completes an in-progress attempt using server timing
+ */
+export async function finalizeAttempt(
+  attempt: ITestAttempt,
+  test: any,
+  options: AttemptFinalizeOptions = {}
+): Promise<FinalizedAttempt> {
+  const answers = options.answers ?? getStoredAnswers(attempt);
+
+  const now = options.endTime ?? new Date();
+  const endTime = attempt.deadline && now > attempt.deadline ? attempt.deadline : now;
+  const timeSpent = Math.max(0, Math.round((endTime.getTime() - attempt.startedAt.getTime()) / (1000 * 60)));
+
+  const scoringResult = calculateTestScore(test, getEvaluatedAnswers(test, attempt, answers), getStoredTimings(attempt));
+  const timeAnalysis = analyzeQuestionTimes(test, scoringResult.processedAnswers, getTestDuration(test));
+  const analytics = generatePerformanceAnalytics(scoringResult, timeSpent, timeAnalysis);
+
+  attempt.set('answers', scoringResult.processedAnswers);
+  attempt.status = 'completed';
+  attempt.score = scoringResult.score;
+  attempt.totalMarks = scoringResult.totalMarks;
+  attempt.timeSpent = timeSpent;
+  attempt.completedAt = endTime;
+  attempt.autoSubmitted = options.autoSubmitted ?? false;
+  attempt.autoSubmitReason = attempt.autoSubmitted ? options.autoSubmitReason ?? 'time' : undefined;
+
+  await attempt.save();
+
+  return { attempt, scoringResult, analytics, timeAnalysis };
+}
+
+/**
+ * Rebuilds the result of an attempt that is already completed (a repeated submit gets the original outcome)
+ */
+export function rebuildFinalizedAttempt(attempt: ITestAttempt, test: any): FinalizedAttempt {
+  const scoringResult = calculateTestScore(test, getEvaluatedAnswers(test, attempt, getStoredAnswers(attempt)), getStoredTimings(attempt));
+  const timeAnalysis = analyzeQuestionTimes(test, scoringResult.processedAnswers, getTestDuration(test));
+  const analytics = generatePerformanceAnalytics(scoringResult, attempt.timeSpent, timeAnalysis);
+
+  return { attempt, scoringResult, analytics, timeAnalysis };
+}
+
+/**
+ * Keeps the saved answers of checked practice questions; they are locked once their feedback was shown
+ */
+export function keepCheckedAnswers(attempt: ITestAttempt, answers: Answer[]): Answer[] {
+  const checked = new Set((attempt.checkedQuestions || []).map(id => id.toString()));
+  if (checked.size === 0) return answers;
+
+  return [
+    ...answers.filter(answer => !checked.has(answer.questionId)),
+    ...getStoredAnswers(attempt).filter(answer => checked.has(answer.questionId)),
+  ];
+}
+
+/**
+ * Saves a practice answer (canonical option indices) and locks its question.
+ * Checking a question again keeps the first answer.
+ */
+export function checkPracticeAnswer(attempt: ITestAttempt, questionId: string, answer?: Answer): void {
+  const checked = (attempt.checkedQuestions || []).map(id => id.toString());
+  if (checked.includes(questionId)) return;
+
+  const answers = getStoredAnswers(attempt).filter(saved => saved.questionId !== questionId);
+  applySavedAnswers(attempt, answer ? [...answers, answer] : answers);
+  attempt.set('checkedQuestions', [...checked, questionId]);
+}
+
+/**
+ * Builds instant feedback for the checked questions of a practice attempt
+ * @param questionIds - Limits feedback to these questions
+ */
+export function buildPracticeFeedback(
+  test: any,
+  attempt: Pick<ITestAttempt, 'paper' | 'answers' | 'checkedQuestions'>,
+  questionIds?: string[]
+): PracticeFeedback[] {
+  const checked = new Set((questionIds || (attempt.checkedQuestions || []).map(id => id.toString())));
+  const answersById = new Map(getStoredAnswers(attempt).map(answer => [answer.questionId, answer]));
+  const sectionsById = new Map<string, any>(
+    (test.sections || []).map((section: any) => [section._id.toString(), section])
+  );
+
+  const feedback: PracticeFeedback[] = [];
+  attempt.paper.forEach(paperSection => {
+    const section = sectionsById.get(paperSection.sectionId.toString());
+    if (!section) return;
+
+    const scheme = resolveMarkingScheme(test, section);
+    paperSection.questions.forEach(paperQuestion => {
+      const questionId = paperQuestion.questionId.toString();
+      if (!checked.has(questionId)) return;
+
+      const question = section.questions.find((candidate: any) => candidate._id.toString() === questionId);
+      if (!question) return;
+
+      const { toDisplayed, ...key } = getDisplayedKey(question, paperQuestion.optionOrder);
+      feedback.push({
+        questionId,
+        ...evaluateAnswer(question, answersById.get(questionId), scheme),
+        ...key,
+        explanation: question.explanation,
+        hindiExplanation: getPaperTranslation(question, paperQuestion.optionOrder, true)?.explanation,
+      });
+    });
+  });
+
+  return feedback;
+}
+
+/**
+ * Finalises every in-progress attempt whose deadline has passed
+ * @returns Number of attempts finalised
+ */
+export async function finalizeExpiredAttempts(filter: { userId?: string; testId?: string } = {}): Promise<number> {
+  const query: Record<string, unknown> = {
+    status: 'in-progress',
+    deadline: { $lt: new Date(Date.now() - SUBMISSION_GRACE_SECONDS * 1000) },
+  };
+  if (filter.userId) query.userId = filter.userId;
+  if (filter.testId) query.testId = filter.testId;
+
+  const expiredAttempts: ITestAttempt[] = await TestAttempt.find(query);
+  const tests = new Map<string, any>();
+  let finalized = 0;
+
+  for (const attempt of expiredAttempts) {
+    try {
+      const testId = attempt.testId.toString();
+      if (!tests.has(testId)) {
+        tests.set(testId, await MockTest.findById(testId).lean());
+      }
+
+      const test = tests.get(testId);
+      if (!test) continue;
+
+      await finalizeAttempt(attempt, test, { autoSubmitted: true });
+      finalized++;
+    } catch (error) {
+      console.error(`Error finalising expired attempt ${attempt._id}:`, error);
+    }
+  }
+
+  return finalized;
+}
+
+/**
+ * Drops the per-question outcomes from a time analysis while solutions are locked; they would
+ * reveal which answers were right. The totals stay.
+ */
+export function withholdTimeOutcomes(timeAnalysis: TimeAnalysis): TimeAnalysis {
+  const withhold = ({ outcome, ...entry }: QuestionTimeEntry) => entry;
+  return { ...timeAnalysis, abandoned: timeAnalysis.abandoned.map(withhold), slowest: timeAnalysis.slowest.map(withhold) };
+}
+
+/**
+ * Formats a finalised attempt for API responses
+ * @param solutionsAvailable - Whether per-question outcomes may be shown; they are withheld otherwise
+ */
+export function serializeAttemptResult(
+  { attempt, scoringResult, analytics, timeAnalysis }: FinalizedAttempt,
+  solutionsAvailable = false
+) {
+  return {
+    attemptId: attempt._id,
+    score: scoringResult.score,
+    totalMarks: scoringResult.totalMarks,
+    percentage: scoringResult.percentage,
+    timeSpent: attempt.timeSpent,
+    completedAt: attempt.completedAt,
+    autoSubmitted: attempt.autoSubmitted,
+    autoSubmitReason: attempt.autoSubmitReason,
+    proctoringViolations: attempt.proctoringEvents?.length || 0,
+    revisions: attempt.revisions || [],
+    sectionWiseScores: scoringResult.sectionWiseScores,
+    analytics: {
+      grade: analytics.grade,
+      performance: analytics.performance,
+      timeEfficiency: analytics.timeEfficiency,
+      strengths: analytics.strengths,
+      improvements: analytics.improvements
+    },
+    timeAnalysis: solutionsAvailable ? timeAnalysis : withholdTimeOutcomes(timeAnalysis)
+  };
+}
+
+/**
+ * Drops an attempt's per-question answers while its solutions are locked; their correctness
+ * and marks would reveal the answer key
+ */
+export function withholdAttemptAnswers<T extends { answers?: unknown }>(attempt: T): Omit<T, 'answers'> {
+  const { answers, ...rest } = attempt;
+  return rest;
+}
+
+/**
+ * Formats a completed attempt whose results are withheld until the test's release time
+ */
+export function serializeWithheldResult(attempt: ITestAttempt, test: any) {
+  return {
+    attemptId: attempt._id,
+    timeSpent: attempt.timeSpent,
+    completedAt: attempt.completedAt,
+    autoSubmitted: attempt.autoSubmitted,
+    autoSubmitReason: attempt.autoSubmitReason,
+    resultsPending: true,
+    resultsReleaseAt: new Date(test.resultsReleaseAt).toISOString(),
+  };
+}
+
+/**
+ * Formats an in-progress attempt for the client so it can start or resume
+ */
+export function serializeActiveAttempt(attempt: ITestAttempt, test: any, resumed: boolean) {
+  return {
+    attemptId: attempt._id,
+    mode: attempt.mode || 'exam',
+    test: buildAttemptPaper(test, attempt.paper, attempt.mode),
+    answers: getStoredAnswers(attempt).map(answer => toDisplayedAnswer(answer, attempt.paper)),
+    ...getQuestionStates(attempt),
+    practiceFeedback: attempt.mode === 'practice' ? buildPracticeFeedback(test, attempt) : [],
+    startTime: attempt.startedAt.toISOString(),
+    deadline: attempt.deadline?.toISOString() ?? null,
+    lastSavedAt: attempt.lastSavedAt?.toISOString() ?? null,
+    serverTime: new Date().toISOString(),
+    proctoringViolations: attempt.proctoringEvents?.length || 0,
+    ...serializeSectionWindows(test, attempt),
+    resumed,
+  };
+}
+
+/**
+ * Formats section windows for the client
+ */
+export function serializeSectionWindows(test: any, attempt: ITestAttempt) {
+  const windows = getSectionWindows(test, attempt);
+  return {
+    sectionWindows: windows.map((window): SerializedSectionWindow => ({
+      sectionId: window.sectionId,
+      startsAt: window.startsAt.toISOString(),
+      endsAt: window.endsAt.toISOString(),
+    })),
+    currentSectionIndex: getCurrentSectionIndex(windows),
+  };
+}
+
+/**
+ * Builds a per-question breakdown of a completed attempt in the order the student saw it
+ */
+export function buildAttemptReview(
+  test: any,
+  attempt: Pick<ITestAttempt, 'paper' | 'answers'> & Partial<Pick<ITestAttempt, 'markedQuestions'>>
+) {
+  const answersById = new Map(
+    attempt.answers.map(answer => [answer.questionId.toString(), answer])
+  );
+  const markedIds = new Set((attempt.markedQuestions || []).map(id => id.toString()));
+
+  // Legacy attempts have no stored paper: fall back to the canonical order
+  const paper: AttemptPaperSection[] = attempt.paper?.length
+    ? attempt.paper
+    : (test.sections || []).map((section: any) => ({
+        sectionId: section._id,
+        questions: section.questions.map((question: any) => ({
+          questionId: question._id,
+          optionOrder: question.options.map((_: string, index: number) => index),
+        })),
+      }));
+
+  const sectionsById = new Map<string, any>(
+    (test.sections || []).map((section: any) => [section._id.toString(), section])
+  );
+
+  return paper
+    .map(paperSection => {
+      const section = sectionsById.get(paperSection.sectionId.toString());
+      if (!section) return null;
+
+      const scheme = resolveMarkingScheme(test, section);
+      const questionsById = new Map<string, any>(
+        section.questions.map((question: any) => [question._id.toString(), question])
+      );
+
+      return {
+        sectionId: section._id,
+        sectionTitle: section.title,
+        questions: paperSection.questions
+          .map(paperQuestion => {
+            const question = questionsById.get(paperQuestion.questionId.toString());
+            if (!question) return null;
+
+            const answer = answersById.get(question._id.toString());
+            const { toDisplayed, ...key } = getDisplayedKey(question, paperQuestion.optionOrder);
+
+            return {
+              questionId: question._id,
+              type: question.type || 'mcq',
+              text: question.text,
+              reason: question.reason,
+              options: paperQuestion.optionOrder.map(index => question.options[index]),
+              matchItems: question.matchItems || [],
+              selectedOption: toDisplayed(answer?.selectedOption ?? -1),
+              selectedOptions: Array.from(answer?.selectedOptions || []).map(toDisplayed).sort((a, b) => a - b),
+              numericAnswer: answer?.numericAnswer,
+              matches: Array.from(answer?.matches || []).map(toDisplayed),
+              ...key,
+              isCorrect: answer?.isCorrect ?? false,
+              marks: getQuestionMarks(question, scheme),
+              resolution: question.resolution,
+              marksAwarded: answer?.marksAwarded ?? 0,
+              timeSpent: answer?.timeSpent ?? 0,
+              visits: answer?.visits ?? 0,
+              markedForReview: markedIds.has(question._id.toString()),
+              explanation: question.explanation,
+              hindi: getPaperTranslation(question, paperQuestion.optionOrder, true),
+            };
+          })
+          .filter(Boolean),
+      };
+    })
+    .filter(Boolean);
+}
@@ -0,0 +1,184 @@
+/**
+ * Test Blueprint Utilities
+ * Assembles mock test sections from the question bank according to an admin-defined blueprint
+ */
+
+import mongoose from 'mongoose';
+import BankQuestion, { IBankQuestion, QuestionDifficulty } from '@/models/BankQuestion';
+import MockTest from '@/models/MockTest';
+import { QuestionType } from './test-scoring';
+import { getBankQuestionContent, QUESTION_DIFFICULTIES } from './question-bank';
+
+export interface BlueprintSection {
+  title: string;
+  subject?: string;
+  topics?: string[];
+  examTags?: string[];
+  types?: QuestionType[];
+  language?: string;
+  counts: Partial<Record<QuestionDifficulty, number>>;
+  marks?: number; // overrides the bank question's default marks
+  timeLimit?: number;
+}
+
+export interface TestBlueprint {
+  sections: BlueprintSection[];
+  avoidRecentTests?: number; // skip questions used in the last N tests
+  excludeQuestionIds?: string[]; // e.g. questions already drawn for other sections of a preview
+}
+
+export interface BlueprintShortfall {
+  section: string;
+  difficulty: QuestionDifficulty;
+  requested: number;
+  available: number;
+}
+
+export interface GeneratedQuestion extends Record<string, unknown> {
+  bankQuestionId: string;
+  marks: number;
+  subject: string;
+  topic: string;
+  difficulty: QuestionDifficulty;
+}
+
+export interface GeneratedSection {
+  title: string;
+  timeLimit?: number;
+  questions: GeneratedQuestion[];
+}
+
+export const MAX_BLUEPRINT_QUESTIONS = 500;
+
+/**
+ * Validates a test blueprint
+ * @returns List of validation errors
+ */
+export function validateBlueprint(blueprint: Partial<TestBlueprint>): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(blueprint.sections) || blueprint.sections.length === 0) {
+    errors.push('Blueprint must have at least one section');
+    return errors;
+  }
+
+  let total = 0;
+  blueprint.sections.forEach((section, index) => {
+    const label = `Section ${index + 1}`;
+    if (!section.title?.trim()) errors.push(`${label}: Title is required`);
+
+    const counts = Object.entries(section.counts || {});
+    counts.forEach(([difficulty, count]) => {
+      if (!QUESTION_DIFFICULTIES.includes(difficulty)) {
+        errors.push(`${label}: Unknown difficulty "${difficulty}"`);
+      } else if (!Number.isInteger(count) || (count as number) < 0) {
+        errors.push(`${label}: ${difficulty} count must be a whole number`);
+      }
+    });
+
+    const sectionTotal = counts.reduce((sum, [, count]) => sum + (Number(count) || 0), 0);
+    if (sectionTotal === 0) errors.push(`${label}: Request at least one question`);
+    total += sectionTotal;
+
+    if (section.marks !== undefined && (typeof section.marks !== 'number' || section.marks <= 0)) {
+      errors.push(`${label}: Marks must be greater than 0`);
+    }
+  });
+
+  if (total > MAX_BLUEPRINT_QUESTIONS) {
+    errors.push(`Blueprint cannot request more than ${MAX_BLUEPRINT_QUESTIONS} questions`);
+  }
+
+  if (blueprint.avoidRecentTests !== undefined && (!Number.isInteger(blueprint.avoidRecentTests) || blueprint.avoidRecentTests < 0)) {
+    errors.push('Recent tests to avoid must be a whole number');
+  }
+
+  return errors;
+}
+
+/**
+ * Collects the bank questions used by the most recently created tests
+ */
+export async function getRecentlyUsedQuestionIds(testCount: number): Promise<string[]> {
+  if (testCount <= 0) return [];
+
+  const tests = await MockTest.find({ 'sections.questions.bankQuestionId': { $exists: true } })
+    .select('sections.questions.bankQuestionId')
+    .sort({ createdAt: -1 })
+    .limit(testCount)
+    .lean();
+
+  const ids = new Set<string>();
+  tests.forEach((test: any) => {
+    test.sections.forEach((section: any) => {
+      section.questions.forEach((question: any) => {
+        if (question.bankQuestionId) ids.add(question.bankQuestionId.toString());
+      });
+    });
+  });
+
+  return Array.from(ids);
+}
+
+function buildSectionMatch(section: BlueprintSection, difficulty: QuestionDifficulty, excluded: mongoose.Types.ObjectId[]) {
+  const match: Record<string, unknown> = { isActive: true, difficulty, _id: { $nin: excluded } };
+
+  if (section.subject) match.subject = section.subject;
+  if (section.topics?.length) match.topic = { $in: section.topics };
+  if (section.examTags?.length) match.examTags = { $in: section.examTags };
+  if (section.types?.length) match.type = { $in: section.types };
+  if (section.language) match.language = section.language;
+
+  return match;
+}
+
+/**
+ * Draws random bank questions for every section of a blueprint
+ * Questions are never repeated within the generated test
+ * @returns Generated sections and any difficulty buckets the bank could not fill
+ */
+export async function generateTestFromBlueprint(
+  blueprint: TestBlueprint
+): Promise<{ sections: GeneratedSection[]; shortfalls: BlueprintShortfall[] }> {
+  const recentIds = await getRecentlyUsedQuestionIds(blueprint.avoidRecentTests || 0);
+  const excluded = [...recentIds, ...(blueprint.excludeQuestionIds || [])]
+    .filter(id => mongoose.Types.ObjectId.isValid(id))
+    .map(id => new mongoose.Types.ObjectId(id));
+
+  const sections: GeneratedSection[] = [];
+  const shortfalls: BlueprintShortfall[] = [];
+
+  for (const section of blueprint.sections) {
+    const questions: GeneratedQuestion[] = [];
+
+    for (const difficulty of QUESTION_DIFFICULTIES as QuestionDifficulty[]) {
+      const requested = section.counts[difficulty] || 0;
+      if (requested === 0) continue;
+
+      const drawn: IBankQuestion[] = await BankQuestion.aggregate([
+        { $match: buildSectionMatch(section, difficulty, excluded) },
+        { $sample: { size: requested } },
+      ]);
+
+      if (drawn.length < requested) {
+        shortfalls.push({ section: section.title, difficulty, requested, available: drawn.length });
+      }
+
+      drawn.forEach(bankQuestion => {
+        excluded.push(bankQuestion._id);
+        questions.push({
+          ...getBankQuestionContent(bankQuestion),
+          bankQuestionId: bankQuestion._id.toString(),
+          marks: section.marks ?? bankQuestion.marks,
+          subject: bankQuestion.subject,
+          topic: bankQuestion.topic,
+          difficulty: bankQuestion.difficulty,
+        });
+      });
+    }
+
+    sections.push({ title: section.title, timeLimit: section.timeLimit, questions });
+  }
+
+  return { sections, shortfalls };
+}
@@ -0,0 +1,214 @@
+/**
+ * Test Cutoff Utilities
+ * Validates category-wise cutoffs and builds qualification verdicts with projected safe scores
+ */
+
+import { ICategoryCutoff } from '@/models/MockTest';
+import User, { RESERVATION_CATEGORIES, ReservationCategory } from '@/models/User';
+import { getRankedAttempts, getSectionScores, RankedAttempt } from './test-leaderboard';
+import { resolveMarkingScheme, getQuestionMarks } from './test-scoring';
+
+// Candidates needed before the cohort's spread is used to project a safe score
+export const SAFE_SCORE_MIN_CANDIDATES = 5;
+
+// A safe score sits this many standard deviations of the cohort's marks above the cutoff
+export const SAFE_SCORE_MARGIN_SD = 0.5;
+
+export interface CutoffCheck {
+  cutoff: number;
+  score: number;
+  maxMarks: number;
+  qualified: boolean;
+  shortBy: number; // marks short of the cutoff, 0 once cleared
+  safeScore: number | null; // null while the cohort is too small to project one
+}
+
+export interface SectionCutoffCheck extends CutoffCheck {
+  sectionId: string;
+  sectionTitle: string;
+}
+
+export interface QualificationVerdict {
+  category: ReservationCategory; // the student's category
+  cutoffCategory: ReservationCategory; // whose cutoffs applied (general when the category has none)
+  qualified: boolean; // cleared the overall and every sectional cutoff
+  overall: CutoffCheck | null;
+  sections: SectionCutoffCheck[];
+  cohortSize: number;
+}
+
+const roundMarks = (marks: number) => Math.round(marks * 100) / 100;
+
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+function getSectionMaxMarks(test: any, section: any): number {
+  const scheme = resolveMarkingScheme(test, section);
+  return (section.questions || []).reduce((total: number, question: any) => total + getQuestionMarks(question, scheme), 0);
+}
+
+/**
+ * Validates a test's cutoffs against its sections
+ * @returns List of validation errors
+ */
+export function validateCutoffs(cutoffs: unknown, sections: any[] = []): string[] {
+  if (cutoffs === undefined || cutoffs === null) return [];
+  if (!Array.isArray(cutoffs)) return ['Cutoffs must be a list'];
+  if (cutoffs.length === 0) return [];
+
+  const errors: string[] = [];
+  const sectionIds = new Set(sections.filter(section => section._id).map(section => section._id.toString()));
+  const categories = new Set<string>();
+
+  cutoffs.forEach((row: any, index: number) => {
+    const label = `Cutoff ${index + 1}`;
+    if (!RESERVATION_CATEGORIES.includes(row?.category)) {
+      errors.push(`${label}: Unknown category`);
+      return;
+    }
+    if (categories.has(row.category)) errors.push(`${label}: Category already has a cutoff`);
+    categories.add(row.category);
+
+    const hasOverall = row.overall !== undefined && row.overall !== null;
+    if (hasOverall && (typeof row.overall !== 'number' || !Number.isFinite(row.overall))) {
+      errors.push(`${label}: Overall cutoff must be a number`);
+    }
+
+    const rowSections = row.sections ?? [];
+    if (!Array.isArray(rowSections)) {
+      errors.push(`${label}: Section cutoffs must be a list`);
+      return;
+    }
+
+    const seenSections = new Set<string>();
+    rowSections.forEach((entry: any) => {
+      const sectionId = entry?.sectionId?.toString();
+      if (!sectionId || !sectionIds.has(sectionId)) {
+        errors.push(`${label}: Unknown section`);
+      } else if (seenSections.has(sectionId)) {
+        errors.push(`${label}: Section has more than one cutoff`);
+      }
+      seenSections.add(sectionId);
+
+      if (typeof entry?.marks !== 'number' || !Number.isFinite(entry.marks)) {
+        errors.push(`${label}: Section cutoff must be a number`);
+      }
+    });
+
+    if (!hasOverall && rowSections.length === 0) {
+      errors.push(`${label}: Set an overall or a sectional cutoff`);
+    }
+  });
+
+  if (!categories.has('general')) {
+    errors.push('Add a general cutoff; it applies to categories without their own');
+  }
+
+  return errors;
+}
+
+/**
+ * Cutoffs that apply to a category: its own row, or the general row
+ */
+export function resolveCutoff(test: any, category: ReservationCategory): ICategoryCutoff | null {
+  const cutoffs: ICategoryCutoff[] = test.cutoffs || [];
+  return cutoffs.find(row => row.category === category)
+    || cutoffs.find(row => row.category === 'general')
+    || null;
+}
+
+/**
+ * Checks an attempt against the cutoffs of a category. The safe score of each cutoff is the
+ * cutoff plus a share of the cohort's spread, so a small swing in the real cutoff still clears.
+ * @param cohort - One ranked attempt per student
+ * @returns Verdict, or null when the test has no cutoffs
+ */
+export function buildQualification(
+  test: any,
+  attempt: { score: number; totalMarks: number; answers: Array<{ questionId: { toString(): string }; marksAwarded: number }> },
+  category: ReservationCategory,
+  cohort: RankedAttempt[]
+): QualificationVerdict | null {
+  const cutoff = resolveCutoff(test, category);
+  if (!cutoff) return null;
+
+  const check = (cutoffMarks: number, score: number, maxMarks: number, cohortMarks: number[]): CutoffCheck => ({
+    cutoff: cutoffMarks,
+    score,
+    maxMarks,
+    qualified: score >= cutoffMarks,
+    shortBy: roundMarks(Math.max(0, cutoffMarks - score)),
+    safeScore: cohortMarks.length >= SAFE_SCORE_MIN_CANDIDATES
+      ? roundMarks(Math.min(maxMarks, cutoffMarks + SAFE_SCORE_MARGIN_SD * standardDeviation(cohortMarks)))
+      : null,
+  });
+
+  const overall = typeof cutoff.overall === 'number'
+    ? check(cutoff.overall, attempt.score, attempt.totalMarks, cohort.map(entry => entry.score))
+    : null;
+
+  const sectionScores = getSectionScores(test, attempt.answers);
+  const sectionsById = new Map<string, any>(
+    (test.sections || []).map((section: any) => [section._id.toString(), section])
+  );
+
+  const sections = (cutoff.sections || [])
+    .map(entry => {
+      const sectionId = entry.sectionId.toString();
+      const section = sectionsById.get(sectionId);
+      if (!section) return null;
+
+      return {
+        sectionId,
+        sectionTitle: section.title,
+        ...check(
+          entry.marks,
+          sectionScores.get(sectionId) || 0,
+          getSectionMaxMarks(test, section),
+          cohort.map(ranked => ranked.sectionScores.get(sectionId) || 0)
+        ),
+      };
+    })
+    .filter((entry): entry is SectionCutoffCheck => !!entry);
+
+  return {
+    category,
+    cutoffCategory: cutoff.category,
+    qualified: (overall?.qualified ?? true) && sections.every(entry => entry.qualified),
+    overall,
+    sections,
+    cohortSize: cohort.length,
+  };
+}
+
+/**
+ * Reservation category of a student (general when not set)
+ */
+export async function getUserCategory(userId: string): Promise<ReservationCategory> {
+  const user = await User.findById(userId).select('profile.category').lean();
+  return (user as any)?.profile?.category || 'general';
+}
+
+/**
+ * Qualification verdict of a completed attempt for the student who took it
+ * @param ranked - The test's ranked attempts, when already loaded
+ * @returns Verdict, or null when the test has no cutoffs
+ */
+export async function getAttemptQualification(
+  test: any,
+  attempt: Parameters<typeof buildQualification>[1],
+  userId: string,
+  ranked?: RankedAttempt[]
+): Promise<QualificationVerdict | null> {
+  if (!test.cutoffs?.length) return null;
+
+  const [category, cohort] = await Promise.all([
+    getUserCategory(userId),
+    ranked ?? getRankedAttempts(test),
+  ]);
+
+  return buildQualification(test, attempt, category, cohort);
+}
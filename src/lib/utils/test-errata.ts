@@ -0,0 +1,418 @@
+/**
+ * Question Errata Utilities
+ * Collects student reports on faulty questions, applies admin resolutions and
+ * re-scores completed attempts when a test's answer key or marking changes
+ */
+
+import mongoose from 'mongoose';
+import MockTest, { TestAttempt, ITestAttempt, IRescoreStatus } from '@/models/MockTest';
+import QuestionReport, { ErrataAction, IQuestionReport, QuestionReportReason } from '@/models/QuestionReport';
+import { calculateTestScore } from './test-scoring';
+import { getStoredAnswers, getStoredTimings } from './test-attempts';
+import { validateQuestionAnswer } from './test-utils';
+import { richContentToPlainText } from './rich-content';
+
+export const REPORT_REASON_LABELS: Record<QuestionReportReason, string> = {
+  'wrong-key': 'Answer key is wrong',
+  'wrong-question': 'Question is wrong or has no correct option',
+  'ambiguous': 'More than one answer is correct',
+  'typo': 'Typo or formatting problem',
+  'other': 'Other',
+};
+
+export const ERRATA_ACTION_LABELS: Record<ErrataAction, string> = {
+  'key-changed': 'Answer key corrected',
+  'bonus': 'Bonus marks awarded',
+  'dropped': 'Question dropped',
+  'restored': 'Question restored',
+  'corrected': 'Question wording corrected',
+  'rejected': 'Report rejected',
+};
+
+// Answer key fields an admin may change through an erratum
+export const ANSWER_KEY_FIELDS = ['correctAnswer', 'correctAnswers', 'numericAnswer', 'tolerance', 'correctMatches'] as const;
+
+const MAX_REPORT_MESSAGES = 20;
+
+// Attempts re-scored between progress saves
+const RESCORE_BATCH_SIZE = 50;
+
+// A running re-score that has not saved progress for this long was abandoned and may be restarted
+export const RESCORE_STALE_MINUTES = 10;
+
+export interface ErrataQueueEntry {
+  testId: string;
+  testTitle: string;
+  questionId: string;
+  questionLabel: string;
+  questionText: string;
+  type: string;
+  options: string[];
+  correctAnswer?: number;
+  correctAnswers: number[];
+  numericAnswer?: number;
+  tolerance: number;
+  resolution?: string;
+  linkedToBank: boolean;
+  reportCount: number;
+  reasons: Partial<Record<QuestionReportReason, number>>;
+  messages: Array<{ reason: QuestionReportReason; message: string; createdAt: Date }>;
+  firstReportedAt: Date;
+}
+
+/**
+ * Everything that affects scoring in a test: marking schemes, question marks, keys and resolutions.
+ * Two tests with the same signature score every answer sheet the same way.
+ */
+export function getScoringSignature(test: any): string {
+  const scheme = (value: any) => value ? {
+    positiveMarks: value.positiveMarks ?? null,
+    negativeFraction: value.negativeFraction ?? null,
+    unansweredMarks: value.unansweredMarks ?? null,
+    allowPartialCredit: value.allowPartialCredit ?? null,
+  } : null;
+
+  return JSON.stringify({
+    markingScheme: scheme(test.markingScheme),
+    sections: (test.sections || []).map((section: any) => ({
+      id: section._id?.toString(),
+      markingScheme: scheme(section.markingScheme),
+      questions: (section.questions || []).map((question: any) => ({
+        id: question._id?.toString(),
+        type: question.type || 'mcq',
+        marks: question.marks,
+        resolution: question.resolution || null,
+        correctAnswer: question.correctAnswer ?? null,
+        correctAnswers: Array.from(question.correctAnswers || []),
+        numericAnswer: question.numericAnswer ?? null,
+        tolerance: question.tolerance || 0,
+        correctMatches: Array.from(question.correctMatches || []),
+      })),
+    })),
+  });
+}
+
+/**
+ * Finds a question in a test with its position, e.g. "Physics, Q3"
+ */
+export function findTestQuestion(test: any, questionId: string): { question: any; label: string } | null {
+  for (const section of test.sections || []) {
+    const index = (section.questions || []).findIndex((question: any) => question._id.toString() === questionId);
+    if (index >= 0) {
+      return { question: section.questions[index], label: `${section.title}, Q${index + 1}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks the answer key fields from a request body
+ */
+export function pickAnswerKey(body: Record<string, any>): Record<string, unknown> {
+  const key: Record<string, unknown> = {};
+  ANSWER_KEY_FIELDS.forEach(field => {
+    if (body[field] !== undefined) key[field] = body[field];
+  });
+  return key;
+}
+
+/**
+ * Applies an erratum to a test question document
+ * @param question - Question subdocument, changed in place
+ * @param action - How the admin resolved the reports
+ * @param key - New answer key fields for 'key-changed'
+ * @returns Validation errors; the question is only changed when there are none
+ */
+export function applyErrataAction(question: any, action: ErrataAction, key: Record<string, unknown> = {}): string[] {
+  switch (action) {
+    case 'key-changed': {
+      if (Object.keys(key).length === 0) return ['A new answer key is required'];
+
+      const current = typeof question.toObject === 'function' ? question.toObject() : question;
+      const errors = validateQuestionAnswer({ ...current, ...key }, 'Question');
+      if (errors.length === 0) question.set(key);
+      return errors;
+    }
+    case 'bonus':
+    case 'dropped':
+      question.resolution = action;
+      return [];
+    case 'restored':
+      question.resolution = undefined;
+      return [];
+    default:
+      // 'corrected' and 'rejected' leave scoring untouched
+      return [];
+  }
+}
+
+/**
+ * Closes the open reports on a question
+ * @returns Number of reports resolved
+ */
+export async function resolveQuestionReports(
+  testId: string,
+  questionId: string,
+  action: ErrataAction,
+  resolvedBy: string,
+  adminNote?: string
+): Promise<number> {
+  const result = await QuestionReport.updateMany(
+    { testId, questionId, status: 'open' },
+    {
+      status: action === 'rejected' ? 'rejected' : 'accepted',
+      action,
+      adminNote: adminNote?.trim() || undefined,
+      resolvedBy,
+      resolvedAt: new Date(),
+    }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Re-scores a completed attempt against the test's current answer key
+ * @returns Whether the score or total marks changed (a revision is recorded on the attempt)
+ */
+export async function rescoreAttempt(
+  attempt: ITestAttempt,
+  test: any,
+  reason: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const scoringResult = calculateTestScore(test, getStoredAnswers(attempt), getStoredTimings(attempt));
+  const changed = scoringResult.score !== attempt.score || scoringResult.totalMarks !== attempt.totalMarks;
+
+  if (changed) {
+    attempt.revisions.push({
+      previousScore: attempt.score,
+      previousTotalMarks: attempt.totalMarks,
+      score: scoringResult.score,
+      totalMarks: scoringResult.totalMarks,
+      reason,
+      revisedAt: now,
+    });
+    attempt.score = scoringResult.score;
+    attempt.totalMarks = scoringResult.totalMarks;
+  }
+
+  // Per-question marks may move even when the total does not
+  attempt.set('answers', scoringResult.processedAnswers);
+  await attempt.save();
+
+  return changed;
+}
+
+/**
+ * Whether a re-score job can be started again: it failed, or it stopped saving progress while running
+ */
+export function isRescoreRetryable(rescore: IRescoreStatus | undefined, now: Date = new Date()): boolean {
+  if (rescore?.status === 'failed') return true;
+  if (rescore?.status !== 'running') return false;
+
+  return !rescore.heartbeatAt || now.getTime() - new Date(rescore.heartbeatAt).getTime() > RESCORE_STALE_MINUTES * 60 * 1000;
+}
+
+// Saves a pass's progress; false once another pass has taken over the job
+async function saveRescoreProgress(testId: string, startedAt: Date, rescored: number, changed: number): Promise<boolean> {
+  const result = await MockTest.updateOne(
+    { _id: testId, 'rescore.status': 'running', 'rescore.startedAt': startedAt },
+    { 'rescore.heartbeatAt': new Date(), 'rescore.attemptsRescored': rescored, 'rescore.attemptsChanged': changed }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Re-scores every completed attempt of a test in batches, saving progress on the test's re-score job.
+ * Rankings are computed from attempt scores, so they update as attempts are saved.
+ * @param startedAt - Start of the job this pass runs for; the pass stops if another takes the job over
+ */
+export async function rescoreTestAttempts(
+  testId: string,
+  reason: string,
+  startedAt: Date
+): Promise<{ rescored: number; changed: number; failed: number }> {
+  const test = await MockTest.findById(testId).lean();
+  if (!test) return { rescored: 0, changed: 0, failed: 0 };
+
+  let rescored = 0;
+  let changed = 0;
+  let failed = 0;
+  const cursor = TestAttempt.find({ testId, status: { $ne: 'in-progress' } }).cursor();
+
+  for await (const attempt of cursor) {
+    try {
+      if (await rescoreAttempt(attempt as ITestAttempt, test, reason, startedAt)) changed++;
+      rescored++;
+    } catch (error) {
+      console.error(`Error re-scoring attempt ${attempt._id}:`, error);
+      failed++;
+    }
+
+    if ((rescored + failed) % RESCORE_BATCH_SIZE === 0 && !(await saveRescoreProgress(testId, startedAt, rescored, changed))) {
+      await cursor.close();
+      break;
+    }
+  }
+
+  return { rescored, changed, failed };
+}
+
+// Takes over a test's re-score job unless a live pass holds it
+async function claimRescore(testId: string, reason: string, startedAt: Date): Promise<boolean> {
+  const staleBefore = new Date(startedAt.getTime() - RESCORE_STALE_MINUTES * 60 * 1000);
+  const claimed = await MockTest.findOneAndUpdate(
+    {
+      _id: testId,
+      $or: [
+        { 'rescore.status': { $ne: 'running' } },
+        { 'rescore.heartbeatAt': { $not: { $gte: staleBefore } } },
+      ],
+    },
+    { rescore: { status: 'running', reason, startedAt, heartbeatAt: startedAt, attemptsRescored: 0, attemptsChanged: 0 } }
+  ).select('_id').lean();
+
+  return !!claimed;
+}
+
+/**
+ * Re-scores a test's attempts within the calling request. The job is tracked on the test, so a
+ * failed or abandoned pass can be retried; a re-score requested while another pass is running is
+ * left on the job and run by that pass once it finishes. Errors are recorded on the job, not thrown.
+ * @returns Whether the re-score ran here rather than being queued behind a running pass
+ */
+export async function startRescore(testId: string | mongoose.Types.ObjectId, reason: string): Promise<boolean> {
+  const id = testId.toString();
+  let startedAt = new Date();
+
+  try {
+    if (!(await claimRescore(id, reason, startedAt))) {
+      const queued = await MockTest.updateOne({ _id: id, 'rescore.status': 'running' }, { 'rescore.pendingReason': reason });
+      if (queued.matchedCount > 0) return false;
+
+      // The running pass finished in between
+      startedAt = new Date();
+      if (!(await claimRescore(id, reason, startedAt))) return false;
+    }
+
+    let current = reason;
+    for (;;) {
+      let outcome: Record<string, unknown>;
+      try {
+        const { rescored, changed, failed } = await rescoreTestAttempts(id, current, startedAt);
+        outcome = {
+          'rescore.status': failed > 0 ? 'failed' : 'completed',
+          'rescore.attemptsRescored': rescored,
+          'rescore.attemptsChanged': changed,
+          ...(failed > 0 && { 'rescore.error': `${failed} attempts could not be re-scored` }),
+        };
+      } catch (error) {
+        console.error(`Error re-scoring test ${id}:`, error);
+        outcome = { 'rescore.status': 'failed', 'rescore.error': 'Re-scoring stopped before all attempts were processed' };
+      }
+
+      // Finish the job unless a follow-up was requested while this pass ran
+      const finished = await MockTest.updateOne(
+        { _id: id, 'rescore.startedAt': startedAt, 'rescore.pendingReason': { $exists: false } },
+        { $set: { ...outcome, 'rescore.completedAt': new Date() } }
+      );
+      if (finished.matchedCount > 0) return true;
+
+      // Run the follow-up; without one, a retry has taken the job over
+      const nextStartedAt = new Date();
+      const followUp: any = await MockTest.findOneAndUpdate(
+        { _id: id, 'rescore.startedAt': startedAt, 'rescore.pendingReason': { $exists: true } },
+        {
+          $set: {
+            'rescore.startedAt': nextStartedAt,
+            'rescore.heartbeatAt': nextStartedAt,
+            'rescore.attemptsRescored': 0,
+            'rescore.attemptsChanged': 0,
+          },
+          $unset: { 'rescore.pendingReason': 1, 'rescore.error': 1 },
+        }
+      ).select('rescore.pendingReason').lean();
+      if (!followUp) return true;
+
+      startedAt = nextStartedAt;
+      current = followUp.rescore.pendingReason;
+      await MockTest.updateOne({ _id: id, 'rescore.startedAt': startedAt }, { 'rescore.reason': current });
+    }
+  } catch (error) {
+    // The job stays running without progress and becomes retryable once stale
+    console.error(`Error re-scoring test ${id}:`, error);
+    return true;
+  }
+}
+
+/**
+ * Re-scores every test that uses a question bank entry
+ * @returns Number of tests re-scored or queued for re-scoring
+ */
+export async function rescoreBankQuestionTests(
+  bankQuestionId: string | mongoose.Types.ObjectId,
+  reason: string
+): Promise<number> {
+  const tests = await MockTest.find({ 'sections.questions.bankQuestionId': bankQuestionId }).select('_id').lean();
+  for (const test of tests) {
+    await startRescore(test._id, reason);
+  }
+  return tests.length;
+}
+
+/**
+ * Groups reports by question for the admin review queue, most reported first
+ */
+export async function getErrataQueue(status: 'open' | 'accepted' | 'rejected' = 'open'): Promise<ErrataQueueEntry[]> {
+  const reports: IQuestionReport[] = await QuestionReport.find({ status })
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const tests = new Map<string, any>(
+    (await MockTest.find({ _id: { $in: Array.from(new Set(reports.map(report => report.testId.toString()))) } })
+      .select('title sections')
+      .lean())
+      .map((test: any) => [test._id.toString(), test])
+  );
+
+  const entries = new Map<string, ErrataQueueEntry>();
+
+  for (const report of reports) {
+    const test = tests.get(report.testId.toString());
+    const found = test ? findTestQuestion(test, report.questionId.toString()) : null;
+    if (!test || !found) continue;
+
+    const entryKey = `${report.testId}:${report.questionId}`;
+    let entry = entries.get(entryKey);
+    if (!entry) {
+      entry = {
+        testId: report.testId.toString(),
+        testTitle: test.title,
+        questionId: report.questionId.toString(),
+        questionLabel: found.label,
+        questionText: richContentToPlainText(found.question.text),
+        type: found.question.type || 'mcq',
+        options: (found.question.options || []).map((option: string) => richContentToPlainText(option)),
+        correctAnswer: found.question.correctAnswer,
+        correctAnswers: found.question.correctAnswers || [],
+        numericAnswer: found.question.numericAnswer,
+        tolerance: found.question.tolerance || 0,
+        resolution: found.question.resolution,
+        linkedToBank: !!found.question.bankQuestionId,
+        reportCount: 0,
+        reasons: {},
+        messages: [],
+        firstReportedAt: report.createdAt,
+      };
+      entries.set(entryKey, entry);
+    }
+
+    entry.reportCount++;
+    entry.reasons[report.reason] = (entry.reasons[report.reason] || 0) + 1;
+    if (report.message && entry.messages.length < MAX_REPORT_MESSAGES) {
+      entry.messages.push({ reason: report.reason, message: report.message, createdAt: report.createdAt });
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => b.reportCount - a.reportCount);
+}
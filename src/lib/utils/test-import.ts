@@ -0,0 +1,374 @@
+/**
+ * Test Import/Export Utilities
+ * Converts mock test questions to and from the CSV/JSON spreadsheet format used by the content team
+ */
+
+import { QuestionType } from './test-scoring';
+import {
+  TestQuestion,
+  TestSection,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  ASSERTION_REASON_OPTIONS,
+  validateTestStructure,
+} from './test-utils';
+
+export type ImportFormat = 'csv' | 'json';
+
+// Spreadsheet columns, in export order. Lists inside a cell are separated by LIST_SEPARATOR.
+export const IMPORT_COLUMNS = [
+  'section',
+  'type',
+  'question',
+  'options',
+  'correct_answer',
+  'explanation',
+  'marks',
+  'reason',
+  'match_items',
+  'tolerance',
+  'question_hi',
+  'options_hi',
+  'explanation_hi',
+  'reason_hi',
+  'match_items_hi',
+  'subject',
+  'topic',
+] as const;
+
+export const LIST_SEPARATOR = '|';
+
+export const MAX_IMPORT_ROWS = 1000;
+
+type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+export type ImportRecord = Partial<Record<ImportColumn, string>>;
+
+export type ImportedQuestion = Omit<TestQuestion, '_id'>;
+
+export interface ImportedRow {
+  row: number;
+  section: string;
+  question: ImportedQuestion;
+}
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface ImportReport {
+  rows: ImportedRow[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Serializes rows of cells as CSV, quoting cells where needed
+ */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map(row => row
+      .map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(','))
+    .join('\r\n');
+}
+
+const toCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toCell).join(LIST_SEPARATOR);
+  return String(value).trim();
+};
+
+/**
+ * Reads import records from CSV or JSON text
+ * @returns Records with their spreadsheet row numbers, or an error for unreadable files
+ */
+export function readImportRecords(
+  content: string,
+  format: ImportFormat
+): { records: Array<{ row: number; record: ImportRecord }>; error?: string } {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { records: [], error: 'File is not valid JSON' };
+    }
+
+    const items = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+    if (!Array.isArray(items)) {
+      return { records: [], error: 'JSON must be an array of questions' };
+    }
+
+    return {
+      records: items.map((item, index) => ({
+        row: index + 1,
+        record: Object.fromEntries(
+          IMPORT_COLUMNS.map(column => [column, toCell((item as Record<string, unknown>)?.[column])])
+        ) as ImportRecord,
+      })),
+    };
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    return { records: [], error: 'File is empty' };
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase().replace(/\s+/g, '_'));
+  if (!columns.includes('question')) {
+    return { records: [], error: 'CSV header must include a "question" column' };
+  }
+
+  const records: Array<{ row: number; record: ImportRecord }> = [];
+  lines.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return;
+
+    const record: ImportRecord = {};
+    columns.forEach((column, columnIndex) => {
+      if ((IMPORT_COLUMNS as readonly string[]).includes(column)) {
+        record[column as ImportColumn] = (cells[columnIndex] || '').trim();
+      }
+    });
+    records.push({ row: index + 2, record });
+  });
+
+  return { records };
+}
+
+const splitList = (value?: string) =>
+  (value || '').split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+
+// Translated lists keep blank entries so each lines up with its English counterpart
+const splitTranslatedList = (value?: string) => {
+  const items = (value || '').split(LIST_SEPARATOR).map(item => item.trim());
+  return items.some(Boolean) ? items : [];
+};
+
+// Option references may be letters (A, B, ...) or 1-based numbers; returns -1 when unreadable
+const parseOptionRef = (value: string, options: string[]): number => {
+  const ref = value.trim();
+  if (/^[A-Za-z]$/.test(ref)) return ref.toUpperCase().charCodeAt(0) - 65;
+  if (/^\d+$/.test(ref)) return Number(ref) - 1;
+
+  return options.findIndex(option => option.toLowerCase() === ref.toLowerCase());
+};
+
+const parseOptionRefs = (value: string | undefined, options: string[]) =>
+  (value || '').split(/[|,;]/).map(ref => ref.trim()).filter(Boolean).map(ref => parseOptionRef(ref, options));
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const parseNumber = (value?: string) => (value?.trim() ? Number(value) : undefined);
+
+/**
+ * Converts an import record into a test question
+ */
+export function recordToQuestion(record: ImportRecord): ImportedQuestion {
+  const type = (record.type?.trim().toLowerCase() || 'mcq') as QuestionType;
+  let options = splitList(record.options);
+
+  if (type === 'true-false' && options.length === 0) options = [...TRUE_FALSE_OPTIONS];
+  if (type === 'assertion-reason' && options.length === 0) options = [...ASSERTION_REASON_OPTIONS];
+
+  const question: ImportedQuestion = {
+    type,
+    text: record.question || '',
+    options: type === 'numeric' ? [] : options,
+    explanation: record.explanation || undefined,
+    marks: parseNumber(record.marks) ?? 1,
+    subject: record.subject?.trim() || undefined,
+    topic: record.topic?.trim() || undefined,
+  };
+
+  switch (type) {
+    case 'multiple':
+      question.correctAnswers = parseOptionRefs(record.correct_answer, options).sort((a, b) => a - b);
+      break;
+    case 'numeric':
+      question.numericAnswer = parseNumber(record.correct_answer);
+      question.tolerance = parseNumber(record.tolerance) ?? 0;
+      break;
+    case 'match':
+      question.matchItems = splitList(record.match_items);
+      question.correctMatches = parseOptionRefs(record.correct_answer, options);
+      break;
+    default:
+      question.correctAnswer = record.correct_answer ? parseOptionRef(record.correct_answer, options) : undefined;
+      if (type === 'assertion-reason') question.reason = record.reason || undefined;
+  }
+
+  const hasHindi = ['question_hi', 'options_hi', 'explanation_hi', 'reason_hi', 'match_items_hi']
+    .some(column => record[column as ImportColumn]);
+  if (hasHindi) {
+    question.hindi = {
+      text: record.question_hi || '',
+      options: type === 'numeric' ? [] : splitTranslatedList(record.options_hi),
+      matchItems: type === 'match' ? splitTranslatedList(record.match_items_hi) : [],
+      reason: type === 'assertion-reason' ? record.reason_hi || undefined : undefined,
+      explanation: record.explanation_hi || undefined,
+    };
+  }
+
+  return question;
+}
+
+// Placeholder test details so each row can be checked with validateTestStructure on its own
+const ROW_VALIDATION_TEST = { title: 'Import', description: 'Import', duration: 1, price: 0 };
+
+/**
+ * Parses and validates every row of an import file
+ * @returns Valid rows ready to be grouped into sections, and a per-row error report
+ */
+export function parseImportFile(content: string, format: ImportFormat, defaultSection = 'General'): ImportReport & { error?: string } {
+  const { records, error } = readImportRecords(content, format);
+  if (error) return { rows: [], errors: [], error };
+  if (records.length === 0) return { rows: [], errors: [], error: 'No questions found in file' };
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { rows: [], errors: [], error: `A single import cannot exceed ${MAX_IMPORT_ROWS} questions` };
+  }
+
+  const rows: ImportedRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach(({ row, record }) => {
+    const section = record.section || defaultSection;
+    const rowErrors: string[] = [];
+
+    if (record.type && !QUESTION_TYPE_LABELS[record.type.trim().toLowerCase() as QuestionType]) {
+      rowErrors.push(`Unknown question type "${record.type}"`);
+    } else if (record.marks && Number.isNaN(Number(record.marks))) {
+      rowErrors.push('Marks must be a number');
+    } else {
+      const question = recordToQuestion(record);
+      const { errors: structureErrors } = validateTestStructure({
+        ...ROW_VALIDATION_TEST,
+        sections: [{ title: section, questions: [question] } as unknown as TestSection],
+      });
+      rowErrors.push(...structureErrors.map(message => message.replace(/^Section 1(, Question 1)?: /, '')));
+
+      if (rowErrors.length === 0) rows.push({ row, section, question });
+    }
+
+    if (rowErrors.length > 0) errors.push({ row, errors: rowErrors });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Groups imported rows into sections, keeping the order sections first appear in the file
+ */
+export function groupRowsIntoSections(rows: ImportedRow[]): Array<{ title: string; questions: ImportedQuestion[] }> {
+  const sections: Array<{ title: string; questions: ImportedQuestion[] }> = [];
+
+  rows.forEach(({ section, question }) => {
+    let target = sections.find(existing => existing.title.toLowerCase() === section.toLowerCase());
+    if (!target) {
+      target = { title: section, questions: [] };
+      sections.push(target);
+    }
+    target.questions.push(question);
+  });
+
+  return sections;
+}
+
+const formatCorrectAnswer = (question: Partial<TestQuestion>): string | string[] => {
+  switch (question.type || 'mcq') {
+    case 'multiple':
+      return (question.correctAnswers || []).map(optionLetter);
+    case 'numeric':
+      return question.numericAnswer !== undefined ? String(question.numericAnswer) : '';
+    case 'match':
+      return (question.correctMatches || []).map(optionLetter);
+    default:
+      return question.correctAnswer !== undefined ? optionLetter(question.correctAnswer) : '';
+  }
+};
+
+/**
+ * Exports test questions in the import format
+ * @param sections - Test sections to export
+ * @param format - csv or json
+ * @returns File contents that can be imported again unchanged
+ */
+export function exportTestQuestions(
+  sections: Array<{ title: string; questions: Partial<TestQuestion>[] }>,
+  format: ImportFormat
+): string {
+  const items = sections.flatMap(section => section.questions.map(question => ({
+    section: section.title,
+    type: question.type || 'mcq',
+    question: question.text || '',
+    options: question.options || [],
+    correct_answer: formatCorrectAnswer(question),
+    explanation: question.explanation || '',
+    marks: question.marks ?? 1,
+    reason: question.reason || '',
+    match_items: question.matchItems || [],
+    tolerance: question.type === 'numeric' ? question.tolerance ?? 0 : '',
+    question_hi: question.hindi?.text || '',
+    options_hi: question.hindi?.options || [],
+    explanation_hi: question.hindi?.explanation || '',
+    reason_hi: question.hindi?.reason || '',
+    match_items_hi: question.hindi?.matchItems || [],
+    subject: question.subject || '',
+    topic: question.topic || '',
+  })));
+
+  if (format === 'json') {
+    return JSON.stringify(items, null, 2);
+  }
+
+  return toCsv([
+    [...IMPORT_COLUMNS],
+    ...items.map(item => IMPORT_COLUMNS.map(column => toCell(item[column]))),
+  ]);
+}
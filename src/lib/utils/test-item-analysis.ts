@@ -0,0 +1,219 @@
+/**
+ * Test Item Analysis Utilities
+ * Per-question quality statistics computed from students' completed attempts
+ */
+
+import { TestAttempt } from '@/models/MockTest';
+import { QuestionType, isAnswered } from './test-scoring';
+import { richContentToPlainText } from './rich-content';
+
+// Share of candidates in each of the upper and lower groups used for discrimination
+export const DISCRIMINATION_GROUP_FRACTION = 0.27;
+
+// Questions are only flagged once enough candidates have attempted the test
+export const MIN_CANDIDATES_FOR_FLAGS = 10;
+
+export const TOO_EASY_DIFFICULTY = 0.9;
+export const TOO_HARD_DIFFICULTY = 0.2;
+export const LOW_DISCRIMINATION = 0.2;
+
+export type ItemFlag =
+  | 'too-easy'
+  | 'too-hard'
+  | 'low-discrimination'
+  | 'negative-discrimination'
+  | 'distractor-preferred'; // the upper group mostly chose one wrong option
+
+export interface OptionStatistics {
+  index: number;
+  text: string;
+  isCorrect: boolean;
+  count: number;
+  share: number; // of all candidates, 0-1
+  upperCount: number;
+  lowerCount: number;
+}
+
+export interface ItemStatistics {
+  questionId: string;
+  sectionId: string;
+  sectionTitle: string;
+  number: number; // position in the test, 1-based
+  text: string;
+  type: QuestionType;
+  candidates: number;
+  answered: number;
+  correct: number;
+  difficultyIndex: number; // share of candidates answering fully correctly, 0-1
+  discriminationIndex: number; // upper-group minus lower-group difficulty, -1 to 1
+  averageTime: number; // seconds, among candidates who viewed the question
+  options: OptionStatistics[]; // empty for numeric and match questions
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysis {
+  candidates: number;
+  groupSize: number;
+  items: ItemStatistics[];
+}
+
+interface AnalysedAttempt {
+  score: number;
+  answers: Array<{
+    questionId: { toString(): string };
+    selectedOption: number;
+    selectedOptions?: number[];
+    numericAnswer?: number;
+    matches?: number[];
+    isCorrect: boolean;
+    timeSpent?: number;
+  }>;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const ratio = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+// Options a student chose (canonical indices), for option-based question types
+function getChosenOptions(type: QuestionType, answer?: AnalysedAttempt['answers'][number]): number[] {
+  if (!answer || !isAnswered(answer)) return [];
+  if (type === 'multiple') return answer.selectedOptions || [];
+  return answer.selectedOption >= 0 ? [answer.selectedOption] : [];
+}
+
+function getCorrectOptions(question: any): number[] {
+  if (question.type === 'multiple') return question.correctAnswers || [];
+  return question.correctAnswer !== undefined ? [question.correctAnswer] : [];
+}
+
+const hasOptionDistribution = (type: QuestionType) => type !== 'numeric' && type !== 'match';
+
+/**
+ * Computes difficulty, discrimination, option distribution and time for every question
+ * @param test - The test, with its sections and answer keys
+ * @param attempts - One completed attempt per student, with stored canonical answers
+ */
+export function analyzeTestItems(test: any, attempts: AnalysedAttempt[]): ItemAnalysis {
+  const candidates = attempts.length;
+  const groupSize = candidates >= 2 ? Math.max(1, Math.round(candidates * DISCRIMINATION_GROUP_FRACTION)) : 0;
+
+  const byScore = [...attempts].sort((a, b) => b.score - a.score);
+  const upper = new Set(byScore.slice(0, groupSize));
+  const lower = new Set(byScore.slice(candidates - groupSize));
+
+  const answerMaps = new Map(attempts.map(attempt => [
+    attempt,
+    new Map(attempt.answers.map(answer => [answer.questionId.toString(), answer])),
+  ]));
+
+  const items: ItemStatistics[] = [];
+
+  (test.sections || []).forEach((section: any) => section.questions.forEach((question: any) => {
+    const questionId = question._id.toString();
+    const type: QuestionType = question.type || 'mcq';
+    const correctOptions = getCorrectOptions(question);
+    const options: OptionStatistics[] = hasOptionDistribution(type)
+      ? (question.options || []).map((text: string, index: number) => ({
+          index,
+          text: richContentToPlainText(text),
+          isCorrect: correctOptions.includes(index),
+          count: 0,
+          share: 0,
+          upperCount: 0,
+          lowerCount: 0,
+        }))
+      : [];
+
+    let answered = 0;
+    let correct = 0;
+    let upperCorrect = 0;
+    let lowerCorrect = 0;
+    let viewedCount = 0;
+    let totalTime = 0;
+
+    attempts.forEach(attempt => {
+      const answer = answerMaps.get(attempt)!.get(questionId);
+
+      if (answer && isAnswered(answer)) answered++;
+      if (answer?.isCorrect) {
+        correct++;
+        if (upper.has(attempt)) upperCorrect++;
+        if (lower.has(attempt)) lowerCorrect++;
+      }
+
+      if (answer?.timeSpent) {
+        viewedCount++;
+        totalTime += answer.timeSpent;
+      }
+
+      getChosenOptions(type, answer).forEach(index => {
+        const option = options[index];
+        if (!option) return;
+        option.count++;
+        if (upper.has(attempt)) option.upperCount++;
+        if (lower.has(attempt)) option.lowerCount++;
+      });
+    });
+
+    options.forEach(option => {
+      option.share = round(ratio(option.count, candidates));
+    });
+
+    const difficultyIndex = round(ratio(correct, candidates));
+    const discriminationIndex = round(ratio(upperCorrect, groupSize) - ratio(lowerCorrect, groupSize));
+
+    const flags: ItemFlag[] = [];
+    if (candidates >= MIN_CANDIDATES_FOR_FLAGS) {
+      if (difficultyIndex >= TOO_EASY_DIFFICULTY) flags.push('too-easy');
+      if (difficultyIndex <= TOO_HARD_DIFFICULTY) flags.push('too-hard');
+      if (discriminationIndex < 0) flags.push('negative-discrimination');
+      else if (discriminationIndex < LOW_DISCRIMINATION) flags.push('low-discrimination');
+
+      // A distractor outdrawing the key among the best students usually means a wrong key or an ambiguous question
+      const topDistractor = options
+        .filter(option => !option.isCorrect)
+        .sort((a, b) => b.upperCount - a.upperCount)[0];
+      if (topDistractor && topDistractor.upperCount > upperCorrect && topDistractor.upperCount > groupSize / 2) {
+        flags.push('distractor-preferred');
+      }
+    }
+
+    items.push({
+      questionId,
+      sectionId: section._id.toString(),
+      sectionTitle: section.title,
+      number: items.length + 1,
+      text: richContentToPlainText(question.text),
+      type,
+      candidates,
+      answered,
+      correct,
+      difficultyIndex,
+      discriminationIndex,
+      averageTime: viewedCount > 0 ? Math.round(totalTime / viewedCount) : 0,
+      options,
+      flags,
+    });
+  }));
+
+  return { candidates, groupSize, items };
+}
+
+/**
+ * Item analysis of a test over each student's first completed exam attempt (retakes would
+ * inflate the statistics of questions students have already seen)
+ */
+export async function getItemAnalysis(test: any): Promise<ItemAnalysis> {
+  const attempts = await TestAttempt.find({ testId: test._id, mode: { $ne: 'practice' }, status: { $ne: 'in-progress' } })
+    .select('userId score answers startedAt')
+    .sort({ startedAt: 1 })
+    .lean();
+
+  const firstAttempts = new Map<string, AnalysedAttempt>();
+  attempts.forEach((attempt: any) => {
+    const userId = attempt.userId.toString();
+    if (!firstAttempts.has(userId)) firstAttempts.set(userId, attempt);
+  });
+
+  return analyzeTestItems(test, Array.from(firstAttempts.values()));
+}
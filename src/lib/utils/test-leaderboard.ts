@@ -0,0 +1,195 @@
+/**
+ * Test Leaderboard Utilities
+ * Ranks one attempt per student for a mock test and finds section-wise toppers
+ */
+
+import { TestAttempt, RankingPolicy } from '@/models/MockTest';
+import { resolveMarkingScheme, getQuestionMarks } from './test-scoring';
+
+export const DEFAULT_LEADERBOARD_LIMIT = 10;
+export const MAX_LEADERBOARD_LIMIT = 100;
+export const DEFAULT_SECTION_TOPPERS = 3;
+
+export interface RankedAttempt {
+  rank: number;
+  attemptId: string;
+  userId: string;
+  userName: string;
+  score: number;
+  totalMarks: number;
+  percentage: number;
+  completedAt: Date;
+  timeSpent: number; // minutes
+  sectionScores: Map<string, number>;
+}
+
+export interface SectionTopper {
+  rank: number;
+  userId: string;
+  userName: string;
+  score: number;
+  totalMarks: number;
+  timeSpent: number;
+}
+
+export interface SectionToppers {
+  sectionId: string;
+  sectionTitle: string;
+  toppers: SectionTopper[];
+}
+
+type RankableAttempt = Pick<RankedAttempt, 'score' | 'timeSpent' | 'completedAt'>;
+
+/**
+ * Orders attempts by score (high first), then time spent (low first), then completion time
+ */
+export function compareAttempts(a: RankableAttempt, b: RankableAttempt): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.timeSpent !== b.timeSpent) return a.timeSpent - b.timeSpent;
+  return new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime();
+}
+
+// Attempts with the same score and time share a rank (1, 2, 2, 4)
+function isTied(a: RankableAttempt, b: RankableAttempt): boolean {
+  return a.score === b.score && a.timeSpent === b.timeSpent;
+}
+
+/**
+ * Percentile of a rank among a number of candidates (the topper is the 100th percentile)
+ */
+export function rankToPercentile(rank: number, totalCandidates: number): number {
+  return totalCandidates > 0 ? Math.round(((totalCandidates - rank + 1) / totalCandidates) * 100) : 0;
+}
+
+/**
+ * Marks scored in each section of an attempt, keyed by section id
+ */
+export function getSectionScores(test: any, answers: Array<{ questionId: { toString(): string }; marksAwarded: number }>) {
+  const sectionOfQuestion = new Map<string, string>();
+  (test.sections || []).forEach((section: any) => section.questions.forEach((question: any) => {
+    sectionOfQuestion.set(question._id.toString(), section._id.toString());
+  }));
+
+  const scores = new Map<string, number>();
+  (answers || []).forEach(answer => {
+    const sectionId = sectionOfQuestion.get(answer.questionId.toString());
+    if (!sectionId) return;
+    scores.set(sectionId, Math.round(((scores.get(sectionId) || 0) + (answer.marksAwarded || 0)) * 100) / 100);
+  });
+  return scores;
+}
+
+/**
+ * Ranks one completed exam attempt per student: their first attempt, or their best under the test's ranking policy
+ * @param test - The test, with its sections
+ * @param policy - Overrides the test's ranking policy
+ * @returns Attempts in rank order
+ */
+export async function getRankedAttempts(test: any, policy?: RankingPolicy): Promise<RankedAttempt[]> {
+  const rankingPolicy: RankingPolicy = policy || test.rankingPolicy || 'first';
+
+  const attempts = await TestAttempt.find({ testId: test._id, mode: { $ne: 'practice' }, status: { $ne: 'in-progress' } })
+    .select('userId score totalMarks timeSpent startedAt completedAt answers.questionId answers.marksAwarded')
+    .populate('userId', 'name')
+    .sort({ startedAt: 1 })
+    .lean();
+
+  const countedByUser = new Map<string, any>();
+  attempts.forEach((attempt: any) => {
+    if (!attempt.userId) return;
+
+    const userId = attempt.userId._id.toString();
+    const counted = countedByUser.get(userId);
+    if (!counted || (rankingPolicy === 'best' && compareAttempts(attempt, counted) < 0)) {
+      countedByUser.set(userId, attempt);
+    }
+  });
+
+  const ranked = Array.from(countedByUser.values()).sort(compareAttempts);
+
+  let rank = 0;
+  return ranked.map((attempt: any, index: number) => {
+    if (index === 0 || !isTied(ranked[index - 1], attempt)) rank = index + 1;
+
+    return {
+      rank,
+      attemptId: attempt._id.toString(),
+      userId: attempt.userId._id.toString(),
+      userName: attempt.userId.name,
+      score: attempt.score,
+      totalMarks: attempt.totalMarks,
+      percentage: attempt.totalMarks > 0 ? Math.round((attempt.score / attempt.totalMarks) * 100) : 0,
+      completedAt: attempt.completedAt,
+      timeSpent: attempt.timeSpent,
+      sectionScores: getSectionScores(test, attempt.answers),
+    };
+  });
+}
+
+/**
+ * Rank an attempt would hold against the other students' ranked attempts.
+ * Retakes that do not count on the leaderboard still get an indicative rank.
+ */
+export function rankAttempt(
+  ranked: RankedAttempt[],
+  attempt: RankableAttempt & { _id: { toString(): string }; userId: { toString(): string } }
+): { rank: number; totalCandidates: number; percentile: number; counted: boolean } {
+  const userId = attempt.userId.toString();
+  const others = ranked.filter(entry => entry.userId !== userId);
+  const rank = others.filter(entry => compareAttempts(entry, attempt) < 0 && !isTied(entry, attempt)).length + 1;
+  const totalCandidates = others.length + 1;
+
+  return {
+    rank,
+    totalCandidates,
+    percentile: rankToPercentile(rank, totalCandidates),
+    counted: ranked.some(entry => entry.attemptId === attempt._id.toString()),
+  };
+}
+
+/**
+ * Highest scorers of each section among the ranked attempts (ties broken by total time spent)
+ */
+export function getSectionToppers(test: any, ranked: RankedAttempt[], limit = DEFAULT_SECTION_TOPPERS): SectionToppers[] {
+  return (test.sections || []).map((section: any) => {
+    const sectionId = section._id.toString();
+    const scheme = resolveMarkingScheme(test, section);
+    const totalMarks = section.questions.reduce((sum: number, question: any) => sum + getQuestionMarks(question, scheme), 0);
+    const scored = ranked
+      .map(entry => ({ ...entry, score: entry.sectionScores.get(sectionId) || 0 }))
+      .sort(compareAttempts);
+
+    let rank = 0;
+    return {
+      sectionId,
+      sectionTitle: section.title,
+      toppers: scored.slice(0, limit).map((entry, index) => {
+        if (index === 0 || !isTied(scored[index - 1], entry)) rank = index + 1;
+        return {
+          rank,
+          userId: entry.userId,
+          userName: entry.userName,
+          score: entry.score,
+          totalMarks,
+          timeSpent: entry.timeSpent,
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * Formats a ranked attempt as a LeaderboardEntry for the client
+ */
+export function serializeRankedAttempt(entry: RankedAttempt) {
+  return {
+    rank: entry.rank,
+    userId: entry.userId,
+    userName: entry.userName,
+    score: entry.score,
+    totalMarks: entry.totalMarks,
+    percentage: entry.percentage,
+    completedAt: entry.completedAt,
+    timeSpent: entry.timeSpent,
+  };
+}
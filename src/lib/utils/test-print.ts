@@ -0,0 +1,467 @@
+/**
+ * Test Print Utilities
+ * Generates print-ready question papers, OMR-style answer keys and solution booklets for offline tests
+ */
+
+import { AttemptPaperSection, createAttemptPaper, getDisplayedKey, getPaperTranslation, getTestDuration } from './test-attempts';
+import { resolveMarkingScheme, getQuestionMarks, getNegativeMarks, MarkingScheme } from './test-scoring';
+import { renderRichContent, escapeHtml } from './rich-content';
+
+export type PrintDocument = 'paper' | 'answer-key' | 'solutions';
+
+export const PRINT_DOCUMENTS: PrintDocument[] = ['paper', 'answer-key', 'solutions'];
+
+// Set A keeps the authored order; the other sets shuffle questions and options
+export type PaperSet = 'A' | 'B' | 'C' | 'D';
+
+export const PAPER_SETS: PaperSet[] = ['A', 'B', 'C', 'D'];
+
+export interface PrintOptions {
+  set: PaperSet;
+  bilingual?: boolean; // print the Hindi wording under each question that has one
+}
+
+interface PrintQuestion {
+  number: number;
+  question: any;
+  optionOrder: number[];
+  marks: number;
+  negativeMarks: number;
+}
+
+interface PrintSection {
+  title: string;
+  scheme: MarkingScheme;
+  questions: PrintQuestion[];
+}
+
+const DOCUMENT_TITLES: Record<PrintDocument, string> = {
+  'paper': 'Question Paper',
+  'answer-key': 'Answer Key',
+  'solutions': 'Solution Booklet',
+};
+
+const optionLetter = (index: number) => (index >= 0 ? String.fromCharCode(65 + index) : '-');
+
+// mulberry32 seeded with an FNV-1a hash, so a set always prints in the same order
+function seededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Question and option order of a printed set; the paper and answer key of a set always match
+ */
+export function createPrintPaper(test: any, set: PaperSet): AttemptPaperSection[] {
+  if (set !== 'A') {
+    return createAttemptPaper(test, seededRandom(`${test._id}:${set}`));
+  }
+
+  return (test.sections || []).map((section: any) => ({
+    sectionId: section._id,
+    questions: (section.questions || []).map((question: any) => ({
+      questionId: question._id,
+      optionOrder: (question.options || []).map((_: string, index: number) => index),
+    })),
+  }));
+}
+
+function getPrintSections(test: any, set: PaperSet): PrintSection[] {
+  const sectionsById = new Map<string, any>(
+    (test.sections || []).map((section: any) => [section._id.toString(), section])
+  );
+
+  // Questions are numbered continuously across sections, as on an OMR sheet
+  let number = 0;
+
+  return createPrintPaper(test, set)
+    .map(paperSection => {
+      const section = sectionsById.get(paperSection.sectionId.toString());
+      if (!section) return null;
+
+      const scheme = resolveMarkingScheme(test, section);
+      const questionsById = new Map<string, any>(
+        (section.questions || []).map((question: any) => [question._id.toString(), question])
+      );
+
+      return {
+        title: section.title,
+        scheme,
+        questions: paperSection.questions
+          .map(({ questionId, optionOrder }) => {
+            const question = questionsById.get(questionId.toString());
+            if (!question) return null;
+            number += 1;
+            return {
+              number,
+              question,
+              optionOrder,
+              marks: getQuestionMarks(question, scheme),
+              negativeMarks: getNegativeMarks(question, scheme),
+            };
+          })
+          .filter((question): question is PrintQuestion => !!question),
+      };
+    })
+    .filter((section): section is PrintSection => !!section);
+}
+
+function describeScheme(scheme: MarkingScheme): string {
+  const parts = [
+    scheme.positiveMarks !== undefined ? `+${scheme.positiveMarks} per correct answer` : 'marks as shown per correct answer',
+    scheme.negativeFraction > 0 ? `${scheme.negativeFraction} × marks deducted per wrong answer` : 'no negative marking',
+  ];
+  if (scheme.unansweredMarks !== 0) parts.push(`${scheme.unansweredMarks} per unanswered question`);
+  if (scheme.allowPartialCredit) parts.push('partial credit for multiple-correct questions');
+  return parts.join(', ');
+}
+
+function renderQuestionBody(question: any, options: string[], matchItems: string[], reason?: string): string {
+  const text = question.type === 'assertion-reason'
+    ? `<div><strong>Assertion (A):</strong> ${renderRichContent(question.text, { inline: true })}</div>`
+      + `<div><strong>Reason (R):</strong> ${renderRichContent(reason || '', { inline: true })}</div>`
+    : renderRichContent(question.text);
+
+  if (question.type === 'numeric') {
+    return `${text}<div class="answer-box">Answer: ____________</div>`;
+  }
+
+  const optionList = `<ol class="options">${options
+    .map((option, index) => `<li><span class="letter">(${optionLetter(index)})</span> ${renderRichContent(option, { inline: true })}</li>`)
+    .join('')}</ol>`;
+
+  if (question.type === 'match') {
+    const items = `<ol class="match-items">${matchItems
+      .map(item => `<li>${renderRichContent(item, { inline: true })}</li>`)
+      .join('')}</ol>`;
+    return `${text}<div class="match">${items}${optionList}</div>`;
+  }
+
+  return text + optionList;
+}
+
+function renderQuestion(entry: PrintQuestion, bilingual: boolean, withExplanation = false): string {
+  const { number, question, optionOrder, marks, negativeMarks } = entry;
+  const options: string[] = question.options || [];
+  const displayed = optionOrder.map(index => options[index]);
+
+  const marking = `[+${marks}${negativeMarks > 0 ? `, -${negativeMarks}` : ''}]`;
+  let body = renderQuestionBody(question, displayed, question.matchItems || [], question.reason);
+
+  const hindi = bilingual ? getPaperTranslation(question, optionOrder, withExplanation) : undefined;
+  if (hindi) {
+    body += `<div class="hindi" lang="hi">${renderQuestionBody(
+      { ...question, text: hindi.text },
+      hindi.options.length ? hindi.options : displayed,
+      hindi.matchItems,
+      hindi.reason
+    )}</div>`;
+  }
+
+  return `<div class="question"><div class="question-head"><span class="number">Q${number}.</span><span class="marks">${marking}</span></div>${body}</div>`;
+}
+
+// Correct answer in the set's option order, as plain text
+function describeAnswer(entry: PrintQuestion): string {
+  const { question, optionOrder } = entry;
+  if (question.resolution === 'dropped') return 'Dropped';
+
+  const key = getDisplayedKey(question, optionOrder);
+  let answer: string;
+
+  switch (question.type) {
+    case 'numeric':
+      answer = `${key.correctNumericAnswer ?? '-'}${key.tolerance ? ` ± ${key.tolerance}` : ''}`;
+      break;
+    case 'multiple':
+      answer = key.correctOptions.map(optionLetter).join(', ') || '-';
+      break;
+    case 'match':
+      answer = key.correctMatches.map((match: number, item: number) => `${item + 1}-${optionLetter(match)}`).join(', ');
+      break;
+    default:
+      answer = optionLetter(key.correctOption);
+  }
+
+  return question.resolution === 'bonus' ? `${answer} (bonus: full marks to all)` : answer;
+}
+
+// OMR row: bubbles for option questions, the written value otherwise
+function renderKeyRow(entry: PrintQuestion): string {
+  const { question, optionOrder } = entry;
+  const type = question.type || 'mcq';
+  let answer: string;
+
+  if (question.resolution === 'dropped' || type === 'numeric' || type === 'match') {
+    answer = `<span class="written">${escapeHtml(describeAnswer(entry))}</span>`;
+  } else {
+    const key = getDisplayedKey(question, optionOrder);
+    const correct = type === 'multiple' ? key.correctOptions : [key.correctOption];
+    answer = optionOrder
+      .map((_, index) => `<span class="bubble${correct.includes(index) ? ' filled' : ''}">${optionLetter(index)}</span>`)
+      .join('');
+    if (question.resolution === 'bonus') answer += ' <span class="written">Bonus</span>';
+  }
+
+  return `<div class="key-row"><span class="key-number">${entry.number}</span>${answer}</div>`;
+}
+
+function renderPaper(sections: PrintSection[], bilingual: boolean): string {
+  return sections.map(section => `
+    <section>
+      <h2>${escapeHtml(section.title)}</h2>
+      <p class="scheme">${escapeHtml(describeScheme(section.scheme))}</p>
+      ${section.questions.map(question => renderQuestion(question, bilingual)).join('')}
+    </section>
+  `).join('');
+}
+
+function renderAnswerKey(sections: PrintSection[]): string {
+  return sections.map(section => `
+    <section class="key-section">
+      <h2>${escapeHtml(section.title)}</h2>
+      <div class="key">${section.questions.map(renderKeyRow).join('')}</div>
+    </section>
+  `).join('');
+}
+
+function renderSolutions(sections: PrintSection[], bilingual: boolean): string {
+  return sections.map(section => `
+    <section>
+      <h2>${escapeHtml(section.title)}</h2>
+      ${section.questions.map(entry => {
+        const hindi = bilingual ? getPaperTranslation(entry.question, entry.optionOrder, true) : undefined;
+        const explanation = entry.question.explanation
+          ? renderRichContent(entry.question.explanation)
+          : '<p class="muted">No explanation added.</p>';
+        return `
+          ${renderQuestion(entry, bilingual, true)}
+          <div class="solution">
+            <p><strong>Answer:</strong> ${escapeHtml(describeAnswer(entry))}</p>
+            ${explanation}
+            ${hindi?.explanation ? `<div class="hindi" lang="hi">${renderRichContent(hindi.explanation)}</div>` : ''}
+          </div>
+        `;
+      }).join('')}
+    </section>
+  `).join('');
+}
+
+/**
+ * Generates a print-ready HTML document for a test (browsers save it as PDF from the print dialog)
+ * @param document - Question paper, answer key or solution booklet
+ */
+export function generatePrintHTML(test: any, document: PrintDocument, options: PrintOptions): string {
+  const sections = getPrintSections(test, options.set);
+  const bilingual = !!options.bilingual;
+
+  const totalQuestions = sections.reduce((total, section) => total + section.questions.length, 0);
+  const totalMarks = sections.reduce(
+    (total, section) => total + section.questions.reduce((sum, question) => sum + question.marks, 0),
+    0
+  );
+
+  const body = document === 'paper'
+    ? renderPaper(sections, bilingual)
+    : document === 'answer-key'
+      ? renderAnswerKey(sections)
+      : renderSolutions(sections, bilingual);
+
+  const title = `${escapeHtml(test.title)} - ${DOCUMENT_TITLES[document]} (Set ${options.set})`;
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+        @page {
+            size: A4;
+            margin: 15mm;
+        }
+        body {
+            font-family: 'Times New Roman', serif;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 20px;
+            color: #111;
+            font-size: 14px;
+        }
+        .header {
+            text-align: center;
+            border-bottom: 2px solid #111;
+            padding-bottom: 12px;
+            margin-bottom: 20px;
+        }
+        .header h1 {
+            margin: 0 0 4px;
+            font-size: 22px;
+        }
+        .set {
+            display: inline-block;
+            border: 2px solid #111;
+            padding: 2px 10px;
+            font-weight: bold;
+            margin-top: 6px;
+        }
+        .details {
+            display: flex;
+            justify-content: space-between;
+            margin-top: 10px;
+        }
+        .candidate {
+            display: flex;
+            gap: 24px;
+            margin: 12px 0;
+        }
+        .candidate span {
+            flex: 1;
+            border-bottom: 1px solid #111;
+            padding-bottom: 16px;
+        }
+        h2 {
+            font-size: 16px;
+            border-bottom: 1px solid #999;
+            padding-bottom: 4px;
+            margin: 24px 0 6px;
+        }
+        .scheme, .muted {
+            color: #555;
+            font-size: 12px;
+            margin: 0 0 12px;
+        }
+        .question {
+            break-inside: avoid;
+            margin-bottom: 16px;
+        }
+        .question-head {
+            display: flex;
+            justify-content: space-between;
+            font-weight: bold;
+        }
+        .marks {
+            font-weight: normal;
+            font-size: 12px;
+        }
+        .options {
+            list-style: none;
+            padding-left: 16px;
+            margin: 6px 0;
+        }
+        .options li {
+            margin-bottom: 4px;
+        }
+        .letter {
+            font-weight: bold;
+        }
+        .match {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 12px;
+        }
+        .match-items {
+            margin: 6px 0;
+        }
+        .answer-box {
+            margin-top: 8px;
+        }
+        .hindi {
+            border-left: 2px solid #ccc;
+            padding-left: 10px;
+            margin-top: 8px;
+        }
+        .solution {
+            background: #f5f5f5;
+            padding: 8px 12px;
+            margin: -8px 0 20px;
+            break-inside: avoid;
+        }
+        .key-section {
+            break-inside: avoid;
+        }
+        .key {
+            columns: 3;
+        }
+        .key-row {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            break-inside: avoid;
+            padding: 3px 0;
+        }
+        .key-number {
+            width: 32px;
+            text-align: right;
+            font-weight: bold;
+        }
+        .bubble {
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+            width: 18px;
+            height: 18px;
+            border: 1px solid #111;
+            border-radius: 50%;
+            font-size: 10px;
+            margin-right: 3px;
+        }
+        .bubble.filled {
+            background: #111;
+            color: #fff;
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+        }
+        .written {
+            font-weight: bold;
+        }
+        .toolbar {
+            text-align: right;
+            margin-bottom: 12px;
+        }
+        @media print {
+            .toolbar {
+                display: none;
+            }
+            body {
+                padding: 0;
+            }
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+
+    <div class="header">
+        <h1>${escapeHtml(test.title)}</h1>
+        <div>${DOCUMENT_TITLES[document]}</div>
+        <div class="set">SET ${options.set}</div>
+        <div class="details">
+            <span>Time: ${getTestDuration(test)} minutes</span>
+            <span>Questions: ${totalQuestions}</span>
+            <span>Maximum Marks: ${totalMarks}</span>
+        </div>
+    </div>
+
+    ${document === 'paper' ? `
+    <div class="candidate">
+        <span>Name:</span>
+        <span>Roll No.:</span>
+    </div>
+    ` : ''}
+
+    ${body}
+</body>
+</html>
+  `.trim();
+}
@@ -0,0 +1,82 @@
+/**
+ * Test Proctoring Utilities
+ * Records suspicious activity reported by the attempt UI and enforces violation limits
+ */
+
+import { ITestAttempt, IProctoringEvent, ProctoringEventType, PROCTORING_EVENT_TYPES } from '@/models/MockTest';
+
+// Caps protect the attempt document from a client flooding events
+export const MAX_EVENTS_PER_REQUEST = 50;
+export const MAX_EVENTS_PER_ATTEMPT = 500;
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  'tab-switch': 'Switched tab or app',
+  'window-blur': 'Left the test window',
+  'copy': 'Copied text',
+  'paste': 'Pasted text',
+  'fullscreen-exit': 'Exited fullscreen',
+};
+
+/**
+ * Validates reported events, clamping client timestamps to the attempt window
+ * @returns Events ready to be stored, oldest first
+ */
+export function sanitizeProctoringEvents(
+  events: unknown,
+  attempt: Pick<ITestAttempt, 'startedAt'>,
+  now: Date = new Date()
+): IProctoringEvent[] {
+  if (!Array.isArray(events)) return [];
+
+  const startedAt = new Date(attempt.startedAt).getTime();
+
+  return events
+    .slice(0, MAX_EVENTS_PER_REQUEST)
+    .filter(event => PROCTORING_EVENT_TYPES.includes(event?.type))
+    .map(event => {
+      const reported = new Date(event.occurredAt).getTime();
+      const occurredAt = Number.isFinite(reported) ? Math.min(Math.max(reported, startedAt), now.getTime()) : now.getTime();
+      return { type: event.type as ProctoringEventType, occurredAt: new Date(occurredAt), recordedAt: now };
+    })
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+}
+
+/**
+ * Appends events to an attempt, skipping ones already stored (clients retry failed reports)
+ * @returns Number of events added
+ */
+export function recordProctoringEvents(attempt: ITestAttempt, events: IProctoringEvent[]): number {
+  const existing = attempt.proctoringEvents || [];
+  const seen = new Set(existing.map(event => `${event.type}:${new Date(event.occurredAt).getTime()}`));
+
+  const added = events.filter(event => {
+    const key = `${event.type}:${event.occurredAt.getTime()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, Math.max(0, MAX_EVENTS_PER_ATTEMPT - existing.length));
+
+  if (added.length > 0) {
+    attempt.set('proctoringEvents', [...existing, ...added]);
+  }
+
+  return added.length;
+}
+
+/**
+ * Whether an attempt has reached its test's violation limit and must be submitted
+ */
+export function hasExceededViolations(test: any, attempt: Pick<ITestAttempt, 'proctoringEvents'>): boolean {
+  return !!test.proctored && test.maxViolations > 0 && (attempt.proctoringEvents?.length || 0) >= test.maxViolations;
+}
+
+/**
+ * Formats an attempt's proctoring log for admins
+ */
+export function serializeProctoringEvents(attempt: Pick<ITestAttempt, 'proctoringEvents'>) {
+  return (attempt.proctoringEvents || []).map(event => ({
+    type: event.type,
+    label: PROCTORING_EVENT_LABELS[event.type],
+    occurredAt: new Date(event.occurredAt).toISOString(),
+  }));
+}
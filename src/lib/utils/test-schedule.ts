@@ -0,0 +1,78 @@
+/**
+ * Test Schedule Utilities
+ * Entry windows, live status and result release for scheduled (live) mock tests
+ */
+
+// Tests without a start time are always open
+export type TestScheduleStatus = 'open' | 'upcoming' | 'live' | 'completed';
+
+type ScheduleTime = Date | string | null | undefined;
+
+export interface TestSchedule {
+  startsAt?: ScheduleTime;
+  lateEntryUntil?: ScheduleTime;
+  endsAt?: ScheduleTime;
+  resultsReleaseAt?: ScheduleTime;
+}
+
+const toDate = (value: ScheduleTime): Date | null => (value ? new Date(value) : null);
+
+/**
+ * Where a test is in its schedule
+ */
+export function getScheduleStatus(test: TestSchedule, now: Date = new Date()): TestScheduleStatus {
+  const startsAt = toDate(test.startsAt);
+  if (!startsAt) return 'open';
+  if (now < startsAt) return 'upcoming';
+
+  const endsAt = toDate(test.endsAt);
+  return endsAt && now >= endsAt ? 'completed' : 'live';
+}
+
+/**
+ * Last moment a scheduled test can be started (the late-entry cutoff, else the end time)
+ */
+export function getEntryCutoff(test: TestSchedule): Date | null {
+  return toDate(test.lateEntryUntil) || toDate(test.endsAt);
+}
+
+/**
+ * Why a new attempt cannot be started right now
+ * @returns Error message, or null when the test is open for entry
+ */
+export function getEntryError(test: TestSchedule, now: Date = new Date()): string | null {
+  switch (getScheduleStatus(test, now)) {
+    case 'upcoming':
+      return `This test opens at ${toDate(test.startsAt)!.toISOString()}`;
+    case 'completed':
+      return 'This test has ended';
+    case 'live': {
+      const cutoff = getEntryCutoff(test);
+      return cutoff && now > cutoff ? 'Late entry for this test has closed' : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether scores, rankings and solutions may be shown
+ */
+export function areResultsReleased(test: TestSchedule, now: Date = new Date()): boolean {
+  const releaseAt = toDate(test.resultsReleaseAt);
+  return !releaseAt || now >= releaseAt;
+}
+
+/**
+ * Formats a test's schedule for the client
+ */
+export function serializeSchedule(test: TestSchedule, now: Date = new Date()) {
+  return {
+    status: getScheduleStatus(test, now),
+    startsAt: toDate(test.startsAt)?.toISOString() ?? null,
+    lateEntryUntil: getEntryCutoff(test)?.toISOString() ?? null,
+    endsAt: toDate(test.endsAt)?.toISOString() ?? null,
+    resultsReleaseAt: toDate(test.resultsReleaseAt)?.toISOString() ?? null,
+    resultsReleased: areResultsReleased(test, now),
+  };
+}
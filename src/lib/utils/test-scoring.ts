@@ -1,24 +1,101 @@
 import { ObjectId } from 'mongoose';
 
+export type QuestionType = 'mcq' | 'multiple' | 'numeric' | 'true-false' | 'match' | 'assertion-reason';
+
 export interface Answer {
   questionId: string;
-  selectedOption: number;
+  selectedOption: number; // -1 when the question type uses another field
+  selectedOptions?: number[];
+  numericAnswer?: number;
+  matches?: number[];
 }
 
 export interface ProcessedAnswer {
   questionId: ObjectId;
   selectedOption: number;
+  selectedOptions: number[];
+  numericAnswer?: number;
+  matches: number[];
   isCorrect: boolean;
   marksAwarded: number;
+  timeSpent?: number; // seconds
+  visits?: number;
+}
+
+export interface QuestionTiming {
+  questionId: string;
+  timeSpent: number; // seconds
+  visits: number;
+}
+
+export type AnswerOutcome = 'correct' | 'partial' | 'wrong' | 'unanswered';
+
+// Set by an erratum: bonus questions award full marks to every attempt, dropped questions count for nothing
+export type QuestionResolution = 'bonus' | 'dropped';
+
+export interface SectionTimeAnalysis {
+  sectionId: ObjectId;
+  sectionTitle: string;
+  timeSpent: number; // seconds
+  attempted: number;
+  averagePerAttempted: number; // seconds
+  timeOnWrong: number; // seconds
+}
+
+export interface QuestionTimeEntry {
+  questionId: ObjectId;
+  sectionTitle: string;
+  timeSpent: number; // seconds
+  visits: number;
+  outcome?: AnswerOutcome; // left out while the attempt's solutions are locked
+}
+
+export interface TimeAnalysis {
+  trackedTime: number; // seconds
+  targetPerQuestion: number; // seconds allotted per question by the test duration
+  timeOnCorrect: number;
+  timeOnPartial: number;
+  timeOnWrong: number;
+  timeOnUnanswered: number;
+  averagePerAttempted: number;
+  sections: SectionTimeAnalysis[];
+  abandoned: QuestionTimeEntry[]; // left unanswered after a long dwell
+  slowest: QuestionTimeEntry[];
 }
 
+// Questions left unanswered after at least this long (or the per-question target, if longer) count as abandoned
+export const ABANDONED_DWELL_SECONDS = 60;
+
+const SLOWEST_QUESTIONS_LIMIT = 5;
+
+export interface MarkingScheme {
+  positiveMarks?: number;
+  negativeFraction: number;
+  unansweredMarks: number;
+  allowPartialCredit: boolean;
+}
+
+export const DEFAULT_MARKING_SCHEME: MarkingScheme = {
+  negativeFraction: 0,
+  unansweredMarks: 0,
+  allowPartialCredit: false,
+};
+
 export interface TestQuestion {
   _id: ObjectId;
+  type?: QuestionType;
   text: string;
   options: string[];
-  correctAnswer: number;
+  correctAnswer?: number;
+  correctAnswers?: number[];
+  numericAnswer?: number;
+  tolerance?: number;
+  matchItems?: string[];
+  correctMatches?: number[];
+  reason?: string;
   explanation?: string;
   marks: number;
+  resolution?: QuestionResolution;
 }
 
 export interface TestSection {
@@ -26,6 +103,7 @@ export interface TestSection {
   title: string;
   questions: TestQuestion[];
   timeLimit?: number;
+  markingScheme?: Partial<MarkingScheme>;
 }
 
 export interface MockTest {
@@ -34,6 +112,7 @@ export interface MockTest {
   description: string;
   duration: number;
   sections: TestSection[];
+  markingScheme?: Partial<MarkingScheme>;
   price: number;
   isActive: boolean;
 }
@@ -53,69 +132,219 @@ export interface SectionScore {
   totalMarks: number;
   percentage: number;
   correctAnswers: number;
+  partiallyCorrect: number;
+  wrongAnswers: number;
+  unanswered: number;
+  negativeMarks: number;
   totalQuestions: number;
+  markingScheme: MarkingScheme;
+}
+
+/**
+ * Resolves the marking scheme that applies to a section
+ * @param test - The test carrying the default scheme
+ * @param section - The section, which may override the test scheme
+ * @returns Fully populated marking scheme
+ */
+export function resolveMarkingScheme(
+  test: Pick<MockTest, 'markingScheme'>,
+  section?: Pick<TestSection, 'markingScheme'>
+): MarkingScheme {
+  return {
+    ...DEFAULT_MARKING_SCHEME,
+    ...stripUndefined(test.markingScheme),
+    ...stripUndefined(section?.markingScheme),
+  };
+}
+
+/**
+ * Maximum marks a question can earn under a marking scheme (dropped questions carry none)
+ */
+export function getQuestionMarks(question: Pick<TestQuestion, 'marks' | 'resolution'>, scheme: MarkingScheme): number {
+  if (question.resolution === 'dropped') return 0;
+  return scheme.positiveMarks ?? question.marks;
+}
+
+/**
+ * Marks deducted for a wrong answer under a marking scheme
+ */
+export function getNegativeMarks(question: Pick<TestQuestion, 'marks' | 'resolution'>, scheme: MarkingScheme): number {
+  return roundMarks(getQuestionMarks(question, scheme) * scheme.negativeFraction);
+}
+
+function stripUndefined<T extends object>(value?: T | null): Partial<T> {
+  if (!value) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && v !== null)
+  ) as Partial<T>;
+}
+
+function roundMarks(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whether an answer carries a response for any question type
+ */
+export function isAnswered(answer?: Omit<Answer, 'questionId'> | null): boolean {
+  if (!answer) return false;
+  return answer.selectedOption >= 0
+    || (answer.selectedOptions?.length ?? 0) > 0
+    || (typeof answer.numericAnswer === 'number' && Number.isFinite(answer.numericAnswer))
+    || (answer.matches ?? []).some(match => match >= 0);
+}
+
+/**
+ * Evaluates a single answer against a question under a marking scheme.
+ * Multiple-select and match questions earn proportional marks when partial
+ * credit is enabled and no wrong option or pair was chosen; otherwise any
+ * incomplete response counts as wrong. Bonus questions are correct for
+ * everyone and dropped questions score nothing either way.
+ * @param question - Question with its answer key
+ * @param answer - The student's answer, if any
+ * @param scheme - Marking scheme applying to the question's section
+ * @returns Outcome and marks awarded
+ */
+export function evaluateAnswer(
+  question: TestQuestion,
+  answer: Omit<Answer, 'questionId'> | undefined,
+  scheme: MarkingScheme
+): { outcome: AnswerOutcome; marksAwarded: number } {
+  const questionMarks = getQuestionMarks(question, scheme);
+
+  if (question.resolution === 'bonus') {
+    return { outcome: 'correct', marksAwarded: questionMarks };
+  }
+  if (question.resolution === 'dropped') {
+    return { outcome: 'unanswered', marksAwarded: 0 };
+  }
+
+  if (!answer || !isAnswered(answer)) {
+    return { outcome: 'unanswered', marksAwarded: scheme.unansweredMarks };
+  }
+
+  const correct = { outcome: 'correct' as const, marksAwarded: questionMarks };
+  const wrong = { outcome: 'wrong' as const, marksAwarded: -getNegativeMarks(question, scheme) };
+  const partial = (fraction: number) => scheme.allowPartialCredit && fraction > 0
+    ? { outcome: 'partial' as const, marksAwarded: roundMarks(questionMarks * fraction) }
+    : wrong;
+
+  switch (question.type || 'mcq') {
+    case 'multiple': {
+      const expected = new Set(question.correctAnswers || []);
+      const selected = new Set(answer.selectedOptions || []);
+      const selectedCorrect = Array.from(selected).filter(option => expected.has(option)).length;
+
+      if (selectedCorrect < selected.size) return wrong;
+      if (selectedCorrect === expected.size) return correct;
+      return partial(expected.size > 0 ? selectedCorrect / expected.size : 0);
+    }
+
+    case 'numeric': {
+      if (typeof question.numericAnswer !== 'number' || typeof answer.numericAnswer !== 'number') return wrong;
+      const deviation = Math.abs(answer.numericAnswer - question.numericAnswer);
+      // Small epsilon so decimal answers like 0.1 + 0.2 are not rejected by float error
+      return deviation <= (question.tolerance || 0) + 1e-9 ? correct : wrong;
+    }
+
+    case 'match': {
+      const expected = question.correctMatches || [];
+      const matches = answer.matches || [];
+      const correctPairs = expected.filter((option, item) => matches[item] === option).length;
+      const wrongPairs = matches.filter((option, item) => option >= 0 && expected[item] !== option).length;
+
+      if (expected.length > 0 && correctPairs === expected.length) return correct;
+      if (wrongPairs > 0) return wrong;
+      return partial(expected.length > 0 ? correctPairs / expected.length : 0);
+    }
+
+    default:
+      return answer.selectedOption === question.correctAnswer ? correct : wrong;
+  }
 }
 
 /**
  * Calculates the score for a test attempt
  * @param test - The test data with correct answers
  * @param answers - The student's answers
+ * @param timings - Time spent and visits per question, recorded by the attempt UI
  * @returns Scoring result with detailed breakdown
  */
-export function calculateTestScore(test: MockTest, answers: Answer[]): ScoringResult {
+export function calculateTestScore(test: MockTest, answers: Answer[], timings: QuestionTiming[] = []): ScoringResult {
   const processedAnswers: ProcessedAnswer[] = [];
   const sectionWiseScores: SectionScore[] = [];
   let totalScore = 0;
   let totalMarks = 0;
 
   // Create a map for quick answer lookup
-  const answerMap = new Map<string, number>();
+  const answerMap = new Map<string, Answer>();
   answers.forEach(answer => {
-    answerMap.set(answer.questionId, answer.selectedOption);
+    answerMap.set(answer.questionId, answer);
+  });
+
+  const timingMap = new Map<string, QuestionTiming>();
+  timings.forEach(timing => {
+    timingMap.set(timing.questionId, timing);
   });
 
   // Process each section
   for (const section of test.sections) {
+    const scheme = resolveMarkingScheme(test, section);
     let sectionScore = 0;
     let sectionTotalMarks = 0;
     let correctAnswers = 0;
+    let partiallyCorrect = 0;
+    let wrongAnswers = 0;
+    let unanswered = 0;
+    let negativeMarks = 0;
+    let totalQuestions = 0;
 
     // Process each question in the section
     for (const question of section.questions) {
       const questionId = question._id.toString();
-      const selectedOption = answerMap.get(questionId);
+      const answer = answerMap.get(questionId);
+      const questionMarks = getQuestionMarks(question, scheme);
       
-      sectionTotalMarks += question.marks;
-      totalMarks += question.marks;
-
-      if (selectedOption !== undefined) {
-        const isCorrect = selectedOption === question.correctAnswer;
-        const marksAwarded = isCorrect ? question.marks : 0;
-        
-        sectionScore += marksAwarded;
-        totalScore += marksAwarded;
-        
-        if (isCorrect) {
+      sectionTotalMarks += questionMarks;
+      totalMarks += questionMarks;
+
+      const { outcome, marksAwarded } = evaluateAnswer(question, answer, scheme);
+
+      sectionScore += marksAwarded;
+      totalScore += marksAwarded;
+
+      // Dropped questions keep their response in the processed answers but leave the counts
+      if (question.resolution !== 'dropped') {
+        totalQuestions++;
+        if (outcome === 'correct') {
           correctAnswers++;
+        } else if (outcome === 'partial') {
+          partiallyCorrect++;
+        } else if (outcome === 'wrong') {
+          wrongAnswers++;
+          negativeMarks -= marksAwarded;
+        } else {
+          unanswered++;
         }
-
-        processedAnswers.push({
-          questionId: question._id,
-          selectedOption,
-          isCorrect,
-          marksAwarded
-        });
-      } else {
-        // Question not answered
-        processedAnswers.push({
-          questionId: question._id,
-          selectedOption: -1, // Indicates no answer
-          isCorrect: false,
-          marksAwarded: 0
-        });
       }
+
+      const response = isAnswered(answer) ? answer : undefined;
+      const timing = timingMap.get(questionId);
+      processedAnswers.push({
+        questionId: question._id,
+        selectedOption: response?.selectedOption ?? -1, // -1 indicates no single-option answer
+        selectedOptions: response?.selectedOptions ?? [],
+        numericAnswer: response?.numericAnswer,
+        matches: response?.matches ?? [],
+        isCorrect: outcome === 'correct',
+        marksAwarded,
+        timeSpent: timing?.timeSpent ?? 0,
+        visits: timing?.visits ?? 0
+      });
     }
 
+    sectionScore = roundMarks(sectionScore);
+
     // Calculate section-wise score
     const sectionPercentage = sectionTotalMarks > 0 ? (sectionScore / sectionTotalMarks) * 100 : 0;
     
@@ -126,10 +355,17 @@ export function calculateTestScore(test: MockTest, answers: Answer[]): ScoringRe
       totalMarks: sectionTotalMarks,
       percentage: Math.round(sectionPercentage * 100) / 100,
       correctAnswers,
-      totalQuestions: section.questions.length
+      partiallyCorrect,
+      wrongAnswers,
+      unanswered,
+      negativeMarks: roundMarks(negativeMarks),
+      totalQuestions,
+      markingScheme: scheme
     });
   }
 
+  totalScore = roundMarks(totalScore);
+
   const overallPercentage = totalMarks > 0 ? (totalScore / totalMarks) * 100 : 0;
 
   return {
@@ -192,15 +428,104 @@ export function validateTestTiming(
   };
 }
 
+function getAnswerOutcome(answer: Omit<ProcessedAnswer, 'questionId'>): AnswerOutcome {
+  if (answer.isCorrect) return 'correct';
+  if (!isAnswered(answer)) return 'unanswered';
+  return answer.marksAwarded > 0 ? 'partial' : 'wrong';
+}
+
+/**
+ * Analyses how a student spent their time across questions
+ * @param test - The test the answers belong to
+ * @param answers - Scored answers carrying per-question time and visits
+ * @param durationMinutes - Time allowed for the whole test
+ * @returns Time split by outcome and section, abandoned questions and the slowest questions
+ */
+export function analyzeQuestionTimes(
+  test: Pick<MockTest, 'sections'>,
+  answers: Array<Omit<ProcessedAnswer, 'questionId'> & { questionId: { toString(): string } }>,
+  durationMinutes: number
+): TimeAnalysis {
+  const answerMap = new Map(answers.map(answer => [answer.questionId.toString(), answer]));
+  const totalQuestions = test.sections.reduce((sum, section) => sum + section.questions.length, 0);
+  const targetPerQuestion = totalQuestions > 0 ? Math.round((durationMinutes * 60) / totalQuestions) : 0;
+  const abandonAfter = Math.max(ABANDONED_DWELL_SECONDS, targetPerQuestion);
+
+  const timeByOutcome: Record<AnswerOutcome, number> = { correct: 0, partial: 0, wrong: 0, unanswered: 0 };
+  const entries: QuestionTimeEntry[] = [];
+  const sections: SectionTimeAnalysis[] = [];
+
+  for (const section of test.sections) {
+    let sectionTime = 0;
+    let attempted = 0;
+    let attemptedTime = 0;
+    let timeOnWrong = 0;
+
+    for (const question of section.questions) {
+      const answer = answerMap.get(question._id.toString());
+      const outcome = answer ? getAnswerOutcome(answer) : 'unanswered';
+      const timeSpent = answer?.timeSpent ?? 0;
+
+      timeByOutcome[outcome] += timeSpent;
+      sectionTime += timeSpent;
+      if (outcome !== 'unanswered') {
+        attempted++;
+        attemptedTime += timeSpent;
+      }
+      if (outcome === 'wrong') timeOnWrong += timeSpent;
+
+      entries.push({
+        questionId: question._id,
+        sectionTitle: section.title,
+        timeSpent,
+        visits: answer?.visits ?? 0,
+        outcome,
+      });
+    }
+
+    sections.push({
+      sectionId: section._id,
+      sectionTitle: section.title,
+      timeSpent: sectionTime,
+      attempted,
+      averagePerAttempted: attempted > 0 ? Math.round(attemptedTime / attempted) : 0,
+      timeOnWrong,
+    });
+  }
+
+  const attemptedEntries = entries.filter(entry => entry.outcome !== 'unanswered');
+  const attemptedTime = attemptedEntries.reduce((sum, entry) => sum + entry.timeSpent, 0);
+
+  return {
+    trackedTime: entries.reduce((sum, entry) => sum + entry.timeSpent, 0),
+    targetPerQuestion,
+    timeOnCorrect: timeByOutcome.correct,
+    timeOnPartial: timeByOutcome.partial,
+    timeOnWrong: timeByOutcome.wrong,
+    timeOnUnanswered: timeByOutcome.unanswered,
+    averagePerAttempted: attemptedEntries.length > 0 ? Math.round(attemptedTime / attemptedEntries.length) : 0,
+    sections,
+    abandoned: entries
+      .filter(entry => entry.outcome === 'unanswered' && entry.timeSpent >= abandonAfter)
+      .sort((a, b) => b.timeSpent - a.timeSpent),
+    slowest: entries
+      .filter(entry => entry.timeSpent > 0)
+      .sort((a, b) => b.timeSpent - a.timeSpent)
+      .slice(0, SLOWEST_QUESTIONS_LIMIT),
+  };
+}
+
 /**
  * Generates performance analytics for a test attempt
  * @param scoringResult - The scoring result
  * @param timeSpent - Time spent in minutes
+ * @param timeAnalysis - Per-question time analysis, when the attempt recorded it
  * @returns Performance analytics
  */
 export function generatePerformanceAnalytics(
   scoringResult: ScoringResult,
-  timeSpent: number
+  timeSpent: number,
+  timeAnalysis?: TimeAnalysis
 ): {
   grade: string;
   performance: 'Excellent' | 'Good' | 'Average' | 'Below Average' | 'Poor';
@@ -234,14 +559,17 @@ export function generatePerformanceAnalytics(
     performance = 'Poor';
   }
 
-  // Determine time efficiency (assuming 1.5 minutes per question is optimal)
+  // Determine time efficiency: average time per attempted question against the time the test allots
+  // per question, or against 1.5 minutes per question for attempts recorded without per-question timing
   const totalQuestions = sectionWiseScores.reduce((sum, section) => sum + section.totalQuestions, 0);
-  const optimalTime = totalQuestions * 1.5;
+  const hasTimings = !!timeAnalysis && timeAnalysis.trackedTime > 0 && timeAnalysis.targetPerQuestion > 0;
+  const actualTime = hasTimings ? timeAnalysis.averagePerAttempted : timeSpent;
+  const optimalTime = hasTimings ? timeAnalysis.targetPerQuestion : totalQuestions * 1.5;
   
   let timeEfficiency: 'Fast' | 'Optimal' | 'Slow';
-  if (timeSpent < optimalTime * 0.7) {
+  if (actualTime < optimalTime * 0.7) {
     timeEfficiency = 'Fast';
-  } else if (timeSpent <= optimalTime * 1.3) {
+  } else if (actualTime <= optimalTime * 1.3) {
     timeEfficiency = 'Optimal';
   } else {
     timeEfficiency = 'Slow';
@@ -259,6 +587,23 @@ export function generatePerformanceAnalytics(
     }
   });
 
+  // Flag marks lost to negative marking
+  const negativeMarks = sectionWiseScores.reduce((sum, section) => sum + section.negativeMarks, 0);
+  if (negativeMarks > 0) {
+    improvements.push(`Avoid guesswork: ${Math.round(negativeMarks * 100) / 100} marks lost to negative marking`);
+  }
+
+  // Flag time sunk into wrong answers and questions given up on
+  if (hasTimings) {
+    const wrongShare = timeAnalysis.timeOnWrong / timeAnalysis.trackedTime;
+    if (wrongShare >= 0.25) {
+      improvements.push(`${Math.round(wrongShare * 100)}% of your time went into questions you got wrong`);
+    }
+    if (timeAnalysis.abandoned.length > 0) {
+      improvements.push(`Skip sooner: ${timeAnalysis.abandoned.length} question(s) left unanswered after a long look`);
+    }
+  }
+
   // Add general feedback
   if (timeEfficiency === 'Fast' && performance === 'Excellent') {
     strengths.push('Excellent time management and accuracy');
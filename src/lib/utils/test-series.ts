@@ -0,0 +1,319 @@
+/**
+ * Test Series Utilities
+ * Validates series, applies their release schedule and builds series progress and cumulative rankings
+ */
+
+import mongoose from 'mongoose';
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import Order from '@/models/Order';
+import User from '@/models/User';
+import TestSeries, { ISeriesTest, ITestSeries } from '@/models/TestSeries';
+import { getRankedAttempts, rankToPercentile, RankedAttempt } from './test-leaderboard';
+import { areResultsReleased } from './test-schedule';
+
+export const SERIES_LEADERBOARD_LIMIT = 10;
+
+// Fields an admin may set on a series
+export const TEST_SERIES_FIELDS = ['title', 'description', 'exam', 'tests', 'price', 'originalPrice', 'isActive'] as const;
+
+export interface SeriesStanding {
+  rank: number;
+  userId: string;
+  userName: string;
+  score: number;
+  totalMarks: number;
+  percentage: number;
+  testsTaken: number;
+  timeSpent: number; // minutes
+}
+
+export interface SeriesTestProgress {
+  testId: string;
+  title: string;
+  duration: number;
+  releaseAt: Date | null;
+  released: boolean;
+  resultsReleased: boolean;
+  attempted: boolean;
+  score: number | null; // the attempt counted on the test's leaderboard
+  totalMarks: number | null;
+  percentage: number | null;
+  rank: number | null;
+  totalCandidates: number;
+}
+
+export interface SeriesProgress {
+  testsCompleted: number;
+  totalTests: number;
+  releasedTests: number;
+  completionPercentage: number;
+  tests: SeriesTestProgress[];
+  standing: (SeriesStanding & { totalCandidates: number; percentile: number }) | null;
+  leaderboard: SeriesStanding[];
+}
+
+/**
+ * Picks the writable series fields from a request body
+ */
+export function pickTestSeriesFields(body: Record<string, any>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  TEST_SERIES_FIELDS.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+
+  if (Array.isArray(fields.tests)) {
+    // null clears a release date
+    fields.tests = (fields.tests as any[]).map(entry => ({
+      testId: entry?.testId,
+      releaseAt: entry?.releaseAt || undefined,
+    }));
+  }
+
+  return fields;
+}
+
+/**
+ * Validates a test series
+ * @returns List of validation errors
+ */
+export function validateTestSeries(data: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!data.title?.trim()) errors.push('Title is required');
+  if (!data.description?.trim()) errors.push('Description is required');
+
+  if (typeof data.price !== 'number' || data.price < 0) {
+    errors.push('Price must be 0 or greater');
+  }
+  if (data.originalPrice !== undefined && data.originalPrice !== null
+    && (typeof data.originalPrice !== 'number' || data.originalPrice < data.price)) {
+    errors.push('Original price must be at least the price');
+  }
+
+  const tests: any[] = Array.isArray(data.tests) ? data.tests : [];
+  if (tests.length === 0) errors.push('Add at least one test');
+
+  const seen = new Set<string>();
+  tests.forEach((entry, index) => {
+    const testId = entry?.testId?.toString();
+    if (!testId || !mongoose.Types.ObjectId.isValid(testId)) {
+      errors.push(`Test ${index + 1}: Invalid test`);
+      return;
+    }
+    if (seen.has(testId)) errors.push(`Test ${index + 1}: Test is already in the series`);
+    seen.add(testId);
+
+    if (entry.releaseAt && Number.isNaN(new Date(entry.releaseAt).getTime())) {
+      errors.push(`Test ${index + 1}: Invalid release date`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Whether a series test has opened to series buyers
+ */
+export function isSeriesTestReleased(entry: Pick<ISeriesTest, 'releaseAt'>, now: Date = new Date()): boolean {
+  return !entry.releaseAt || new Date(entry.releaseAt) <= now;
+}
+
+/**
+ * Series granted to the user when their orders completed
+ */
+export async function getPurchasedSeriesIds(userId: string): Promise<string[]> {
+  const user: any = await User.findById(userId).select('testSeries').lean();
+  return (user?.testSeries || []).map((id: mongoose.Types.ObjectId) => id.toString());
+}
+
+/**
+ * Users a series has been granted to
+ */
+async function getSeriesBuyerIds(seriesId: string | mongoose.Types.ObjectId): Promise<Set<string>> {
+  const ids: mongoose.Types.ObjectId[] = await User.distinct('_id', { testSeries: seriesId });
+  return new Set(ids.map(id => id.toString()));
+}
+
+/**
+ * Counts completed purchases of each series
+ */
+export async function countSeriesPurchases(seriesIds: Array<string | mongoose.Types.ObjectId>): Promise<Record<string, number>> {
+  const counts = await Order.aggregate([
+    { $match: { status: 'completed', 'items.type': 'test-series' } },
+    { $unwind: '$items' },
+    {
+      $match: {
+        'items.type': 'test-series',
+        'items.itemId': { $in: seriesIds.map(id => new mongoose.Types.ObjectId(id.toString())) },
+      },
+    },
+    { $group: { _id: '$items.itemId', count: { $sum: 1 } } },
+  ]);
+
+  return Object.fromEntries(counts.map(entry => [entry._id.toString(), entry.count]));
+}
+
+/**
+ * Checks that every test in a series exists
+ * @returns List of validation errors
+ */
+export async function validateSeriesTestsExist(tests: Array<{ testId: unknown }>): Promise<string[]> {
+  const ids = tests.map(entry => String(entry.testId));
+  const found = new Set<string>(
+    (await MockTest.find({ _id: { $in: ids } }).select('_id').lean()).map((test: any) => test._id.toString())
+  );
+
+  return ids
+    .map((id, index) => (found.has(id) ? null : `Test ${index + 1}: Test not found`))
+    .filter((error): error is string => !!error);
+}
+
+/**
+ * Why a student cannot start a test sold in a series. Tests bought on their own are open; otherwise
+ * the student needs a series grant holding the test (free tests need none) and the test must be
+ * released in one of those series.
+ * @returns Error message, or null when the test is open
+ */
+export async function getSeriesAccessError(
+  test: { _id: { toString(): string }; price?: number },
+  userId: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const testId = test._id.toString();
+  const seriesList: ITestSeries[] = await TestSeries.find({ isActive: true, 'tests.testId': testId })
+    .select('tests')
+    .lean();
+
+  if (seriesList.length === 0) return null;
+
+  const boughtAlone = await Order.exists({
+    userId,
+    status: 'completed',
+    items: { $elemMatch: { type: 'test', itemId: testId } },
+  });
+  if (boughtAlone) return null;
+
+  const granted = new Set(await getPurchasedSeriesIds(userId));
+  const grantedSeries = seriesList.filter(series => granted.has(series._id.toString()));
+  if (grantedSeries.length === 0 && (test.price ?? 0) > 0) {
+    return 'Buy a test series that includes this test to attempt it';
+  }
+
+  const entries = (grantedSeries.length > 0 ? grantedSeries : seriesList)
+    .map(series => series.tests.find(entry => entry.testId.toString() === testId))
+    .filter((entry): entry is ISeriesTest => !!entry);
+
+  if (entries.some(entry => isSeriesTestReleased(entry, now))) return null;
+
+  const releaseAt = new Date(Math.min(...entries.map(entry => new Date(entry.releaseAt!).getTime())));
+  return `This test is released on ${releaseAt.toISOString()}`;
+}
+
+/**
+ * Sums each student's counted attempts across the series tests and ranks the totals
+ * (ties on score and time share a rank)
+ */
+export function rankSeriesStandings(rankedByTest: RankedAttempt[][]): SeriesStanding[] {
+  const totals = new Map<string, Omit<SeriesStanding, 'rank' | 'percentage'>>();
+
+  rankedByTest.flat().forEach(entry => {
+    const total = totals.get(entry.userId) || {
+      userId: entry.userId,
+      userName: entry.userName,
+      score: 0,
+      totalMarks: 0,
+      testsTaken: 0,
+      timeSpent: 0,
+    };
+    total.score = Math.round((total.score + entry.score) * 100) / 100;
+    total.totalMarks += entry.totalMarks;
+    total.testsTaken++;
+    total.timeSpent += entry.timeSpent;
+    totals.set(entry.userId, total);
+  });
+
+  const sorted = Array.from(totals.values())
+    .sort((a, b) => b.score - a.score || a.timeSpent - b.timeSpent);
+
+  let rank = 0;
+  return sorted.map((total, index) => {
+    const previous = sorted[index - 1];
+    if (index === 0 || previous.score !== total.score || previous.timeSpent !== total.timeSpent) rank = index + 1;
+    return {
+      ...total,
+      rank,
+      percentage: total.totalMarks > 0 ? Math.round((total.score / total.totalMarks) * 100) : 0,
+    };
+  });
+}
+
+/**
+ * Builds a student's progress through a series: per-test results and ranks,
+ * and their cumulative rank among the series buyers over all tests whose results are out
+ */
+export async function getSeriesProgress(
+  series: Pick<ITestSeries, '_id' | 'tests'>,
+  userId: string | null,
+  now: Date = new Date()
+): Promise<SeriesProgress> {
+  const testIds = series.tests.map(entry => entry.testId);
+  const tests = await MockTest.find({ _id: { $in: testIds } })
+    .select('title duration sections rankingPolicy resultsReleaseAt')
+    .lean();
+  const testsById = new Map<string, any>(tests.map((test: any) => [test._id.toString(), test]));
+
+  // Attempts count towards progress even while their results are withheld
+  const attemptedIds = new Set<string>(userId
+    ? (await TestAttempt.distinct('testId', { userId, testId: { $in: testIds }, mode: { $ne: 'practice' }, status: { $ne: 'in-progress' } }))
+      .map((id: mongoose.Types.ObjectId) => id.toString())
+    : []);
+
+  const rankedByTest: RankedAttempt[][] = [];
+  const progress: SeriesTestProgress[] = [];
+
+  for (const entry of series.tests) {
+    const test = testsById.get(entry.testId.toString());
+    if (!test) continue;
+
+    // Scores of tests whose results are withheld stay out of the series ranking
+    const resultsReleased = areResultsReleased(test, now);
+    const ranked = resultsReleased ? await getRankedAttempts(test) : [];
+    rankedByTest.push(ranked);
+
+    const own = userId ? ranked.find(attempt => attempt.userId === userId) : undefined;
+    progress.push({
+      testId: test._id.toString(),
+      title: test.title,
+      duration: test.duration,
+      releaseAt: entry.releaseAt || null,
+      released: isSeriesTestReleased(entry, now),
+      resultsReleased,
+      attempted: attemptedIds.has(test._id.toString()),
+      score: own?.score ?? null,
+      totalMarks: own?.totalMarks ?? null,
+      percentage: own?.percentage ?? null,
+      rank: own?.rank ?? null,
+      totalCandidates: ranked.length,
+    });
+  }
+
+  // Only series buyers compete in the cumulative ranking
+  const buyerIds = await getSeriesBuyerIds(series._id);
+  const standings = rankSeriesStandings(
+    rankedByTest.map(ranked => ranked.filter(attempt => buyerIds.has(attempt.userId)))
+  );
+  const own = userId ? standings.find(standing => standing.userId === userId) : undefined;
+  const testsCompleted = progress.filter(test => test.attempted).length;
+
+  return {
+    testsCompleted,
+    totalTests: progress.length,
+    releasedTests: progress.filter(test => test.released).length,
+    completionPercentage: progress.length > 0 ? Math.round((testsCompleted / progress.length) * 100) : 0,
+    tests: progress,
+    standing: own
+      ? { ...own, totalCandidates: standings.length, percentile: rankToPercentile(own.rank, standings.length) }
+      : null,
+    leaderboard: standings.slice(0, SERIES_LEADERBOARD_LIMIT),
+  };
+}
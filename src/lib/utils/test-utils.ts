@@ -1,12 +1,34 @@
 import { ObjectId } from 'mongoose';
+import { MarkingScheme, QuestionType, resolveMarkingScheme, getQuestionMarks } from './test-scoring';
+import { validateRichContent } from './rich-content';
+import type { PracticeModePolicy } from '@/models/MockTest';
+
+// Hindi wording of a question; blank options and items fall back to the English ones
+export interface QuestionTranslation {
+  text: string;
+  options?: string[];
+  matchItems?: string[];
+  reason?: string;
+  explanation?: string;
+}
 
 export interface TestQuestion {
   _id: ObjectId;
+  type?: QuestionType;
   text: string;
   options: string[];
-  correctAnswer: number;
+  correctAnswer?: number;
+  correctAnswers?: number[];
+  numericAnswer?: number;
+  tolerance?: number;
+  matchItems?: string[];
+  correctMatches?: number[];
+  reason?: string;
   explanation?: string;
+  hindi?: QuestionTranslation;
   marks: number;
+  subject?: string;
+  topic?: string;
 }
 
 export interface TestSection {
@@ -14,6 +36,7 @@ export interface TestSection {
   title: string;
   questions: TestQuestion[];
   timeLimit?: number;
+  markingScheme?: Partial<MarkingScheme>;
 }
 
 export interface MockTestData {
@@ -22,19 +45,61 @@ export interface MockTestData {
   description: string;
   duration: number;
   sections: TestSection[];
+  markingScheme?: Partial<MarkingScheme>;
+  sectionalTiming?: boolean;
+  maxAttempts?: number;
+  retakeCooldownMinutes?: number;
+  solutionsAfterFinalAttempt?: boolean;
+  proctored?: boolean;
+  maxViolations?: number;
+  practiceMode?: PracticeModePolicy;
+  practiceQuestionSeconds?: number;
+  startsAt?: Date | string | null;
+  lateEntryUntil?: Date | string | null;
+  endsAt?: Date | string | null;
+  resultsReleaseAt?: Date | string | null;
   price: number;
   isActive: boolean;
 }
 
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'mcq': 'Single correct',
+  'multiple': 'Multiple correct',
+  'numeric': 'Numeric answer',
+  'true-false': 'True / False',
+  'match': 'Match the following',
+  'assertion-reason': 'Assertion & Reason',
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const ASSERTION_REASON_OPTIONS = [
+  'Both A and R are true and R is the correct explanation of A',
+  'Both A and R are true but R is not the correct explanation of A',
+  'A is true but R is false',
+  'A is false but R is true',
+];
+
+/**
+ * Whether a question's options may be shuffled per attempt
+ * (true/false and assertion-reason options have a fixed conventional order)
+ * @param type - Question type
+ * @returns True when options can be shuffled
+ */
+export function hasShuffleableOptions(type: QuestionType = 'mcq'): boolean {
+  return type === 'mcq' || type === 'multiple' || type === 'match';
+}
+
 /**
  * Shuffles an array using Fisher-Yates algorithm
  * @param array - Array to shuffle
+ * @param random - Source of numbers in [0, 1); pass a seeded one for a repeatable order
  * @returns New shuffled array
  */
-export function shuffleArray<T>(array: T[]): T[] {
+export function shuffleArray<T>(array: T[], random: () => number = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -45,7 +110,7 @@ export function shuffleArray<T>(array: T[]): T[] {
  * @param question - Question to randomize
  * @returns Question with shuffled options and updated correct answer index
  */
-export function randomizeQuestionOptions(question: TestQuestion): TestQuestion & { originalCorrectAnswer: number } {
+export function randomizeQuestionOptions(question: TestQuestion): TestQuestion & { originalCorrectAnswer?: number } {
   // Create array of options with their original indices
   const optionsWithIndices = question.options.map((option, index) => ({
     text: option,
@@ -83,14 +148,271 @@ export function randomizeTestQuestions(sections: TestSection[]): TestSection[] {
 /**
  * Calculates total marks for a test
  * @param sections - Test sections
+ * @param testScheme - Test-level marking scheme, if any
  * @returns Total marks
  */
-export function calculateTotalMarks(sections: TestSection[]): number {
-  return sections.reduce((total, section) => 
-    total + section.questions.reduce((sectionTotal, question) => 
-      sectionTotal + question.marks, 0
-    ), 0
-  );
+export function calculateTotalMarks(sections: TestSection[], testScheme?: Partial<MarkingScheme>): number {
+  return sections.reduce((total, section) => {
+    const scheme = resolveMarkingScheme({ markingScheme: testScheme }, section);
+    return total + section.questions.reduce((sectionTotal, question) => 
+      sectionTotal + getQuestionMarks(question, scheme), 0
+    );
+  }, 0);
+}
+
+/**
+ * Validates a marking scheme
+ * @param scheme - Marking scheme to validate
+ * @param label - Prefix for error messages
+ * @returns List of validation errors
+ */
+export function validateMarkingScheme(scheme: Partial<MarkingScheme> | undefined, label: string): string[] {
+  const errors: string[] = [];
+  if (!scheme) return errors;
+
+  if (scheme.positiveMarks !== undefined && scheme.positiveMarks !== null && scheme.positiveMarks <= 0) {
+    errors.push(`${label}: Positive marks must be greater than 0`);
+  }
+
+  if (scheme.negativeFraction !== undefined && (scheme.negativeFraction < 0 || scheme.negativeFraction > 1)) {
+    errors.push(`${label}: Negative marking fraction must be between 0 and 1`);
+  }
+
+  if (scheme.unansweredMarks !== undefined && scheme.unansweredMarks > 0) {
+    errors.push(`${label}: Unanswered questions cannot earn marks`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a test's attempt limit and retake cooldown
+ * @returns List of validation errors
+ */
+export function validateAttemptPolicy(
+  policy: Pick<
+    Partial<MockTestData>,
+    'maxAttempts' | 'retakeCooldownMinutes' | 'solutionsAfterFinalAttempt' | 'maxViolations' | 'practiceMode' | 'practiceQuestionSeconds' | 'startsAt'
+  >
+): string[] {
+  const errors: string[] = [];
+
+  if (policy.maxAttempts !== undefined && (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 0)) {
+    errors.push('Maximum attempts must be a whole number (0 for unlimited)');
+  }
+
+  if (policy.retakeCooldownMinutes !== undefined && (typeof policy.retakeCooldownMinutes !== 'number' || policy.retakeCooldownMinutes < 0)) {
+    errors.push('Retake cooldown must be 0 or more minutes');
+  }
+
+  if (policy.solutionsAfterFinalAttempt && !policy.maxAttempts) {
+    errors.push('Solutions can only be held back until the final attempt when attempts are limited');
+  }
+
+  if (policy.maxViolations !== undefined && (!Number.isInteger(policy.maxViolations) || policy.maxViolations < 0)) {
+    errors.push('Violation limit must be a whole number (0 to only record violations)');
+  }
+
+  if (policy.practiceMode !== undefined && !['off', 'optional', 'only'].includes(policy.practiceMode)) {
+    errors.push('Practice mode must be off, optional or only');
+  }
+
+  if (policy.practiceQuestionSeconds !== undefined
+    && (!Number.isInteger(policy.practiceQuestionSeconds) || policy.practiceQuestionSeconds < 0)) {
+    errors.push('Practice question timer must be a whole number of seconds (0 for none)');
+  }
+
+  // Practice reveals answers, so it cannot coexist with withheld solutions or a live exam
+  if (policy.practiceMode && policy.practiceMode !== 'off' && policy.solutionsAfterFinalAttempt) {
+    errors.push('Solutions cannot be held back when practice mode is on');
+  }
+
+  if (policy.practiceMode === 'only' && policy.startsAt) {
+    errors.push('Practice-only tests cannot be scheduled');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a scheduled test's entry window, end time and result release time
+ * @returns List of validation errors
+ */
+export function validateTestSchedule(
+  schedule: Pick<Partial<MockTestData>, 'startsAt' | 'lateEntryUntil' | 'endsAt' | 'resultsReleaseAt'>
+): string[] {
+  const [startsAt, lateEntryUntil, endsAt, resultsReleaseAt] = [
+    schedule.startsAt,
+    schedule.lateEntryUntil,
+    schedule.endsAt,
+    schedule.resultsReleaseAt,
+  ].map(value => (value ? new Date(value) : null));
+
+  if ([startsAt, lateEntryUntil, endsAt, resultsReleaseAt].some(date => date && Number.isNaN(date.getTime()))) {
+    return ['Schedule times must be valid dates'];
+  }
+
+  const errors: string[] = [];
+
+  if (!startsAt && (lateEntryUntil || endsAt)) {
+    errors.push('Scheduled tests need a start time');
+  }
+
+  if (startsAt && !endsAt) {
+    errors.push('Scheduled tests need an end time');
+  }
+
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.push('End time must be after the start time');
+  }
+
+  if (lateEntryUntil && ((startsAt && lateEntryUntil < startsAt) || (endsAt && lateEntryUntil > endsAt))) {
+    errors.push('Late entry cutoff must fall between the start and end times');
+  }
+
+  if (resultsReleaseAt && endsAt && resultsReleaseAt < endsAt) {
+    errors.push('Results cannot be released before the test ends');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a question's options and answer key for its type
+ * @param question - Question to validate
+ * @param label - Prefix for error messages
+ * @returns List of validation errors
+ */
+export function validateQuestionAnswer(question: Partial<TestQuestion>, label: string): string[] {
+  const errors: string[] = [];
+  const type = question.type || 'mcq';
+  const options = Array.isArray(question.options) ? question.options : [];
+  const isOptionIndex = (value: unknown) =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < options.length;
+
+  if (!QUESTION_TYPE_LABELS[type]) {
+    errors.push(`${label}: Unknown question type "${type}"`);
+    return errors;
+  }
+
+  if (type === 'numeric') {
+    if (typeof question.numericAnswer !== 'number' || !Number.isFinite(question.numericAnswer)) {
+      errors.push(`${label}: Numeric answer is required`);
+    }
+    if (question.tolerance !== undefined && (typeof question.tolerance !== 'number' || question.tolerance < 0)) {
+      errors.push(`${label}: Tolerance must be 0 or greater`);
+    }
+    return errors;
+  }
+
+  if (type === 'true-false') {
+    if (options.length !== 2) {
+      errors.push(`${label}: True/false questions need exactly 2 options`);
+    }
+  } else if (options.length < 2) {
+    errors.push(`${label}: At least 2 options are required`);
+  }
+
+  switch (type) {
+    case 'multiple': {
+      const correctAnswers = question.correctAnswers || [];
+      if (correctAnswers.length === 0) {
+        errors.push(`${label}: At least one correct option is required`);
+      } else if (!correctAnswers.every(isOptionIndex) || new Set(correctAnswers).size !== correctAnswers.length) {
+        errors.push(`${label}: Invalid correct option indexes`);
+      }
+      break;
+    }
+
+    case 'match': {
+      const matchItems = question.matchItems || [];
+      const correctMatches = question.correctMatches || [];
+      if (matchItems.length < 2 || matchItems.some(item => !item?.trim())) {
+        errors.push(`${label}: At least 2 items to match are required`);
+      }
+      if (correctMatches.length !== matchItems.length || !correctMatches.every(isOptionIndex)) {
+        errors.push(`${label}: Every item needs a valid matching option`);
+      }
+      break;
+    }
+
+    case 'assertion-reason':
+      if (!question.reason?.trim()) {
+        errors.push(`${label}: Reason statement is required`);
+      }
+      if (!isOptionIndex(question.correctAnswer)) {
+        errors.push(`${label}: Invalid correct answer index`);
+      }
+      break;
+
+    default:
+      if (!isOptionIndex(question.correctAnswer)) {
+        errors.push(`${label}: Invalid correct answer index`);
+      }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a question's optional Hindi version against its English version
+ * @param question - Question to validate
+ * @param label - Prefix for error messages
+ * @returns List of validation errors
+ */
+export function validateQuestionTranslation(question: Partial<TestQuestion>, label: string): string[] {
+  const errors: string[] = [];
+  const hindi = question.hindi;
+
+  if (!hindi) return errors;
+
+  if (!hindi.text?.trim()) {
+    errors.push(`${label}: Hindi question text is required`);
+    return errors;
+  }
+
+  const isTranslationOf = (translated: string[] | undefined, original: string[] | undefined) =>
+    !translated?.length || translated.length === (original || []).length;
+
+  if (!isTranslationOf(hindi.options, question.options)) {
+    errors.push(`${label}: Hindi options must match the English options`);
+  }
+
+  if (!isTranslationOf(hindi.matchItems, question.matchItems)) {
+    errors.push(`${label}: Hindi items to match must match the English items`);
+  }
+
+  if (question.type === 'assertion-reason' && !hindi.reason?.trim()) {
+    errors.push(`${label}: Hindi reason statement is required`);
+  }
+
+  return errors;
+}
+
+/**
+ * Every piece of a question's wording that holds rich content, in both languages
+ */
+export function getQuestionWording(question: Partial<TestQuestion>): string[] {
+  return [question, question.hindi].flatMap(version => (version ? [
+    version.text,
+    version.reason,
+    version.explanation,
+    ...(version.options || []),
+    ...(version.matchItems || []),
+  ] : [])).filter((text): text is string => !!text);
+}
+
+/**
+ * Validates the image, table and math markup in a question's wording, in both languages
+ * @param question - Question to validate
+ * @param label - Prefix for error messages
+ * @param saved - Wording already stored; it is not re-checked, so content saved under older markup rules stays editable
+ * @returns List of validation errors
+ */
+export function validateQuestionContent(question: Partial<TestQuestion>, label: string, saved?: Set<string>): string[] {
+  const wording = getQuestionWording(question).filter(text => !saved?.has(text));
+
+  return Array.from(new Set(wording.flatMap(text => validateRichContent(text)))).map(error => `${label}: ${error}`);
 }
 
 /**
@@ -126,6 +448,10 @@ export function validateTestStructure(testData: Partial<MockTestData>): { isVali
     errors.push('Test price must be 0 or greater');
   }
 
+  errors.push(...validateMarkingScheme(testData.markingScheme, 'Marking scheme'));
+  errors.push(...validateAttemptPolicy(testData));
+  errors.push(...validateTestSchedule(testData));
+
   if (!testData.sections || !Array.isArray(testData.sections) || testData.sections.length === 0) {
     errors.push('At least one section is required');
   } else {
@@ -134,6 +460,12 @@ export function validateTestStructure(testData: Partial<MockTestData>): { isVali
         errors.push(`Section ${sectionIndex + 1}: Title is required`);
       }
 
+      errors.push(...validateMarkingScheme(section.markingScheme, `Section ${sectionIndex + 1} marking scheme`));
+
+      if (testData.sectionalTiming && (!section.timeLimit || section.timeLimit <= 0)) {
+        errors.push(`Section ${sectionIndex + 1}: Time limit is required for sectional timing`);
+      }
+
       if (!section.questions || !Array.isArray(section.questions) || section.questions.length === 0) {
         errors.push(`Section ${sectionIndex + 1}: At least one question is required`);
       } else {
@@ -142,13 +474,9 @@ export function validateTestStructure(testData: Partial<MockTestData>): { isVali
             errors.push(`Section ${sectionIndex + 1}, Question ${questionIndex + 1}: Question text is required`);
           }
 
-          if (!question.options || !Array.isArray(question.options) || question.options.length < 2) {
-            errors.push(`Section ${sectionIndex + 1}, Question ${questionIndex + 1}: At least 2 options are required`);
-          }
-
-          if (question.correctAnswer < 0 || question.correctAnswer >= question.options.length) {
-            errors.push(`Section ${sectionIndex + 1}, Question ${questionIndex + 1}: Invalid correct answer index`);
-          }
+          errors.push(...validateQuestionAnswer(question, `Section ${sectionIndex + 1}, Question ${questionIndex + 1}`));
+          errors.push(...validateQuestionTranslation(question, `Section ${sectionIndex + 1}, Question ${questionIndex + 1}`));
+          errors.push(...validateQuestionContent(question, `Section ${sectionIndex + 1}, Question ${questionIndex + 1}`));
 
           if (!question.marks || question.marks <= 0) {
             errors.push(`Section ${sectionIndex + 1}, Question ${questionIndex + 1}: Marks must be greater than 0`);
@@ -187,17 +515,18 @@ export function formatTestDuration(minutes: number): string {
 /**
  * Calculates test statistics
  * @param sections - Test sections
+ * @param testScheme - Test-level marking scheme, if any
  * @returns Test statistics object
  */
-export function calculateTestStats(sections: TestSection[]) {
+export function calculateTestStats(sections: TestSection[], testScheme?: Partial<MarkingScheme>) {
   const totalQuestions = calculateTotalQuestions(sections);
-  const totalMarks = calculateTotalMarks(sections);
+  const totalMarks = calculateTotalMarks(sections, testScheme);
   const sectionCount = sections.length;
   
   const questionsBySection = sections.map(section => ({
     title: section.title,
     questionCount: section.questions.length,
-    marks: section.questions.reduce((total, q) => total + q.marks, 0)
+    marks: calculateTotalMarks([section], testScheme)
   }));
 
   return {
@@ -0,0 +1,281 @@
+/**
+ * Topic Performance Utilities
+ * Builds a student's cumulative profile per subject and topic from their test attempts and course quizzes
+ */
+
+import MockTest, { TestAttempt } from '@/models/MockTest';
+import Course from '@/models/Course';
+import CourseProgress from '@/models/Progress';
+import BankQuestion from '@/models/BankQuestion';
+import { areResultsReleased } from './test-schedule';
+import { isAnswered } from './test-scoring';
+
+// Questions a topic needs attempted before it can be listed among the weakest
+export const WEAK_TOPIC_MIN_ATTEMPTED = 5;
+
+export const WEAKEST_TOPICS_LIMIT = 5;
+
+// Months of history kept in each trend
+export const TREND_MONTHS = 6;
+
+export interface TrendPoint {
+  month: string; // YYYY-MM
+  attempted: number;
+  accuracy: number; // 0-100
+}
+
+export interface PerformanceStats {
+  questions: number; // questions seen, attempted or not
+  attempted: number;
+  correct: number;
+  accuracy: number; // 0-100, share of attempted questions answered correctly
+  attemptRate: number; // 0-100, share of seen questions attempted
+  averageSeconds: number | null; // per attempted question, null when no time was recorded
+  trend: TrendPoint[]; // oldest month first
+}
+
+export interface TopicPerformance extends PerformanceStats {
+  subject: string;
+  topic: string;
+}
+
+export interface SubjectPerformance extends PerformanceStats {
+  subject: string;
+  topics: number;
+}
+
+export interface PerformanceProfile {
+  subjects: SubjectPerformance[];
+  topics: TopicPerformance[];
+  weakestTopics: TopicPerformance[];
+  untaggedQuestions: number; // questions seen without a subject and topic, left out of the profile
+}
+
+// One question a student saw in a test or quiz
+interface QuestionOutcome {
+  subject: string;
+  topic: string;
+  attempted: boolean;
+  correct: boolean;
+  timeSpent: number; // seconds, 0 when not recorded
+  answeredAt: Date;
+}
+
+interface Tally {
+  questions: number;
+  attempted: number;
+  correct: number;
+  timedAttempts: number;
+  timeSpent: number;
+  months: Map<string, { attempted: number; correct: number }>;
+}
+
+interface TopicTags {
+  subject?: string;
+  topic?: string;
+  bankQuestionId?: { toString(): string };
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const createTally = (): Tally => ({ questions: 0, attempted: 0, correct: 0, timedAttempts: 0, timeSpent: 0, months: new Map() });
+
+function addOutcome(tally: Tally, outcome: QuestionOutcome): void {
+  tally.questions++;
+  if (!outcome.attempted) return;
+
+  tally.attempted++;
+  if (outcome.correct) tally.correct++;
+  if (outcome.timeSpent > 0) {
+    tally.timedAttempts++;
+    tally.timeSpent += outcome.timeSpent;
+  }
+
+  const month = outcome.answeredAt.toISOString().slice(0, 7);
+  const entry = tally.months.get(month) || { attempted: 0, correct: 0 };
+  entry.attempted++;
+  if (outcome.correct) entry.correct++;
+  tally.months.set(month, entry);
+}
+
+function toStats(tally: Tally): PerformanceStats {
+  return {
+    questions: tally.questions,
+    attempted: tally.attempted,
+    correct: tally.correct,
+    accuracy: percent(tally.correct, tally.attempted),
+    attemptRate: percent(tally.attempted, tally.questions),
+    averageSeconds: tally.timedAttempts > 0 ? Math.round(tally.timeSpent / tally.timedAttempts) : null,
+    trend: Array.from(tally.months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(-TREND_MONTHS)
+      .map(([month, entry]) => ({ month, attempted: entry.attempted, accuracy: percent(entry.correct, entry.attempted) })),
+  };
+}
+
+// Tags of questions linked to the bank before tags were copied into tests and quizzes
+async function loadBankTags(questions: TopicTags[]): Promise<Map<string, TopicTags>> {
+  const ids = Array.from(new Set(
+    questions
+      .filter(question => question.bankQuestionId && !(question.subject && question.topic))
+      .map(question => question.bankQuestionId!.toString())
+  ));
+  if (ids.length === 0) return new Map();
+
+  const bankQuestions = await BankQuestion.find({ _id: { $in: ids } }).select('subject topic').lean();
+  return new Map(bankQuestions.map((question: any) => [question._id.toString(), question]));
+}
+
+function resolveTags(question: TopicTags, bankTags: Map<string, TopicTags>): { subject: string; topic: string } | null {
+  const fallback = question.bankQuestionId ? bankTags.get(question.bankQuestionId.toString()) : undefined;
+  const subject = (question.subject || fallback?.subject || '').trim();
+  const topic = (question.topic || fallback?.topic || '').trim();
+  return subject && topic ? { subject, topic } : null;
+}
+
+// Completed exam attempts with released results; practice attempts stay out like they do of averages
+async function collectTestOutcomes(userId: string): Promise<{ outcomes: QuestionOutcome[]; untagged: number }> {
+  const attempts: any[] = await TestAttempt.find({ userId, status: 'completed', mode: { $ne: 'practice' } })
+    .select('testId paper answers completedAt')
+    .lean();
+  if (attempts.length === 0) return { outcomes: [], untagged: 0 };
+
+  const tests: any[] = await MockTest.find({ _id: { $in: Array.from(new Set(attempts.map(attempt => attempt.testId.toString()))) } })
+    .select('sections resultsReleaseAt')
+    .lean();
+  const testsById = new Map(tests.map(test => [test._id.toString(), test]));
+  const bankTags = await loadBankTags(tests.flatMap(test => test.sections.flatMap((section: any) => section.questions)));
+
+  const outcomes: QuestionOutcome[] = [];
+  let untagged = 0;
+
+  attempts.forEach(attempt => {
+    const test = testsById.get(attempt.testId.toString());
+    if (!test || !areResultsReleased(test)) return;
+
+    const questionsById = new Map<string, any>();
+    test.sections.forEach((section: any) => section.questions.forEach((question: any) => {
+      questionsById.set(question._id.toString(), question);
+    }));
+
+    // Attempts drawn from a paper only saw its questions
+    const questionIds: string[] = attempt.paper?.length
+      ? attempt.paper.flatMap((section: any) => section.questions.map((entry: any) => entry.questionId.toString()))
+      : Array.from(questionsById.keys());
+    const answersById = new Map<string, any>(
+      (attempt.answers || []).map((answer: any) => [answer.questionId.toString(), answer])
+    );
+
+    questionIds.forEach(questionId => {
+      const question = questionsById.get(questionId);
+      // Bonus and dropped questions say nothing about the student
+      if (!question || question.resolution) return;
+
+      const tags = resolveTags(question, bankTags);
+      if (!tags) {
+        untagged++;
+        return;
+      }
+
+      const answer = answersById.get(questionId);
+      outcomes.push({
+        ...tags,
+        attempted: isAnswered(answer),
+        correct: !!answer?.isCorrect,
+        timeSpent: answer?.timeSpent || 0,
+        answeredAt: new Date(attempt.completedAt),
+      });
+    });
+  });
+
+  return { outcomes, untagged };
+}
+
+async function collectQuizOutcomes(userId: string): Promise<{ outcomes: QuestionOutcome[]; untagged: number }> {
+  const progressRecords: any[] = await CourseProgress.find({ userId, 'sectionsProgress.quizResults.0': { $exists: true } })
+    .select('courseId sectionsProgress.quizResults')
+    .lean();
+  if (progressRecords.length === 0) return { outcomes: [], untagged: 0 };
+
+  const courses: any[] = await Course.find({ _id: { $in: progressRecords.map(progress => progress.courseId) } })
+    .select('sections.quizzes.questions')
+    .lean();
+  const questionsById = new Map<string, any>();
+  courses.forEach(course => course.sections.forEach((section: any) => section.quizzes.forEach((quiz: any) =>
+    quiz.questions.forEach((question: any) => questionsById.set(question._id.toString(), question))
+  )));
+  const bankTags = await loadBankTags(Array.from(questionsById.values()));
+
+  const outcomes: QuestionOutcome[] = [];
+  let untagged = 0;
+
+  progressRecords.forEach(progress => progress.sectionsProgress.forEach((section: any) =>
+    (section.quizResults || []).forEach((result: any) => result.answers.forEach((answer: any) => {
+      const question = questionsById.get(answer.questionId.toString());
+      if (!question) return;
+
+      const tags = resolveTags(question, bankTags);
+      if (!tags) {
+        untagged++;
+        return;
+      }
+
+      outcomes.push({
+        ...tags,
+        attempted: answer.selectedOption >= 0,
+        correct: answer.isCorrect,
+        timeSpent: answer.timeSpent || 0,
+        answeredAt: new Date(result.completedAt),
+      });
+    }))
+  ));
+
+  return { outcomes, untagged };
+}
+
+// Weakest first: lowest accuracy, then lowest attempt rate, among topics with enough attempts to judge
+function pickWeakestTopics(topics: TopicPerformance[], limit: number): TopicPerformance[] {
+  return topics
+    .filter(topic => topic.attempted >= WEAK_TOPIC_MIN_ATTEMPTED)
+    .sort((a, b) => a.accuracy - b.accuracy || a.attemptRate - b.attemptRate || b.attempted - a.attempted)
+    .slice(0, limit);
+}
+
+/**
+ * Cumulative accuracy, attempt rate and speed of a student per subject and topic, across every
+ * completed test attempt and graded course quiz, with a monthly accuracy trend and the weakest topics
+ * @param limit - Number of weakest topics to list
+ */
+export async function getPerformanceProfile(userId: string, limit = WEAKEST_TOPICS_LIMIT): Promise<PerformanceProfile> {
+  const [tests, quizzes] = await Promise.all([collectTestOutcomes(userId), collectQuizOutcomes(userId)]);
+
+  const topicTallies = new Map<string, { subject: string; topic: string; tally: Tally }>();
+  const subjectTallies = new Map<string, { tally: Tally; topics: Set<string> }>();
+
+  [...tests.outcomes, ...quizzes.outcomes].forEach(outcome => {
+    const key = `${outcome.subject}\u0000${outcome.topic}`;
+    const topicEntry = topicTallies.get(key) || { subject: outcome.subject, topic: outcome.topic, tally: createTally() };
+    addOutcome(topicEntry.tally, outcome);
+    topicTallies.set(key, topicEntry);
+
+    const subjectEntry = subjectTallies.get(outcome.subject) || { tally: createTally(), topics: new Set<string>() };
+    addOutcome(subjectEntry.tally, outcome);
+    subjectEntry.topics.add(outcome.topic);
+    subjectTallies.set(outcome.subject, subjectEntry);
+  });
+
+  const topics = Array.from(topicTallies.values())
+    .map(({ subject, topic, tally }) => ({ subject, topic, ...toStats(tally) }))
+    .sort((a, b) => a.subject.localeCompare(b.subject) || a.topic.localeCompare(b.topic));
+
+  const subjects = Array.from(subjectTallies.entries())
+    .map(([subject, { tally, topics: subjectTopics }]) => ({ subject, topics: subjectTopics.size, ...toStats(tally) }))
+    .sort((a, b) => a.subject.localeCompare(b.subject));
+
+  return {
+    subjects,
+    topics,
+    weakestTopics: pickWeakestTopics([...topics], limit),
+    untaggedQuestions: tests.untagged + quizzes.untagged,
+  };
+}
@@ -0,0 +1,148 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { QuestionType, QUESTION_TYPES, IQuestionTranslation, QuestionTranslationSchema } from './MockTest';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionLanguage = 'en' | 'hi';
+
+// Question bank document interface
+export interface IBankQuestion extends Document {
+  _id: mongoose.Types.ObjectId;
+  type: QuestionType;
+  text: string;
+  options: string[];
+  correctAnswer?: number;
+  correctAnswers: number[];
+  numericAnswer?: number;
+  tolerance: number;
+  matchItems: string[];
+  correctMatches: number[];
+  reason?: string;
+  explanation?: string;
+  hindi?: IQuestionTranslation;
+  marks: number; // default marks when the question is added to a test
+  subject: string;
+  topic: string;
+  subtopic?: string;
+  difficulty: QuestionDifficulty;
+  examTags: string[];
+  sourceYear?: number;
+  language: QuestionLanguage;
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function hasSingleCorrectOption(this: IBankQuestion): boolean {
+  return !this.type || this.type === 'mcq' || this.type === 'true-false' || this.type === 'assertion-reason';
+}
+
+// Bank Question Schema
+const BankQuestionSchema = new Schema<IBankQuestion>({
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'mcq',
+  },
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  options: [{
+    type: String,
+    required: true,
+    trim: true,
+  }],
+  correctAnswer: {
+    type: Number,
+    required: hasSingleCorrectOption,
+    min: 0,
+  },
+  correctAnswers: [{
+    type: Number,
+    min: 0,
+  }],
+  numericAnswer: {
+    type: Number,
+  },
+  tolerance: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+  matchItems: [{
+    type: String,
+    trim: true,
+  }],
+  correctMatches: [{
+    type: Number,
+    min: 0,
+  }],
+  reason: {
+    type: String,
+    trim: true,
+  },
+  explanation: {
+    type: String,
+    trim: true,
+  },
+  hindi: QuestionTranslationSchema,
+  marks: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 1,
+  },
+  subject: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  topic: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  subtopic: {
+    type: String,
+    trim: true,
+  },
+  difficulty: {
+    type: String,
+    enum: ['easy', 'medium', 'hard'],
+    default: 'medium',
+  },
+  examTags: [{
+    type: String,
+    trim: true,
+  }],
+  sourceYear: {
+    type: Number,
+    min: 1900,
+  },
+  language: {
+    type: String,
+    enum: ['en', 'hi'],
+    default: 'en',
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+BankQuestionSchema.index({ subject: 1, topic: 1, subtopic: 1 });
+BankQuestionSchema.index({ difficulty: 1 });
+BankQuestionSchema.index({ examTags: 1 });
+BankQuestionSchema.index({ text: 'text', topic: 'text', subtopic: 'text' });
+
+export default mongoose.models.BankQuestion || mongoose.model<IBankQuestion>('BankQuestion', BankQuestionSchema);
@@ -27,6 +27,9 @@ export interface IQuestion extends Document {
   correctAnswer: number;
   explanation?: string;
   marks: number;
+  subject?: string;
+  topic?: string;
+  bankQuestionId?: mongoose.Types.ObjectId; // content is kept in sync with this question bank entry
 }
 
 // Quiz subdocument interface
@@ -143,6 +146,18 @@ const QuestionSchema = new Schema<IQuestion>({
     min: 0,
     default: 1,
   },
+  subject: {
+    type: String,
+    trim: true,
+  },
+  topic: {
+    type: String,
+    trim: true,
+  },
+  bankQuestionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BankQuestion',
+  },
 }, {
   _id: true,
 });
@@ -221,5 +236,6 @@ CourseSchema.index({ title: 1 });
 CourseSchema.index({ isActive: 1 });
 CourseSchema.index({ price: 1 });
 CourseSchema.index({ createdAt: -1 });
+CourseSchema.index({ 'sections.quizzes.questions.bankQuestionId': 1 });
 
 export default mongoose.models.Course || mongoose.model<ICourse>('Course', CourseSchema);
@@ -1,13 +1,53 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { RESERVATION_CATEGORIES, ReservationCategory } from './User';
+
+// Marking scheme interface (test-level, optionally overridden per section)
+export interface IMarkingScheme {
+  positiveMarks?: number; // overrides question marks when set
+  negativeFraction: number; // fraction of the question's marks deducted for a wrong answer
+  unansweredMarks: number;
+  allowPartialCredit: boolean;
+}
+
+// Supported question types
+export type QuestionType = 'mcq' | 'multiple' | 'numeric' | 'true-false' | 'match' | 'assertion-reason';
+
+export const QUESTION_TYPES: QuestionType[] = ['mcq', 'multiple', 'numeric', 'true-false', 'match', 'assertion-reason'];
+
+// How a question is scored after an erratum: bonus awards full marks to everyone, dropped removes it from the total
+export type QuestionResolution = 'bonus' | 'dropped';
+
+export const QUESTION_RESOLUTIONS: QuestionResolution[] = ['bonus', 'dropped'];
+
+// Hindi wording of a question (answer keys are shared with the English version)
+export interface IQuestionTranslation {
+  text: string;
+  options: string[]; // empty, or one per English option (blank entries fall back to English)
+  matchItems: string[];
+  reason?: string;
+  explanation?: string;
+}
 
 // Question subdocument interface
 export interface ITestQuestion extends Document {
   _id: mongoose.Types.ObjectId;
-  text: string;
-  options: string[];
-  correctAnswer: number;
+  type: QuestionType;
+  text: string; // the assertion for assertion-reason questions
+  options: string[]; // right-hand column for match questions
+  correctAnswer?: number; // mcq, true-false and assertion-reason
+  correctAnswers: number[]; // multiple
+  numericAnswer?: number; // numeric
+  tolerance: number; // numeric: accepted absolute deviation
+  matchItems: string[]; // match: left-hand column
+  correctMatches: number[]; // match: correctMatches[item] = option index
+  reason?: string; // assertion-reason
   explanation?: string;
+  hindi?: IQuestionTranslation;
   marks: number;
+  subject?: string; // topic tags drive the student's topic-wise performance profile
+  topic?: string;
+  resolution?: QuestionResolution;
+  bankQuestionId?: mongoose.Types.ObjectId; // content is kept in sync with this question bank entry
 }
 
 // Test section subdocument interface
@@ -16,6 +56,40 @@ export interface ITestSection extends Document {
   title: string;
   questions: ITestQuestion[];
   timeLimit?: number;
+  markingScheme?: IMarkingScheme;
+}
+
+// Which attempt of each student counts on the leaderboard
+export type RankingPolicy = 'first' | 'best';
+
+// Whether students may take a test in practice mode: answers checked as they go, no overall timer, never ranked
+export type PracticeModePolicy = 'off' | 'optional' | 'only';
+
+export const PRACTICE_MODE_POLICIES: PracticeModePolicy[] = ['off', 'optional', 'only'];
+
+// Qualifying marks for one reservation category; the general row applies to categories without their own
+export interface ISectionCutoff {
+  sectionId: mongoose.Types.ObjectId;
+  marks: number;
+}
+
+export interface ICategoryCutoff {
+  category: ReservationCategory;
+  overall?: number;
+  sections: ISectionCutoff[];
+}
+
+// Progress of the latest re-score of completed attempts after an answer key change
+export interface IRescoreStatus {
+  status: 'running' | 'completed' | 'failed';
+  reason: string;
+  startedAt: Date;
+  heartbeatAt?: Date; // last time the running pass saved progress
+  completedAt?: Date;
+  attemptsRescored: number;
+  attemptsChanged: number; // attempts whose score changed
+  pendingReason?: string; // follow-up re-score requested while this one was running
+  error?: string;
 }
 
 // Mock test document interface
@@ -25,6 +99,23 @@ export interface IMockTest extends Document {
   description: string;
   duration: number; // in minutes
   sections: ITestSection[];
+  markingScheme: IMarkingScheme;
+  sectionalTiming: boolean; // each section runs on its own timer with locked navigation
+  evaluateMarkedAnswers: boolean; // whether answered questions still marked for review are scored
+  rankingPolicy: RankingPolicy;
+  maxAttempts: number; // 0 for unlimited
+  retakeCooldownMinutes: number; // wait between finishing one attempt and starting the next
+  solutionsAfterFinalAttempt: boolean; // hide solutions until every allowed attempt is used
+  startsAt?: Date; // scheduled (live) tests open at this time
+  lateEntryUntil?: Date; // last moment a scheduled test can be started (defaults to endsAt)
+  endsAt?: Date; // attempts still running at this time are auto-submitted
+  resultsReleaseAt?: Date; // scores and solutions are withheld until this time
+  proctored: boolean; // fullscreen is enforced and suspicious activity is recorded
+  maxViolations: number; // proctoring events before the attempt is auto-submitted, 0 to only record
+  practiceMode: PracticeModePolicy;
+  practiceQuestionSeconds: number; // per-question timer in practice mode, 0 for none
+  cutoffs: ICategoryCutoff[];
+  rescore?: IRescoreStatus;
   price: number;
   isActive: boolean;
   createdAt: Date;
@@ -36,8 +127,56 @@ export interface IAnswer extends Document {
   _id: mongoose.Types.ObjectId;
   questionId: mongoose.Types.ObjectId;
   selectedOption: number;
+  selectedOptions: number[]; // multiple
+  numericAnswer?: number; // numeric
+  matches: number[]; // match: matches[item] = option index, -1 when unmatched
   isCorrect: boolean;
   marksAwarded: number;
+  timeSpent: number; // seconds the question was on screen
+  visits: number;
+}
+
+// Per-attempt question permutation (optionOrder[displayedIndex] = original option index)
+export interface IAttemptQuestion {
+  questionId: mongoose.Types.ObjectId;
+  optionOrder: number[];
+}
+
+// Per-attempt section layout
+export interface IAttemptSection {
+  sectionId: mongoose.Types.ObjectId;
+  questions: IAttemptQuestion[];
+  closedAt?: Date; // set when the student leaves a timed section early
+}
+
+export type TestAttemptStatus = 'in-progress' | 'completed';
+
+// Exam attempts are timed and ranked; practice attempts check each answer on request and stay off leaderboards
+export type AttemptMode = 'exam' | 'practice';
+
+export const ATTEMPT_MODES: AttemptMode[] = ['exam', 'practice'];
+
+// Suspicious activity recorded by the attempt UI of proctored tests
+export type ProctoringEventType = 'tab-switch' | 'window-blur' | 'copy' | 'paste' | 'fullscreen-exit';
+
+export const PROCTORING_EVENT_TYPES: ProctoringEventType[] = ['tab-switch', 'window-blur', 'copy', 'paste', 'fullscreen-exit'];
+
+export interface IProctoringEvent {
+  type: ProctoringEventType;
+  occurredAt: Date; // client time, clamped to the attempt window
+  recordedAt: Date;
+}
+
+export type AutoSubmitReason = 'time' | 'violations';
+
+// A score change made after the attempt was completed (errata re-evaluation)
+export interface IScoreRevision {
+  previousScore: number;
+  previousTotalMarks: number;
+  score: number;
+  totalMarks: number;
+  reason: string;
+  revisedAt: Date;
 }
 
 // Test attempt document interface
@@ -45,7 +184,20 @@ export interface ITestAttempt extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
   testId: mongoose.Types.ObjectId;
+  status: TestAttemptStatus;
+  mode: AttemptMode;
+  startedAt: Date;
+  deadline?: Date; // unset for practice attempts, which have no overall time limit
+  paper: IAttemptSection[];
+  lastSavedAt?: Date;
+  autoSubmitted: boolean;
+  autoSubmitReason?: AutoSubmitReason;
+  proctoringEvents: IProctoringEvent[];
+  revisions: IScoreRevision[];
   answers: IAnswer[];
+  visitedQuestions: mongoose.Types.ObjectId[];
+  markedQuestions: mongoose.Types.ObjectId[]; // marked for review
+  checkedQuestions: mongoose.Types.ObjectId[]; // practice: answers checked and locked
   score: number;
   totalMarks: number;
   timeSpent: number; // in minutes
@@ -54,8 +206,135 @@ export interface ITestAttempt extends Document {
   updatedAt: Date;
 }
 
+// Marking Scheme Schema
+const MarkingSchemeSchema = new Schema<IMarkingScheme>({
+  positiveMarks: {
+    type: Number,
+    min: 0,
+  },
+  negativeFraction: {
+    type: Number,
+    min: 0,
+    max: 1,
+    default: 0,
+  },
+  unansweredMarks: {
+    type: Number,
+    default: 0,
+  },
+  allowPartialCredit: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  _id: false,
+});
+
+export const QuestionTranslationSchema = new Schema<IQuestionTranslation>({
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  options: [{
+    type: String,
+    trim: true,
+  }],
+  matchItems: [{
+    type: String,
+    trim: true,
+  }],
+  reason: {
+    type: String,
+    trim: true,
+  },
+  explanation: {
+    type: String,
+    trim: true,
+  },
+}, {
+  _id: false,
+});
+
+function hasSingleCorrectOption(this: ITestQuestion): boolean {
+  return !this.type || this.type === 'mcq' || this.type === 'true-false' || this.type === 'assertion-reason';
+}
+
+// Rescore Status Schema
+const RescoreStatusSchema = new Schema<IRescoreStatus>({
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    required: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+  },
+  startedAt: {
+    type: Date,
+    required: true,
+  },
+  heartbeatAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+  attemptsRescored: {
+    type: Number,
+    default: 0,
+  },
+  attemptsChanged: {
+    type: Number,
+    default: 0,
+  },
+  pendingReason: {
+    type: String,
+    trim: true,
+  },
+  error: {
+    type: String,
+  },
+}, {
+  _id: false,
+});
+
+// Cutoff Schemas
+const SectionCutoffSchema = new Schema<ISectionCutoff>({
+  sectionId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  marks: {
+    type: Number,
+    required: true,
+  },
+}, {
+  _id: false,
+});
+
+const CategoryCutoffSchema = new Schema<ICategoryCutoff>({
+  category: {
+    type: String,
+    enum: RESERVATION_CATEGORIES,
+    required: true,
+  },
+  overall: {
+    type: Number,
+  },
+  sections: [SectionCutoffSchema],
+}, {
+  _id: false,
+});
+
 // Test Question Schema
 const TestQuestionSchema = new Schema<ITestQuestion>({
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'mcq',
+  },
   text: {
     type: String,
     required: true,
@@ -68,19 +347,60 @@ const TestQuestionSchema = new Schema<ITestQuestion>({
   }],
   correctAnswer: {
     type: Number,
-    required: true,
+    required: hasSingleCorrectOption,
+    min: 0,
+  },
+  correctAnswers: [{
+    type: Number,
+    min: 0,
+  }],
+  numericAnswer: {
+    type: Number,
+  },
+  tolerance: {
+    type: Number,
     min: 0,
+    default: 0,
+  },
+  matchItems: [{
+    type: String,
+    trim: true,
+  }],
+  correctMatches: [{
+    type: Number,
+    min: 0,
+  }],
+  reason: {
+    type: String,
+    trim: true,
   },
   explanation: {
     type: String,
     trim: true,
   },
+  hindi: QuestionTranslationSchema,
   marks: {
     type: Number,
     required: true,
     min: 0,
     default: 1,
   },
+  subject: {
+    type: String,
+    trim: true,
+  },
+  topic: {
+    type: String,
+    trim: true,
+  },
+  resolution: {
+    type: String,
+    enum: QUESTION_RESOLUTIONS,
+  },
+  bankQuestionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BankQuestion',
+  },
 }, {
   _id: true,
 });
@@ -97,6 +417,7 @@ const TestSectionSchema = new Schema<ITestSection>({
     type: Number,
     min: 1,
   },
+  markingScheme: MarkingSchemeSchema,
 }, {
   _id: true,
 });
@@ -121,6 +442,70 @@ const MockTestSchema = new Schema<IMockTest>({
     min: 1,
   },
   sections: [TestSectionSchema],
+  markingScheme: {
+    type: MarkingSchemeSchema,
+    default: () => ({}),
+  },
+  sectionalTiming: {
+    type: Boolean,
+    default: false,
+  },
+  evaluateMarkedAnswers: {
+    type: Boolean,
+    default: true,
+  },
+  rankingPolicy: {
+    type: String,
+    enum: ['first', 'best'],
+    default: 'first',
+  },
+  maxAttempts: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+  retakeCooldownMinutes: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+  solutionsAfterFinalAttempt: {
+    type: Boolean,
+    default: false,
+  },
+  startsAt: {
+    type: Date,
+  },
+  lateEntryUntil: {
+    type: Date,
+  },
+  endsAt: {
+    type: Date,
+  },
+  resultsReleaseAt: {
+    type: Date,
+  },
+  proctored: {
+    type: Boolean,
+    default: false,
+  },
+  maxViolations: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+  practiceMode: {
+    type: String,
+    enum: PRACTICE_MODE_POLICIES,
+    default: 'off',
+  },
+  practiceQuestionSeconds: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+  cutoffs: [CategoryCutoffSchema],
+  rescore: RescoreStatusSchema,
   price: {
     type: Number,
     required: true,
@@ -143,21 +528,122 @@ const AnswerSchema = new Schema<IAnswer>({
   selectedOption: {
     type: Number,
     required: true,
+    min: -1, // -1 marks an unanswered question
+  },
+  selectedOptions: [{
+    type: Number,
     min: 0,
+  }],
+  numericAnswer: {
+    type: Number,
   },
+  matches: [{
+    type: Number,
+    min: -1,
+  }],
   isCorrect: {
     type: Boolean,
-    required: true,
+    default: false,
   },
   marksAwarded: {
     type: Number,
-    required: true,
+    default: 0,
+  },
+  timeSpent: {
+    type: Number,
     min: 0,
+    default: 0,
+  },
+  visits: {
+    type: Number,
+    min: 0,
+    default: 0,
   },
 }, {
   _id: true,
 });
 
+// Attempt Question Schema
+const AttemptQuestionSchema = new Schema<IAttemptQuestion>({
+  questionId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  optionOrder: [{
+    type: Number,
+    min: 0,
+  }],
+}, {
+  _id: false,
+});
+
+// Attempt Section Schema
+const AttemptSectionSchema = new Schema<IAttemptSection>({
+  sectionId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  questions: [AttemptQuestionSchema],
+  closedAt: {
+    type: Date,
+  },
+}, {
+  _id: false,
+});
+
+// Proctoring Event Schema
+const ProctoringEventSchema = new Schema<IProctoringEvent>({
+  type: {
+    type: String,
+    enum: PROCTORING_EVENT_TYPES,
+    required: true,
+  },
+  occurredAt: {
+    type: Date,
+    required: true,
+  },
+  recordedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  _id: false,
+});
+
+// Score Revision Schema
+const ScoreRevisionSchema = new Schema<IScoreRevision>({
+  previousScore: {
+    type: Number,
+    required: true,
+  },
+  previousTotalMarks: {
+    type: Number,
+    required: true,
+  },
+  score: {
+    type: Number,
+    required: true,
+  },
+  totalMarks: {
+    type: Number,
+    required: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+  },
+  revisedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  _id: false,
+});
+
+function isCompletedAttempt(this: ITestAttempt): boolean {
+  return this.status === 'completed';
+}
+
 // Test Attempt Schema
 const TestAttemptSchema = new Schema<ITestAttempt>({
   userId: {
@@ -170,25 +656,63 @@ const TestAttemptSchema = new Schema<ITestAttempt>({
     ref: 'MockTest',
     required: true,
   },
+  status: {
+    type: String,
+    enum: ['in-progress', 'completed'],
+    default: 'completed',
+  },
+  mode: {
+    type: String,
+    enum: ATTEMPT_MODES,
+    default: 'exam',
+  },
+  startedAt: {
+    type: Date,
+  },
+  deadline: {
+    type: Date,
+  },
+  paper: [AttemptSectionSchema],
+  lastSavedAt: {
+    type: Date,
+  },
+  autoSubmitted: {
+    type: Boolean,
+    default: false,
+  },
+  autoSubmitReason: {
+    type: String,
+    enum: ['time', 'violations'],
+  },
+  proctoringEvents: [ProctoringEventSchema],
+  revisions: [ScoreRevisionSchema],
   answers: [AnswerSchema],
+  visitedQuestions: [{
+    type: Schema.Types.ObjectId,
+  }],
+  markedQuestions: [{
+    type: Schema.Types.ObjectId,
+  }],
+  checkedQuestions: [{
+    type: Schema.Types.ObjectId,
+  }],
   score: {
     type: Number,
-    required: true,
-    min: 0,
+    required: isCompletedAttempt,
   },
   totalMarks: {
     type: Number,
-    required: true,
+    required: isCompletedAttempt,
     min: 0,
   },
   timeSpent: {
     type: Number,
-    required: true,
+    required: isCompletedAttempt,
     min: 0,
   },
   completedAt: {
     type: Date,
-    required: true,
+    required: isCompletedAttempt,
   },
 }, {
   timestamps: true,
@@ -199,6 +723,8 @@ MockTestSchema.index({ title: 1 });
 MockTestSchema.index({ isActive: 1 });
 MockTestSchema.index({ price: 1 });
 MockTestSchema.index({ createdAt: -1 });
+MockTestSchema.index({ startsAt: 1 });
+MockTestSchema.index({ 'sections.questions.bankQuestionId': 1 });
 
 // Indexes for TestAttempt
 TestAttemptSchema.index({ userId: 1 });
@@ -210,6 +736,15 @@ TestAttemptSchema.index({ score: -1 });
 TestAttemptSchema.index({ userId: 1, testId: 1 });
 TestAttemptSchema.index({ userId: 1, completedAt: -1 });
 TestAttemptSchema.index({ testId: 1, score: -1 });
+TestAttemptSchema.index({ testId: 1, mode: 1, status: 1 });
+TestAttemptSchema.index({ status: 1, deadline: 1 });
+TestAttemptSchema.index({ userId: 1, 'revisions.revisedAt': -1 });
+
+// At most one in-progress attempt per user and test
+TestAttemptSchema.index(
+  { userId: 1, testId: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: 'in-progress' } }
+);
 
 export const MockTest = mongoose.models.MockTest || mongoose.model<IMockTest>('MockTest', MockTestSchema);
 export const TestAttempt = mongoose.models.TestAttempt || mongoose.model<ITestAttempt>('TestAttempt', TestAttemptSchema);
@@ -3,7 +3,7 @@ import mongoose, { Document, Schema } from 'mongoose';
 // Order item subdocument interface
 export interface IOrderItem extends Document {
   _id: mongoose.Types.ObjectId;
-  type: 'course' | 'book' | 'material' | 'test';
+  type: 'course' | 'book' | 'material' | 'test' | 'test-series';
   itemId: mongoose.Types.ObjectId;
   price: number;
   title: string;
@@ -33,7 +33,7 @@ export interface IOrder extends Document {
 const OrderItemSchema = new Schema<IOrderItem>({
   type: {
     type: String,
-    enum: ['course', 'book', 'material', 'test'],
+    enum: ['course', 'book', 'material', 'test', 'test-series'],
     required: true,
   },
   itemId: {
@@ -12,6 +12,23 @@ export interface IVideoProgress extends Document {
   watchCount: number;
 }
 
+// Quiz Answer interface (graded on the server against the course's answer key)
+export interface IQuizAnswer {
+  questionId: mongoose.Types.ObjectId;
+  selectedOption: number; // -1 when skipped
+  isCorrect: boolean;
+  timeSpent: number; // in seconds
+}
+
+// Quiz Result interface, one per submission
+export interface IQuizResult {
+  quizId: mongoose.Types.ObjectId;
+  answers: IQuizAnswer[];
+  score: number;
+  totalMarks: number;
+  completedAt: Date;
+}
+
 // Section Progress interface
 export interface ISectionProgress extends Document {
   _id: mongoose.Types.ObjectId;
@@ -19,6 +36,7 @@ export interface ISectionProgress extends Document {
   videosProgress: IVideoProgress[];
   materialsAccessed: mongoose.Types.ObjectId[];
   quizzesCompleted: mongoose.Types.ObjectId[];
+  quizResults: IQuizResult[];
   completionPercentage: number; // 0-100
   isCompleted: boolean;
   lastAccessedAt: Date;
@@ -83,6 +101,53 @@ const VideoProgressSchema = new Schema<IVideoProgress>({
   timestamps: false
 });
 
+// Quiz Answer Schema
+const QuizAnswerSchema = new Schema<IQuizAnswer>({
+  questionId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  selectedOption: {
+    type: Number,
+    default: -1
+  },
+  isCorrect: {
+    type: Boolean,
+    default: false
+  },
+  timeSpent: {
+    type: Number,
+    min: 0,
+    default: 0
+  }
+}, {
+  _id: false
+});
+
+// Quiz Result Schema
+const QuizResultSchema = new Schema<IQuizResult>({
+  quizId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'Quiz'
+  },
+  answers: [QuizAnswerSchema],
+  score: {
+    type: Number,
+    default: 0
+  },
+  totalMarks: {
+    type: Number,
+    default: 0
+  },
+  completedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
 // Section Progress Schema
 const SectionProgressSchema = new Schema<ISectionProgress>({
   sectionId: {
@@ -99,6 +164,7 @@ const SectionProgressSchema = new Schema<ISectionProgress>({
     type: Schema.Types.ObjectId,
     ref: 'Quiz'
   }],
+  quizResults: [QuizResultSchema],
   completionPercentage: {
     type: Number,
     required: true,
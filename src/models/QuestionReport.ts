@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type QuestionReportReason = 'wrong-key' | 'wrong-question' | 'ambiguous' | 'typo' | 'other';
+
+export type QuestionReportStatus = 'open' | 'accepted' | 'rejected';
+
+// How an admin resolved the reports on a question
+export type ErrataAction = 'key-changed' | 'bonus' | 'dropped' | 'restored' | 'corrected' | 'rejected';
+
+export const QUESTION_REPORT_REASONS: QuestionReportReason[] = ['wrong-key', 'wrong-question', 'ambiguous', 'typo', 'other'];
+
+export const ERRATA_ACTIONS: ErrataAction[] = ['key-changed', 'bonus', 'dropped', 'restored', 'corrected', 'rejected'];
+
+// Question report document interface
+export interface IQuestionReport extends Document {
+  _id: mongoose.Types.ObjectId;
+  testId: mongoose.Types.ObjectId;
+  questionId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  attemptId?: mongoose.Types.ObjectId;
+  reason: QuestionReportReason;
+  message?: string;
+  status: QuestionReportStatus;
+  action?: ErrataAction;
+  adminNote?: string; // shown to the student once resolved
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Question Report Schema
+const QuestionReportSchema = new Schema<IQuestionReport>({
+  testId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MockTest',
+    required: true,
+  },
+  questionId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  attemptId: {
+    type: Schema.Types.ObjectId,
+    ref: 'TestAttempt',
+  },
+  reason: {
+    type: String,
+    enum: QUESTION_REPORT_REASONS,
+    required: true,
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  status: {
+    type: String,
+    enum: ['open', 'accepted', 'rejected'],
+    default: 'open',
+  },
+  action: {
+    type: String,
+    enum: ERRATA_ACTIONS,
+  },
+  adminNote: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  resolvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  resolvedAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+QuestionReportSchema.index({ status: 1, createdAt: -1 });
+QuestionReportSchema.index({ testId: 1, questionId: 1, status: 1 });
+// One open report per student and question
+QuestionReportSchema.index(
+  { userId: 1, questionId: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+);
+
+export default mongoose.models.QuestionReport || mongoose.model<IQuestionReport>('QuestionReport', QuestionReportSchema);
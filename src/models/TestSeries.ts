@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A test in a series, with the date it opens to series buyers
+export interface ISeriesTest {
+  testId: mongoose.Types.ObjectId;
+  releaseAt?: Date; // open immediately when unset
+}
+
+// Test series document interface
+export interface ITestSeries extends Document {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  description: string;
+  exam?: string; // e.g. "HP Patwari"
+  tests: ISeriesTest[];
+  price: number;
+  originalPrice?: number;
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Series Test Schema
+const SeriesTestSchema = new Schema<ISeriesTest>({
+  testId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MockTest',
+    required: true,
+  },
+  releaseAt: {
+    type: Date,
+  },
+}, {
+  _id: false,
+});
+
+// Test Series Schema
+const TestSeriesSchema = new Schema<ITestSeries>({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200,
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 2000,
+  },
+  exam: {
+    type: String,
+    trim: true,
+  },
+  tests: [SeriesTestSchema],
+  price: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  originalPrice: {
+    type: Number,
+    min: 0,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+TestSeriesSchema.index({ isActive: 1, createdAt: -1 });
+TestSeriesSchema.index({ 'tests.testId': 1 });
+
+export default mongoose.models.TestSeries || mongoose.model<ITestSeries>('TestSeries', TestSeriesSchema);
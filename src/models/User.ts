@@ -1,6 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+// Reservation category a student competes in; tests may set separate cutoffs per category
+export type ReservationCategory = 'general' | 'ews' | 'obc' | 'sc' | 'st';
+
+export const RESERVATION_CATEGORIES: ReservationCategory[] = ['general', 'ews', 'obc', 'sc', 'st'];
+
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   email: string;
@@ -10,8 +15,10 @@ export interface IUser extends Document {
   profile: {
     phone?: string;
     address?: string;
+    category?: ReservationCategory;
   };
   purchases: mongoose.Types.ObjectId[];
+  testSeries: mongoose.Types.ObjectId[]; // series unlocked by completed orders
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -49,15 +56,26 @@ const UserSchema = new Schema<IUser>({
       type: String,
       trim: true,
     },
+    category: {
+      type: String,
+      enum: RESERVATION_CATEGORIES,
+    },
   },
   purchases: [{
     type: Schema.Types.ObjectId,
     ref: 'Order',
   }],
+  testSeries: [{
+    type: Schema.Types.ObjectId,
+    ref: 'TestSeries',
+  }],
 }, {
   timestamps: true,
 });
 
+// Series buyers are looked up for series rankings
+UserSchema.index({ testSeries: 1 });
+
 // Hash password before saving
 UserSchema.pre('save', async function() {
   if (!this.isModified('password')) return;
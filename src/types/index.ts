@@ -1,4 +1,7 @@
 import { ObjectId } from 'mongoose';
+import type { MarkingScheme } from '@/lib/utils/test-scoring';
+
+export type { MarkingScheme };
 
 export interface User {
   _id: ObjectId;
@@ -83,7 +86,7 @@ export interface Order {
 }
 
 export interface OrderItem {
-  type: 'course' | 'book' | 'material' | 'test';
+  type: 'course' | 'book' | 'material' | 'test' | 'test-series';
   itemId: ObjectId;
   price: number;
   title: string;
@@ -95,6 +98,7 @@ export interface MockTest {
   description: string;
   duration: number;
   sections: TestSection[];
+  markingScheme: MarkingScheme;
   price: number;
   isActive: boolean;
   createdAt: Date;
@@ -105,6 +109,7 @@ export interface TestSection {
   title: string;
   questions: Question[];
   timeLimit?: number;
+  markingScheme?: MarkingScheme;
 }
 
 export interface TestAttempt {
@@ -121,7 +126,13 @@ export interface TestAttempt {
 export interface Answer {
   questionId: ObjectId;
   selectedOption: number;
+  selectedOptions?: number[];
+  numericAnswer?: number;
+  matches?: number[];
   isCorrect: boolean;
+  marksAwarded: number;
+  timeSpent?: number; // seconds
+  visits?: number;
 }
 
 export interface BlogPost {